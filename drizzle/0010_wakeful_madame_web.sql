@@ -0,0 +1,15 @@
+CREATE TABLE `audit_log` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int,
+	`userName` text,
+	`path` varchar(100) NOT NULL,
+	`entityType` varchar(50) NOT NULL,
+	`entityId` int,
+	`action` varchar(50) NOT NULL,
+	`changes` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `audit_log_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `audit_log_entity_idx` ON `audit_log` (`entityType`,`entityId`);--> statement-breakpoint
+CREATE INDEX `audit_log_user_idx` ON `audit_log` (`userId`);
\ No newline at end of file
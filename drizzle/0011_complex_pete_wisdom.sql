@@ -0,0 +1,15 @@
+CREATE TABLE `sequences` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`prefix` varchar(20) NOT NULL,
+	`fiscalYear` int NOT NULL,
+	`format` varchar(100) NOT NULL,
+	`lastValue` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `sequences_id` PRIMARY KEY(`id`),
+	CONSTRAINT `sequences_prefix_year_idx` UNIQUE(`prefix`,`fiscalYear`)
+);
+--> statement-breakpoint
+ALTER TABLE `biddings` ADD CONSTRAINT `biddings_biddingNumber_unique` UNIQUE(`biddingNumber`);--> statement-breakpoint
+ALTER TABLE `documents` ADD CONSTRAINT `documents_refNumber_unique` UNIQUE(`refNumber`);--> statement-breakpoint
+ALTER TABLE `program_of_works` ADD CONSTRAINT `program_of_works_powNumber_unique` UNIQUE(`powNumber`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `road_condition_surveys` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`roadId` int NOT NULL,
+	`surveyDate` date NOT NULL,
+	`kmStart` decimal(10,3) NOT NULL,
+	`kmEnd` decimal(10,3) NOT NULL,
+	`surfaceType` enum('Concrete','Asphalt','Gravel','Earth'),
+	`condition` enum('Good','Fair','Poor','Bad') NOT NULL,
+	`remarks` text,
+	`surveyedById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `road_condition_surveys_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `road_condition_surveys_road_date_idx` ON `road_condition_surveys` (`roadId`,`surveyDate`);
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE `equipment_service_plans` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`equipmentId` int NOT NULL,
+	`serviceType` varchar(150) NOT NULL,
+	`intervalHours` decimal(10,2),
+	`intervalDays` int,
+	`lastServiceDate` date,
+	`lastServiceHours` decimal(10,2),
+	`isActive` boolean NOT NULL DEFAULT true,
+	`notes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `equipment_service_plans_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `equipment_work_orders` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`equipmentId` int NOT NULL,
+	`servicePlanId` int,
+	`workOrderType` enum('Preventive','Repair','Inspection') NOT NULL,
+	`description` text NOT NULL,
+	`workOrderStatus` enum('Open','In Progress','Completed','Cancelled') NOT NULL DEFAULT 'Open',
+	`openedDate` date NOT NULL,
+	`completedDate` date,
+	`hourMeter` decimal(10,2),
+	`cost` decimal(15,2),
+	`performedBy` varchar(200),
+	`remarks` text,
+	`createdById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `equipment_work_orders_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `equipment_service_plans_equipment_idx` ON `equipment_service_plans` (`equipmentId`);--> statement-breakpoint
+CREATE INDEX `equipment_work_orders_equipment_idx` ON `equipment_work_orders` (`equipmentId`);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `fuel_issuances` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`slipNumber` varchar(50) NOT NULL,
+	`equipmentId` int NOT NULL,
+	`assignmentId` int,
+	`issueDate` date NOT NULL,
+	`liters` decimal(10,2) NOT NULL,
+	`odometerKm` decimal(12,1),
+	`hourMeter` decimal(10,2),
+	`issuedBy` varchar(200) NOT NULL,
+	`receivedBy` varchar(200),
+	`remarks` text,
+	`createdById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `fuel_issuances_id` PRIMARY KEY(`id`),
+	CONSTRAINT `fuel_issuances_slipNumber_unique` UNIQUE(`slipNumber`)
+);
+--> statement-breakpoint
+CREATE INDEX `fuel_issuances_equipment_date_idx` ON `fuel_issuances` (`equipmentId`,`issueDate`);--> statement-breakpoint
+CREATE INDEX `fuel_issuances_assignment_idx` ON `fuel_issuances` (`assignmentId`);
\ No newline at end of file
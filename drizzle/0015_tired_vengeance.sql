@@ -0,0 +1,23 @@
+CREATE TABLE `project_actual_progress` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`projectId` int NOT NULL,
+	`reportDate` date NOT NULL,
+	`actualPercent` decimal(5,2) NOT NULL,
+	`remarks` text,
+	`reportedById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `project_actual_progress_id` PRIMARY KEY(`id`),
+	CONSTRAINT `project_actual_progress_project_date_idx` UNIQUE(`projectId`,`reportDate`)
+);
+--> statement-breakpoint
+CREATE TABLE `project_planned_progress` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`projectId` int NOT NULL,
+	`periodDate` date NOT NULL,
+	`plannedPercent` decimal(5,2) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `project_planned_progress_id` PRIMARY KEY(`id`),
+	CONSTRAINT `project_planned_progress_project_date_idx` UNIQUE(`projectId`,`periodDate`)
+);
@@ -0,0 +1,18 @@
+CREATE TABLE `time_adjustments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`projectId` int NOT NULL,
+	`adjustmentType` enum('Extension','Suspension','Resumption') NOT NULL,
+	`orderNumber` varchar(50),
+	`effectiveDate` date NOT NULL,
+	`approvedDays` int,
+	`reasonCategory` enum('Rain/Unworkable Weather','Right-of-Way','Peace and Order','Design Changes','Delayed Payment','Force Majeure','Other'),
+	`reason` text,
+	`approvalDate` date,
+	`approvedBy` varchar(200),
+	`createdById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `time_adjustments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `time_adjustments_project_idx` ON `time_adjustments` (`projectId`,`effectiveDate`);
\ No newline at end of file
@@ -0,0 +1,51 @@
+CREATE TABLE `variation_order_approvals` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`variationOrderId` int NOT NULL,
+	`step` int NOT NULL,
+	`stepTitle` varchar(100) NOT NULL,
+	`action` enum('Approved','Rejected') NOT NULL,
+	`approverId` int,
+	`approverName` varchar(200),
+	`remarks` text,
+	`actedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `variation_order_approvals_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `variation_order_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`variationOrderId` int NOT NULL,
+	`itemNumber` varchar(50),
+	`description` text NOT NULL,
+	`unit` varchar(30),
+	`changeType` enum('Addition','Deduction') NOT NULL,
+	`quantity` decimal(15,3) NOT NULL,
+	`unitPrice` decimal(15,2) NOT NULL,
+	`amount` decimal(18,2) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `variation_order_items_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `variation_orders` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`projectId` int NOT NULL,
+	`voNumber` int NOT NULL,
+	`orderType` enum('Change Order','Extra Work Order') NOT NULL,
+	`title` varchar(300) NOT NULL,
+	`justification` text NOT NULL,
+	`voStatus` enum('Draft','Submitted','Approved','Rejected') NOT NULL DEFAULT 'Draft',
+	`currentStep` int NOT NULL DEFAULT 0,
+	`additiveAmount` decimal(18,2) NOT NULL DEFAULT '0',
+	`deductiveAmount` decimal(18,2) NOT NULL DEFAULT '0',
+	`netAmount` decimal(18,2) NOT NULL DEFAULT '0',
+	`submittedAt` timestamp,
+	`approvedAt` timestamp,
+	`createdById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `variation_orders_id` PRIMARY KEY(`id`),
+	CONSTRAINT `variation_orders_project_number_idx` UNIQUE(`projectId`,`voNumber`)
+);
+--> statement-breakpoint
+ALTER TABLE `projects` ADD `revisedContractAmount` decimal(18,2);--> statement-breakpoint
+CREATE INDEX `variation_order_approvals_vo_idx` ON `variation_order_approvals` (`variationOrderId`);--> statement-breakpoint
+CREATE INDEX `variation_order_items_vo_idx` ON `variation_order_items` (`variationOrderId`);
\ No newline at end of file
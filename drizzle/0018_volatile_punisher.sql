@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `liquidatedDamages` decimal(15,2);
\ No newline at end of file
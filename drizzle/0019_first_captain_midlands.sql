@@ -0,0 +1,35 @@
+CREATE TABLE `pow_estimate_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`estimateId` int NOT NULL,
+	`itemNumber` varchar(50),
+	`description` text NOT NULL,
+	`unit` varchar(30) NOT NULL,
+	`quantity` decimal(14,3) NOT NULL,
+	`materialUnitCost` decimal(18,2) NOT NULL DEFAULT '0',
+	`laborUnitCost` decimal(18,2) NOT NULL DEFAULT '0',
+	`equipmentUnitCost` decimal(18,2) NOT NULL DEFAULT '0',
+	`unitCost` decimal(18,2) NOT NULL,
+	`directCost` decimal(18,2) NOT NULL,
+	CONSTRAINT `pow_estimate_items_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `pow_estimates` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`powId` int NOT NULL,
+	`version` int NOT NULL,
+	`directCost` decimal(18,2) NOT NULL,
+	`ocmPercent` decimal(5,2) NOT NULL,
+	`ocmAmount` decimal(18,2) NOT NULL,
+	`profitPercent` decimal(5,2) NOT NULL,
+	`profitAmount` decimal(18,2) NOT NULL,
+	`vatPercent` decimal(5,2) NOT NULL,
+	`vatAmount` decimal(18,2) NOT NULL,
+	`totalCost` decimal(18,2) NOT NULL,
+	`remarks` text,
+	`createdById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `pow_estimates_id` PRIMARY KEY(`id`),
+	CONSTRAINT `pow_estimates_pow_version_idx` UNIQUE(`powId`,`version`)
+);
+--> statement-breakpoint
+CREATE INDEX `pow_estimate_items_estimate_idx` ON `pow_estimate_items` (`estimateId`);
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE `unit_cost_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`code` varchar(50) NOT NULL,
+	`unitCostCategory` enum('Material','Labor','Equipment') NOT NULL,
+	`description` text NOT NULL,
+	`unit` varchar(30) NOT NULL,
+	`isActive` boolean NOT NULL DEFAULT true,
+	`remarks` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `unit_cost_items_id` PRIMARY KEY(`id`),
+	CONSTRAINT `unit_cost_items_code_unique` UNIQUE(`code`)
+);
+--> statement-breakpoint
+CREATE TABLE `unit_prices` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`itemId` int NOT NULL,
+	`municipality` varchar(100),
+	`price` decimal(18,2) NOT NULL,
+	`effectiveDate` date NOT NULL,
+	`source` varchar(200),
+	`createdById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `unit_prices_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `unit_prices_item_idx` ON `unit_prices` (`itemId`,`municipality`,`effectiveDate`);
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE `bid_submissions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`biddingId` int NOT NULL,
+	`contractorId` int NOT NULL,
+	`bidAmount` decimal(18,2) NOT NULL,
+	`calculatedBidAmount` decimal(18,2),
+	`eligibilityResult` enum('Pending','Passed','Failed') NOT NULL DEFAULT 'Pending',
+	`technicalResult` enum('Pending','Passed','Failed') NOT NULL DEFAULT 'Pending',
+	`financialResult` enum('Pending','Passed','Failed') NOT NULL DEFAULT 'Pending',
+	`disqualificationReason` text,
+	`rank` int,
+	`submittedAt` timestamp,
+	`remarks` text,
+	`createdById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `bid_submissions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `bid_submissions_bidding_contractor_idx` UNIQUE(`biddingId`,`contractorId`)
+);
@@ -0,0 +1,19 @@
+CREATE TABLE `contractor_sanctions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`contractorId` int NOT NULL,
+	`sanctionType` enum('Suspension','Blacklist') NOT NULL,
+	`issuingAuthority` varchar(200) NOT NULL,
+	`resolutionNumber` varchar(100),
+	`reason` text NOT NULL,
+	`startDate` date NOT NULL,
+	`endDate` date,
+	`coveredAgencies` json,
+	`liftedDate` date,
+	`liftedReason` text,
+	`createdById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `contractor_sanctions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `contractor_sanctions_contractor_idx` ON `contractor_sanctions` (`contractorId`,`startDate`);
\ No newline at end of file
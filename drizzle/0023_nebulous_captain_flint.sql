@@ -0,0 +1,2 @@
+ALTER TABLE `projects` ADD `contractorId` int;--> statement-breakpoint
+CREATE INDEX `projects_contractor_idx` ON `projects` (`contractorId`);
\ No newline at end of file
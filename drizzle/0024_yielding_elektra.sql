@@ -0,0 +1,14 @@
+CREATE TABLE `rating_criteria` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`criterion` enum('quality','timeliness','safety','resource','communication') NOT NULL,
+	`weight` decimal(5,2) NOT NULL,
+	`updatedById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `rating_criteria_id` PRIMARY KEY(`id`),
+	CONSTRAINT `rating_criteria_criterion_unique` UNIQUE(`criterion`)
+);
+--> statement-breakpoint
+ALTER TABLE `performance_ratings` ADD `evaluationType` enum('Interim','Final','Post-Construction');--> statement-breakpoint
+ALTER TABLE `performance_ratings` ADD `accomplishmentPercent` decimal(5,2);--> statement-breakpoint
+ALTER TABLE `performance_ratings` ADD `weights` json;
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE `document_routes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`sequence` int NOT NULL,
+	`fromOffice` varchar(100) NOT NULL,
+	`toOffice` varchar(100) NOT NULL,
+	`releasedAt` timestamp NOT NULL,
+	`releasedById` int,
+	`receivedAt` timestamp,
+	`receivedById` int,
+	`handlerName` varchar(200),
+	`action` varchar(200),
+	`remarks` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `document_routes_id` PRIMARY KEY(`id`),
+	CONSTRAINT `document_routes_document_seq_idx` UNIQUE(`documentId`,`sequence`)
+);
+--> statement-breakpoint
+CREATE TABLE `routing_templates` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentType` varchar(100) NOT NULL,
+	`offices` json NOT NULL,
+	`remarks` text,
+	`updatedById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `routing_templates_id` PRIMARY KEY(`id`),
+	CONSTRAINT `routing_templates_documentType_unique` UNIQUE(`documentType`)
+);
+--> statement-breakpoint
+CREATE INDEX `document_routes_to_office_idx` ON `document_routes` (`toOffice`,`receivedAt`);
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE `attachment_versions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`attachmentId` int NOT NULL,
+	`version` int NOT NULL,
+	`fileName` varchar(255) NOT NULL,
+	`mimeType` varchar(100) NOT NULL,
+	`size` int NOT NULL,
+	`checksum` varchar(64) NOT NULL,
+	`storageDriver` varchar(20) NOT NULL,
+	`storageKey` varchar(500) NOT NULL,
+	`division` enum('Admin','Planning','Construction','Quality','Maintenance'),
+	`uploadedById` int,
+	`remarks` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `attachment_versions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `attachment_versions_attachment_version_idx` UNIQUE(`attachmentId`,`version`)
+);
+--> statement-breakpoint
+CREATE TABLE `document_attachments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`fileName` varchar(255) NOT NULL,
+	`currentVersion` int NOT NULL DEFAULT 1,
+	`createdById` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `document_attachments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `document_attachments_document_idx` ON `document_attachments` (`documentId`);
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, decimal, date, boolean } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, decimal, date, boolean, json, index, uniqueIndex } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -74,6 +74,8 @@ export const projects = mysqlTable("projects", {
   projectCost: decimal("projectCost", { precision: 18, scale: 2 }),
   /** Contract cost */
   contractCost: decimal("contractCost", { precision: 18, scale: 2 }),
+  /** Contract cost plus approved variation orders */
+  revisedContractAmount: decimal("revisedContractAmount", { precision: 18, scale: 2 }),
   /** Calendar days for completion */
   calendarDays: int("calendarDays"),
   /** Notice to Proceed date */
@@ -96,6 +98,8 @@ export const projects = mysqlTable("projects", {
   contractor: text("contractor"),
   /** Contractor TIN */
   contractorTin: varchar("contractorTin", { length: 50 }),
+  /** Contractor record the contractor name was matched to */
+  contractorId: int("contractorId"),
   /** Reason for status (if applicable) */
   statusReason: text("statusReason"),
   /** User who created this project */
@@ -103,18 +107,214 @@ export const projects = mysqlTable("projects", {
   /** Record timestamps */
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+}, table => [
+  index("projects_contractor_idx").on(table.contractorId),
+]);
 
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = typeof projects.$inferInsert;
 
+/**
+ * Project Planned Progress table
+ * Time-phased planned accomplishment (the planned S-curve) per project
+ */
+export const projectPlannedProgress = mysqlTable("project_planned_progress", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to project */
+  projectId: int("projectId").notNull(),
+  /** Reporting date of this point of the schedule */
+  periodDate: date("periodDate").notNull(),
+  /** Cumulative planned accomplishment as of periodDate (percentage, 100 = 100%) */
+  plannedPercent: decimal("plannedPercent", { precision: 5, scale: 2 }).notNull(),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  uniqueIndex("project_planned_progress_project_date_idx").on(table.projectId, table.periodDate),
+]);
+
+export type ProjectPlannedProgress = typeof projectPlannedProgress.$inferSelect;
+export type InsertProjectPlannedProgress = typeof projectPlannedProgress.$inferInsert;
+
+/**
+ * Project Actual Progress table
+ * Dated log of actual accomplishment reported from the field
+ */
+export const projectActualProgress = mysqlTable("project_actual_progress", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to project */
+  projectId: int("projectId").notNull(),
+  /** Date the accomplishment was reported as of */
+  reportDate: date("reportDate").notNull(),
+  /** Cumulative actual accomplishment as of reportDate (percentage, 100 = 100%) */
+  actualPercent: decimal("actualPercent", { precision: 5, scale: 2 }).notNull(),
+  /** Remarks (e.g., causes of delay) */
+  remarks: text("remarks"),
+  /** User who recorded the report */
+  reportedById: int("reportedById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  uniqueIndex("project_actual_progress_project_date_idx").on(table.projectId, table.reportDate),
+]);
+
+export type ProjectActualProgress = typeof projectActualProgress.$inferSelect;
+export type InsertProjectActualProgress = typeof projectActualProgress.$inferInsert;
+
+/**
+ * Time Adjustments table
+ * Time extension, suspension and resumption orders that move a project's completion date
+ */
+export const timeAdjustments = mysqlTable("time_adjustments", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to project */
+  projectId: int("projectId").notNull(),
+  /** Kind of order */
+  adjustmentType: mysqlEnum("adjustmentType", ["Extension", "Suspension", "Resumption"]).notNull(),
+  /** Order reference number */
+  orderNumber: varchar("orderNumber", { length: 50 }),
+  /** Date the order takes effect (suspension start, resumption date, or extension effectivity) */
+  effectiveDate: date("effectiveDate").notNull(),
+  /** Calendar days granted (extensions only; suspended days come from the resumption date) */
+  approvedDays: int("approvedDays"),
+  /** Reason category */
+  reasonCategory: mysqlEnum("reasonCategory", [
+    "Rain/Unworkable Weather",
+    "Right-of-Way",
+    "Peace and Order",
+    "Design Changes",
+    "Delayed Payment",
+    "Force Majeure",
+    "Other"
+  ]),
+  /** Detailed reason / justification */
+  reason: text("reason"),
+  /** Date the order was approved */
+  approvalDate: date("approvalDate"),
+  /** Approving official */
+  approvedBy: varchar("approvedBy", { length: 200 }),
+  /** User who recorded the order */
+  createdById: int("createdById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  index("time_adjustments_project_idx").on(table.projectId, table.effectiveDate),
+]);
+
+export type TimeAdjustment = typeof timeAdjustments.$inferSelect;
+export type InsertTimeAdjustment = typeof timeAdjustments.$inferInsert;
+
+/**
+ * Variation Orders table
+ * Change orders and extra work orders against a project's contract
+ */
+export const variationOrders = mysqlTable("variation_orders", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to project */
+  projectId: int("projectId").notNull(),
+  /** Running VO number within the project (VO No. 1, 2, ...) */
+  voNumber: int("voNumber").notNull(),
+  /** Change Order (changes to items in the contract) or Extra Work Order (new items) */
+  orderType: mysqlEnum("orderType", ["Change Order", "Extra Work Order"]).notNull(),
+  /** Short title */
+  title: varchar("title", { length: 300 }).notNull(),
+  /** Justification for the variation */
+  justification: text("justification").notNull(),
+  /** Workflow status */
+  status: mysqlEnum("voStatus", ["Draft", "Submitted", "Approved", "Rejected"]).default("Draft").notNull(),
+  /** Index into the approval chain of the next approver while Submitted */
+  currentStep: int("currentStep").default(0).notNull(),
+  /** Total of additive line items */
+  additiveAmount: decimal("additiveAmount", { precision: 18, scale: 2 }).default("0").notNull(),
+  /** Total of deductive line items */
+  deductiveAmount: decimal("deductiveAmount", { precision: 18, scale: 2 }).default("0").notNull(),
+  /** Additive minus deductive */
+  netAmount: decimal("netAmount", { precision: 18, scale: 2 }).default("0").notNull(),
+  /** When the VO entered the approval chain */
+  submittedAt: timestamp("submittedAt"),
+  /** When the last approver signed */
+  approvedAt: timestamp("approvedAt"),
+  /** User who prepared the VO */
+  createdById: int("createdById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  uniqueIndex("variation_orders_project_number_idx").on(table.projectId, table.voNumber),
+]);
+
+export type VariationOrder = typeof variationOrders.$inferSelect;
+export type InsertVariationOrder = typeof variationOrders.$inferInsert;
+
+/**
+ * Variation Order Items table
+ * Line items of a variation order
+ */
+export const variationOrderItems = mysqlTable("variation_order_items", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to variation order */
+  variationOrderId: int("variationOrderId").notNull(),
+  /** Pay item number (e.g., 801(1), 311(1)b) */
+  itemNumber: varchar("itemNumber", { length: 50 }),
+  /** Item description */
+  description: text("description").notNull(),
+  /** Unit of measure */
+  unit: varchar("unit", { length: 30 }),
+  /** Whether the item adds to or deducts from the contract */
+  changeType: mysqlEnum("changeType", ["Addition", "Deduction"]).notNull(),
+  /** Quantity */
+  quantity: decimal("quantity", { precision: 15, scale: 3 }).notNull(),
+  /** Unit price */
+  unitPrice: decimal("unitPrice", { precision: 15, scale: 2 }).notNull(),
+  /** Quantity x unit price */
+  amount: decimal("amount", { precision: 18, scale: 2 }).notNull(),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, table => [
+  index("variation_order_items_vo_idx").on(table.variationOrderId),
+]);
+
+export type VariationOrderItem = typeof variationOrderItems.$inferSelect;
+export type InsertVariationOrderItem = typeof variationOrderItems.$inferInsert;
+
+/**
+ * Variation Order Approvals table
+ * Sign-offs and rejections along a variation order's approval chain
+ */
+export const variationOrderApprovals = mysqlTable("variation_order_approvals", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to variation order */
+  variationOrderId: int("variationOrderId").notNull(),
+  /** Step of the approval chain acted on */
+  step: int("step").notNull(),
+  /** Title of the approver at that step */
+  stepTitle: varchar("stepTitle", { length: 100 }).notNull(),
+  /** Action taken */
+  action: mysqlEnum("action", ["Approved", "Rejected"]).notNull(),
+  /** User who acted */
+  approverId: int("approverId"),
+  /** Name of the user who acted */
+  approverName: varchar("approverName", { length: 200 }),
+  /** Remarks */
+  remarks: text("remarks"),
+  /** When the action was taken */
+  actedAt: timestamp("actedAt").defaultNow().notNull(),
+}, table => [
+  index("variation_order_approvals_vo_idx").on(table.variationOrderId),
+]);
+
+export type VariationOrderApproval = typeof variationOrderApprovals.$inferSelect;
+export type InsertVariationOrderApproval = typeof variationOrderApprovals.$inferInsert;
+
 /**
  * Documents table for tracking project documents, site instructions, NCRs, etc.
  */
 export const documents = mysqlTable("documents", {
   id: int("id").autoincrement().primaryKey(),
-  /** Document reference number (e.g., DOC-00081) */
-  refNumber: varchar("refNumber", { length: 50 }).notNull(),
+  /** Document reference number (e.g., PEO-PLN-202603-81) */
+  refNumber: varchar("refNumber", { length: 50 }).notNull().unique(),
   /** Document name/title */
   name: text("name").notNull(),
   /** Document type (Site Instruction, NCR, DED Package, Billing Packet, etc.) */
@@ -134,7 +334,7 @@ export const documents = mysqlTable("documents", {
   /** User who created this document */
   createdById: int("createdById"),
   
-  // Routing workflow fields
+  // Routing workflow fields (superseded by document_routes for routing slips)
   /** Date document was received by PEO */
   dateReceivedByPEO: date("dateReceivedByPEO"),
   /** Date document was released to Admin */
@@ -155,6 +355,8 @@ export const documents = mysqlTable("documents", {
   contractAmount: decimal("contractAmount", { precision: 15, scale: 2 }),
   /** Revised contract amount if applicable */
   revisedContractAmount: decimal("revisedContractAmount", { precision: 15, scale: 2 }),
+  /** Liquidated damages withheld from this billing */
+  liquidatedDamages: decimal("liquidatedDamages", { precision: 15, scale: 2 }),
   /** Period covered by this billing */
   periodCovered: varchar("periodCovered", { length: 100 }),
   /** Project start date */
@@ -170,6 +372,128 @@ export const documents = mysqlTable("documents", {
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = typeof documents.$inferInsert;
 
+/**
+ * Document Attachments table
+ * Files attached to a document; each keeps its uploads as numbered versions
+ */
+export const documentAttachments = mysqlTable("document_attachments", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Document the file is attached to */
+  documentId: int("documentId").notNull(),
+  /** File name of the latest version */
+  fileName: varchar("fileName", { length: 255 }).notNull(),
+  /** Latest version number */
+  currentVersion: int("currentVersion").default(1).notNull(),
+  /** User who attached the first version */
+  createdById: int("createdById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  index("document_attachments_document_idx").on(table.documentId),
+]);
+
+export type DocumentAttachment = typeof documentAttachments.$inferSelect;
+export type InsertDocumentAttachment = typeof documentAttachments.$inferInsert;
+
+/**
+ * Attachment Versions table
+ * Every upload of an attachment, with where it is stored and its checksum
+ */
+export const attachmentVersions = mysqlTable("attachment_versions", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Attachment this upload belongs to */
+  attachmentId: int("attachmentId").notNull(),
+  /** Version number, from 1 */
+  version: int("version").notNull(),
+  /** File name as uploaded */
+  fileName: varchar("fileName", { length: 255 }).notNull(),
+  /** Content type sniffed from the file's bytes */
+  mimeType: varchar("mimeType", { length: 100 }).notNull(),
+  /** Size in bytes */
+  size: int("size").notNull(),
+  /** SHA-256 of the content, hex */
+  checksum: varchar("checksum", { length: 64 }).notNull(),
+  /** Storage backend holding the file (local, proxy, s3) */
+  storageDriver: varchar("storageDriver", { length: 20 }).notNull(),
+  /** Object key within the storage backend */
+  storageKey: varchar("storageKey", { length: 500 }).notNull(),
+  /** Uploader's division; only that division (and admins) may download the file */
+  division: mysqlEnum("division", ["Admin", "Planning", "Construction", "Quality", "Maintenance"]),
+  /** User who uploaded this version */
+  uploadedById: int("uploadedById"),
+  /** What changed in this version */
+  remarks: text("remarks"),
+  /** Upload timestamp */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, table => [
+  uniqueIndex("attachment_versions_attachment_version_idx").on(table.attachmentId, table.version),
+]);
+
+export type AttachmentVersion = typeof attachmentVersions.$inferSelect;
+export type InsertAttachmentVersion = typeof attachmentVersions.$inferInsert;
+
+/**
+ * Document Routes table
+ * Each hop of a document's routing slip, from release by one office to receipt by the next
+ */
+export const documentRoutes = mysqlTable("document_routes", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Routed document */
+  documentId: int("documentId").notNull(),
+  /** Hop number on the routing slip, from 1 */
+  sequence: int("sequence").notNull(),
+  /** Office that released the document */
+  fromOffice: varchar("fromOffice", { length: 100 }).notNull(),
+  /** Office the document was sent to */
+  toOffice: varchar("toOffice", { length: 100 }).notNull(),
+  /** When the document left the releasing office */
+  releasedAt: timestamp("releasedAt").notNull(),
+  /** User who released the document */
+  releasedById: int("releasedById"),
+  /** When the receiving office logged the document in; null while in transit */
+  receivedAt: timestamp("receivedAt"),
+  /** User who logged the document in */
+  receivedById: int("receivedById"),
+  /** Person at the receiving office handling the document */
+  handlerName: varchar("handlerName", { length: 200 }),
+  /** Action requested or taken (For signature, Signed, Returned for compliance, ...) */
+  action: varchar("action", { length: 200 }),
+  /** Remarks */
+  remarks: text("remarks"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  uniqueIndex("document_routes_document_seq_idx").on(table.documentId, table.sequence),
+  index("document_routes_to_office_idx").on(table.toOffice, table.receivedAt),
+]);
+
+export type DocumentRoute = typeof documentRoutes.$inferSelect;
+export type InsertDocumentRoute = typeof documentRoutes.$inferInsert;
+
+/**
+ * Routing Templates table
+ * Usual path of each document type through the offices
+ */
+export const routingTemplates = mysqlTable("routing_templates", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Document type the template applies to (matches documents.documentType) */
+  documentType: varchar("documentType", { length: 100 }).notNull().unique(),
+  /** Offices in routing order; the first is where the document starts */
+  offices: json("offices").$type<string[]>().notNull(),
+  /** Remarks */
+  remarks: text("remarks"),
+  /** User who last changed the template */
+  updatedById: int("updatedById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type RoutingTemplate = typeof routingTemplates.$inferSelect;
+export type InsertRoutingTemplate = typeof routingTemplates.$inferInsert;
+
 /**
  * Tasks table for tracking division tasks and assignments
  */
@@ -278,7 +602,7 @@ export type InsertAnnualBudget = typeof annualBudgets.$inferInsert;
 export const programOfWorks = mysqlTable("program_of_works", {
   id: int("id").autoincrement().primaryKey(),
   /** POW reference number (e.g., POW-2026-001) */
-  powNumber: varchar("powNumber", { length: 50 }).notNull(),
+  powNumber: varchar("powNumber", { length: 50 }).notNull().unique(),
   /** Project title */
   projectTitle: text("projectTitle").notNull(),
   /** Project description */
@@ -331,13 +655,129 @@ export const programOfWorks = mysqlTable("program_of_works", {
 export type ProgramOfWork = typeof programOfWorks.$inferSelect;
 export type InsertProgramOfWork = typeof programOfWorks.$inferInsert;
 
+/**
+ * POW Estimates table
+ * Versioned detailed estimates of a POW; the latest version sets the ABC
+ */
+export const powEstimates = mysqlTable("pow_estimates", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to program of works */
+  powId: int("powId").notNull(),
+  /** Running version within the POW (1, 2, ...) */
+  version: int("version").notNull(),
+  /** Estimated direct cost (sum of item amounts) */
+  directCost: decimal("directCost", { precision: 18, scale: 2 }).notNull(),
+  /** Overhead, contingencies and miscellaneous, as a percentage of direct cost */
+  ocmPercent: decimal("ocmPercent", { precision: 5, scale: 2 }).notNull(),
+  ocmAmount: decimal("ocmAmount", { precision: 18, scale: 2 }).notNull(),
+  /** Contractor's profit, as a percentage of direct cost */
+  profitPercent: decimal("profitPercent", { precision: 5, scale: 2 }).notNull(),
+  profitAmount: decimal("profitAmount", { precision: 18, scale: 2 }).notNull(),
+  /** VAT, as a percentage of direct cost plus OCM and profit */
+  vatPercent: decimal("vatPercent", { precision: 5, scale: 2 }).notNull(),
+  vatAmount: decimal("vatAmount", { precision: 18, scale: 2 }).notNull(),
+  /** Total estimated cost (the ABC) */
+  totalCost: decimal("totalCost", { precision: 18, scale: 2 }).notNull(),
+  /** What changed in this version */
+  remarks: text("remarks"),
+  /** User who prepared this version */
+  createdById: int("createdById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, table => [
+  uniqueIndex("pow_estimates_pow_version_idx").on(table.powId, table.version),
+]);
+
+export type PowEstimate = typeof powEstimates.$inferSelect;
+export type InsertPowEstimate = typeof powEstimates.$inferInsert;
+
+/**
+ * POW Estimate Items table
+ * Items of work of an estimate version with their unit cost breakdown
+ */
+export const powEstimateItems = mysqlTable("pow_estimate_items", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to estimate version */
+  estimateId: int("estimateId").notNull(),
+  /** Pay item number (e.g., 101(3), 311(1)c) */
+  itemNumber: varchar("itemNumber", { length: 50 }),
+  /** Item of work */
+  description: text("description").notNull(),
+  /** Unit of measure */
+  unit: varchar("unit", { length: 30 }).notNull(),
+  quantity: decimal("quantity", { precision: 14, scale: 3 }).notNull(),
+  /** Unit costs by component */
+  materialUnitCost: decimal("materialUnitCost", { precision: 18, scale: 2 }).default("0").notNull(),
+  laborUnitCost: decimal("laborUnitCost", { precision: 18, scale: 2 }).default("0").notNull(),
+  equipmentUnitCost: decimal("equipmentUnitCost", { precision: 18, scale: 2 }).default("0").notNull(),
+  /** Material + labor + equipment unit cost */
+  unitCost: decimal("unitCost", { precision: 18, scale: 2 }).notNull(),
+  /** Quantity x unit cost */
+  directCost: decimal("directCost", { precision: 18, scale: 2 }).notNull(),
+}, table => [
+  index("pow_estimate_items_estimate_idx").on(table.estimateId),
+]);
+
+export type PowEstimateItem = typeof powEstimateItems.$inferSelect;
+export type InsertPowEstimateItem = typeof powEstimateItems.$inferInsert;
+
+/**
+ * Unit Cost Items table
+ * Library of materials, labor rates and equipment rental rates used in estimates
+ */
+export const unitCostItems = mysqlTable("unit_cost_items", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Library code (e.g., MAT-CEM-40, LAB-SKL, EQP-DT-10) */
+  code: varchar("code", { length: 50 }).notNull().unique(),
+  category: mysqlEnum("unitCostCategory", ["Material", "Labor", "Equipment"]).notNull(),
+  /** Item name (e.g., Portland cement, 40kg bag) */
+  description: text("description").notNull(),
+  /** Unit the price is quoted in (bag, cu.m., day, hour) */
+  unit: varchar("unit", { length: 30 }).notNull(),
+  /** Inactive items stay in history but drop out of search */
+  isActive: boolean("isActive").default(true).notNull(),
+  remarks: text("remarks"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type UnitCostItem = typeof unitCostItems.$inferSelect;
+export type InsertUnitCostItem = typeof unitCostItems.$inferInsert;
+
+/**
+ * Unit Prices table
+ * Dated prices of a library item, province-wide or for one municipality
+ */
+export const unitPrices = mysqlTable("unit_prices", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to unit cost item */
+  itemId: int("itemId").notNull(),
+  /** Municipality the price applies to; null for the province-wide base price */
+  municipality: varchar("municipality", { length: 100 }),
+  price: decimal("price", { precision: 18, scale: 2 }).notNull(),
+  /** Date the price takes effect */
+  effectiveDate: date("effectiveDate").notNull(),
+  /** Where the price came from (canvass, supplier quotation, DPWH rate) */
+  source: varchar("source", { length: 200 }),
+  /** User who recorded the price */
+  createdById: int("createdById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, table => [
+  index("unit_prices_item_idx").on(table.itemId, table.municipality, table.effectiveDate),
+]);
+
+export type UnitPrice = typeof unitPrices.$inferSelect;
+export type InsertUnitPrice = typeof unitPrices.$inferInsert;
+
 /**
  * Bidding table for procurement tracking
  */
 export const biddings = mysqlTable("biddings", {
   id: int("id").autoincrement().primaryKey(),
-  /** Bidding reference number */
-  biddingNumber: varchar("biddingNumber", { length: 50 }).notNull(),
+  /** Bidding reference number (e.g., BID-2026-0001) */
+  biddingNumber: varchar("biddingNumber", { length: 50 }).notNull().unique(),
   /** Linked POW ID */
   powId: int("powId"),
   /** Project title */
@@ -396,6 +836,43 @@ export const biddings = mysqlTable("biddings", {
 export type Bidding = typeof biddings.$inferSelect;
 export type InsertBidding = typeof biddings.$inferInsert;
 
+/**
+ * Bid Submissions table
+ * Every bidder's submission in a bidding, for the abstract of bids
+ */
+export const bidSubmissions = mysqlTable("bid_submissions", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to bidding */
+  biddingId: int("biddingId").notNull(),
+  /** Reference to contractor */
+  contractorId: int("contractorId").notNull(),
+  /** Bid amount as read during bid opening */
+  bidAmount: decimal("bidAmount", { precision: 18, scale: 2 }).notNull(),
+  /** Bid amount after correction of arithmetical errors during evaluation */
+  calculatedBidAmount: decimal("calculatedBidAmount", { precision: 18, scale: 2 }),
+  /** Envelope results: eligibility documents, technical proposal, financial proposal */
+  eligibilityResult: mysqlEnum("eligibilityResult", ["Pending", "Passed", "Failed"]).default("Pending").notNull(),
+  technicalResult: mysqlEnum("technicalResult", ["Pending", "Passed", "Failed"]).default("Pending").notNull(),
+  financialResult: mysqlEnum("financialResult", ["Pending", "Passed", "Failed"]).default("Pending").notNull(),
+  /** Why the bid was disqualified or declared non-responsive */
+  disqualificationReason: text("disqualificationReason"),
+  /** Rank among responsive bids by calculated amount (1 = lowest calculated bid) */
+  rank: int("rank"),
+  /** When the bid was received */
+  submittedAt: timestamp("submittedAt"),
+  remarks: text("remarks"),
+  /** User who recorded the bid */
+  createdById: int("createdById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  uniqueIndex("bid_submissions_bidding_contractor_idx").on(table.biddingId, table.contractorId),
+]);
+
+export type BidSubmission = typeof bidSubmissions.$inferSelect;
+export type InsertBidSubmission = typeof bidSubmissions.$inferInsert;
+
 
 /**
  * Contractors table for tracking bidders and contractors
@@ -460,6 +937,43 @@ export const contractors = mysqlTable("contractors", {
 export type Contractor = typeof contractors.$inferSelect;
 export type InsertContractor = typeof contractors.$inferInsert;
 
+/**
+ * Contractor Sanctions table
+ * Suspensions and blacklistings with their effectivity periods
+ */
+export const contractorSanctions = mysqlTable("contractor_sanctions", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to contractor */
+  contractorId: int("contractorId").notNull(),
+  sanctionType: mysqlEnum("sanctionType", ["Suspension", "Blacklist"]).notNull(),
+  /** Office that issued the sanction (e.g., PEO BAC, GPPB, DPWH) */
+  issuingAuthority: varchar("issuingAuthority", { length: 200 }).notNull(),
+  /** Resolution or order number */
+  resolutionNumber: varchar("resolutionNumber", { length: 100 }),
+  /** Grounds for the sanction */
+  reason: text("reason").notNull(),
+  /** First day the sanction is in force */
+  startDate: date("startDate").notNull(),
+  /** Last day the sanction is in force; null while indefinite */
+  endDate: date("endDate"),
+  /** Agencies the sanction covers; empty for all government agencies */
+  coveredAgencies: json("coveredAgencies").$type<string[]>(),
+  /** Date the sanction was lifted before its end date */
+  liftedDate: date("liftedDate"),
+  /** Why the sanction was lifted early */
+  liftedReason: text("liftedReason"),
+  /** User who recorded the sanction */
+  createdById: int("createdById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  index("contractor_sanctions_contractor_idx").on(table.contractorId, table.startDate),
+]);
+
+export type ContractorSanction = typeof contractorSanctions.$inferSelect;
+export type InsertContractorSanction = typeof contractorSanctions.$inferInsert;
+
 /**
  * Contract History table for tracking contractor's past contracts
  */
@@ -526,6 +1040,10 @@ export const performanceRatings = mysqlTable("performance_ratings", {
   projectId: int("projectId"),
   /** Evaluation period (e.g., "Q1 2026", "Final") */
   evaluationPeriod: varchar("evaluationPeriod", { length: 50 }),
+  /** Stage of the evaluation; null on ratings recorded before evaluation types */
+  evaluationType: mysqlEnum("evaluationType", ["Interim", "Final", "Post-Construction"]),
+  /** Project accomplishment (%) when the evaluation was made */
+  accomplishmentPercent: decimal("accomplishmentPercent", { precision: 5, scale: 2 }),
   /** Quality of work rating (1-5) */
   qualityRating: decimal("qualityRating", { precision: 3, scale: 2 }),
   /** Timeliness rating (1-5) */
@@ -536,8 +1054,10 @@ export const performanceRatings = mysqlTable("performance_ratings", {
   resourceRating: decimal("resourceRating", { precision: 3, scale: 2 }),
   /** Communication/coordination rating (1-5) */
   communicationRating: decimal("communicationRating", { precision: 3, scale: 2 }),
-  /** Overall rating (calculated average) */
+  /** Overall rating (weighted average of the criteria rated) */
   overallRating: decimal("overallRating", { precision: 3, scale: 2 }),
+  /** Criterion weights the overall rating was computed with */
+  weights: json("weights").$type<RatingWeights>(),
   /** Evaluator name */
   evaluatorName: varchar("evaluatorName", { length: 200 }),
   /** Evaluator position */
@@ -560,6 +1080,26 @@ export const performanceRatings = mysqlTable("performance_ratings", {
 export type PerformanceRating = typeof performanceRatings.$inferSelect;
 export type InsertPerformanceRating = typeof performanceRatings.$inferInsert;
 
+/**
+ * Rating Criteria table
+ * Weight (in percent) of each performance rating criterion in the overall rating
+ */
+export const ratingCriteria = mysqlTable("rating_criteria", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Criterion key, matching a rating column (quality, timeliness, ...) */
+  criterion: mysqlEnum("criterion", ["quality", "timeliness", "safety", "resource", "communication"]).notNull().unique(),
+  /** Weight in percent; the weights of all criteria add up to 100 */
+  weight: decimal("weight", { precision: 5, scale: 2 }).notNull(),
+  /** User who last changed the weight */
+  updatedById: int("updatedById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type RatingCriterion = typeof ratingCriteria.$inferSelect;
+export type RatingWeights = Record<RatingCriterion["criterion"], number>;
+
 
 /**
  * Provincial Roads table for Maintenance Division
@@ -603,6 +1143,38 @@ export const provincialRoads = mysqlTable("provincial_roads", {
 export type ProvincialRoad = typeof provincialRoads.$inferSelect;
 export type InsertProvincialRoad = typeof provincialRoads.$inferInsert;
 
+/**
+ * Road Condition Surveys table
+ * Condition survey results per kilometer segment of a provincial road, kept per survey date
+ */
+export const roadConditionSurveys = mysqlTable("road_condition_surveys", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Surveyed road (provincial_roads.id) */
+  roadId: int("roadId").notNull(),
+  /** Date the segment was surveyed */
+  surveyDate: date("surveyDate").notNull(),
+  /** Segment start chainage in km */
+  kmStart: decimal("kmStart", { precision: 10, scale: 3 }).notNull(),
+  /** Segment end chainage in km */
+  kmEnd: decimal("kmEnd", { precision: 10, scale: 3 }).notNull(),
+  /** Surface type of the segment */
+  surfaceType: mysqlEnum("surfaceType", ["Concrete", "Asphalt", "Gravel", "Earth"]),
+  /** Condition rating */
+  condition: mysqlEnum("condition", ["Good", "Fair", "Poor", "Bad"]).notNull(),
+  /** Remarks (e.g., potholes, washout, cracks) */
+  remarks: text("remarks"),
+  /** User who recorded the survey */
+  surveyedById: int("surveyedById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  index("road_condition_surveys_road_date_idx").on(table.roadId, table.surveyDate),
+]);
+
+export type RoadConditionSurvey = typeof roadConditionSurveys.$inferSelect;
+export type InsertRoadConditionSurvey = typeof roadConditionSurveys.$inferInsert;
+
 /**
  * Maintenance Equipment table
  * Track equipment available for road maintenance
@@ -725,3 +1297,170 @@ export const equipmentAssignments = mysqlTable("equipment_assignments", {
 
 export type EquipmentAssignment = typeof equipmentAssignments.$inferSelect;
 export type InsertEquipmentAssignment = typeof equipmentAssignments.$inferInsert;
+
+/**
+ * Equipment Service Plans table
+ * Preventive maintenance intervals per equipment (every N hour-meter hours and/or N days)
+ */
+export const equipmentServicePlans = mysqlTable("equipment_service_plans", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to equipment */
+  equipmentId: int("equipmentId").notNull(),
+  /** Service performed (e.g., Oil change, Hydraulic filter replacement) */
+  serviceType: varchar("serviceType", { length: 150 }).notNull(),
+  /** Service every N hour-meter hours */
+  intervalHours: decimal("intervalHours", { precision: 10, scale: 2 }),
+  /** Service every N days */
+  intervalDays: int("intervalDays"),
+  /** Date the service was last performed */
+  lastServiceDate: date("lastServiceDate"),
+  /** Hour-meter reading when the service was last performed */
+  lastServiceHours: decimal("lastServiceHours", { precision: 10, scale: 2 }),
+  /** Inactive plans are kept for history but never come due */
+  isActive: boolean("isActive").default(true).notNull(),
+  /** Notes */
+  notes: text("notes"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  index("equipment_service_plans_equipment_idx").on(table.equipmentId),
+]);
+
+export type EquipmentServicePlan = typeof equipmentServicePlans.$inferSelect;
+export type InsertEquipmentServicePlan = typeof equipmentServicePlans.$inferInsert;
+
+/**
+ * Equipment Work Orders table
+ * Service and repair log for maintenance equipment
+ */
+export const equipmentWorkOrders = mysqlTable("equipment_work_orders", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Reference to equipment */
+  equipmentId: int("equipmentId").notNull(),
+  /** Service plan this work order fulfils (preventive work only) */
+  servicePlanId: int("servicePlanId"),
+  /** Kind of work */
+  workOrderType: mysqlEnum("workOrderType", ["Preventive", "Repair", "Inspection"]).notNull(),
+  /** Work to be done */
+  description: text("description").notNull(),
+  /** Status */
+  status: mysqlEnum("workOrderStatus", ["Open", "In Progress", "Completed", "Cancelled"]).default("Open").notNull(),
+  /** Date the work order was opened */
+  openedDate: date("openedDate").notNull(),
+  /** Date the work was completed */
+  completedDate: date("completedDate"),
+  /** Hour-meter reading at completion */
+  hourMeter: decimal("hourMeter", { precision: 10, scale: 2 }),
+  /** Parts and labor cost */
+  cost: decimal("cost", { precision: 15, scale: 2 }),
+  /** Mechanic or shop that did the work */
+  performedBy: varchar("performedBy", { length: 200 }),
+  /** Findings and remarks */
+  remarks: text("remarks"),
+  /** User who opened the work order */
+  createdById: int("createdById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  index("equipment_work_orders_equipment_idx").on(table.equipmentId),
+]);
+
+export type EquipmentWorkOrder = typeof equipmentWorkOrders.$inferSelect;
+export type InsertEquipmentWorkOrder = typeof equipmentWorkOrders.$inferInsert;
+
+/**
+ * Fuel Issuances table
+ * Fuel issuance slips per equipment; each fill is assumed to top up the tank,
+ * so its liters cover the usage since the previous reading
+ */
+export const fuelIssuances = mysqlTable("fuel_issuances", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Fuel issuance slip number */
+  slipNumber: varchar("slipNumber", { length: 50 }).notNull().unique(),
+  /** Reference to equipment */
+  equipmentId: int("equipmentId").notNull(),
+  /** Assignment the fuel was drawn for */
+  assignmentId: int("assignmentId"),
+  /** Date of issuance */
+  issueDate: date("issueDate").notNull(),
+  /** Liters issued */
+  liters: decimal("liters", { precision: 10, scale: 2 }).notNull(),
+  /** Odometer reading in km at issuance (vehicles) */
+  odometerKm: decimal("odometerKm", { precision: 12, scale: 1 }),
+  /** Hour-meter reading at issuance (heavy equipment) */
+  hourMeter: decimal("hourMeter", { precision: 10, scale: 2 }),
+  /** Issuing officer */
+  issuedBy: varchar("issuedBy", { length: 200 }).notNull(),
+  /** Driver or operator who received the fuel */
+  receivedBy: varchar("receivedBy", { length: 200 }),
+  /** Remarks */
+  remarks: text("remarks"),
+  /** User who encoded the slip */
+  createdById: int("createdById"),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  index("fuel_issuances_equipment_date_idx").on(table.equipmentId, table.issueDate),
+  index("fuel_issuances_assignment_idx").on(table.assignmentId),
+]);
+
+export type FuelIssuance = typeof fuelIssuances.$inferSelect;
+export type InsertFuelIssuance = typeof fuelIssuances.$inferInsert;
+
+/**
+ * Audit Log table
+ * One row per tRPC mutation, recording who changed which record and how
+ */
+export const auditLogs = mysqlTable("audit_log", {
+  id: int("id").autoincrement().primaryKey(),
+  /** User who performed the mutation */
+  userId: int("userId"),
+  /** User display name at the time of the change */
+  userName: text("userName"),
+  /** Full tRPC path (e.g., biddings.update) */
+  path: varchar("path", { length: 100 }).notNull(),
+  /** Entity type, i.e. the router name (projects, biddings, budgets, ...) */
+  entityType: varchar("entityType", { length: 50 }).notNull(),
+  /** ID of the affected record */
+  entityId: int("entityId"),
+  /** Mutation name (create, update, delete, approve, ...) */
+  action: varchar("action", { length: 50 }).notNull(),
+  /** Field-level diff: { field: { before, after } } */
+  changes: json("changes").$type<AuditChanges>(),
+  /** Record timestamp */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, table => [
+  index("audit_log_entity_idx").on(table.entityType, table.entityId),
+  index("audit_log_user_idx").on(table.userId),
+]);
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;
+
+/**
+ * Sequences table
+ * Per-prefix, per-fiscal-year counters for reference numbers (POW, BID, DOC)
+ */
+export const sequences = mysqlTable("sequences", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Sequence prefix key (POW, BID, DOC) */
+  prefix: varchar("prefix", { length: 20 }).notNull(),
+  /** Fiscal year the counter belongs to */
+  fiscalYear: int("fiscalYear").notNull(),
+  /** Number format, e.g. BID-{FY}-{seq:4} (see server/sequences.ts for tokens) */
+  format: varchar("format", { length: 100 }).notNull(),
+  /** Last value handed out */
+  lastValue: int("lastValue").default(0).notNull(),
+  /** Record timestamps */
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [
+  uniqueIndex("sequences_prefix_year_idx").on(table.prefix, table.fiscalYear),
+]);
+
+export type Sequence = typeof sequences.$inferSelect;
+export type InsertSequence = typeof sequences.$inferInsert;
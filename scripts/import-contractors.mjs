@@ -142,7 +142,18 @@ async function importContractors() {
     }
     
     console.log(`Created ${historyInserted} contract history entries`);
-    
+
+    // Link projects to their contractor record; names that differ only in
+    // spelling are matched by the contractors.linkProjects mutation
+    const [linked] = await connection.execute(`
+      UPDATE projects p
+      JOIN contractors c ON p.contractor = c.name
+      SET p.contractorId = c.id
+      WHERE p.contractorId IS NULL
+    `);
+
+    console.log(`Linked ${linked.affectedRows} projects to their contractor record`);
+
     // Get final counts
     const [[{ totalContractors }]] = await connection.execute('SELECT COUNT(*) as totalContractors FROM contractors');
     const [[{ totalHistory }]] = await connection.execute('SELECT COUNT(*) as totalHistory FROM contract_history');
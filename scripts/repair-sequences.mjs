@@ -0,0 +1,75 @@
+import 'dotenv/config';
+import mysql from 'mysql2/promise';
+
+// One-off repair for reference numbers generated with count(*)+1 before the
+// sequences table existed. Run it before applying the migration that adds the
+// unique constraints on powNumber / biddingNumber / refNumber:
+//
+//   node scripts/repair-sequences.mjs          # report duplicates only
+//   node scripts/repair-sequences.mjs --fix    # renumber duplicates
+//
+// The oldest row (lowest id) keeps the number; later rows get a "-R<id>"
+// suffix so they stay traceable to the original paper trail.
+
+const DATABASE_URL = process.env.DATABASE_URL;
+
+if (!DATABASE_URL) {
+  console.error('DATABASE_URL not set');
+  process.exit(1);
+}
+
+const TARGETS = [
+  { table: 'program_of_works', column: 'powNumber' },
+  { table: 'biddings', column: 'biddingNumber' },
+  { table: 'documents', column: 'refNumber' },
+];
+
+async function repairSequences() {
+  const fix = process.argv.includes('--fix');
+  const connection = await mysql.createConnection(DATABASE_URL);
+
+  try {
+    let totalDuplicates = 0;
+
+    for (const { table, column } of TARGETS) {
+      const [groups] = await connection.execute(`
+        SELECT \`${column}\` AS number, GROUP_CONCAT(id ORDER BY id) AS ids
+        FROM \`${table}\`
+        GROUP BY \`${column}\`
+        HAVING COUNT(*) > 1
+      `);
+
+      if (groups.length === 0) {
+        console.log(`${table}.${column}: no duplicates`);
+        continue;
+      }
+
+      console.log(`${table}.${column}: ${groups.length} duplicated number(s)`);
+
+      for (const group of groups) {
+        const [keep, ...duplicates] = String(group.ids).split(',').map(Number);
+        totalDuplicates += duplicates.length;
+        console.log(`  ${group.number}: kept on #${keep}, duplicated on #${duplicates.join(', #')}`);
+
+        if (!fix) continue;
+
+        for (const id of duplicates) {
+          const renumbered = `${group.number}-R${id}`;
+          await connection.execute(`UPDATE \`${table}\` SET \`${column}\` = ? WHERE id = ?`, [renumbered, id]);
+          console.log(`    #${id} -> ${renumbered}`);
+        }
+      }
+    }
+
+    if (totalDuplicates > 0 && !fix) {
+      console.log(`\n${totalDuplicates} row(s) need a new number. Re-run with --fix to renumber them.`);
+    }
+  } catch (error) {
+    console.error('Error repairing sequences:', error);
+    throw error;
+  } finally {
+    await connection.end();
+  }
+}
+
+repairSequences().catch(console.error);
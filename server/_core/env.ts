@@ -7,4 +7,9 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  storageDriver: process.env.STORAGE_DRIVER ?? "",
+  storageDir: process.env.STORAGE_DIR ?? "storage",
+  s3Bucket: process.env.S3_BUCKET ?? "",
+  s3Region: process.env.S3_REGION ?? "",
+  s3Endpoint: process.env.S3_ENDPOINT ?? "",
 };
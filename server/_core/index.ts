@@ -4,7 +4,9 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerAttachmentRoutes } from "../attachmentRoutes";
 import { appRouter } from "../routers";
+import { refreshContractorStandings } from "../db";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 
@@ -35,6 +37,8 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Document attachment uploads and signed downloads under /api/documents and /api/attachments
+  registerAttachmentRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -60,6 +64,12 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Reinstate contractors whose suspensions have run out, and bar those whose sanctions have started
+  const refreshStandings = () =>
+    refreshContractorStandings().catch(error => console.error("[Sanctions] Failed to refresh contractor standings:", error));
+  refreshStandings();
+  setInterval(refreshStandings, 60 * 60 * 1000).unref();
 }
 
 startServer().catch(console.error);
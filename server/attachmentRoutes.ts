@@ -0,0 +1,133 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import express, { type Express, type Request, type Response } from "express";
+import type { User } from "../drizzle/schema";
+import { sdk } from "./_core/sdk";
+import { ENV } from "./_core/env";
+import { assertAcceptableUpload, assertCanAddVersion, MAX_ATTACHMENT_BYTES, parseMultipart, verifyDownloadToken } from "./attachments";
+import { withAuditTrail } from "./audit";
+import * as db from "./db";
+import { checkPermission } from "./permissions";
+
+const DIVISIONS = ["Admin", "Planning", "Construction", "Quality", "Maintenance"] as const;
+
+function sendError(res: Response, error: unknown) {
+  if (error instanceof TRPCError) {
+    res.status(getHTTPStatusCodeFromError(error)).json({ error: error.message });
+    return;
+  }
+  console.error("[Attachments] Request failed", error);
+  res.status(500).json({ error: "Attachment request failed" });
+}
+
+/** Content-Disposition header that survives non-ASCII file names */
+function contentDisposition(fileName: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+async function authenticate(req: Request): Promise<User> {
+  try {
+    return await sdk.authenticateRequest(req);
+  } catch {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Please login" });
+  }
+}
+
+export function registerAttachmentRoutes(app: Express) {
+  // Upload one or more files to a document; with an attachmentId field, a single file becomes its next version
+  app.post(
+    "/api/documents/:documentId/attachments",
+    // Room for the multipart framing around a file of the largest size
+    express.raw({ type: "multipart/form-data", limit: MAX_ATTACHMENT_BYTES + 1024 * 1024 }),
+    async (req: Request, res: Response) => {
+      try {
+        const user = await authenticate(req);
+        const permission = checkPermission(user, "documents");
+        if (!permission.allowed) {
+          throw new TRPCError({ code: "FORBIDDEN", message: permission.message });
+        }
+
+        const documentId = Number(req.params.documentId);
+        const document = Number.isInteger(documentId) ? await db.getDocumentById(documentId) : undefined;
+        if (!document) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+        }
+
+        const { fields, files } = parseMultipart(Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0), req.headers["content-type"]);
+        if (files.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Choose a file to upload" });
+        }
+        const attachmentId = fields.attachmentId ? Number(fields.attachmentId) : undefined;
+        if (attachmentId !== undefined) {
+          const attachment = await db.getAttachmentById(attachmentId);
+          if (!attachment || attachment.documentId !== documentId) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Attachment not found" });
+          }
+          if (files.length > 1) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Upload one file at a time as a new version" });
+          }
+        }
+        const uploads = files.map(file => ({ ...file, mimeType: assertAcceptableUpload(file) }));
+
+        // Admins outside a division upload on behalf of the document's division
+        const division = user.division ?? DIVISIONS.find(entry => entry === document.division) ?? null;
+        const results = [];
+        for (const file of uploads) {
+          const audited = await withAuditTrail({
+            user,
+            path: `documents.attachments.${attachmentId ? "addVersion" : "upload"}`,
+            getRawInput: async () => ({ id: attachmentId, documentId, fileName: file.fileName }),
+            next: async () => {
+              const data = await db.addAttachmentVersion(documentId, {
+                attachmentId,
+                fileName: file.fileName,
+                mimeType: file.mimeType,
+                content: file.data,
+                division,
+                uploadedById: user.id,
+                remarks: fields.remarks,
+                assertCanReplace: current => assertCanAddVersion(user, current),
+              });
+              if (!data) {
+                throw new TRPCError({ code: "NOT_FOUND", message: "Attachment not found" });
+              }
+              return { ok: true, data };
+            },
+          });
+          results.push({ ...audited.data, fileName: file.fileName, mimeType: file.mimeType, size: file.data.length });
+        }
+
+        res.status(201).json({ attachments: results });
+      } catch (error) {
+        sendError(res, error);
+      }
+    }
+  );
+
+  // Signed download links come from documents.attachments.downloadLink
+  app.get("/api/attachments/versions/:versionId/download", async (req: Request, res: Response) => {
+    try {
+      const versionId = Number(req.params.versionId);
+      const token = typeof req.query.token === "string" ? req.query.token : undefined;
+      if (!Number.isInteger(versionId) || !verifyDownloadToken(token, versionId, ENV.cookieSecret, new Date())) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "This download link is invalid or has expired" });
+      }
+
+      const version = await db.getAttachmentVersionById(versionId);
+      if (!version) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Attachment not found" });
+      }
+      const content = await db.readAttachmentVersion(version);
+
+      res.setHeader("Content-Type", version.mimeType);
+      res.setHeader("Content-Length", content.length);
+      res.setHeader("Content-Disposition", contentDisposition(version.fileName));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, no-store");
+      res.send(content);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertAcceptableUpload,
+  assertCanAddVersion,
+  assertNewVersion,
+  attachmentStorageKey,
+  canDownloadAttachment,
+  checksum,
+  parseMultipart,
+  signDownloadToken,
+  sniffMimeType,
+  verifyDownloadToken,
+} from "./attachments";
+
+const pdf = Buffer.from("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n1 0 obj", "latin1");
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00, 0x06, 0x00]);
+
+function multipart(boundary: string, parts: string[]) {
+  return Buffer.from(parts.map(part => `--${boundary}\r\n${part}\r\n`).join("") + `--${boundary}--\r\n`, "latin1");
+}
+
+describe("parseMultipart", () => {
+  it("separates fields from files and keeps file bytes intact", () => {
+    const body = multipart("----form7MA4YWxk", [
+      'Content-Disposition: form-data; name="remarks"\r\n\r\nSigned copy',
+      `Content-Disposition: form-data; name="file"; filename="C:\\scans\\POW 2026.pdf"\r\nContent-Type: application/pdf\r\n\r\n${pdf.toString("latin1")}`,
+      'Content-Disposition: form-data; name="file"; filename=""\r\nContent-Type: application/octet-stream\r\n\r\n',
+    ]);
+
+    const parsed = parseMultipart(body, "multipart/form-data; boundary=----form7MA4YWxk");
+    expect(parsed.fields).toEqual({ remarks: "Signed copy" });
+    expect(parsed.files).toHaveLength(1);
+    expect(parsed.files[0]).toMatchObject({ fieldName: "file", fileName: "POW 2026.pdf", declaredType: "application/pdf" });
+    expect(parsed.files[0].data.equals(pdf)).toBe(true);
+  });
+
+  it("rejects bodies that are not multipart or are cut short", () => {
+    expect(() => parseMultipart(Buffer.from("{}"), "application/json")).toThrow("Expected a multipart/form-data upload");
+    const truncated = Buffer.from('--b\r\nContent-Disposition: form-data; name="file"; filename="a.pdf"\r\n\r\n%PDF-1.7');
+    expect(() => parseMultipart(truncated, 'multipart/form-data; boundary="b"')).toThrow("The upload is malformed or incomplete");
+  });
+});
+
+describe("sniffMimeType", () => {
+  it("types files by their bytes rather than their names", () => {
+    expect(sniffMimeType(pdf, "scan.jpg")).toBe("application/pdf");
+    expect(sniffMimeType(png, "site-photo")).toBe("image/png");
+    expect(sniffMimeType(zip, "Abstract of Bids.xlsx")).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    expect(sniffMimeType(zip, "plans.zip")).toBe("application/zip");
+    expect(sniffMimeType(Buffer.from("Item,Qty\nCement,120\n"), "quantities.csv")).toBe("text/csv");
+    expect(sniffMimeType(Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03]), "report.pdf")).toBeNull();
+  });
+
+  it("refuses empty and unsupported uploads", () => {
+    expect(assertAcceptableUpload({ fileName: "memo.pdf", data: pdf })).toBe("application/pdf");
+    expect(() => assertAcceptableUpload({ fileName: "memo.pdf", data: Buffer.alloc(0) })).toThrow("memo.pdf is empty");
+    expect(() => assertAcceptableUpload({ fileName: "setup.pdf", data: Buffer.from([0x4d, 0x5a, 0x90, 0x00]) })).toThrow(
+      "setup.pdf is not a supported file type"
+    );
+  });
+});
+
+describe("versions", () => {
+  it("keys each version separately and refuses a version identical to the current one", () => {
+    expect(attachmentStorageKey(12, 3, 2, "../Billing #4 (final).pdf")).toBe("documents/12/3/v2-Billing_4_final_.pdf");
+    expect(() => assertNewVersion({ version: 2, checksum: checksum(pdf) }, checksum(pdf))).toThrow("This file is identical to version 2");
+    expect(() => assertNewVersion({ version: 2, checksum: checksum(pdf) }, checksum(png))).not.toThrow();
+  });
+
+  it("lets only the current version's division add the next one", () => {
+    const current = { division: "Construction" as const };
+    expect(() => assertCanAddVersion({ role: "user", division: "Planning", approvalStatus: "approved" }, current)).toThrow(
+      "Only the division that uploaded this attachment can add a new version"
+    );
+    expect(() => assertCanAddVersion({ role: "user", division: "Construction", approvalStatus: "approved" }, current)).not.toThrow();
+    expect(() => assertCanAddVersion({ role: "admin", division: null, approvalStatus: "approved" }, current)).not.toThrow();
+  });
+});
+
+describe("downloads", () => {
+  it("limits downloads to the uploader's division and admins", () => {
+    const version = { division: "Construction" as const };
+    expect(canDownloadAttachment({ role: "user", division: "Construction", approvalStatus: "approved" }, version)).toBe(true);
+    expect(canDownloadAttachment({ role: "user", division: "Planning", approvalStatus: "approved" }, version)).toBe(false);
+    expect(canDownloadAttachment({ role: "admin", division: null, approvalStatus: "approved" }, version)).toBe(true);
+    expect(canDownloadAttachment({ role: "user", division: "Planning", approvalStatus: "approved" }, { division: null })).toBe(false);
+    expect(canDownloadAttachment({ role: "user", division: "Construction", approvalStatus: "rejected" }, version)).toBe(false);
+  });
+
+  it("accepts a signed link for its version until it expires", () => {
+    const now = new Date("2026-10-19T08:00:00Z");
+    const token = signDownloadToken(41, new Date("2026-10-19T08:10:00Z"), "secret");
+    expect(verifyDownloadToken(token, 41, "secret", now)).toBe(true);
+    expect(verifyDownloadToken(token, 42, "secret", now)).toBe(false);
+    expect(verifyDownloadToken(token, 41, "other-secret", now)).toBe(false);
+    expect(verifyDownloadToken(token, 41, "secret", new Date("2026-10-19T08:11:00Z"))).toBe(false);
+    expect(verifyDownloadToken(undefined, 41, "secret", now)).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { TRPCError } from "@trpc/server";
+import type { AttachmentVersion, User } from "../drizzle/schema";
+
+/**
+ * Document attachments. A document can carry several files, and uploading
+ * a file again as an existing attachment adds a new version rather than
+ * replacing the old one. The content type of each upload is sniffed from
+ * its bytes, not taken from the browser, and its SHA-256 is recorded so a
+ * download can be checked against what was uploaded. Only the uploader's
+ * division (and admins) may download a version, through a short-lived
+ * signed link.
+ */
+
+/** Largest file accepted, matching the body size limit of the server */
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+/** How long a download link stays valid */
+export const DOWNLOAD_LINK_TTL_MS = 10 * 60 * 1000;
+
+export type UploadedFile = {
+  fieldName: string;
+  fileName: string;
+  /** Content type the browser claimed; informational only */
+  declaredType: string | null;
+  data: Buffer;
+};
+
+export type MultipartBody = {
+  fields: Record<string, string>;
+  files: UploadedFile[];
+};
+
+const OOXML_TYPES: Record<string, string> = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+
+const OLE_TYPES: Record<string, string> = {
+  doc: "application/msword",
+  xls: "application/vnd.ms-excel",
+  ppt: "application/vnd.ms-powerpoint",
+};
+
+function extension(fileName: string) {
+  const dot = fileName.lastIndexOf(".");
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : "";
+}
+
+function startsWith(data: Buffer, bytes: number[], offset = 0) {
+  return data.length >= offset + bytes.length && bytes.every((byte, index) => data[offset + index] === byte);
+}
+
+function headerParam(header: string, name: string) {
+  const match = header.match(new RegExp(`;\\s*${name}\\*?=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;\\s]+))`, "i"));
+  if (!match) return null;
+  // Browsers escape only quotes; backslashes may be part of an old-style Windows path
+  const value = match[1] !== undefined ? match[1].replace(/\\"/g, '"') : match[2];
+  // RFC 5987 form: utf-8''encoded%20name
+  const extended = value.match(/^utf-8''(.*)$/i);
+  return extended ? decodeURIComponent(extended[1]) : value;
+}
+
+/**
+ * Split a multipart/form-data body into its fields and files. The whole
+ * body is buffered, which the upload size limit keeps bounded.
+ */
+export function parseMultipart(body: Buffer, contentType: string | undefined): MultipartBody {
+  const boundary = contentType && /^multipart\/form-data/i.test(contentType) ? headerParam(contentType, "boundary") : null;
+  if (!boundary) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Expected a multipart/form-data upload" });
+  }
+
+  const delimiter = Buffer.from(`--${boundary}`);
+  const result: MultipartBody = { fields: {}, files: [] };
+  let position = body.indexOf(delimiter);
+  if (position < 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The upload has no parts" });
+  }
+
+  while (true) {
+    position += delimiter.length;
+    // "--" after a delimiter closes the body
+    if (body[position] === 0x2d && body[position + 1] === 0x2d) break;
+    const headersEnd = body.indexOf("\r\n\r\n", position);
+    const next = body.indexOf(Buffer.concat([Buffer.from("\r\n"), delimiter]), position);
+    if (headersEnd < 0 || next < 0 || headersEnd > next) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "The upload is malformed or incomplete" });
+    }
+
+    const headers = body.subarray(position, headersEnd).toString("utf8").trim().split("\r\n");
+    const header = (name: string) => headers.find(line => line.toLowerCase().startsWith(`${name}:`))?.slice(name.length + 1).trim() ?? null;
+    const disposition = header("content-disposition") ?? "";
+    const fieldName = headerParam(disposition, "name");
+    const fileName = headerParam(disposition, "filename");
+    const data = body.subarray(headersEnd + 4, next);
+
+    if (fieldName && fileName !== null) {
+      // Browsers send an empty part when no file was picked
+      if (fileName || data.length > 0) {
+        result.files.push({ fieldName, fileName: fileName.split(/[\\/]/).pop() || "file", declaredType: header("content-type"), data });
+      }
+    } else if (fieldName) {
+      result.fields[fieldName] = data.toString("utf8");
+    }
+    position = next + 2;
+  }
+
+  return result;
+}
+
+/** Whether the bytes read as text: valid UTF-8 without NUL or other binary control bytes */
+function looksLikeText(data: Buffer) {
+  const sample = data.subarray(0, 8192);
+  if (sample.some(byte => byte === 0 || (byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d].includes(byte)))) return false;
+  try {
+    // Streaming mode tolerates a character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: sample.length < data.length });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Content type of an upload from its leading bytes. Zip and OLE containers
+ * are told apart by the file extension, since they share their signatures.
+ * Returns null for anything the office does not accept as an attachment.
+ */
+export function sniffMimeType(data: Buffer, fileName: string): string | null {
+  const ext = extension(fileName);
+  if (startsWith(data, [0x25, 0x50, 0x44, 0x46, 0x2d])) return "application/pdf";
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(data, [0x47, 0x49, 0x46, 0x38])) return "image/gif";
+  if (startsWith(data, [0x52, 0x49, 0x46, 0x46]) && startsWith(data, [0x57, 0x45, 0x42, 0x50], 8)) return "image/webp";
+  if (startsWith(data, [0x49, 0x49, 0x2a, 0x00]) || startsWith(data, [0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff";
+  if (startsWith(data, [0x50, 0x4b, 0x03, 0x04])) return OOXML_TYPES[ext] ?? "application/zip";
+  if (startsWith(data, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return OLE_TYPES[ext] ?? null;
+  if (data.length > 0 && looksLikeText(data)) return ext === "csv" ? "text/csv" : "text/plain";
+  return null;
+}
+
+export function checksum(data: Buffer) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** Check an upload before it is stored, returning its sniffed type */
+export function assertAcceptableUpload(file: Pick<UploadedFile, "fileName" | "data">) {
+  if (file.data.length === 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${file.fileName} is empty` });
+  }
+  if (file.data.length > MAX_ATTACHMENT_BYTES) {
+    throw new TRPCError({ code: "PAYLOAD_TOO_LARGE", message: `${file.fileName} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB` });
+  }
+  const mimeType = sniffMimeType(file.data, file.fileName);
+  if (!mimeType) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${file.fileName} is not a supported file type; attach PDFs, images, Office documents, text or zip files`,
+    });
+  }
+  return mimeType;
+}
+
+/** A new version must differ from the one it replaces */
+export function assertNewVersion(current: Pick<AttachmentVersion, "checksum" | "version"> | null | undefined, contentChecksum: string) {
+  if (current && current.checksum === contentChecksum) {
+    throw new TRPCError({ code: "CONFLICT", message: `This file is identical to version ${current.version}` });
+  }
+}
+
+/** Storage key of a version, unique per attachment and version */
+export function attachmentStorageKey(documentId: number, attachmentId: number, version: number, fileName: string) {
+  const safeName = fileName.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^[._]+/, "").slice(-120) || "file";
+  return `documents/${documentId}/${attachmentId}/v${version}-${safeName}`;
+}
+
+/**
+ * Only admins and approved members of the uploader's division may download
+ * a version; files without a division are admin-only
+ */
+export function canDownloadAttachment(user: Pick<User, "role" | "division" | "approvalStatus">, version: Pick<AttachmentVersion, "division">) {
+  if (user.role === "admin") return true;
+  return user.approvalStatus === "approved" && user.division != null && user.division === version.division;
+}
+
+/** A new version replaces what the current one's division can see, so only that division (or an admin) may add it */
+export function assertCanAddVersion(user: Pick<User, "role" | "division" | "approvalStatus">, current: Pick<AttachmentVersion, "division">) {
+  if (!canDownloadAttachment(user, current)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only the division that uploaded this attachment can add a new version" });
+  }
+}
+
+function signature(versionId: number, expiresAt: number, secret: string) {
+  return createHmac("sha256", secret).update(`attachment:${versionId}:${expiresAt}`).digest("base64url");
+}
+
+/** Token for a download link of one version, valid until `expiresAt` */
+export function signDownloadToken(versionId: number, expiresAt: Date, secret: string) {
+  const expires = expiresAt.getTime();
+  return `${expires}.${signature(versionId, expires, secret)}`;
+}
+
+export function verifyDownloadToken(token: string | undefined, versionId: number, secret: string, now: Date) {
+  const [expires, given] = (token ?? "").split(".");
+  const expiresAt = Number(expires);
+  if (!given || !Number.isFinite(expiresAt)) return false;
+  const expected = Buffer.from(signature(versionId, expiresAt, secret));
+  const actual = Buffer.from(given);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) && expiresAt > now.getTime();
+}
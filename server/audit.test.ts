@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  createAuditLog: vi.fn(),
+  getAuditSnapshot: vi.fn(),
+  getAuditLogs: vi.fn(),
+}));
+
+import { createAuditLog, getAuditLogs, getAuditSnapshot } from "./db";
+import { auditRangeEnd, diffRecords, withAuditTrail } from "./audit";
+import { appRouter } from "./routers";
+import type { User } from "../drizzle/schema";
+import type { TrpcContext } from "./_core/context";
+
+const user = {
+  id: 3,
+  openId: "bac",
+  email: "bac@example.com",
+  name: "BAC Secretariat",
+  loginMethod: "manus",
+  role: "user",
+  division: "Planning",
+  position: null,
+  isDivisionHead: false,
+  approvalStatus: "approved",
+  approvedById: null,
+  approvalDate: null,
+  rejectionReason: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastSignedIn: new Date(),
+} satisfies User;
+
+describe("diffRecords", () => {
+  it("returns only changed fields", () => {
+    const changes = diffRecords(
+      { id: 1, status: "Advertisement", abc: "1000000.00", updatedAt: new Date("2026-01-01") },
+      { id: 1, status: "Pre-Bid", abc: "1000000.00", updatedAt: new Date("2026-01-02") }
+    );
+
+    expect(changes).toEqual({ status: { before: "Advertisement", after: "Pre-Bid" } });
+  });
+
+  it("compares dates by value", () => {
+    const changes = diffRecords(
+      { ntpDate: new Date("2026-03-01T00:00:00Z") },
+      { ntpDate: new Date("2026-03-01T00:00:00Z") }
+    );
+    expect(changes).toEqual({});
+  });
+
+  it("treats a missing snapshot as an empty record", () => {
+    expect(diffRecords(undefined, { id: 5, name: "New" })).toEqual({
+      id: { before: null, after: 5 },
+      name: { before: null, after: "New" },
+    });
+    expect(diffRecords({ id: 5 }, undefined)).toEqual({ id: { before: 5, after: null } });
+  });
+});
+
+describe("auditRangeEnd", () => {
+  it("covers the whole of a date-only bound", () => {
+    expect(auditRangeEnd("2026-03-31")).toEqual(new Date("2026-04-01T00:00:00Z"));
+    expect(auditRangeEnd("2026-03-31T12:30:00Z")).toEqual(new Date("2026-03-31T12:30:00Z"));
+  });
+});
+
+describe("audit.list", () => {
+  const caller = appRouter.createCaller({
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as TrpcContext["res"],
+  });
+
+  it("rejects a date range that does not parse", async () => {
+    await expect(caller.audit.list({ dateFrom: "last week" })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    await expect(caller.audit.list({ dateTo: "2026-13-45" })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(getAuditLogs).not.toHaveBeenCalled();
+  });
+});
+
+describe("withAuditTrail", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("records before/after snapshots for updates", async () => {
+    vi.mocked(getAuditSnapshot)
+      .mockResolvedValueOnce({ id: 9, contractCost: "100.00" })
+      .mockResolvedValueOnce({ id: 9, contractCost: "120.00" });
+
+    await withAuditTrail({
+      user,
+      path: "biddings.update",
+      getRawInput: async () => ({ id: 9, contractCost: "120.00" }),
+      next: async () => ({ ok: true, data: { success: true } }),
+    });
+
+    expect(createAuditLog).toHaveBeenCalledWith({
+      userId: 3,
+      userName: "BAC Secretariat",
+      path: "biddings.update",
+      entityType: "biddings",
+      entityId: 9,
+      action: "update",
+      changes: { contractCost: { before: "100.00", after: "120.00" } },
+    });
+  });
+
+  it("takes the entity id from the result on create", async () => {
+    vi.mocked(getAuditSnapshot).mockResolvedValueOnce({ id: 42, projectName: "Road A" });
+
+    await withAuditTrail({
+      user,
+      path: "projects.create",
+      getRawInput: async () => ({ projectName: "Road A" }),
+      next: async () => ({ ok: true, data: { id: 42 } }),
+    });
+
+    expect(getAuditSnapshot).toHaveBeenCalledTimes(1);
+    expect(createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ entityId: 42, action: "create" })
+    );
+  });
+
+  it("keeps nested router names in the entity type", async () => {
+    await withAuditTrail({
+      user,
+      path: "roads.surveys.delete",
+      getRawInput: async () => ({ id: 4 }),
+      next: async () => ({ ok: true, data: { success: true } }),
+    });
+
+    expect(createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ entityType: "roads.surveys", entityId: 4, action: "delete" })
+    );
+  });
+
+  it("does not log failed mutations", async () => {
+    const result = await withAuditTrail({
+      user,
+      path: "budgets.delete",
+      getRawInput: async () => ({ id: 1 }),
+      next: async () => ({ ok: false }),
+    });
+
+    expect(result.ok).toBe(false);
+    expect(createAuditLog).not.toHaveBeenCalled();
+  });
+
+  it("swallows audit write errors", async () => {
+    vi.mocked(createAuditLog).mockRejectedValueOnce(new Error("boom"));
+    const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await withAuditTrail({
+      user,
+      path: "documents.delete",
+      getRawInput: async () => ({ id: 1 }),
+      next: async () => ({ ok: true, data: { success: true } }),
+    });
+
+    expect(result.ok).toBe(true);
+    spy.mockRestore();
+  });
+});
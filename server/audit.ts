@@ -0,0 +1,167 @@
+import type { AnyMySqlTable } from "drizzle-orm/mysql-core";
+import {
+  annualBudgets,
+  bidSubmissions,
+  biddings,
+  contractHistory,
+  contractorSanctions,
+  documentAttachments,
+  contractors,
+  documents,
+  equipmentAssignments,
+  equipmentServicePlans,
+  equipmentWorkOrders,
+  fuelIssuances,
+  maintenanceEquipment,
+  maintenanceSchedules,
+  performanceRatings,
+  personnel,
+  powEstimates,
+  programOfWorks,
+  projectActualProgress,
+  projects,
+  provincialRoads,
+  roadConditionSurveys,
+  routingTemplates,
+  tasks,
+  timeAdjustments,
+  unitCostItems,
+  unitPrices,
+  users,
+  variationOrders,
+  type AuditChanges,
+  type User,
+} from "../drizzle/schema";
+import { createAuditLog, getAuditSnapshot } from "./db";
+
+/**
+ * Tables backing each audited router, keyed by router name.
+ * Routers not listed here are still logged, just without before/after snapshots.
+ */
+export const AUDITED_TABLES: Record<string, AnyMySqlTable> = {
+  projects,
+  "projects.progressReports": projectActualProgress,
+  "projects.timeAdjustments": timeAdjustments,
+  "projects.variationOrders": variationOrders,
+  documents,
+  "documents.attachments": documentAttachments,
+  "documents.routingTemplates": routingTemplates,
+  tasks,
+  budgets: annualBudgets,
+  pow: programOfWorks,
+  "pow.estimate": powEstimates,
+  unitCosts: unitCostItems,
+  "unitCosts.prices": unitPrices,
+  biddings,
+  "biddings.submissions": bidSubmissions,
+  personnel,
+  contractors,
+  "contractors.sanctions": contractorSanctions,
+  contractHistory,
+  performanceRatings,
+  users,
+  roads: provincialRoads,
+  "roads.surveys": roadConditionSurveys,
+  equipment: maintenanceEquipment,
+  "equipment.servicePlans": equipmentServicePlans,
+  "equipment.workOrders": equipmentWorkOrders,
+  "equipment.fuelIssuances": fuelIssuances,
+  schedules: maintenanceSchedules,
+  assignments: equipmentAssignments,
+};
+
+// Columns that change on every write and would only add noise to the diff
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+function normalize(value: unknown) {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+/**
+ * Field-level diff between two snapshots. A missing snapshot (create or
+ * delete) is treated as an empty record so every field shows up once.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const oldValue = normalize(before?.[field]);
+    const newValue = normalize(after?.[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { before: oldValue, after: newValue };
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Exclusive upper bound for a "date to" filter. A date without a time
+ * covers that whole day, so the bound is midnight of the next day.
+ */
+export function auditRangeEnd(dateTo: string) {
+  const end = new Date(dateTo);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(dateTo.trim())) {
+    end.setUTCDate(end.getUTCDate() + 1);
+  }
+  return end;
+}
+
+function readId(value: unknown) {
+  if (value && typeof value === "object" && "id" in value) {
+    const id = (value as { id: unknown }).id;
+    return typeof id === "number" ? id : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Wrap a mutation so it is written to the audit log. The entity id comes
+ * from `input.id` for updates/deletes and from the resolver result for creates.
+ */
+export async function withAuditTrail<T extends { ok: boolean }>(opts: {
+  user: User;
+  path: string;
+  getRawInput: () => Promise<unknown>;
+  next: () => Promise<T>;
+}) {
+  const { user, path } = opts;
+  // Nested routers (roads.surveys.create) keep every segment but the last as the entity type
+  const segments = path.split(".");
+  const action = segments.pop()!;
+  const entityType = segments.join(".") || action;
+  const table = AUDITED_TABLES[entityType];
+
+  const inputId = readId(await opts.getRawInput());
+  const before = table && inputId ? await getAuditSnapshot(table, inputId) : undefined;
+
+  const result = await opts.next();
+  if (!result.ok) return result;
+
+  try {
+    const entityId = inputId ?? readId((result as unknown as { data: unknown }).data);
+    const after = table && entityId ? await getAuditSnapshot(table, entityId) : undefined;
+
+    await createAuditLog({
+      userId: user.id,
+      userName: user.name ?? user.email ?? null,
+      path,
+      entityType,
+      entityId: entityId ?? null,
+      action,
+      changes: diffRecords(before, after),
+    });
+  } catch (error) {
+    // A failed audit write must never roll back a mutation the user already saw succeed
+    console.error("[Audit] Failed to record mutation:", path, error);
+  }
+
+  return result;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import type { BidSubmission } from "../drizzle/schema";
+import { ABOVE_ABC_REASON, abstractOfBidsWorkbook, assertBidsOpen, lowestCalculatedBid, rankBids, screenBid } from "./bidEvaluation";
+
+const ABC = 4_850_000;
+
+function bid(
+  id: number,
+  bidAmount: string,
+  overrides: Partial<Pick<BidSubmission, "calculatedBidAmount" | "eligibilityResult" | "technicalResult" | "financialResult">> = {}
+) {
+  return {
+    id,
+    bidAmount,
+    calculatedBidAmount: null,
+    eligibilityResult: "Passed" as const,
+    technicalResult: "Passed" as const,
+    financialResult: "Pending" as const,
+    ...overrides,
+  };
+}
+
+describe("rankBids", () => {
+  it("ranks responsive bids by calculated amount, lowest first", () => {
+    const ranked = rankBids(ABC, [
+      bid(1, "4700000.00"),
+      bid(2, "4520000.00", { calculatedBidAmount: "4690000.00" }),
+      bid(3, "4380000.00", { technicalResult: "Failed" }),
+      bid(4, "4995000.00"),
+    ]);
+
+    expect(ranked.map(entry => [entry.id, entry.rank, entry.responsive])).toEqual([
+      [2, 1, true],
+      [1, 2, true],
+      [3, null, false],
+      [4, null, false],
+    ]);
+    expect(ranked[0]).toMatchObject({ evaluatedAmount: 4_690_000, bidToAbcRatio: 96.7 });
+  });
+
+  it("gives equal calculated bids the same rank", () => {
+    const ranked = rankBids(ABC, [bid(1, "4600000.00"), bid(2, "4600000.00"), bid(3, "4700000.00")]);
+    expect(ranked.map(entry => entry.rank)).toEqual([1, 1, 3]);
+  });
+
+  it("refuses to pick the lowest calculated bid from a tie", () => {
+    expect(lowestCalculatedBid(rankBids(ABC, [bid(1, "4700000.00"), bid(2, "4600000.00")]))?.id).toBe(2);
+    expect(lowestCalculatedBid(rankBids(ABC, [bid(1, "4600000.00", { technicalResult: "Failed" })]))).toBeUndefined();
+
+    const tied = rankBids(ABC, [bid(1, "4600000.00"), bid(2, "4600000.00")]).map(entry => ({
+      ...entry,
+      contractorName: `Bidder ${entry.id}`,
+    }));
+    expect(() => lowestCalculatedBid(tied)).toThrow("Bidder 1, Bidder 2 are tied for the lowest calculated bid");
+  });
+});
+
+describe("screenBid", () => {
+  it("disqualifies bids above the ABC and restores them once corrected", () => {
+    const above = screenBid(ABC, { bidAmount: "4900000.00", calculatedBidAmount: null, financialResult: "Pending", disqualificationReason: null });
+    expect(above).toEqual({ financialResult: "Failed", disqualificationReason: ABOVE_ABC_REASON });
+
+    const corrected = screenBid(ABC, { bidAmount: "4900000.00", calculatedBidAmount: "4800000.00", ...above });
+    expect(corrected).toEqual({ financialResult: "Pending", disqualificationReason: null });
+  });
+});
+
+describe("assertBidsOpen", () => {
+  it("only accepts bids between bid opening and post-qualification", () => {
+    expect(() => assertBidsOpen({ biddingNumber: "BID-2026-0007", status: "Bid Evaluation" })).not.toThrow();
+    expect(() => assertBidsOpen({ biddingNumber: "BID-2026-0007", status: "Advertisement" })).toThrow(
+      "BID-2026-0007 is at Advertisement; bids are recorded from Bid Opening until Post-Qualification"
+    );
+  });
+});
+
+describe("abstractOfBidsWorkbook", () => {
+  it("lists every bidder and names the lowest calculated bid", () => {
+    const bids = rankBids(ABC, [bid(1, "4700000.00"), bid(2, "4995000.00", { financialResult: "Failed" })]).map(entry => ({
+      ...entry,
+      contractorName: entry.id === 1 ? "Puerto Builders Corp." : "Island Construction",
+      disqualificationReason: entry.id === 2 ? ABOVE_ABC_REASON : null,
+    }));
+    const buffer = abstractOfBidsWorkbook(
+      { biddingNumber: "BID-2026-0007", projectTitle: "Concreting of Roxas-Taytay Road", abc: "4850000.00", bidOpeningDate: new Date("2026-03-12") },
+      bids
+    );
+
+    const sheet = XLSX.read(buffer, { type: "buffer" }).Sheets["Abstract of Bids"];
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 });
+    expect(rows[7]).toEqual([1, "Puerto Builders Corp.", 4700000, 4700000, 96.91, "Passed", "Passed", "Pending", ""]);
+    expect(rows[8]).toEqual(["", "Island Construction", 4995000, 4995000, 102.99, "Passed", "Passed", "Failed", ABOVE_ABC_REASON]);
+    expect(rows[10]).toEqual(["Lowest Calculated Bid", "Puerto Builders Corp.", 4700000]);
+  });
+});
@@ -0,0 +1,143 @@
+import * as XLSX from "xlsx";
+import { TRPCError } from "@trpc/server";
+import type { Bidding, BidSubmission } from "../drizzle/schema";
+import { normalizeBiddingStatus, type BiddingStatus } from "./procurement";
+import { round } from "./util";
+
+/**
+ * Bid evaluation for the abstract of bids. A bid is responsive once its
+ * eligibility and technical envelopes pass and its financial envelope has
+ * not failed; bids above the ABC are disqualified outright. Responsive bids
+ * are ranked by calculated amount (the amount as read, corrected for
+ * arithmetical errors), and rank 1 is the lowest calculated bid. Equal
+ * amounts share a rank; the BAC breaks the tie by drawing lots.
+ */
+
+/** Stages during which bids are recorded and evaluated */
+export const BID_RECORDING_STAGES: BiddingStatus[] = ["Bid Opening", "Bid Evaluation", "Post-Qualification"];
+
+export const ABOVE_ABC_REASON = "Bid amount exceeds the ABC";
+
+type ScoredBid = Pick<
+  BidSubmission,
+  "id" | "bidAmount" | "calculatedBidAmount" | "eligibilityResult" | "technicalResult" | "financialResult"
+>;
+
+export type RankedBid<T extends ScoredBid> = T & {
+  evaluatedAmount: number;
+  /** Bid as a percentage of the ABC */
+  bidToAbcRatio: number;
+  responsive: boolean;
+  rank: number | null;
+};
+
+export function assertBidsOpen(bidding: Pick<Bidding, "biddingNumber" | "status">) {
+  const status = normalizeBiddingStatus(bidding.status);
+  if (!BID_RECORDING_STAGES.includes(status)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${bidding.biddingNumber} is at ${status}; bids are recorded from Bid Opening until Post-Qualification`,
+    });
+  }
+}
+
+export function evaluatedAmount(bid: Pick<BidSubmission, "bidAmount" | "calculatedBidAmount">) {
+  return Number(bid.calculatedBidAmount ?? bid.bidAmount);
+}
+
+/**
+ * Fail the financial envelope of a bid above the ABC. A bid that was only
+ * failed for being above the ABC goes back to pending once corrected.
+ */
+export function screenBid(
+  abc: number,
+  bid: Pick<BidSubmission, "bidAmount" | "calculatedBidAmount" | "financialResult" | "disqualificationReason">
+) {
+  if (evaluatedAmount(bid) > abc) {
+    return { financialResult: "Failed" as const, disqualificationReason: bid.disqualificationReason || ABOVE_ABC_REASON };
+  }
+  if (bid.disqualificationReason === ABOVE_ABC_REASON) {
+    return { financialResult: "Pending" as const, disqualificationReason: null };
+  }
+  return { financialResult: bid.financialResult, disqualificationReason: bid.disqualificationReason };
+}
+
+export function isResponsive(abc: number, bid: ScoredBid) {
+  return (
+    bid.eligibilityResult === "Passed" &&
+    bid.technicalResult === "Passed" &&
+    bid.financialResult !== "Failed" &&
+    evaluatedAmount(bid) <= abc
+  );
+}
+
+/** Responsive bids by rank, then the rest by amount */
+export function rankBids<T extends ScoredBid>(abc: number, bids: T[]): RankedBid<T>[] {
+  const scored = bids
+    .map(bid => ({
+      ...bid,
+      evaluatedAmount: evaluatedAmount(bid),
+      bidToAbcRatio: abc > 0 ? round((evaluatedAmount(bid) / abc) * 100) : 0,
+      responsive: isResponsive(abc, bid),
+      rank: null as number | null,
+    }))
+    .sort((a, b) => Number(b.responsive) - Number(a.responsive) || a.evaluatedAmount - b.evaluatedAmount || a.id - b.id);
+
+  scored.forEach((bid, index) => {
+    if (!bid.responsive) return;
+    const previous = scored[index - 1];
+    bid.rank = previous?.responsive && previous.evaluatedAmount === bid.evaluatedAmount ? previous.rank : index + 1;
+  });
+  return scored;
+}
+
+/**
+ * The single lowest calculated bid among ranked bids. A tie is refused, as
+ * the award then goes to whoever wins the draw of lots, not to the first
+ * bid on record.
+ */
+export function lowestCalculatedBid<T extends ScoredBid & { rank: number | null; contractorName?: string }>(bids: T[]) {
+  const lowest = bids.filter(bid => bid.rank === 1);
+  if (lowest.length > 1) {
+    const names = lowest.map(bid => bid.contractorName ?? `bid #${bid.id}`).join(", ");
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `${names} are tied for the lowest calculated bid; pass the contractorId of the bidder who won the draw of lots`,
+    });
+  }
+  return lowest[0];
+}
+
+/** Abstract of bids as a one-sheet workbook, ready to print and sign */
+export function abstractOfBidsWorkbook(
+  bidding: Pick<Bidding, "biddingNumber" | "projectTitle" | "abc" | "bidOpeningDate">,
+  bids: (RankedBid<ScoredBid> & Pick<BidSubmission, "disqualificationReason"> & { contractorName: string })[]
+) {
+  const lowest = bids.find(bid => bid.rank === 1);
+  const rows: unknown[][] = [
+    ["ABSTRACT OF BIDS"],
+    ["Project", bidding.projectTitle],
+    ["Bidding No.", bidding.biddingNumber],
+    ["ABC", Number(bidding.abc)],
+    ["Date of Bid Opening", bidding.bidOpeningDate ? new Date(bidding.bidOpeningDate).toISOString().slice(0, 10) : ""],
+    [],
+    ["Rank", "Bidder", "Bid as Read", "Calculated Bid", "% of ABC", "Eligibility", "Technical", "Financial", "Remarks"],
+    ...bids.map(bid => [
+      bid.rank ?? "",
+      bid.contractorName,
+      Number(bid.bidAmount),
+      bid.evaluatedAmount,
+      bid.bidToAbcRatio,
+      bid.eligibilityResult,
+      bid.technicalResult,
+      bid.financialResult,
+      bid.disqualificationReason ?? "",
+    ]),
+    [],
+    ["Lowest Calculated Bid", lowest ? lowest.contractorName : "None", lowest ? lowest.evaluatedAmount : ""],
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Abstract of Bids");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import type { MaintenanceSchedule } from "../drizzle/schema";
+import {
+  assertScheduleSegment,
+  findScheduleConflicts,
+  mergeIntervals,
+  roadCoverage,
+  scheduleClaimChanged,
+  uncoveredIntervals,
+} from "./chainage";
+
+function createSchedule(overrides: Partial<MaintenanceSchedule> = {}) {
+  return {
+    id: 1,
+    title: "Pothole patching km 0-3",
+    roadId: 7,
+    kmStart: "0.000",
+    kmEnd: "3.000",
+    scheduledStartDate: new Date("2026-03-01"),
+    scheduledEndDate: new Date("2026-03-15"),
+    status: "Scheduled" as const,
+    ...overrides,
+  };
+}
+
+const road = { id: 7, roadName: "Roxas-Taytay Road", municipality: "Roxas", lengthKm: "10.000" };
+
+describe("mergeIntervals", () => {
+  it("merges overlapping and touching segments", () => {
+    expect(
+      mergeIntervals([
+        { kmStart: 5, kmEnd: 6 },
+        { kmStart: 0, kmEnd: 2 },
+        { kmStart: 1.5, kmEnd: 3 },
+        { kmStart: 3, kmEnd: 4 },
+      ])
+    ).toEqual([
+      { kmStart: 0, kmEnd: 4 },
+      { kmStart: 5, kmEnd: 6 },
+    ]);
+  });
+
+  it("returns the gaps over the road length", () => {
+    expect(uncoveredIntervals([{ kmStart: 2, kmEnd: 4 }, { kmStart: 6, kmEnd: 12 }], 10)).toEqual([
+      { kmStart: 0, kmEnd: 2 },
+      { kmStart: 4, kmEnd: 6 },
+    ]);
+  });
+});
+
+describe("assertScheduleSegment", () => {
+  it("rejects segments beyond the end of the road", () => {
+    expect(() => assertScheduleSegment(createSchedule({ kmEnd: "12.000" }), road, [])).toThrow(
+      "Segment ends at km 12 but the road is only 10 km long"
+    );
+  });
+
+  it("rejects reversed or half-specified segments", () => {
+    expect(() => assertScheduleSegment(createSchedule({ kmStart: "4.000" }), road, [])).toThrow(
+      "kmEnd must be greater than kmStart"
+    );
+    expect(() => assertScheduleSegment(createSchedule({ kmEnd: null }), road, [])).toThrow(
+      "kmStart and kmEnd must be given together"
+    );
+  });
+
+  it("reports a conflict with active work on the same stretch", () => {
+    const existing = createSchedule({ id: 2, title: "Grading km 2-5", kmStart: "2.000", kmEnd: "5.000" });
+
+    expect(() => assertScheduleSegment(createSchedule(), road, [existing])).toThrow(
+      "Segment overlaps active schedule(s): #2 Grading km 2-5"
+    );
+  });
+
+  it("allows adjacent segments, finished work and different dates", () => {
+    const others = [
+      createSchedule({ id: 2, kmStart: "3.000", kmEnd: "5.000" }),
+      createSchedule({ id: 3, status: "Completed" }),
+      createSchedule({ id: 4, scheduledStartDate: new Date("2026-06-01"), scheduledEndDate: new Date("2026-06-10") }),
+    ];
+
+    expect(() => assertScheduleSegment(createSchedule(), road, others)).not.toThrow();
+  });
+});
+
+describe("findScheduleConflicts", () => {
+  it("treats a schedule without km posts as covering the whole road", () => {
+    const wholeRoad = createSchedule({ id: 5, kmStart: null, kmEnd: null, scheduledEndDate: null });
+    expect(findScheduleConflicts(wholeRoad, [createSchedule()], 10).map(s => s.id)).toEqual([1]);
+  });
+});
+
+describe("scheduleClaimChanged", () => {
+  it("ignores edits that leave the segment, dates and status alone", () => {
+    const before = createSchedule({ status: "In Progress" });
+    expect(scheduleClaimChanged(before, { ...before, title: "Pothole patching, phase 1" })).toBe(false);
+    expect(scheduleClaimChanged(before, { ...before, kmEnd: "3", scheduledEndDate: new Date("2026-03-15T00:00:00Z") })).toBe(false);
+    expect(scheduleClaimChanged(before, { ...before, status: "Completed" })).toBe(false);
+  });
+
+  it("flags a move along the road, new dates or a return to active work", () => {
+    const before = createSchedule();
+    expect(scheduleClaimChanged(before, { ...before, kmStart: "1.000" })).toBe(true);
+    expect(scheduleClaimChanged(before, { ...before, scheduledEndDate: new Date("2026-03-20") })).toBe(true);
+    expect(scheduleClaimChanged({ ...before, status: "Cancelled" }, before)).toBe(true);
+  });
+});
+
+describe("roadCoverage", () => {
+  it("summarizes covered and uncovered chainage", () => {
+    const coverage = roadCoverage(road, [
+      createSchedule(),
+      createSchedule({ kmStart: "2.500", kmEnd: "4.000" }),
+      createSchedule({ kmStart: "8.000", kmEnd: "10.000" }),
+    ]);
+
+    expect(coverage.covered).toEqual([
+      { kmStart: 0, kmEnd: 4 },
+      { kmStart: 8, kmEnd: 10 },
+    ]);
+    expect(coverage.uncovered).toEqual([{ kmStart: 4, kmEnd: 8 }]);
+    expect(coverage.coveredKm).toBe(6);
+    expect(coverage.coveragePercent).toBe(60);
+  });
+});
@@ -0,0 +1,204 @@
+import { TRPCError } from "@trpc/server";
+import type { InsertMaintenanceSchedule, MaintenanceSchedule } from "../drizzle/schema";
+import { dayKey, round } from "./util";
+
+/**
+ * Linear referencing for maintenance work along a road's chainage (km posts).
+ * Intervals are half-open: a schedule ending at km 3 and one starting at km 3
+ * touch but do not overlap.
+ */
+
+export type Interval = { kmStart: number; kmEnd: number };
+
+/** Schedules still holding a claim on their segment */
+export const ACTIVE_SCHEDULE_STATUSES: NonNullable<MaintenanceSchedule["status"]>[] = [
+  "Scheduled",
+  "In Progress",
+  "Postponed",
+];
+
+/** Merge overlapping or touching intervals into sorted, disjoint ones */
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals
+    .filter(interval => interval.kmEnd > interval.kmStart)
+    .sort((a, b) => a.kmStart - b.kmStart);
+
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.kmStart <= last.kmEnd) {
+      last.kmEnd = Math.max(last.kmEnd, interval.kmEnd);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/** Gaps between merged intervals over the full length of the road */
+export function uncoveredIntervals(covered: Interval[], lengthKm: number): Interval[] {
+  const gaps: Interval[] = [];
+  let position = 0;
+  for (const interval of mergeIntervals(covered)) {
+    if (interval.kmStart > position) gaps.push({ kmStart: position, kmEnd: Math.min(interval.kmStart, lengthKm) });
+    position = Math.max(position, interval.kmEnd);
+    if (position >= lengthKm) break;
+  }
+  if (position < lengthKm) gaps.push({ kmStart: position, kmEnd: lengthKm });
+  return gaps.filter(gap => gap.kmEnd > gap.kmStart);
+}
+
+export function intervalsOverlap(a: Interval, b: Interval) {
+  return a.kmStart < b.kmEnd && b.kmStart < a.kmEnd;
+}
+
+type ScheduleSegment = Pick<
+  InsertMaintenanceSchedule,
+  "title" | "roadId" | "kmStart" | "kmEnd" | "scheduledStartDate" | "scheduledEndDate" | "status"
+> & { id: number };
+
+/**
+ * Segment a schedule covers. A schedule on a road without km posts covers the
+ * whole road; one without a road covers nothing we can place.
+ */
+export function scheduleInterval(schedule: Pick<ScheduleSegment, "kmStart" | "kmEnd">, roadLengthKm?: number | null) {
+  if (schedule.kmStart != null && schedule.kmEnd != null) {
+    return { kmStart: Number(schedule.kmStart), kmEnd: Number(schedule.kmEnd) };
+  }
+  return roadLengthKm ? { kmStart: 0, kmEnd: roadLengthKm } : null;
+}
+
+function datesOverlap(a: ScheduleSegment, b: ScheduleSegment) {
+  // Open-ended or undated schedules are treated as running indefinitely
+  const aStart = a.scheduledStartDate ? new Date(a.scheduledStartDate).getTime() : -Infinity;
+  const aEnd = a.scheduledEndDate ? new Date(a.scheduledEndDate).getTime() : Infinity;
+  const bStart = b.scheduledStartDate ? new Date(b.scheduledStartDate).getTime() : -Infinity;
+  const bEnd = b.scheduledEndDate ? new Date(b.scheduledEndDate).getTime() : Infinity;
+  return aStart <= bEnd && bStart <= aEnd;
+}
+
+/**
+ * Active schedules on the same road whose segment and dates overlap the given one.
+ */
+export function findScheduleConflicts<T extends ScheduleSegment>(
+  schedule: ScheduleSegment,
+  others: T[],
+  roadLengthKm?: number | null
+): T[] {
+  if (!schedule.roadId || !ACTIVE_SCHEDULE_STATUSES.includes(schedule.status ?? "Scheduled")) return [];
+  const segment = scheduleInterval(schedule, roadLengthKm);
+  if (!segment) return [];
+
+  return others.filter(other => {
+    if (other.id === schedule.id || other.roadId !== schedule.roadId) return false;
+    if (!ACTIVE_SCHEDULE_STATUSES.includes(other.status ?? "Scheduled")) return false;
+    const otherSegment = scheduleInterval(other, roadLengthKm);
+    return otherSegment !== null && intervalsOverlap(segment, otherSegment) && datesOverlap(schedule, other);
+  });
+}
+
+function sameKm(a: string | null | undefined, b: string | null | undefined) {
+  return a == null || b == null ? a == b : Number(a) === Number(b);
+}
+
+function sameDay(a: Date | null | undefined, b: Date | null | undefined) {
+  return a == null || b == null ? a == b : dayKey(a) === dayKey(b);
+}
+
+/**
+ * Whether an edit changes the schedule's claim on its segment: it moves to
+ * another road, stretch or dates, or takes an active status it did not have.
+ * Other edits (title, cost, a move to Completed) leave overlaps as they were.
+ */
+export function scheduleClaimChanged(before: ScheduleSegment, after: ScheduleSegment) {
+  const reactivated =
+    after.status !== before.status && ACTIVE_SCHEDULE_STATUSES.includes(after.status ?? "Scheduled");
+  return (
+    reactivated ||
+    after.roadId !== before.roadId ||
+    !sameKm(after.kmStart, before.kmStart) ||
+    !sameKm(after.kmEnd, before.kmEnd) ||
+    !sameDay(after.scheduledStartDate, before.scheduledStartDate) ||
+    !sameDay(after.scheduledEndDate, before.scheduledEndDate)
+  );
+}
+
+/**
+ * Check a schedule's segment against the road and the other schedules on it.
+ * Throws BAD_REQUEST for a segment outside the road and CONFLICT when it
+ * overlaps active work already scheduled for the same stretch and dates.
+ */
+export function assertScheduleSegment(
+  schedule: ScheduleSegment,
+  road: { lengthKm: string | null } | null | undefined,
+  others: ScheduleSegment[]
+) {
+  const errors: string[] = [];
+  const hasStart = schedule.kmStart != null;
+  const hasEnd = schedule.kmEnd != null;
+
+  if (hasStart !== hasEnd) {
+    errors.push("kmStart and kmEnd must be given together");
+  }
+  if (hasStart && hasEnd) {
+    const kmStart = Number(schedule.kmStart);
+    const kmEnd = Number(schedule.kmEnd);
+    if (!schedule.roadId) errors.push("A road is required when kmStart/kmEnd are given");
+    if (kmStart < 0) errors.push("kmStart cannot be negative");
+    if (kmEnd <= kmStart) errors.push("kmEnd must be greater than kmStart");
+    if (road?.lengthKm != null && kmEnd > Number(road.lengthKm)) {
+      errors.push(`Segment ends at km ${kmEnd} but the road is only ${Number(road.lengthKm)} km long`);
+    }
+  }
+  if (schedule.roadId && !road) {
+    errors.push("Road not found");
+  }
+  if (errors.length > 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: errors.join("; ") });
+  }
+
+  const conflicts = findScheduleConflicts(schedule, others, road?.lengthKm != null ? Number(road.lengthKm) : null);
+  if (conflicts.length > 0) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `Segment overlaps active schedule(s): ${conflicts.map(c => `#${c.id} ${c.title}`).join(", ")}`,
+    });
+  }
+}
+
+export type RoadCoverage = {
+  roadId: number;
+  roadName: string;
+  municipality: string | null;
+  lengthKm: number;
+  covered: Interval[];
+  uncovered: Interval[];
+  coveredKm: number;
+  coveragePercent: number;
+};
+
+/** Merged covered/uncovered chainage for one road from its schedules */
+export function roadCoverage(
+  road: { id: number; roadName: string; municipality: string | null; lengthKm: string | null },
+  schedules: Pick<ScheduleSegment, "kmStart" | "kmEnd">[]
+): RoadCoverage {
+  const lengthKm = Number(road.lengthKm ?? 0);
+  const covered = mergeIntervals(
+    schedules
+      .map(schedule => scheduleInterval(schedule, lengthKm))
+      .filter((interval): interval is Interval => interval !== null)
+      .map(interval => ({ kmStart: Math.max(0, interval.kmStart), kmEnd: Math.min(lengthKm, interval.kmEnd) }))
+  );
+  const coveredKm = round(covered.reduce((sum, interval) => sum + interval.kmEnd - interval.kmStart, 0), 3);
+
+  return {
+    roadId: road.id,
+    roadName: road.roadName,
+    municipality: road.municipality,
+    lengthKm,
+    covered,
+    uncovered: uncoveredIntervals(covered, lengthKm),
+    coveredKm,
+    coveragePercent: lengthKm > 0 ? round((coveredKm / lengthKm) * 100, 3) : 0,
+  };
+}
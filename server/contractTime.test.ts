@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import type { TimeAdjustment } from "../drizzle/schema";
+import { assertTimeAdjustments, computeContractTime } from "./contractTime";
+
+const project = {
+  ntpDate: new Date("2026-01-05"),
+  calendarDays: 120,
+  targetCompletionDate: null,
+  dateCompleted: null,
+};
+
+let nextId = 1;
+
+function order(
+  adjustmentType: TimeAdjustment["adjustmentType"],
+  effectiveDate: string,
+  approvedDays: number | null = null
+) {
+  return { id: nextId++, adjustmentType, effectiveDate: new Date(effectiveDate), approvedDays };
+}
+
+describe("computeContractTime", () => {
+  it("adds extensions and resumed suspensions to the original completion date", () => {
+    const time = computeContractTime(
+      project,
+      [
+        order("Extension", "2026-03-01", 30),
+        order("Suspension", "2026-02-10"),
+        order("Resumption", "2026-02-24"),
+        order("Extension", "2026-04-15", 15),
+      ],
+      new Date("2026-05-01")
+    );
+
+    expect(time).toEqual({
+      originalCompletionDate: new Date("2026-05-05"),
+      revisedCompletionDate: new Date("2026-07-03"),
+      extensionCount: 2,
+      extensionDays: 45,
+      suspensionDays: 14,
+      suspendedSince: null,
+      contractDays: 179,
+      remainingDays: 63,
+    });
+  });
+
+  it("stops the clock while a suspension is open", () => {
+    const time = computeContractTime(project, [order("Suspension", "2026-04-25")], new Date("2026-06-30"));
+
+    expect(time.revisedCompletionDate).toEqual(new Date("2026-05-05"));
+    expect(time.suspendedSince).toEqual(new Date("2026-04-25"));
+    expect(time.remainingDays).toBe(10);
+  });
+
+  it("has no revised date without orders", () => {
+    const time = computeContractTime(project, [], new Date("2026-05-10"));
+    expect(time.revisedCompletionDate).toBeNull();
+    expect(time.remainingDays).toBe(-5);
+  });
+});
+
+describe("assertTimeAdjustments", () => {
+  it("rejects resumptions without a suspension and overlapping suspensions", () => {
+    expect(() => assertTimeAdjustments([order("Resumption", "2026-02-01")])).toThrow(
+      "Resumption effective 2026-02-01 has no suspension to end"
+    );
+    expect(() =>
+      assertTimeAdjustments([order("Suspension", "2026-02-01"), order("Suspension", "2026-02-10")])
+    ).toThrow("Suspension effective 2026-02-10 overlaps an unresumed suspension");
+  });
+
+  it("requires approved days on extensions", () => {
+    expect(() => assertTimeAdjustments([order("Extension", "2026-03-01")])).toThrow(
+      "Extension effective 2026-03-01 needs approved days"
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { TRPCError } from "@trpc/server";
+import type { Project, TimeAdjustment } from "../drizzle/schema";
+import { addCalendarDays } from "./procurement";
+import { daysBetween, toDay } from "./util";
+
+/**
+ * Contract time from time extension, suspension and resumption orders.
+ * Extensions add their approved days. Work suspended from one order's
+ * effective date until the next resumption adds the days in between. While a
+ * suspension is still open the contract clock is stopped: the revised date
+ * stays put and the remaining days are counted from the suspension date.
+ */
+
+type Adjustment = Pick<TimeAdjustment, "id" | "adjustmentType" | "effectiveDate" | "approvedDays">;
+
+export type ContractTime = {
+  originalCompletionDate: Date | null;
+  revisedCompletionDate: Date | null;
+  extensionCount: number;
+  extensionDays: number;
+  suspensionDays: number;
+  suspendedSince: Date | null;
+  contractDays: number | null;
+  remainingDays: number | null;
+};
+
+function byEffectiveDate(a: Adjustment, b: Adjustment) {
+  return toDay(a.effectiveDate) - toDay(b.effectiveDate) || (a.id ?? 0) - (b.id ?? 0);
+}
+
+/**
+ * Reject orders that do not fit together: extensions need approved days,
+ * every resumption needs a suspension before it, and a project cannot be
+ * suspended twice without resuming in between.
+ */
+export function assertTimeAdjustments(adjustments: Adjustment[]) {
+  const errors: string[] = [];
+  let suspendedSince: Date | null = null;
+
+  for (const order of [...adjustments].sort(byEffectiveDate)) {
+    const date = new Date(order.effectiveDate).toISOString().slice(0, 10);
+    if (order.adjustmentType === "Extension" && !(order.approvedDays && order.approvedDays > 0)) {
+      errors.push(`Extension effective ${date} needs approved days`);
+    }
+    if (order.adjustmentType === "Suspension") {
+      if (suspendedSince) errors.push(`Suspension effective ${date} overlaps an unresumed suspension`);
+      suspendedSince = order.effectiveDate;
+    }
+    if (order.adjustmentType === "Resumption") {
+      if (!suspendedSince) errors.push(`Resumption effective ${date} has no suspension to end`);
+      suspendedSince = null;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: errors.join("; ") });
+  }
+}
+
+/** Original completion date: the stored target, or NTP date plus contract calendar days */
+export function originalCompletionDate(project: Pick<Project, "ntpDate" | "calendarDays" | "targetCompletionDate">) {
+  if (project.targetCompletionDate) return new Date(project.targetCompletionDate);
+  if (project.ntpDate && project.calendarDays) return addCalendarDays(project.ntpDate, project.calendarDays);
+  return null;
+}
+
+export function computeContractTime(
+  project: Pick<Project, "ntpDate" | "calendarDays" | "targetCompletionDate" | "dateCompleted">,
+  adjustments: Adjustment[],
+  today = new Date()
+): ContractTime {
+  let extensionCount = 0;
+  let extensionDays = 0;
+  let suspensionDays = 0;
+  let suspendedSince: Date | null = null;
+
+  for (const order of [...adjustments].sort(byEffectiveDate)) {
+    if (order.adjustmentType === "Extension") {
+      extensionCount++;
+      extensionDays += order.approvedDays ?? 0;
+    } else if (order.adjustmentType === "Suspension") {
+      suspendedSince ??= order.effectiveDate;
+    } else if (suspendedSince) {
+      suspensionDays += Math.max(0, daysBetween(suspendedSince, order.effectiveDate));
+      suspendedSince = null;
+    }
+  }
+
+  const original = originalCompletionDate(project);
+  const adjusted = extensionDays + suspensionDays;
+  const revised = original && adjustments.length > 0 ? addCalendarDays(original, adjusted) : null;
+  const completion = revised ?? original;
+
+  return {
+    originalCompletionDate: original,
+    revisedCompletionDate: revised,
+    extensionCount,
+    extensionDays,
+    suspensionDays,
+    suspendedSince,
+    contractDays: project.calendarDays != null ? project.calendarDays + adjusted : null,
+    remainingDays: completion ? daysBetween(project.dateCompleted ?? suspendedSince ?? today, completion) : null,
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { assertEligible, checkContractorEligibility } from "./contractorEligibility";
+
+const contractor = {
+  id: 7,
+  name: "Puerto Builders Corp.",
+  pcabCategory: "B",
+  licenseExpiryDate: new Date("2026-06-30"),
+  status: "Active",
+  blacklistReason: null,
+};
+
+const bidOpening = new Date("2026-03-12");
+
+function ongoing(projectId: number, slippage: number) {
+  return { projectId, projectName: `Project ${projectId}`, slippage, reportDate: "2026-02-28" };
+}
+
+describe("checkContractorEligibility", () => {
+  it("passes a licensed contractor in good standing within its category", () => {
+    const report = checkContractorEligibility(contractor, {
+      abc: 48_500_000,
+      asOf: bidOpening,
+      ongoing: [ongoing(1, -4.5), ongoing(2, 2)],
+    });
+
+    expect(report.eligible).toBe(true);
+    expect(report.checks.map(check => check.check)).toEqual(["License", "PCAB Category", "Standing", "Slippage"]);
+    expect(report.slippingProjects).toEqual([]);
+  });
+
+  it("reports every failed check", () => {
+    const report = checkContractorEligibility(
+      { ...contractor, licenseExpiryDate: new Date("2026-03-01"), status: "Blacklisted", blacklistReason: "Abandoned FY2024 contract" },
+      { abc: 62_000_000, asOf: bidOpening, ongoing: [ongoing(1, -16.2)] }
+    );
+
+    expect(report.eligible).toBe(false);
+    expect(report.checks.filter(check => !check.passed).map(check => check.message)).toEqual([
+      "PCAB license expired on 2026-03-01, before 2026-03-12",
+      "PCAB category B covers contracts up to PHP 50,000,000.00; the ABC is PHP 62,000,000.00",
+      "Contractor is Blacklisted: Abandoned FY2024 contract",
+      "Negative slippage of 15% or more on Project 1 (-16.2%)",
+    ]);
+  });
+
+  it("disqualifies 10% negative slippage only when it spans two or more projects", () => {
+    const one = checkContractorEligibility(contractor, { abc: 1_000_000, asOf: bidOpening, ongoing: [ongoing(1, -12)] });
+    expect(one.eligible).toBe(true);
+    expect(one.slippingProjects).toHaveLength(1);
+
+    const two = checkContractorEligibility(contractor, { abc: 1_000_000, asOf: bidOpening, ongoing: [ongoing(1, -12), ongoing(2, -10)] });
+    expect(two.checks[3]).toMatchObject({ passed: false, message: "Negative slippage of 10% or more on 2 projects: Project 1 (-12%), Project 2 (-10%)" });
+  });
+});
+
+describe("assertEligible", () => {
+  it("refuses the award with the reasons", () => {
+    const report = checkContractorEligibility({ ...contractor, pcabCategory: null }, { abc: 1_000_000, asOf: bidOpening, ongoing: [] });
+    expect(() => assertEligible(report)).toThrow("Puerto Builders Corp. is not eligible for award: No PCAB category on record");
+  });
+});
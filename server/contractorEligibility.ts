@@ -0,0 +1,150 @@
+import { TRPCError } from "@trpc/server";
+import type { Contractor } from "../drizzle/schema";
+import { dayKey } from "./util";
+
+/**
+ * Award-time eligibility of a contractor. The PCAB license must still be
+ * valid on the bid opening date, its category must cover the ABC, the
+ * contractor must not be blacklisted or suspended, and it must not be badly
+ * behind on ongoing contracts: negative slippage of 15 points on one project,
+ * or 10 points on two or more, disqualifies it.
+ */
+
+/** Largest single contract (ABC) each PCAB category may undertake */
+export const PCAB_CATEGORY_LIMITS: Record<string, number> = {
+  AAAA: Infinity,
+  AAA: Infinity,
+  AA: 300_000_000,
+  A: 150_000_000,
+  B: 50_000_000,
+  C: 15_000_000,
+  D: 5_000_000,
+  E: 1_500_000,
+  TRADE: 1_500_000,
+};
+
+/** Negative slippage, in points, that disqualifies on a single project */
+export const SINGLE_PROJECT_SLIPPAGE_LIMIT = 15;
+/** Negative slippage, in points, that disqualifies when reached on two or more projects */
+export const MULTIPLE_PROJECT_SLIPPAGE_LIMIT = 10;
+
+const BARRED_STATUSES = ["Blacklisted", "Suspended"];
+
+export type EligibilityCheckName = "License" | "PCAB Category" | "Standing" | "Slippage";
+
+export type EligibilityCheck = { check: EligibilityCheckName; passed: boolean; message: string };
+
+export type OngoingSlippage = { projectId: number; projectName: string; slippage: number; reportDate: string };
+
+export type EligibilityReport = {
+  contractorId: number;
+  contractorName: string;
+  abc: number;
+  asOf: string;
+  eligible: boolean;
+  checks: EligibilityCheck[];
+  /** Ongoing projects behind by the multiple-project limit or more */
+  slippingProjects: OngoingSlippage[];
+};
+
+function peso(amount: number) {
+  return `PHP ${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function checkLicense(contractor: Pick<Contractor, "licenseExpiryDate">, asOf: Date): EligibilityCheck {
+  if (!contractor.licenseExpiryDate) {
+    return { check: "License", passed: false, message: "No PCAB license expiry date on record" };
+  }
+  const expiry = dayKey(contractor.licenseExpiryDate);
+  if (expiry < dayKey(asOf)) {
+    return { check: "License", passed: false, message: `PCAB license expired on ${expiry}, before ${dayKey(asOf)}` };
+  }
+  return { check: "License", passed: true, message: `PCAB license valid until ${expiry}` };
+}
+
+function checkCategory(contractor: Pick<Contractor, "pcabCategory">, abc: number): EligibilityCheck {
+  const category = contractor.pcabCategory?.trim().toUpperCase();
+  if (!category) {
+    return { check: "PCAB Category", passed: false, message: "No PCAB category on record" };
+  }
+  const limit = PCAB_CATEGORY_LIMITS[category];
+  if (limit === undefined) {
+    return { check: "PCAB Category", passed: false, message: `Unknown PCAB category ${contractor.pcabCategory}` };
+  }
+  if (abc > limit) {
+    return {
+      check: "PCAB Category",
+      passed: false,
+      message: `PCAB category ${category} covers contracts up to ${peso(limit)}; the ABC is ${peso(abc)}`,
+    };
+  }
+  return { check: "PCAB Category", passed: true, message: `PCAB category ${category} covers an ABC of ${peso(abc)}` };
+}
+
+function checkStanding(contractor: Pick<Contractor, "status" | "blacklistReason">): EligibilityCheck {
+  const status = contractor.status ?? "Active";
+  if (BARRED_STATUSES.includes(status)) {
+    const reason = contractor.blacklistReason ? `: ${contractor.blacklistReason}` : "";
+    return { check: "Standing", passed: false, message: `Contractor is ${status}${reason}` };
+  }
+  return { check: "Standing", passed: true, message: `Contractor is ${status}` };
+}
+
+function checkSlippage(ongoing: OngoingSlippage[]): EligibilityCheck {
+  const critical = ongoing.filter(project => project.slippage <= -SINGLE_PROJECT_SLIPPAGE_LIMIT);
+  const behind = ongoing.filter(project => project.slippage <= -MULTIPLE_PROJECT_SLIPPAGE_LIMIT);
+  const describe = (projects: OngoingSlippage[]) =>
+    projects.map(project => `${project.projectName} (${project.slippage}%)`).join(", ");
+
+  if (critical.length > 0) {
+    return {
+      check: "Slippage",
+      passed: false,
+      message: `Negative slippage of ${SINGLE_PROJECT_SLIPPAGE_LIMIT}% or more on ${describe(critical)}`,
+    };
+  }
+  if (behind.length >= 2) {
+    return {
+      check: "Slippage",
+      passed: false,
+      message: `Negative slippage of ${MULTIPLE_PROJECT_SLIPPAGE_LIMIT}% or more on ${behind.length} projects: ${describe(behind)}`,
+    };
+  }
+  return { check: "Slippage", passed: true, message: `${ongoing.length} ongoing project(s) within slippage limits` };
+}
+
+export function checkContractorEligibility(
+  contractor: Pick<Contractor, "id" | "name" | "pcabCategory" | "licenseExpiryDate" | "status" | "blacklistReason">,
+  opts: { abc: number; asOf: Date; ongoing: OngoingSlippage[] }
+): EligibilityReport {
+  const checks = [
+    checkLicense(contractor, opts.asOf),
+    checkCategory(contractor, opts.abc),
+    checkStanding(contractor),
+    checkSlippage(opts.ongoing),
+  ];
+
+  return {
+    contractorId: contractor.id,
+    contractorName: contractor.name,
+    abc: opts.abc,
+    asOf: dayKey(opts.asOf),
+    eligible: checks.every(check => check.passed),
+    checks,
+    slippingProjects: opts.ongoing
+      .filter(project => project.slippage <= -MULTIPLE_PROJECT_SLIPPAGE_LIMIT)
+      .sort((a, b) => a.slippage - b.slippage),
+  };
+}
+
+/** Refuse the award with every failed check so the BAC sees them all at once */
+export function assertEligible(report: EligibilityReport) {
+  if (report.eligible) return;
+  throw new TRPCError({
+    code: "BAD_REQUEST",
+    message: `${report.contractorName} is not eligible for award: ${report.checks
+      .filter(check => !check.passed)
+      .map(check => check.message)
+      .join("; ")}`,
+  });
+}
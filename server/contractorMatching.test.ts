@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertSameTin,
+  findDuplicateContractors,
+  matchContractor,
+  mergedContractorFields,
+  mergedContractorStanding,
+  nameSimilarity,
+  normalizeContractorName,
+  normalizeTin,
+} from "./contractorMatching";
+
+function contractor(id: number, name: string, tin: string | null = null, totalContracts = 0) {
+  return { id, name, tin, totalContracts };
+}
+
+describe("normalizeContractorName", () => {
+  it("reduces spelling variants of one firm to the same name", () => {
+    expect(normalizeContractorName("ABC Construction")).toBe("ABC CONSTRUCTION");
+    expect(normalizeContractorName("ABC CONST.")).toBe("ABC CONSTRUCTION");
+    expect(normalizeContractorName("A.B.C. Construction Corp")).toBe("ABC CONSTRUCTION");
+    expect(normalizeContractorName("J & R Gen. Bldrs, Inc.")).toBe("J AND R GENERAL BUILDERS");
+  });
+
+  it("keeps the 9-digit base of a TIN", () => {
+    expect(normalizeTin("123-456-789-000")).toBe("123456789");
+    expect(normalizeTin("000-000-000")).toBeNull();
+    expect(normalizeTin("12345")).toBeNull();
+  });
+});
+
+describe("findDuplicateContractors", () => {
+  it("groups records with the same TIN or a close name and suggests the busiest record to keep", () => {
+    const groups = findDuplicateContractors([
+      contractor(1, "ABC Construction", null, 2),
+      contractor(2, "ABC CONST.", "123-456-789", 5),
+      contractor(3, "A.B.C. Construction Corp"),
+      contractor(4, "Puerto Builders", "222-333-444"),
+      contractor(5, "Island Aggregates", "222-333-444-001"),
+      contractor(6, "ABC Constructon Services"),
+    ]);
+
+    expect(groups).toHaveLength(2);
+    const abc = groups.find(group => group.contractors.some(entry => entry.id === 1))!;
+    expect(abc.contractors.map(entry => entry.id)).toEqual([1, 2, 3]);
+    expect(abc.suggestedSurvivorId).toBe(2);
+    expect(abc.pairs.every(pair => pair.reason === "Same name")).toBe(true);
+
+    const byTin = groups.find(group => group.contractors.some(entry => entry.id === 4))!;
+    expect(byTin.pairs).toEqual([{ ids: [4, 5], reason: "Same TIN", similarity: nameSimilarity("PUERTO BUILDERS", "ISLAND AGGREGATES") }]);
+  });
+
+  it("never groups records with different TINs", () => {
+    expect(findDuplicateContractors([contractor(1, "ABC Construction", "111-111-111"), contractor(2, "ABC Const.", "999-999-999")])).toEqual([]);
+  });
+});
+
+describe("matchContractor", () => {
+  const registry = [contractor(1, "ABC Construction"), contractor(2, "Puerto Builders Corp.", "222-333-444"), contractor(3, "Roxas Builders")];
+
+  it("matches by TIN, then normalized name, then the closest name", () => {
+    expect(matchContractor("PBC", "222-333-444-000", registry)).toEqual({ contractorId: 2, reason: "Same TIN", similarity: expect.any(Number) });
+    expect(matchContractor("A.B.C. Const. Corp.", null, registry)).toEqual({ contractorId: 1, reason: "Same name", similarity: 1 });
+    expect(matchContractor("Puerto Bulders", null, registry)).toMatchObject({ contractorId: 2, reason: "Similar name" });
+    expect(matchContractor("Palawan Aggregates", null, registry)).toBeNull();
+  });
+});
+
+describe("mergedContractorFields", () => {
+  it("fills blank survivor fields from the duplicates", () => {
+    const blank = {
+      tradeName: null, tin: null, philgepsNumber: null, pcabLicense: null, pcabCategory: null, pcabClassification: null,
+      licenseExpiryDate: null, address: null, city: null, province: null, contactPerson: null, email: null, phone: null, mobile: null,
+    };
+    expect(
+      mergedContractorFields({ ...blank, pcabCategory: "B" }, [
+        { ...blank, pcabCategory: "C", tin: "123-456-789" },
+        { ...blank, tin: "999-999-999", phone: "0917 000 0000" },
+      ])
+    ).toEqual({ tin: "123-456-789", phone: "0917 000 0000" });
+  });
+});
+
+describe("mergedContractorStanding", () => {
+  const active = { status: "Active", blacklistReason: null, blacklistDate: null };
+  const blacklisted = { status: "Blacklisted", blacklistReason: "Abandoned works", blacklistDate: new Date("2025-11-03") };
+  const suspended = { status: "Suspended", blacklistReason: "Late deliveries", blacklistDate: new Date("2026-02-01") };
+
+  it("keeps the strictest standing of the merged records", () => {
+    expect(mergedContractorStanding(active, [suspended, blacklisted])).toEqual(blacklisted);
+    expect(mergedContractorStanding(suspended, [active])).toEqual({});
+    expect(mergedContractorStanding(blacklisted, [suspended])).toEqual({});
+  });
+});
+
+describe("assertSameTin", () => {
+  it("refuses to merge records with different TINs unless overridden", () => {
+    const records = [
+      { name: "ABC Construction", tin: "123-456-789-000" },
+      { name: "ABC Const.", tin: "123456789" },
+      { name: "A.B.C. Construction Corp", tin: null },
+    ];
+    expect(() => assertSameTin(records)).not.toThrow();
+
+    const other = [...records, { name: "ABC Builders", tin: "987-654-321" }];
+    expect(() => assertSameTin(other)).toThrow("have different TINs; they are separate firms");
+    expect(() => assertSameTin(other, true)).not.toThrow();
+  });
+});
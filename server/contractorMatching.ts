@@ -0,0 +1,279 @@
+import { TRPCError } from "@trpc/server";
+import type { Contractor } from "../drizzle/schema";
+
+/**
+ * Entity resolution for contractors imported from the free-text contractor
+ * column of projects, where one firm shows up as "ABC Construction",
+ * "ABC CONST." and "A.B.C. Construction Corp". Names are compared after
+ * normalization (case, punctuation, initials, abbreviations and legal-form
+ * suffixes), and contractors sharing a TIN are the same firm whatever
+ * their names. Two different TINs always mean two different firms.
+ */
+
+/** Name similarity (0-1) from which two contractors are flagged as possible duplicates */
+export const NAME_SIMILARITY_THRESHOLD = 0.88;
+
+/** Legal-form words dropped from names */
+const LEGAL_FORMS = new Set(["CORP", "CORPORATION", "INC", "INCORPORATED", "CO", "COMPANY", "LTD", "LIMITED", "OPC"]);
+
+/** Abbreviations written out, so "CONST." and "Construction" compare equal */
+const ABBREVIATIONS: Record<string, string> = {
+  CONST: "CONSTRUCTION",
+  CONSTN: "CONSTRUCTION",
+  CONSTRN: "CONSTRUCTION",
+  CONSTRUCTIONS: "CONSTRUCTION",
+  BLDRS: "BUILDERS",
+  BLDR: "BUILDERS",
+  BUILDER: "BUILDERS",
+  ENT: "ENTERPRISES",
+  ENTS: "ENTERPRISES",
+  ENTERPRISE: "ENTERPRISES",
+  GEN: "GENERAL",
+  GENL: "GENERAL",
+  DEV: "DEVELOPMENT",
+  DEVT: "DEVELOPMENT",
+  SVCS: "SERVICES",
+  SERVICE: "SERVICES",
+  TRDG: "TRADING",
+  CONTRACTORS: "CONTRACTOR",
+  "&": "AND",
+};
+
+/** Blank contractor fields a merge fills in from the duplicates */
+const MERGED_FIELDS = [
+  "tradeName",
+  "tin",
+  "philgepsNumber",
+  "pcabLicense",
+  "pcabCategory",
+  "pcabClassification",
+  "licenseExpiryDate",
+  "address",
+  "city",
+  "province",
+  "contactPerson",
+  "email",
+  "phone",
+  "mobile",
+] as const;
+
+type MatchableContractor = Pick<Contractor, "id" | "name" | "tin"> & Partial<Pick<Contractor, "totalContracts">>;
+
+export type DuplicateReason = "Same TIN" | "Same name" | "Similar name";
+
+export type DuplicatePair = { ids: [number, number]; reason: DuplicateReason; similarity: number };
+
+export type DuplicateGroup<T extends MatchableContractor> = {
+  contractors: T[];
+  pairs: DuplicatePair[];
+  /** Record to keep when the group is merged */
+  suggestedSurvivorId: number;
+};
+
+export type ContractorMatch = { contractorId: number; reason: DuplicateReason; similarity: number };
+
+export function normalizeContractorName(name: string) {
+  const tokens = name
+    .toUpperCase()
+    .replace(/&/g, " & ")
+    .replace(/[.,'"()\-/]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // Runs of initials ("A B C" from "A.B.C.") become one word
+  const words: string[] = [];
+  let initials = "";
+  for (const token of [...tokens, ""]) {
+    if (/^[A-Z]$/.test(token)) {
+      initials += token;
+      continue;
+    }
+    if (initials) words.push(initials);
+    initials = "";
+    if (token) words.push(token);
+  }
+
+  return words
+    .map(word => ABBREVIATIONS[word] ?? word)
+    .filter(word => !LEGAL_FORMS.has(word))
+    .join(" ");
+}
+
+/** The 9-digit base of a TIN (branch code dropped), or null when unusable */
+export function normalizeTin(tin: string | null | undefined) {
+  const digits = (tin ?? "").replace(/\D/g, "");
+  if (digits.length < 9 || /^0+$/.test(digits.slice(0, 9))) return null;
+  return digits.slice(0, 9);
+}
+
+/**
+ * Two different valid TINs mean two different firms, so such records are
+ * only merged when the caller explicitly overrides the check (e.g. a TIN
+ * typed in wrong).
+ */
+export function assertSameTin(contractors: Pick<Contractor, "name" | "tin">[], allowDifferentTins = false) {
+  if (allowDifferentTins) return;
+  const withTin = contractors.filter(contractor => normalizeTin(contractor.tin));
+  const distinct = new Set(withTin.map(contractor => normalizeTin(contractor.tin)));
+  if (distinct.size > 1) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `${withTin.map(contractor => `${contractor.name} (TIN ${contractor.tin})`).join(", ")} have different TINs; they are separate firms`,
+    });
+  }
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Similarity (0-1) of two normalized names */
+export function nameSimilarity(a: string, b: string) {
+  if (a === b) return 1;
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 0 : Math.round((1 - levenshtein(a, b) / length) * 1000) / 1000;
+}
+
+type Keyed<T> = T & { nameKey: string; tinKey: string | null };
+
+function withKeys<T extends Pick<Contractor, "name" | "tin">>(contractor: T): Keyed<T> {
+  return { ...contractor, nameKey: normalizeContractorName(contractor.name), tinKey: normalizeTin(contractor.tin) };
+}
+
+function compare(a: Keyed<Pick<Contractor, "name" | "tin">>, b: Keyed<Pick<Contractor, "name" | "tin">>) {
+  const similarity = nameSimilarity(a.nameKey, b.nameKey);
+  if (a.tinKey && b.tinKey) {
+    return a.tinKey === b.tinKey ? { reason: "Same TIN" as const, similarity } : null;
+  }
+  if (similarity === 1) return { reason: "Same name" as const, similarity };
+  if (similarity >= NAME_SIMILARITY_THRESHOLD) return { reason: "Similar name" as const, similarity };
+  return null;
+}
+
+/**
+ * Groups of contractors that are likely the same firm. Names are only
+ * compared within the same first word, which keeps the comparison cheap
+ * on a large registry; contractors sharing a TIN are grouped regardless.
+ */
+export function findDuplicateContractors<T extends MatchableContractor>(contractors: T[]): DuplicateGroup<T>[] {
+  const keyed = contractors.map(withKeys);
+  const blocks = new Map<string, Keyed<T>[]>();
+  for (const contractor of keyed) {
+    const keys = [`name:${contractor.nameKey.split(" ")[0]}`, contractor.tinKey ? `tin:${contractor.tinKey}` : null];
+    for (const key of keys) {
+      if (!key) continue;
+      blocks.set(key, [...(blocks.get(key) ?? []), contractor]);
+    }
+  }
+
+  const pairs = new Map<string, DuplicatePair>();
+  for (const block of Array.from(blocks.values())) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        const key = `${a.id}:${b.id}`;
+        if (pairs.has(key)) continue;
+        const match = compare(a, b);
+        if (match) pairs.set(key, { ids: [a.id, b.id], ...match });
+      }
+    }
+  }
+
+  // Union the pairs into groups
+  const parent = new Map<number, number>();
+  const root = (id: number): number => {
+    const up = parent.get(id) ?? id;
+    if (up === id) return id;
+    const top = root(up);
+    parent.set(id, top);
+    return top;
+  };
+  for (const { ids } of Array.from(pairs.values())) parent.set(root(ids[1]), root(ids[0]));
+
+  const groups = new Map<number, DuplicateGroup<T>>();
+  for (const pair of Array.from(pairs.values())) {
+    const id = root(pair.ids[0]);
+    const group = groups.get(id) ?? { contractors: [], pairs: [], suggestedSurvivorId: id };
+    group.pairs.push(pair);
+    groups.set(id, group);
+  }
+  for (const contractor of contractors) {
+    groups.get(root(contractor.id))?.contractors.push(contractor);
+  }
+
+  return Array.from(groups.values()).map(group => ({
+    ...group,
+    suggestedSurvivorId: [...group.contractors].sort(
+      (a, b) =>
+        (b.totalContracts ?? 0) - (a.totalContracts ?? 0) ||
+        Number(Boolean(normalizeTin(b.tin))) - Number(Boolean(normalizeTin(a.tin))) ||
+        a.id - b.id
+    )[0].id,
+  }));
+}
+
+/**
+ * The contractor record a free-text contractor name (and TIN, when known)
+ * refers to: by TIN, then by normalized name, then by the most similar
+ * name. Returns null when nothing is close enough or two records tie.
+ */
+export function matchContractor(
+  name: string,
+  tin: string | null | undefined,
+  contractors: Pick<Contractor, "id" | "name" | "tin">[]
+): ContractorMatch | null {
+  const subject = withKeys({ name, tin: tin ?? null });
+  if (!subject.nameKey && !subject.tinKey) return null;
+
+  const candidates = contractors
+    .map(withKeys)
+    .flatMap(contractor => {
+      const match = compare(subject, contractor);
+      return match ? [{ contractorId: contractor.id, ...match }] : [];
+    })
+    .sort((a, b) => Number(b.reason === "Same TIN") - Number(a.reason === "Same TIN") || b.similarity - a.similarity);
+
+  const [best, runnerUp] = candidates;
+  if (!best) return null;
+  if (runnerUp && runnerUp.reason === best.reason && runnerUp.similarity === best.similarity) return null;
+  return best;
+}
+
+/** Blank fields of the surviving record, filled in from the duplicates being merged into it */
+export function mergedContractorFields(
+  survivor: Pick<Contractor, (typeof MERGED_FIELDS)[number]>,
+  duplicates: Pick<Contractor, (typeof MERGED_FIELDS)[number]>[]
+) {
+  const updates: Partial<Pick<Contractor, (typeof MERGED_FIELDS)[number]>> = {};
+  for (const field of MERGED_FIELDS) {
+    if (survivor[field]) continue;
+    const value = duplicates.find(duplicate => duplicate[field])?.[field];
+    if (value) Object.assign(updates, { [field]: value });
+  }
+  return updates;
+}
+
+/** How strongly each status bars a contractor; statuses not listed do not */
+const STANDING_RANK: Record<string, number> = { Suspended: 1, Blacklisted: 2 };
+
+type Standing = Pick<Contractor, "status" | "blacklistReason" | "blacklistDate">;
+
+/**
+ * The most restrictive standing among the records being merged, when a
+ * duplicate's is stricter than the survivor's. A blacklisting or suspension
+ * set by hand on a duplicate must not be lost with the duplicate's record.
+ */
+export function mergedContractorStanding(survivor: Standing, duplicates: Standing[]): Partial<Standing> {
+  const rank = (record: Standing) => STANDING_RANK[record.status ?? ""] ?? 0;
+  const strictest = duplicates.reduce<Standing>((worst, duplicate) => (rank(duplicate) > rank(worst) ? duplicate : worst), survivor);
+  if (strictest === survivor) return {};
+  return { status: strictest.status, blacklistReason: strictest.blacklistReason, blacklistDate: strictest.blacklistDate };
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { activeSanction, assertInGoodStanding, assertNotSanctioned, assertSanctionPeriod, coversAgency, standingFromSanctions } from "./contractorSanctions";
+
+function sanction(
+  id: number,
+  sanctionType: "Suspension" | "Blacklist",
+  startDate: string,
+  endDate: string | null,
+  overrides: { coveredAgencies?: string[] | null; liftedDate?: Date | null; resolutionNumber?: string | null } = {}
+) {
+  return {
+    id,
+    sanctionType,
+    issuingAuthority: "PEO Bids and Awards Committee",
+    resolutionNumber: `2026-0${id}`,
+    reason: `Reason ${id}`,
+    startDate: new Date(startDate),
+    endDate: endDate ? new Date(endDate) : null,
+    coveredAgencies: null,
+    liftedDate: null,
+    ...overrides,
+  };
+}
+
+const contractor = { name: "Puerto Builders Corp.", status: "Suspended", blacklistReason: "Reason 1", blacklistDate: new Date("2026-01-15") };
+
+describe("activeSanction", () => {
+  it("only counts sanctions in force on the date and not yet lifted", () => {
+    const sanctions = [
+      sanction(1, "Suspension", "2026-01-15", "2026-07-14"),
+      sanction(2, "Suspension", "2026-08-01", null, { liftedDate: new Date("2026-09-01") }),
+    ];
+
+    expect(activeSanction(sanctions, new Date("2026-07-14"))?.id).toBe(1);
+    expect(activeSanction(sanctions, new Date("2026-07-15"))).toBeNull();
+    expect(activeSanction(sanctions, new Date("2026-08-31"))?.id).toBe(2);
+    expect(activeSanction(sanctions, new Date("2026-09-01"))).toBeNull();
+  });
+
+  it("prefers a blacklisting over a suspension and ignores sanctions for other agencies", () => {
+    const sanctions = [
+      sanction(1, "Suspension", "2026-01-15", "2027-01-14"),
+      sanction(2, "Blacklist", "2026-03-01", "2026-12-31"),
+      sanction(3, "Blacklist", "2026-02-01", null, { coveredAgencies: ["DPWH"] }),
+    ];
+
+    expect(activeSanction(sanctions, new Date("2026-04-01"))?.id).toBe(2);
+    expect(coversAgency({ coveredAgencies: ["Province of Palawan"] })).toBe(true);
+    expect(coversAgency({ coveredAgencies: ["DPWH"] })).toBe(false);
+  });
+});
+
+describe("standingFromSanctions", () => {
+  it("reinstates a contractor once no sanction is in force", () => {
+    expect(standingFromSanctions(contractor, null)).toEqual({ status: "Active", blacklistReason: null, blacklistDate: null });
+    expect(standingFromSanctions({ ...contractor, status: "Inactive" }, null)).toMatchObject({ status: "Inactive" });
+    expect(standingFromSanctions({ ...contractor, status: "Active" }, sanction(4, "Blacklist", "2026-05-01", null))).toEqual({
+      status: "Blacklisted",
+      blacklistReason: "Reason 4",
+      blacklistDate: new Date("2026-05-01"),
+    });
+  });
+});
+
+describe("assertNotSanctioned", () => {
+  it("names the sanction that bars the contractor", () => {
+    expect(() => assertNotSanctioned(contractor, null)).not.toThrow();
+    expect(() => assertNotSanctioned(contractor, sanction(1, "Suspension", "2026-01-15", "2026-07-14"))).toThrow(
+      "Puerto Builders Corp. is suspended until 2026-07-14 under Resolution No. 2026-01 of PEO Bids and Awards Committee: Reason 1"
+    );
+    expect(() => assertNotSanctioned(contractor, sanction(2, "Blacklist", "2026-01-15", null, { resolutionNumber: null }))).toThrow(
+      "Puerto Builders Corp. is blacklisted indefinitely under PEO Bids and Awards Committee: Reason 2"
+    );
+  });
+
+  it("falls back to a status set by hand when no sanction is on record", () => {
+    const asOf = new Date("2026-03-01");
+    expect(() => assertInGoodStanding({ ...contractor, status: "Blacklisted", blacklistReason: "Abandoned works" }, [], asOf)).toThrow(
+      "Puerto Builders Corp. is blacklisted on the contractor record: Abandoned works"
+    );
+    expect(() => assertInGoodStanding({ ...contractor, status: "Active" }, [], asOf)).not.toThrow();
+    // With sanctions on record the status is theirs to keep, so a lapsed one no longer bars
+    expect(() => assertInGoodStanding(contractor, [sanction(1, "Suspension", "2026-01-15", "2026-02-14")], asOf)).not.toThrow();
+  });
+
+  it("rejects a sanction that ends before it starts", () => {
+    expect(() => assertSanctionPeriod(new Date("2026-03-01"), new Date("2026-02-28"))).toThrow("A sanction cannot end before it starts");
+    expect(() => assertSanctionPeriod(new Date("2026-03-01"), null)).not.toThrow();
+  });
+});
@@ -0,0 +1,126 @@
+import { TRPCError } from "@trpc/server";
+import type { Contractor, ContractorSanction } from "../drizzle/schema";
+import { dayKey } from "./util";
+
+/**
+ * Suspensions and blacklistings of contractors. A sanction is in force from
+ * its start date through its end date (indefinitely when there is none)
+ * unless lifted earlier, and it bars this office only when it covers it: a
+ * sanction without covered agencies applies to every government agency.
+ * The contractor's status follows its sanctions, so a suspension that runs
+ * out reinstates the contractor without anyone touching the record.
+ */
+
+export const SANCTION_TYPES = ["Suspension", "Blacklist"] as const;
+
+export type SanctionType = (typeof SANCTION_TYPES)[number];
+
+/** The procuring entity whose awards these sanctions are enforced on */
+export const OWN_AGENCY = "Province of Palawan - PEO";
+
+/** Contractor status while each type of sanction is in force */
+export const SANCTION_STATUS: Record<SanctionType, string> = {
+  Suspension: "Suspended",
+  Blacklist: "Blacklisted",
+};
+
+type SanctionPeriod = Pick<
+  ContractorSanction,
+  "id" | "sanctionType" | "issuingAuthority" | "resolutionNumber" | "reason" | "startDate" | "endDate" | "coveredAgencies" | "liftedDate"
+>;
+
+export function assertSanctionPeriod(startDate: Date, endDate: Date | null | undefined) {
+  if (endDate && dayKey(endDate) < dayKey(startDate)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "A sanction cannot end before it starts" });
+  }
+}
+
+export function sanctionInForce(sanction: SanctionPeriod, asOf: Date) {
+  const day = dayKey(asOf);
+  return (
+    dayKey(sanction.startDate) <= day &&
+    (!sanction.endDate || dayKey(sanction.endDate) >= day) &&
+    (!sanction.liftedDate || dayKey(sanction.liftedDate) > day)
+  );
+}
+
+/** Whether the sanction covers `agency`; an entry may name the agency or the government it belongs to */
+export function coversAgency(sanction: Pick<ContractorSanction, "coveredAgencies">, agency = OWN_AGENCY) {
+  const covered = (sanction.coveredAgencies ?? []).map(entry => entry.trim().toLowerCase()).filter(Boolean);
+  return covered.length === 0 || covered.some(entry => agency.toLowerCase().includes(entry));
+}
+
+/** The sanction barring the contractor on `asOf`: a blacklisting over a suspension, then the one running longest */
+export function activeSanction<T extends SanctionPeriod>(sanctions: T[], asOf: Date, agency = OWN_AGENCY): T | null {
+  const endKey = (sanction: T) => (sanction.endDate ? dayKey(sanction.endDate) : "9999-12-31");
+  return (
+    sanctions
+      .filter(sanction => sanctionInForce(sanction, asOf) && coversAgency(sanction, agency))
+      .sort(
+        (a, b) =>
+          Number(b.sanctionType === "Blacklist") - Number(a.sanctionType === "Blacklist") ||
+          endKey(b).localeCompare(endKey(a))
+      )[0] ?? null
+  );
+}
+
+/**
+ * Status, reason and date the contractor record should carry. Without a
+ * sanction in force a suspended or blacklisted contractor is reinstated;
+ * other statuses (Active, Inactive) are left alone.
+ */
+export function standingFromSanctions(
+  contractor: Pick<Contractor, "status" | "blacklistReason" | "blacklistDate">,
+  sanction: SanctionPeriod | null
+) {
+  if (sanction) {
+    return {
+      status: SANCTION_STATUS[sanction.sanctionType],
+      blacklistReason: sanction.reason,
+      blacklistDate: new Date(sanction.startDate),
+    };
+  }
+  if (Object.values(SANCTION_STATUS).includes(contractor.status ?? "Active")) {
+    return { status: "Active", blacklistReason: null, blacklistDate: null };
+  }
+  return { status: contractor.status, blacklistReason: contractor.blacklistReason, blacklistDate: contractor.blacklistDate };
+}
+
+export function describeSanction(sanction: SanctionPeriod) {
+  const status = SANCTION_STATUS[sanction.sanctionType].toLowerCase();
+  const until = sanction.endDate ? `until ${dayKey(sanction.endDate)}` : "indefinitely";
+  const resolution = sanction.resolutionNumber ? `Resolution No. ${sanction.resolutionNumber} of ` : "";
+  return `${status} ${until} under ${resolution}${sanction.issuingAuthority}`;
+}
+
+/** Refuse to link a sanctioned contractor to a bidding, contract or project */
+export function assertNotSanctioned(contractor: Pick<Contractor, "name">, sanction: SanctionPeriod | null) {
+  if (!sanction) return;
+  throw new TRPCError({
+    code: "BAD_REQUEST",
+    message: `${contractor.name} is ${describeSanction(sanction)}: ${sanction.reason}`,
+  });
+}
+
+/**
+ * Refuse a contractor barred by its sanctions on `asOf`. Contractors
+ * suspended or blacklisted by hand before sanctions were recorded have no
+ * sanction rows, so for them the status on the record is what bars them.
+ */
+export function assertInGoodStanding(
+  contractor: Pick<Contractor, "name" | "status" | "blacklistReason">,
+  sanctions: SanctionPeriod[],
+  asOf: Date
+) {
+  if (sanctions.length > 0) {
+    assertNotSanctioned(contractor, activeSanction(sanctions, asOf));
+    return;
+  }
+  if (contractor.status && Object.values(SANCTION_STATUS).includes(contractor.status)) {
+    const reason = contractor.blacklistReason ? `: ${contractor.blacklistReason}` : "";
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${contractor.name} is ${contractor.status.toLowerCase()} on the contractor record${reason}`,
+    });
+  }
+}
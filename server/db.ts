@@ -317,6 +317,7 @@ export async function createProject(data: {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
+  const match = data.contractor ? await findContractorMatch(data.contractor) : null;
   const result = await db.insert(projects).values({
     projectName: data.projectName,
     category: data.category || null,
@@ -327,6 +328,7 @@ export async function createProject(data: {
     fiscalYear: data.fiscalYear || new Date().getFullYear(),
     projectCost: data.projectCost || null,
     contractor: data.contractor || null,
+    contractorId: match?.contractorId ?? null,
     status: data.status || "Not yet started",
     createdById: data.createdById || null,
   });
@@ -350,7 +352,10 @@ export async function updateProject(id: number, data: Partial<{
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  await db.update(projects).set(data).where(eq(projects.id, id));
+  const contractorId = data.contractor !== undefined
+    ? { contractorId: data.contractor ? (await findContractorMatch(data.contractor))?.contractorId ?? null : null }
+    : {};
+  await db.update(projects).set({ ...data, ...contractorId }).where(eq(projects.id, id));
   return { success: true };
 }
 
@@ -362,6 +367,728 @@ export async function deleteProject(id: number) {
   return { success: true };
 }
 
+// ==================== PROJECT PROGRESS (S-CURVE) ====================
+
+import { projectPlannedProgress, projectActualProgress } from "../drizzle/schema";
+import { buildSCurve, latestSlippage, slippageHistory, type ProgressStatus, type SlippageFlag } from "./slippage";
+
+export async function getProjectPlannedProgress(projectId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(projectPlannedProgress)
+    .where(eq(projectPlannedProgress.projectId, projectId))
+    .orderBy(asc(projectPlannedProgress.periodDate));
+}
+
+/** Replace a project's whole planned schedule */
+export async function setProjectPlannedProgress(projectId: number, points: { periodDate: string; plannedPercent: number }[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async tx => {
+    await tx.delete(projectPlannedProgress).where(eq(projectPlannedProgress.projectId, projectId));
+    if (points.length > 0) {
+      await tx.insert(projectPlannedProgress).values(
+        points.map(point => ({
+          projectId,
+          periodDate: new Date(point.periodDate),
+          plannedPercent: String(point.plannedPercent),
+        }))
+      );
+    }
+  });
+
+  return { success: true, points: points.length };
+}
+
+export async function getProjectActualProgress(projectId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(projectActualProgress)
+    .where(eq(projectActualProgress.projectId, projectId))
+    .orderBy(asc(projectActualProgress.reportDate));
+}
+
+export async function getProjectActualProgressById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(projectActualProgress).where(eq(projectActualProgress.id, id)).limit(1);
+  return result[0];
+}
+
+/** Record accomplishment as of a date; a second report for the same date replaces the first */
+export async function recordProjectProgress(data: {
+  projectId: number;
+  reportDate: string;
+  actualPercent: number;
+  remarks?: string;
+  reportedById?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const values = {
+    projectId: data.projectId,
+    reportDate: new Date(data.reportDate),
+    actualPercent: String(data.actualPercent),
+    remarks: data.remarks || null,
+    reportedById: data.reportedById || null,
+  };
+  await db.insert(projectActualProgress).values(values).onDuplicateKeyUpdate({
+    set: { actualPercent: values.actualPercent, remarks: values.remarks, reportedById: values.reportedById },
+  });
+
+  const [report] = await db
+    .select({ id: projectActualProgress.id })
+    .from(projectActualProgress)
+    .where(and(eq(projectActualProgress.projectId, data.projectId), eq(projectActualProgress.reportDate, values.reportDate)))
+    .limit(1);
+  await syncProjectProgressPercent(data.projectId);
+
+  return { id: report?.id };
+}
+
+export async function updateProjectProgress(id: number, data: { actualPercent?: number; remarks?: string }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getProjectActualProgressById(id);
+  await db
+    .update(projectActualProgress)
+    .set({
+      actualPercent: data.actualPercent !== undefined ? String(data.actualPercent) : undefined,
+      remarks: data.remarks,
+    })
+    .where(eq(projectActualProgress.id, id));
+  if (existing) await syncProjectProgressPercent(existing.projectId);
+
+  return { success: true };
+}
+
+export async function deleteProjectProgress(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getProjectActualProgressById(id);
+  await db.delete(projectActualProgress).where(eq(projectActualProgress.id, id));
+  if (existing) await syncProjectProgressPercent(existing.projectId);
+
+  return { success: true };
+}
+
+/** projects.progressPercent (1 = 100%) mirrors the latest actual report */
+async function syncProjectProgressPercent(projectId: number) {
+  const db = await getDb();
+  if (!db) return;
+
+  const [latest] = await db
+    .select({ actualPercent: projectActualProgress.actualPercent })
+    .from(projectActualProgress)
+    .where(eq(projectActualProgress.projectId, projectId))
+    .orderBy(desc(projectActualProgress.reportDate))
+    .limit(1);
+  if (!latest) return;
+
+  await db
+    .update(projects)
+    .set({ progressPercent: (Number(latest.actualPercent) / 100).toFixed(2) })
+    .where(eq(projects.id, projectId));
+}
+
+/** Planned and actual series for a project's S-curve chart */
+export async function getProjectSCurve(projectId: number) {
+  const [plan, actuals] = await Promise.all([getProjectPlannedProgress(projectId), getProjectActualProgress(projectId)]);
+  const history = slippageHistory(plan, actuals);
+
+  return {
+    projectId,
+    points: buildSCurve(plan, actuals),
+    latest: history[history.length - 1] ?? null,
+  };
+}
+
+/**
+ * Latest slippage of every project with progress reports, worst first.
+ * `asOf` ignores reports after that date so past reporting periods can be
+ * reproduced.
+ */
+export async function getSlippageReport(filters: {
+  asOf?: string;
+  fiscalYear?: number;
+  municipality?: string;
+  status?: ProgressStatus;
+  flag?: SlippageFlag;
+} = {}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [];
+  if (filters.fiscalYear) conditions.push(eq(projects.fiscalYear, filters.fiscalYear));
+  if (filters.municipality) conditions.push(eq(projects.municipality, filters.municipality));
+
+  const reported = await db
+    .selectDistinct({
+      id: projects.id,
+      projectName: projects.projectName,
+      projectId: projects.projectId,
+      municipality: projects.municipality,
+      contractor: projects.contractor,
+      projectStatus: projects.status,
+    })
+    .from(projects)
+    .innerJoin(projectActualProgress, eq(projectActualProgress.projectId, projects.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined);
+  if (reported.length === 0) return [];
+
+  const [plans, actuals] = await Promise.all([
+    db.select().from(projectPlannedProgress),
+    db.select().from(projectActualProgress),
+  ]);
+  const asOf = filters.asOf ? new Date(filters.asOf) : new Date();
+
+  return reported
+    .map(project => {
+      const latest = latestSlippage(
+        plans.filter(point => point.projectId === project.id),
+        actuals.filter(report => report.projectId === project.id),
+        asOf
+      );
+      return latest ? { ...project, ...latest } : null;
+    })
+    .filter((row): row is NonNullable<typeof row> => row !== null)
+    .filter(row => (!filters.status || row.status === filters.status) && (!filters.flag || row.flag === filters.flag))
+    .sort((a, b) => a.slippage - b.slippage);
+}
+
+// ==================== TIME EXTENSIONS & SUSPENSIONS ====================
+
+import { timeAdjustments, InsertTimeAdjustment } from "../drizzle/schema";
+import { assertTimeAdjustments, computeContractTime } from "./contractTime";
+
+type TimeAdjustmentFields = {
+  adjustmentType: InsertTimeAdjustment["adjustmentType"];
+  orderNumber?: string;
+  effectiveDate: string;
+  approvedDays?: number | null;
+  reasonCategory?: InsertTimeAdjustment["reasonCategory"];
+  reason?: string;
+  approvalDate?: string;
+  approvedBy?: string;
+};
+
+function timeAdjustmentValues(data: Partial<TimeAdjustmentFields>): Partial<InsertTimeAdjustment> {
+  return {
+    adjustmentType: data.adjustmentType,
+    orderNumber: data.orderNumber,
+    effectiveDate: data.effectiveDate ? new Date(data.effectiveDate) : undefined,
+    approvedDays: data.approvedDays,
+    reasonCategory: data.reasonCategory,
+    reason: data.reason,
+    approvalDate: data.approvalDate === undefined ? undefined : data.approvalDate ? new Date(data.approvalDate) : null,
+    approvedBy: data.approvedBy,
+  };
+}
+
+export async function getTimeAdjustments(projectId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(timeAdjustments)
+    .where(eq(timeAdjustments.projectId, projectId))
+    .orderBy(asc(timeAdjustments.effectiveDate), asc(timeAdjustments.id));
+}
+
+export async function getTimeAdjustmentById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(timeAdjustments).where(eq(timeAdjustments.id, id)).limit(1);
+  return result[0];
+}
+
+export async function createTimeAdjustment(data: TimeAdjustmentFields & { projectId: number; createdById?: number }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const values: InsertTimeAdjustment = {
+    ...timeAdjustmentValues(data),
+    projectId: data.projectId,
+    adjustmentType: data.adjustmentType,
+    effectiveDate: new Date(data.effectiveDate),
+    createdById: data.createdById || null,
+  };
+  assertTimeAdjustments([...(await getTimeAdjustments(data.projectId)), { id: Infinity, approvedDays: null, ...values }]);
+
+  const result = await db.insert(timeAdjustments).values(values);
+  await syncContractTime(data.projectId);
+
+  return { id: result[0].insertId };
+}
+
+export async function updateTimeAdjustment(id: number, data: Partial<TimeAdjustmentFields>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getTimeAdjustmentById(id);
+  if (!existing) return { success: false };
+
+  const changes = timeAdjustmentValues(data);
+  const others = (await getTimeAdjustments(existing.projectId)).filter(order => order.id !== id);
+  assertTimeAdjustments([
+    ...others,
+    {
+      id,
+      adjustmentType: changes.adjustmentType ?? existing.adjustmentType,
+      effectiveDate: changes.effectiveDate ?? existing.effectiveDate,
+      approvedDays: changes.approvedDays !== undefined ? changes.approvedDays : existing.approvedDays,
+    },
+  ]);
+
+  await db.update(timeAdjustments).set({ ...changes, updatedAt: new Date() }).where(eq(timeAdjustments.id, id));
+  await syncContractTime(existing.projectId);
+
+  return { success: true };
+}
+
+export async function deleteTimeAdjustment(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getTimeAdjustmentById(id);
+  if (!existing) return { success: false };
+
+  // Removing a suspension would leave its resumption dangling
+  assertTimeAdjustments((await getTimeAdjustments(existing.projectId)).filter(order => order.id !== id));
+
+  await db.delete(timeAdjustments).where(eq(timeAdjustments.id, id));
+  await syncContractTime(existing.projectId);
+
+  return { success: true };
+}
+
+/** Original and revised completion dates, extension/suspension days and remaining contract days */
+export async function getProjectContractTime(projectId: number) {
+  const project = await getProjectById(projectId);
+  if (!project) return undefined;
+
+  const adjustments = await getTimeAdjustments(projectId);
+  return { projectId, ...computeContractTime(project, adjustments), adjustments };
+}
+
+/**
+ * Write the recomputed completion date and extension count back to the
+ * project, and the extension totals and suspension status to its contract
+ * history rows.
+ */
+async function syncContractTime(projectId: number) {
+  const db = await getDb();
+  if (!db) return;
+
+  const project = await getProjectById(projectId);
+  if (!project) return;
+
+  const time = computeContractTime(project, await getTimeAdjustments(projectId));
+  await db
+    .update(projects)
+    .set({ revisedCompletionDate: time.revisedCompletionDate, extensionCount: time.extensionCount })
+    .where(eq(projects.id, projectId));
+
+  await db
+    .update(contractHistory)
+    .set({ timeExtensions: time.extensionCount, extensionDays: time.extensionDays })
+    .where(eq(contractHistory.projectId, projectId));
+  await db
+    .update(contractHistory)
+    .set({ status: time.suspendedSince ? "Suspended" : "Ongoing" })
+    .where(and(
+      eq(contractHistory.projectId, projectId),
+      eq(contractHistory.status, time.suspendedSince ? "Ongoing" : "Suspended")
+    ));
+}
+
+// ==================== VARIATION ORDERS ====================
+
+import {
+  variationOrders,
+  variationOrderItems,
+  variationOrderApprovals,
+  InsertVariationOrder,
+  type VariationOrder,
+  type VariationOrderApproval,
+} from "../drizzle/schema";
+import {
+  assertDraft,
+  assertWithinCap,
+  checkVariationCap,
+  lineItemAmount,
+  originalContractAmount,
+  planApprovalAction,
+  summarizeLineItems,
+  type LineItemInput,
+} from "./variationOrders";
+
+type VariationLineItem = LineItemInput & { itemNumber?: string; description: string; unit?: string };
+
+function lineItemValues(variationOrderId: number, items: VariationLineItem[]) {
+  return items.map(item => ({
+    variationOrderId,
+    itemNumber: item.itemNumber || null,
+    description: item.description,
+    unit: item.unit || null,
+    changeType: item.changeType,
+    quantity: String(item.quantity),
+    unitPrice: String(item.unitPrice),
+    amount: String(lineItemAmount(item)),
+  }));
+}
+
+function amountValues(items: VariationLineItem[]) {
+  const totals = summarizeLineItems(items);
+  return {
+    additiveAmount: String(totals.additiveAmount),
+    deductiveAmount: String(totals.deductiveAmount),
+    netAmount: String(totals.netAmount),
+  };
+}
+
+export async function getVariationOrders(projectId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(variationOrders)
+    .where(eq(variationOrders.projectId, projectId))
+    .orderBy(asc(variationOrders.voNumber));
+}
+
+export async function getVariationOrderById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [order] = await db.select().from(variationOrders).where(eq(variationOrders.id, id)).limit(1);
+  if (!order) return undefined;
+
+  const [items, approvals] = await Promise.all([
+    db.select().from(variationOrderItems).where(eq(variationOrderItems.variationOrderId, id)).orderBy(asc(variationOrderItems.id)),
+    db.select().from(variationOrderApprovals).where(eq(variationOrderApprovals.variationOrderId, id)).orderBy(asc(variationOrderApprovals.actedAt)),
+  ]);
+  return { ...order, items, approvals };
+}
+
+export async function createVariationOrder(data: {
+  projectId: number;
+  orderType: InsertVariationOrder["orderType"];
+  title: string;
+  justification: string;
+  items: VariationLineItem[];
+  createdById?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const id = await db.transaction(async tx => {
+    // Lock the project's VOs so two drafts cannot take the same number
+    const [last] = await tx
+      .select({ voNumber: variationOrders.voNumber })
+      .from(variationOrders)
+      .where(eq(variationOrders.projectId, data.projectId))
+      .orderBy(desc(variationOrders.voNumber))
+      .limit(1)
+      .for("update");
+
+    const result = await tx.insert(variationOrders).values({
+      projectId: data.projectId,
+      voNumber: (last?.voNumber ?? 0) + 1,
+      orderType: data.orderType,
+      title: data.title,
+      justification: data.justification,
+      ...amountValues(data.items),
+      createdById: data.createdById || null,
+    });
+    const orderId = result[0].insertId;
+    if (data.items.length > 0) {
+      await tx.insert(variationOrderItems).values(lineItemValues(orderId, data.items));
+    }
+    return orderId;
+  });
+
+  return { id };
+}
+
+export async function updateVariationOrder(id: number, data: Partial<{
+  orderType: InsertVariationOrder["orderType"];
+  title: string;
+  justification: string;
+  items: VariationLineItem[];
+}>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getVariationOrderById(id);
+  if (!existing) return { success: false };
+  assertDraft(existing);
+
+  const { items, ...fields } = data;
+  await db.transaction(async tx => {
+    await tx
+      .update(variationOrders)
+      .set({ ...fields, ...(items ? amountValues(items) : {}), updatedAt: new Date() })
+      .where(eq(variationOrders.id, id));
+    if (items) {
+      await tx.delete(variationOrderItems).where(eq(variationOrderItems.variationOrderId, id));
+      if (items.length > 0) await tx.insert(variationOrderItems).values(lineItemValues(id, items));
+    }
+  });
+
+  return { success: true };
+}
+
+export async function deleteVariationOrder(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getVariationOrderById(id);
+  if (!existing) return { success: false };
+  assertDraft(existing);
+
+  await db.transaction(async tx => {
+    await tx.delete(variationOrderItems).where(eq(variationOrderItems.variationOrderId, id));
+    await tx.delete(variationOrders).where(eq(variationOrders.id, id));
+  });
+
+  return { success: true };
+}
+
+/**
+ * Cumulative additive VOs of a project against the cap, optionally counting
+ * one more VO that is not approved yet.
+ */
+export async function getVariationCap(projectId: number, pendingOrderId?: number) {
+  const project = await getProjectById(projectId);
+  const approved = (await getVariationOrders(projectId)).filter(order => order.status === "Approved");
+  const pending =
+    pendingOrderId && !approved.some(order => order.id === pendingOrderId)
+      ? await getVariationOrderById(pendingOrderId)
+      : undefined;
+
+  return checkVariationCap(originalContractAmount(project), approved, Number(pending?.additiveAmount ?? 0));
+}
+
+/** Send a draft VO up the approval chain; the cap check is returned so the UI can warn early */
+export async function submitVariationOrder(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getVariationOrderById(id);
+  if (!existing) return { success: false };
+  assertDraft(existing);
+
+  const cap = await getVariationCap(existing.projectId, id);
+  await db
+    .update(variationOrders)
+    .set({ status: "Submitted", currentStep: 0, submittedAt: new Date() })
+    .where(eq(variationOrders.id, id));
+
+  return { success: true, cap };
+}
+
+/**
+ * Record the current approver's decision. The last approval is refused when
+ * it would take cumulative additive VOs over the cap; once approved, the
+ * project's revised contract amount and its contract history are updated.
+ */
+export async function actOnVariationOrder(id: number, data: {
+  action: "Approved" | "Rejected";
+  remarks?: string;
+  approverId?: number;
+  approverName?: string;
+  /** Checked against the locked VO, e.g. that the user may act on its current step */
+  assertCanAct?: (order: VariationOrder & { approvals: VariationOrderApproval[] }) => void;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getVariationOrderById(id);
+  if (!existing) return { success: false };
+
+  // Lock every VO of the project so concurrent approvals are checked against the same cap
+  return db.transaction(async tx => {
+    const orders = await tx.select().from(variationOrders).where(eq(variationOrders.projectId, existing.projectId)).for("update");
+    const order = orders.find(entry => entry.id === id);
+    if (!order) return { success: false };
+
+    const approvals = await tx.select().from(variationOrderApprovals).where(eq(variationOrderApprovals.variationOrderId, id));
+    data.assertCanAct?.({ ...order, approvals });
+    const next = planApprovalAction(order, data.action);
+
+    const [project] = await tx.select().from(projects).where(eq(projects.id, existing.projectId)).limit(1);
+    const approved = orders.filter(entry => entry.status === "Approved");
+    const cap = checkVariationCap(originalContractAmount(project), approved, Number(order.additiveAmount ?? 0));
+    if (next.finalApproval) assertWithinCap(cap);
+
+    await tx.insert(variationOrderApprovals).values({
+      variationOrderId: id,
+      step: next.step,
+      stepTitle: next.stepTitle,
+      action: data.action,
+      approverId: data.approverId || null,
+      approverName: data.approverName || null,
+      remarks: data.remarks || null,
+    });
+    await tx
+      .update(variationOrders)
+      .set({
+        status: next.status,
+        currentStep: next.currentStep,
+        approvedAt: next.finalApproval ? new Date() : undefined,
+      })
+      .where(eq(variationOrders.id, id));
+
+    if (next.finalApproval) await syncContractAmounts(tx, existing.projectId);
+
+    return { success: true, status: next.status, cap };
+  });
+}
+
+/** Revised contract amount on the project, VO totals and final amount on its contract history */
+async function syncContractAmounts(tx: Transaction, projectId: number) {
+  const [project] = await tx.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+  if (!project) return;
+
+  const approved = await tx
+    .select()
+    .from(variationOrders)
+    .where(and(eq(variationOrders.projectId, projectId), eq(variationOrders.status, "Approved")));
+  const netAmount = approved.reduce((sum, order) => sum + Number(order.netAmount), 0);
+
+  if (project.contractCost != null) {
+    await tx
+      .update(projects)
+      .set({ revisedContractAmount: (Number(project.contractCost) + netAmount).toFixed(2) })
+      .where(eq(projects.id, projectId));
+  }
+
+  const contracts = await tx.select().from(contractHistory).where(eq(contractHistory.projectId, projectId));
+  for (const contract of contracts) {
+    await tx
+      .update(contractHistory)
+      .set({
+        variationOrders: approved.length,
+        variationAmount: netAmount.toFixed(2),
+        finalAmount: contract.contractAmount != null ? (Number(contract.contractAmount) + netAmount).toFixed(2) : null,
+      })
+      .where(eq(contractHistory.id, contract.id));
+  }
+}
+
+// ==================== LIQUIDATED DAMAGES ====================
+
+import { isNull, isNotNull } from "drizzle-orm";
+import { computeLiquidatedDamages, liquidatedDamagesDeduction, timelinessRatingFromDamages } from "./liquidatedDamages";
+
+/** Damages withheld so far by the project's billings */
+async function getLiquidatedDamagesDeducted(projectId: number) {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const [result] = await db
+    .select({ total: sql<string>`COALESCE(SUM(${documents.liquidatedDamages}), 0)` })
+    .from(documents)
+    .where(and(eq(documents.projectId, projectId), isNotNull(documents.billingType)));
+  return Number(result?.total ?? 0);
+}
+
+/**
+ * Liquidated damages accrued by a project up to its completion (or today),
+ * with what billings have deducted so far and what the next billing should
+ * withhold.
+ */
+export async function getProjectLiquidatedDamages(projectId: number) {
+  const project = await getProjectById(projectId);
+  if (!project) return undefined;
+
+  const [adjustments, reports, deducted] = await Promise.all([
+    getTimeAdjustments(projectId),
+    getProjectActualProgress(projectId),
+    getLiquidatedDamagesDeducted(projectId),
+  ]);
+  const damages = computeLiquidatedDamages(project, computeContractTime(project, adjustments), reports);
+
+  return {
+    projectId,
+    ...damages,
+    deducted,
+    pendingDeduction: liquidatedDamagesDeduction(damages.amount, deducted),
+  };
+}
+
+/** Unfinished projects past their completion date with the damages accrued so far, largest first */
+export async function getLateProjects(filters: { fiscalYear?: number; municipality?: string } = {}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [isNull(projects.dateCompleted)];
+  if (filters.fiscalYear) conditions.push(eq(projects.fiscalYear, filters.fiscalYear));
+  if (filters.municipality) conditions.push(eq(projects.municipality, filters.municipality));
+
+  const candidates = await db.select().from(projects).where(and(...conditions));
+  if (candidates.length === 0) return [];
+
+  const [adjustments, reports] = await Promise.all([
+    db.select().from(timeAdjustments),
+    db.select().from(projectActualProgress),
+  ]);
+
+  return candidates
+    .map(project => {
+      const time = computeContractTime(project, adjustments.filter(order => order.projectId === project.id));
+      const damages = computeLiquidatedDamages(
+        project,
+        time,
+        reports.filter(report => report.projectId === project.id)
+      );
+      return {
+        id: project.id,
+        projectName: project.projectName,
+        projectId: project.projectId,
+        municipality: project.municipality,
+        contractor: project.contractor,
+        projectStatus: project.status,
+        ...damages,
+      };
+    })
+    .filter(row => row.delayDays > 0)
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Contract history linked to a project shows the damages accrued as of now
+ * rather than a stored figure, which would go stale as days of delay pass.
+ */
+async function withComputedDamages<T extends Pick<ContractHistory, "projectId" | "liquidatedDamages">>(contracts: T[]) {
+  const projectIds = Array.from(new Set(contracts.map(contract => contract.projectId).filter((id): id is number => id != null)));
+  const damages = new Map<number, number>();
+  for (const projectId of projectIds) {
+    const result = await getProjectLiquidatedDamages(projectId);
+    if (result) damages.set(projectId, result.amount);
+  }
+  return contracts.map(contract =>
+    contract.projectId != null && damages.has(contract.projectId)
+      ? { ...contract, liquidatedDamages: damages.get(contract.projectId)!.toFixed(2) }
+      : contract
+  );
+}
+
 // ==================== DOCUMENT QUERIES & CRUD ====================
 
 import { documents, InsertDocument, tasks, InsertTask } from "../drizzle/schema";
@@ -449,6 +1176,14 @@ export async function getDocumentById(id: number) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getDocumentByRefNumber(refNumber: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(documents).where(eq(documents.refNumber, refNumber)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function createDocument(data: {
   name: string;
   refNumber?: string;
@@ -470,6 +1205,7 @@ export async function createDocument(data: {
   contractorId?: number | null;
   contractAmount?: string | null;
   revisedContractAmount?: string | null;
+  liquidatedDamages?: string | null;
   periodCovered?: string | null;
   dateStarted?: Date | null;
   completionDate?: Date | null;
@@ -477,33 +1213,45 @@ export async function createDocument(data: {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  // Generate ref number if not provided
-  const refNumber = data.refNumber || `DOC-${Date.now().toString().slice(-5)}`;
+  // A billing on a late project withholds the damages earlier billings have not
+  const liquidatedDamages =
+    data.liquidatedDamages === undefined && data.billingType && data.projectId
+      ? (await getProjectLiquidatedDamages(data.projectId))?.pendingDeduction.toFixed(2)
+      : data.liquidatedDamages;
+
+  const { result, refNumber } = await db.transaction(async tx => {
+    // Generate ref number if not provided
+    const refNumber = data.refNumber ||
+      await nextSequenceNumber(tx, "DOC", { fiscalYear: new Date().getFullYear(), division: data.division }, documents.refNumber);
+
+    const result = await tx.insert(documents).values({
+      name: data.name,
+      refNumber,
+      documentType: data.documentType || null,
+      projectId: data.projectId || null,
+      division: data.division || null,
+      status: data.status || "Draft",
+      description: data.description || null,
+      dueDate: data.dueDate || null,
+      createdById: data.createdById || null,
+      // Routing fields
+      dateReceivedByPEO: data.dateReceivedByPEO || null,
+      dateReleasedToAdmin: data.dateReleasedToAdmin || null,
+      dateReceivedFromAdmin: data.dateReceivedFromAdmin || null,
+      dateReleasedToAccounting: data.dateReleasedToAccounting || null,
+      // Billing fields
+      billingType: data.billingType || null,
+      percentage: data.percentage || null,
+      contractorId: data.contractorId || null,
+      contractAmount: data.contractAmount || null,
+      revisedContractAmount: data.revisedContractAmount || null,
+      liquidatedDamages: liquidatedDamages || null,
+      periodCovered: data.periodCovered || null,
+      dateStarted: data.dateStarted || null,
+      completionDate: data.completionDate || null,
+    });
 
-  const result = await db.insert(documents).values({
-    name: data.name,
-    refNumber,
-    documentType: data.documentType || null,
-    projectId: data.projectId || null,
-    division: data.division || null,
-    status: data.status || "Draft",
-    description: data.description || null,
-    dueDate: data.dueDate || null,
-    createdById: data.createdById || null,
-    // Routing fields
-    dateReceivedByPEO: data.dateReceivedByPEO || null,
-    dateReleasedToAdmin: data.dateReleasedToAdmin || null,
-    dateReceivedFromAdmin: data.dateReceivedFromAdmin || null,
-    dateReleasedToAccounting: data.dateReleasedToAccounting || null,
-    // Billing fields
-    billingType: data.billingType || null,
-    percentage: data.percentage || null,
-    contractorId: data.contractorId || null,
-    contractAmount: data.contractAmount || null,
-    revisedContractAmount: data.revisedContractAmount || null,
-    periodCovered: data.periodCovered || null,
-    dateStarted: data.dateStarted || null,
-    completionDate: data.completionDate || null,
+    return { result, refNumber };
   });
 
   return { id: result[0].insertId, refNumber };
@@ -527,6 +1275,7 @@ export async function updateDocument(id: number, data: Partial<{
   contractorId: number | null;
   contractAmount: string | null;
   revisedContractAmount: string | null;
+  liquidatedDamages: string | null;
   periodCovered: string | null;
   dateStarted: Date | null;
   completionDate: Date | null;
@@ -542,7 +1291,21 @@ export async function deleteDocument(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  await db.delete(documents).where(eq(documents.id, id));
+  const attachments = await db.select({ id: documentAttachments.id }).from(documentAttachments).where(eq(documentAttachments.documentId, id));
+  const attachmentIds = attachments.map(attachment => attachment.id);
+  const versions = attachmentIds.length > 0
+    ? await db.select().from(attachmentVersions).where(inArray(attachmentVersions.attachmentId, attachmentIds))
+    : [];
+
+  await db.transaction(async tx => {
+    await tx.delete(documentRoutes).where(eq(documentRoutes.documentId, id));
+    if (attachmentIds.length > 0) {
+      await tx.delete(attachmentVersions).where(inArray(attachmentVersions.attachmentId, attachmentIds));
+      await tx.delete(documentAttachments).where(inArray(documentAttachments.id, attachmentIds));
+    }
+    await tx.delete(documents).where(eq(documents.id, id));
+  });
+  await removeStoredVersions(versions);
   return { success: true };
 }
 
@@ -565,6 +1328,344 @@ export async function getDocumentStats() {
   };
 }
 
+// ==================== DOCUMENT ROUTING ====================
+
+import { documentRoutes, routingTemplates, type User } from "../drizzle/schema";
+import { currentLocation, daysWithoutMovement, officeDwellTimes, planReceive, planRelease, templateFor } from "./documentRouting";
+
+export async function getRoutingTemplates() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(routingTemplates).orderBy(asc(routingTemplates.documentType));
+}
+
+export async function getRoutingTemplateById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(routingTemplates).where(eq(routingTemplates.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getRoutingTemplateForType(documentType: string | null | undefined) {
+  if (!documentType) return null;
+  return templateFor(await getRoutingTemplates(), documentType);
+}
+
+/** Create the template of a document type, or replace its path */
+export async function saveRoutingTemplate(data: { documentType: string; offices: string[]; remarks?: string | null; updatedById?: number }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const values = {
+    offices: data.offices.map(office => office.trim()),
+    remarks: data.remarks || null,
+    updatedById: data.updatedById || null,
+  };
+  const existing = await getRoutingTemplateForType(data.documentType);
+  if (existing) {
+    await db.update(routingTemplates).set(values).where(eq(routingTemplates.id, existing.id));
+    return { id: existing.id };
+  }
+  const result = await db.insert(routingTemplates).values({ ...values, documentType: data.documentType.trim() });
+  return { id: result[0].insertId };
+}
+
+export async function deleteRoutingTemplate(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(routingTemplates).where(eq(routingTemplates.id, id));
+  return { success: true };
+}
+
+/** Routing slip of a document: its hops, where it is now and its template */
+export async function getDocumentRoutes(documentId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const document = await getDocumentById(documentId);
+  if (!document) return undefined;
+
+  const [hops, template] = await Promise.all([
+    db.select().from(documentRoutes).where(eq(documentRoutes.documentId, documentId)).orderBy(asc(documentRoutes.sequence)),
+    getRoutingTemplateForType(document.documentType),
+  ]);
+  return { documentId, hops, location: currentLocation(document, hops, template), template };
+}
+
+/** Release a document from the office holding it to the next office (by default, the next on its template) */
+export async function routeDocument(id: number, data: {
+  toOffice?: string;
+  releasedAt: Date;
+  releaser: Pick<User, "role" | "division">;
+  releasedById?: number;
+  handlerName?: string | null;
+  action?: string | null;
+  remarks?: string | null;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const template = await getRoutingTemplateForType((await getDocumentById(id))?.documentType);
+
+  return db.transaction(async tx => {
+    const [document] = await tx.select().from(documents).where(eq(documents.id, id)).for("update");
+    if (!document) return undefined;
+
+    const hops = await tx.select().from(documentRoutes).where(eq(documentRoutes.documentId, id));
+    const hop = planRelease(document, hops, { template, toOffice: data.toOffice, releasedAt: data.releasedAt, releaser: data.releaser });
+
+    const result = await tx.insert(documentRoutes).values({
+      documentId: id,
+      ...hop,
+      releasedAt: data.releasedAt,
+      releasedById: data.releasedById || null,
+      handlerName: data.handlerName || null,
+      action: data.action || null,
+      remarks: data.remarks || null,
+    });
+    await tx.update(documents).set({ status: "Routed" }).where(eq(documents.id, id));
+    return { id, routeId: result[0].insertId, ...hop };
+  });
+}
+
+/** Log a document in at the office it was routed to */
+export async function receiveDocument(id: number, data: {
+  receivedAt: Date;
+  receiver: Pick<User, "role" | "division">;
+  receivedById?: number;
+  handlerName?: string | null;
+  action?: string | null;
+  remarks?: string | null;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async tx => {
+    const [document] = await tx.select().from(documents).where(eq(documents.id, id)).for("update");
+    if (!document) return undefined;
+
+    const hops = await tx.select().from(documentRoutes).where(eq(documentRoutes.documentId, id));
+    const hop = planReceive(document, hops, data.receivedAt, data.receiver);
+
+    await tx.update(documentRoutes).set({
+      receivedAt: data.receivedAt,
+      receivedById: data.receivedById || null,
+      ...(data.handlerName && { handlerName: data.handlerName }),
+      ...(data.action && { action: data.action }),
+      ...(data.remarks && { remarks: data.remarks }),
+    }).where(eq(documentRoutes.id, hop.id));
+    return { id, routeId: hop.id, office: hop.toOffice };
+  });
+}
+
+export type DocumentRoutingFilters = {
+  documentType?: string;
+  division?: string;
+  /** Only documents created on or after this date */
+  from?: Date;
+  /** Only documents created on or before this date */
+  to?: Date;
+};
+
+async function getRoutedDocuments(filters: DocumentRoutingFilters) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [];
+  if (filters.documentType) conditions.push(eq(documents.documentType, filters.documentType));
+  if (filters.division) conditions.push(eq(documents.division, filters.division));
+  if (filters.from) conditions.push(sql`${documents.createdAt} >= ${filters.from}`);
+  if (filters.to) conditions.push(sql`${documents.createdAt} <= ${filters.to}`);
+
+  const docs = await db
+    .select({
+      id: documents.id,
+      refNumber: documents.refNumber,
+      name: documents.name,
+      documentType: documents.documentType,
+      division: documents.division,
+      status: documents.status,
+      createdAt: documents.createdAt,
+    })
+    .from(documents)
+    .where(conditions.length > 0 ? and(...conditions) : undefined);
+  if (docs.length === 0) return [];
+
+  const hops = await db.select().from(documentRoutes).where(inArray(documentRoutes.documentId, docs.map(doc => doc.id)));
+  return docs.map(doc => ({ ...doc, hops: hops.filter(hop => hop.documentId === doc.id) }));
+}
+
+/** Average time each office holds documents and how long documents take to reach it */
+export async function getOfficeDwellTimes(filters: DocumentRoutingFilters = {}) {
+  const docs = await getRoutedDocuments(filters);
+  return officeDwellTimes(docs);
+}
+
+/**
+ * Documents that have not moved for more than `days` days, longest first.
+ * Closed documents and those at the end of their routing template are left
+ * out.
+ */
+export async function getStuckDocuments(days: number, filters: DocumentRoutingFilters = {}) {
+  const [docs, templates] = await Promise.all([getRoutedDocuments(filters), getRoutingTemplates()]);
+  const now = new Date();
+
+  return docs
+    .filter(doc => doc.status !== "Closed")
+    .flatMap(doc => {
+      const template = templateFor(templates, doc.documentType);
+      const idleDays = daysWithoutMovement(doc, doc.hops, template, now);
+      if (idleDays === null || idleDays <= days) return [];
+      const { hops, ...rest } = doc;
+      return [{ ...rest, location: currentLocation(doc, hops, template), idleDays }];
+    })
+    .sort((a, b) => b.idleDays - a.idleDays);
+}
+
+// ==================== DOCUMENT ATTACHMENTS ====================
+
+import { documentAttachments, attachmentVersions, type AttachmentVersion } from "../drizzle/schema";
+import { assertNewVersion, attachmentStorageKey, checksum } from "./attachments";
+import { getStorage } from "./storage";
+
+/** Attachments of a document with their versions, latest version first */
+export async function getDocumentAttachments(documentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const attachments = await db
+    .select()
+    .from(documentAttachments)
+    .where(eq(documentAttachments.documentId, documentId))
+    .orderBy(asc(documentAttachments.createdAt), asc(documentAttachments.id));
+  if (attachments.length === 0) return [];
+
+  const versions = await db
+    .select()
+    .from(attachmentVersions)
+    .where(inArray(attachmentVersions.attachmentId, attachments.map(attachment => attachment.id)))
+    .orderBy(desc(attachmentVersions.version));
+  return attachments.map(attachment => ({
+    ...attachment,
+    versions: versions.filter(version => version.attachmentId === attachment.id),
+  }));
+}
+
+export async function getAttachmentById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(documentAttachments).where(eq(documentAttachments.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getAttachmentVersionById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(attachmentVersions).where(eq(attachmentVersions.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Store an upload as a new attachment of the document, or as the next
+ * version of `attachmentId`. The file is written to storage inside the
+ * transaction, so a failed write leaves no version behind.
+ */
+export async function addAttachmentVersion(documentId: number, data: {
+  attachmentId?: number;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  division: AttachmentVersion["division"];
+  uploadedById?: number;
+  remarks?: string | null;
+  /** Throws if the uploader may not add a version on top of the current one */
+  assertCanReplace?: (current: AttachmentVersion) => void;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const storage = getStorage();
+  const contentChecksum = checksum(data.content);
+
+  return db.transaction(async tx => {
+    let attachmentId = data.attachmentId;
+    let version = 1;
+    if (attachmentId) {
+      const [attachment] = await tx.select().from(documentAttachments).where(eq(documentAttachments.id, attachmentId)).for("update");
+      if (!attachment || attachment.documentId !== documentId) return undefined;
+
+      const [current] = await tx
+        .select()
+        .from(attachmentVersions)
+        .where(and(eq(attachmentVersions.attachmentId, attachmentId), eq(attachmentVersions.version, attachment.currentVersion)));
+      if (current) data.assertCanReplace?.(current);
+      assertNewVersion(current, contentChecksum);
+      version = attachment.currentVersion + 1;
+      await tx.update(documentAttachments).set({ fileName: data.fileName, currentVersion: version }).where(eq(documentAttachments.id, attachmentId));
+    } else {
+      const result = await tx.insert(documentAttachments).values({
+        documentId,
+        fileName: data.fileName,
+        createdById: data.uploadedById || null,
+      });
+      attachmentId = result[0].insertId;
+    }
+
+    const storageKey = attachmentStorageKey(documentId, attachmentId, version, data.fileName);
+    await storage.put(storageKey, data.content, data.mimeType);
+    const result = await tx.insert(attachmentVersions).values({
+      attachmentId,
+      version,
+      fileName: data.fileName,
+      mimeType: data.mimeType,
+      size: data.content.length,
+      checksum: contentChecksum,
+      storageDriver: storage.driver,
+      storageKey,
+      division: data.division,
+      uploadedById: data.uploadedById || null,
+      remarks: data.remarks || null,
+    });
+    return { id: attachmentId, versionId: result[0].insertId, version, checksum: contentChecksum };
+  });
+}
+
+/** Read a stored version back, refusing content that no longer matches its checksum */
+export async function readAttachmentVersion(version: Pick<AttachmentVersion, "storageDriver" | "storageKey" | "checksum" | "fileName">) {
+  const content = await getStorage(version.storageDriver).get(version.storageKey);
+  if (checksum(content) !== version.checksum) {
+    throw new Error(`Stored copy of ${version.fileName} does not match its checksum`);
+  }
+  return content;
+}
+
+/** Remove stored files once their rows are gone; a failed removal only leaves an orphaned file */
+async function removeStoredVersions(versions: Pick<AttachmentVersion, "storageDriver" | "storageKey">[]) {
+  for (const version of versions) {
+    await getStorage(version.storageDriver)
+      .delete(version.storageKey)
+      .catch(error => console.error(`[Storage] Failed to delete ${version.storageKey}:`, error));
+  }
+}
+
+export async function deleteAttachment(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const versions = await db.select().from(attachmentVersions).where(eq(attachmentVersions.attachmentId, id));
+  await db.transaction(async tx => {
+    await tx.delete(attachmentVersions).where(eq(attachmentVersions.attachmentId, id));
+    await tx.delete(documentAttachments).where(eq(documentAttachments.id, id));
+  });
+  await removeStoredVersions(versions);
+  return { success: true };
+}
+
 // ==================== TASK QUERIES & CRUD ====================
 
 export type TaskFilters = {
@@ -1164,19 +2265,6 @@ export async function getPOWById(id: number) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function generatePOWNumber(fiscalYear: number) {
-  const db = await getDb();
-  if (!db) return `POW-${fiscalYear}-001`;
-
-  const [result] = await db
-    .select({ count: sql<number>`count(*)` })
-    .from(programOfWorks)
-    .where(eq(programOfWorks.fiscalYear, fiscalYear));
-
-  const count = Number(result?.count ?? 0) + 1;
-  return `POW-${fiscalYear}-${String(count).padStart(3, '0')}`;
-}
-
 export async function createPOW(data: {
   projectTitle: string;
   description?: string;
@@ -1197,27 +2285,31 @@ export async function createPOW(data: {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const powNumber = await generatePOWNumber(data.fiscalYear);
+  const { result, powNumber } = await db.transaction(async tx => {
+    const powNumber = await nextSequenceNumber(tx, "POW", { fiscalYear: data.fiscalYear }, programOfWorks.powNumber);
+
+    const result = await tx.insert(programOfWorks).values({
+      powNumber,
+      projectTitle: data.projectTitle,
+      description: data.description || null,
+      location: data.location || null,
+      municipality: data.municipality || null,
+      category: data.category || null,
+      budgetId: data.budgetId || null,
+      fiscalYear: data.fiscalYear,
+      estimatedCost: data.estimatedCost,
+      sourceOfFund: data.sourceOfFund || "20% Development Fund",
+      status: "Draft",
+      dedStatus: "Not Started",
+      targetBiddingDate: data.targetBiddingDate || null,
+      targetStartDate: data.targetStartDate || null,
+      targetCompletionDate: data.targetCompletionDate || null,
+      calendarDays: data.calendarDays || null,
+      remarks: data.remarks || null,
+      createdById: data.createdById || null,
+    });
 
-  const result = await db.insert(programOfWorks).values({
-    powNumber,
-    projectTitle: data.projectTitle,
-    description: data.description || null,
-    location: data.location || null,
-    municipality: data.municipality || null,
-    category: data.category || null,
-    budgetId: data.budgetId || null,
-    fiscalYear: data.fiscalYear,
-    estimatedCost: data.estimatedCost,
-    sourceOfFund: data.sourceOfFund || "20% Development Fund",
-    status: "Draft",
-    dedStatus: "Not Started",
-    targetBiddingDate: data.targetBiddingDate || null,
-    targetStartDate: data.targetStartDate || null,
-    targetCompletionDate: data.targetCompletionDate || null,
-    calendarDays: data.calendarDays || null,
-    remarks: data.remarks || null,
-    createdById: data.createdById || null,
+    return { result, powNumber };
   });
 
   // Update budget allocated amount if budgetId is provided
@@ -1280,7 +2372,14 @@ export async function deletePOW(id: number) {
     }
   }
 
-  await db.delete(programOfWorks).where(eq(programOfWorks.id, id));
+  const estimates = await getPOWEstimates(id);
+  await db.transaction(async tx => {
+    if (estimates.length > 0) {
+      await tx.delete(powEstimateItems).where(inArray(powEstimateItems.estimateId, estimates.map(estimate => estimate.id)));
+      await tx.delete(powEstimates).where(eq(powEstimates.powId, id));
+    }
+    await tx.delete(programOfWorks).where(eq(programOfWorks.id, id));
+  });
   return { success: true };
 }
 
@@ -1316,144 +2415,504 @@ export async function getPOWStats(filters?: { fiscalYear?: number }) {
   };
 }
 
-// ==================== BIDDING QUERIES & CRUD ====================
-
-export type BiddingFilters = {
-  search?: string;
-  status?: string;
-  procurementMode?: string;
-  powId?: number;
-  sortBy?: 'title' | 'abc' | 'status' | 'date';
-  sortOrder?: 'asc' | 'desc';
-  page?: number;
-  limit?: number;
-};
+// ==================== POW ESTIMATES ====================
+
+import { inArray } from "drizzle-orm";
+import { powEstimates, powEstimateItems } from "../drizzle/schema";
+import { assertAbcEditable, computeEstimate, itemCosts, type EstimateItemInput, type EstimateRates } from "./powEstimate";
+
+type EstimateItem = EstimateItemInput & { itemNumber?: string; description: string; unit: string };
+
+function estimateItemValues(estimateId: number, items: EstimateItem[]) {
+  return items.map(item => {
+    const costs = itemCosts(item);
+    return {
+      estimateId,
+      itemNumber: item.itemNumber || null,
+      description: item.description,
+      unit: item.unit,
+      quantity: String(item.quantity),
+      materialUnitCost: String(item.materialUnitCost ?? 0),
+      laborUnitCost: String(item.laborUnitCost ?? 0),
+      equipmentUnitCost: String(item.equipmentUnitCost ?? 0),
+      unitCost: String(costs.unitCost),
+      directCost: String(costs.directCost),
+    };
+  });
+}
 
-export async function getBiddings(filters: BiddingFilters = {}) {
+/** Every estimate version of a POW, newest first, without items */
+export async function getPOWEstimates(powId: number) {
   const db = await getDb();
-  if (!db) return { biddings: [], total: 0, page: 1, totalPages: 0 };
-
-  const {
-    search,
-    status,
-    procurementMode,
-    powId,
-    sortBy = 'date',
-    sortOrder = 'desc',
-    page = 1,
-    limit = 20,
-  } = filters;
-
-  const conditions = [];
-  
-  if (search) {
-    conditions.push(
-      or(
-        like(biddings.projectTitle, `%${search}%`),
-        like(biddings.biddingNumber, `%${search}%`),
-        like(biddings.winningBidder, `%${search}%`)
-      )
-    );
-  }
-  if (status) conditions.push(eq(biddings.status, status));
-  if (procurementMode) conditions.push(eq(biddings.procurementMode, procurementMode));
-  if (powId) conditions.push(eq(biddings.powId, powId));
-
-  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
-
-  let orderByColumn;
-  switch (sortBy) {
-    case 'title':
-      orderByColumn = biddings.projectTitle;
-      break;
-    case 'abc':
-      orderByColumn = biddings.abc;
-      break;
-    case 'status':
-      orderByColumn = biddings.status;
-      break;
-    default:
-      orderByColumn = biddings.createdAt;
-  }
-
-  const orderFn = sortOrder === 'desc' ? desc : asc;
-
-  const countResult = await db
-    .select({ count: sql<number>`count(*)` })
-    .from(biddings)
-    .where(whereClause);
-
-  const total = Number(countResult[0]?.count ?? 0);
-  const totalPages = Math.ceil(total / limit);
-  const offset = (page - 1) * limit;
+  if (!db) return [];
 
-  const result = await db
+  return db
     .select()
-    .from(biddings)
-    .where(whereClause)
-    .orderBy(orderFn(orderByColumn))
-    .limit(limit)
-    .offset(offset);
-
-  return { biddings: result, total, page, totalPages };
+    .from(powEstimates)
+    .where(eq(powEstimates.powId, powId))
+    .orderBy(desc(powEstimates.version));
 }
 
-export async function getBiddingById(id: number) {
+/** One estimate version with its items; the latest when no version is given */
+export async function getPOWEstimate(powId: number, version?: number) {
   const db = await getDb();
   if (!db) return undefined;
 
-  const result = await db.select().from(biddings).where(eq(biddings.id, id)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
-}
-
-export async function generateBiddingNumber() {
-  const db = await getDb();
-  const year = new Date().getFullYear();
-  if (!db) return `BID-${year}-001`;
-
-  const [result] = await db
-    .select({ count: sql<number>`count(*)` })
-    .from(biddings);
+  const [estimate] = await db
+    .select()
+    .from(powEstimates)
+    .where(and(eq(powEstimates.powId, powId), version ? eq(powEstimates.version, version) : undefined))
+    .orderBy(desc(powEstimates.version))
+    .limit(1);
+  if (!estimate) return undefined;
 
-  const count = Number(result?.count ?? 0) + 1;
-  return `BID-${year}-${String(count).padStart(3, '0')}`;
+  const items = await db
+    .select()
+    .from(powEstimateItems)
+    .where(eq(powEstimateItems.estimateId, estimate.id))
+    .orderBy(asc(powEstimateItems.id));
+  return { ...estimate, items };
 }
 
-export async function createBidding(data: {
-  powId?: number;
-  projectTitle: string;
-  abc: string;
-  procurementMode?: string;
-  preProcurementDate?: Date | null;
-  advertisementDate?: Date | null;
-  preBidDate?: Date | null;
-  bidSubmissionDeadline?: Date | null;
-  bidOpeningDate?: Date | null;
+/**
+ * Save a new estimate version. Its total becomes the POW's estimated cost
+ * and the ABC of biddings not yet advertised; the POW's budget allocation
+ * moves by the difference.
+ */
+export async function savePOWEstimate(powId: number, data: Partial<EstimateRates> & {
+  items: EstimateItem[];
   remarks?: string;
   createdById?: number;
 }) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const biddingNumber = await generateBiddingNumber();
+  const totals = computeEstimate(data.items, data);
+  const totalCost = totals.totalCost.toFixed(2);
+
+  const saved = await db.transaction(async tx => {
+    // Lock the POW and its biddings so an advertisement or another save
+    // cannot change the ABC or the estimated cost the budget moves by
+    const [pow] = await tx.select().from(programOfWorks).where(eq(programOfWorks.id, powId)).limit(1).for("update");
+    if (!pow) return undefined;
+
+    const linkedBiddings = await tx.select().from(biddings).where(eq(biddings.powId, powId)).for("update");
+    assertAbcEditable(linkedBiddings);
+
+    // Lock the POW's versions so two saves cannot take the same number
+    const [last] = await tx
+      .select({ version: powEstimates.version })
+      .from(powEstimates)
+      .where(eq(powEstimates.powId, powId))
+      .orderBy(desc(powEstimates.version))
+      .limit(1)
+      .for("update");
+    const version = (last?.version ?? 0) + 1;
+
+    const result = await tx.insert(powEstimates).values({
+      powId,
+      version,
+      directCost: String(totals.directCost),
+      ocmPercent: String(totals.ocmPercent),
+      ocmAmount: String(totals.ocmAmount),
+      profitPercent: String(totals.profitPercent),
+      profitAmount: String(totals.profitAmount),
+      vatPercent: String(totals.vatPercent),
+      vatAmount: String(totals.vatAmount),
+      totalCost,
+      remarks: data.remarks || null,
+      createdById: data.createdById || null,
+    });
+    const id = result[0].insertId;
+    await tx.insert(powEstimateItems).values(estimateItemValues(id, data.items));
+
+    await tx.update(programOfWorks).set({ estimatedCost: totalCost }).where(eq(programOfWorks.id, powId));
+    if (linkedBiddings.length > 0) {
+      await tx.update(biddings).set({ abc: totalCost }).where(eq(biddings.powId, powId));
+    }
 
-  const result = await db.insert(biddings).values({
-    biddingNumber,
-    powId: data.powId || null,
-    projectTitle: data.projectTitle,
-    abc: data.abc,
-    procurementMode: data.procurementMode || "Public Bidding",
-    status: "Pre-Procurement",
-    preProcurementDate: data.preProcurementDate || null,
-    advertisementDate: data.advertisementDate || null,
-    preBidDate: data.preBidDate || null,
-    bidSubmissionDeadline: data.bidSubmissionDeadline || null,
-    bidOpeningDate: data.bidOpeningDate || null,
-    remarks: data.remarks || null,
-    createdById: data.createdById || null,
+    if (pow.budgetId) {
+      const [budget] = await tx
+        .select()
+        .from(annualBudgets)
+        .where(eq(annualBudgets.id, pow.budgetId))
+        .limit(1)
+        .for("update");
+      if (budget) {
+        const newAllocated = Number(budget.allocatedAmount || 0) - Number(pow.estimatedCost) + totals.totalCost;
+        await tx
+          .update(annualBudgets)
+          .set({
+            allocatedAmount: newAllocated.toFixed(2),
+            remainingAmount: (Number(budget.totalBudget) - newAllocated).toFixed(2),
+          })
+          .where(eq(annualBudgets.id, pow.budgetId));
+      }
+    }
+
+    return { id, version };
   });
+  if (!saved) return undefined;
 
-  // Update POW status and link bidding
+  return { ...saved, ...totals };
+}
+
+// ==================== UNIT COST LIBRARY ====================
+
+import { unitCostItems, unitPrices, InsertUnitCostItem } from "../drizzle/schema";
+import { diffUnitCostImport, resolveUnitPrice, type ParsedUnitPrice } from "./unitCosts";
+
+type UnitCostItemFields = Pick<InsertUnitCostItem, "code" | "category" | "description" | "unit"> & {
+  isActive?: boolean;
+  remarks?: string;
+};
+
+/**
+ * Library items matching the estimator's search, each with the price in
+ * force for the municipality (or the base price) on `asOf`.
+ */
+export async function searchUnitCostItems(filters: {
+  search?: string;
+  category?: InsertUnitCostItem["category"];
+  municipality?: string;
+  asOf?: string;
+  includeInactive?: boolean;
+  page?: number;
+  limit?: number;
+} = {}) {
+  const db = await getDb();
+  if (!db) return { items: [], total: 0, page: 1, totalPages: 0 };
+
+  const { search, category, municipality, includeInactive = false, page = 1, limit = 50 } = filters;
+
+  const conditions = [];
+  if (search) {
+    conditions.push(or(like(unitCostItems.code, `%${search}%`), like(unitCostItems.description, `%${search}%`)));
+  }
+  if (category) conditions.push(eq(unitCostItems.category, category));
+  if (!includeInactive) conditions.push(eq(unitCostItems.isActive, true));
+  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [countResult] = await db.select({ count: sql<number>`count(*)` }).from(unitCostItems).where(whereClause);
+  const total = Number(countResult?.count ?? 0);
+
+  const items = await db
+    .select()
+    .from(unitCostItems)
+    .where(whereClause)
+    .orderBy(asc(unitCostItems.category), asc(unitCostItems.code))
+    .limit(limit)
+    .offset((page - 1) * limit);
+
+  const prices = items.length > 0
+    ? await db.select().from(unitPrices).where(inArray(unitPrices.itemId, items.map(item => item.id)))
+    : [];
+  const asOf = filters.asOf ? new Date(filters.asOf) : new Date();
+
+  return {
+    items: items.map(item => ({
+      ...item,
+      currentPrice: resolveUnitPrice(prices.filter(price => price.itemId === item.id), municipality, asOf),
+    })),
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+export async function getUnitCostItemById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(unitCostItems).where(eq(unitCostItems.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getUnitCostItemByCode(code: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(unitCostItems).where(eq(unitCostItems.code, code)).limit(1);
+  return result[0];
+}
+
+export async function createUnitCostItem(data: UnitCostItemFields) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(unitCostItems).values({ ...data, remarks: data.remarks || null });
+  return { id: result[0].insertId };
+}
+
+export async function updateUnitCostItem(id: number, data: Partial<UnitCostItemFields>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(unitCostItems).set(data).where(eq(unitCostItems.id, id));
+  return { success: true };
+}
+
+export async function deleteUnitCostItem(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async tx => {
+    await tx.delete(unitPrices).where(eq(unitPrices.itemId, id));
+    await tx.delete(unitCostItems).where(eq(unitCostItems.id, id));
+  });
+  return { success: true };
+}
+
+/**
+ * Dated prices of an item, newest first. With a municipality, only its
+ * overrides and the base prices are returned.
+ */
+export async function getUnitPriceHistory(itemId: number, municipality?: string) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(unitPrices)
+    .where(and(
+      eq(unitPrices.itemId, itemId),
+      municipality ? or(isNull(unitPrices.municipality), eq(unitPrices.municipality, municipality)) : undefined
+    ))
+    .orderBy(desc(unitPrices.effectiveDate), asc(unitPrices.municipality));
+}
+
+export async function getUnitPriceById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(unitPrices).where(eq(unitPrices.id, id)).limit(1);
+  return result[0];
+}
+
+export async function createUnitPrice(data: {
+  itemId: number;
+  municipality?: string;
+  price: number;
+  effectiveDate: string;
+  source?: string;
+  createdById?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(unitPrices).values({
+    itemId: data.itemId,
+    municipality: data.municipality || null,
+    price: data.price.toFixed(2),
+    effectiveDate: new Date(data.effectiveDate),
+    source: data.source || null,
+    createdById: data.createdById || null,
+  });
+  return { id: result[0].insertId };
+}
+
+export async function deleteUnitPrice(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(unitPrices).where(eq(unitPrices.id, id));
+  return { success: true };
+}
+
+export async function previewUnitCostImport(parsed: ParsedUnitPrice[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [items, prices] = await Promise.all([db.select().from(unitCostItems), db.select().from(unitPrices)]);
+  return diffUnitCostImport(items, prices, parsed);
+}
+
+/**
+ * Apply a price workbook in one transaction: add new items, update changed
+ * item details, add new prices and correct prices re-entered for the same
+ * code, municipality and date. Nothing missing from the workbook is removed.
+ */
+export async function applyUnitCostImport(parsed: ParsedUnitPrice[], createdById?: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async tx => {
+    const [items, prices] = await Promise.all([tx.select().from(unitCostItems), tx.select().from(unitPrices)]);
+    const diff = diffUnitCostImport(items, prices, parsed);
+
+    const itemIds = new Map(items.map(item => [item.code, item.id]));
+    for (const entry of diff.newItems) {
+      const result = await tx.insert(unitCostItems).values({
+        code: entry.code,
+        category: entry.category,
+        description: entry.description,
+        unit: entry.unit,
+      });
+      itemIds.set(entry.code, result[0].insertId);
+    }
+    for (const change of diff.changedItems) {
+      const entry = parsed.find(row => row.code === change.code)!;
+      await tx
+        .update(unitCostItems)
+        .set({ category: entry.category, description: entry.description, unit: entry.unit })
+        .where(eq(unitCostItems.id, change.id));
+    }
+
+    if (diff.newPrices.length > 0) {
+      await tx.insert(unitPrices).values(
+        diff.newPrices.map(entry => ({
+          itemId: itemIds.get(entry.code)!,
+          municipality: entry.municipality,
+          price: entry.price,
+          effectiveDate: new Date(entry.effectiveDate),
+          source: entry.source,
+          createdById: createdById || null,
+        }))
+      );
+    }
+    for (const change of diff.changedPrices) {
+      await tx
+        .update(unitPrices)
+        .set({ price: change.entry.price, source: change.entry.source })
+        .where(eq(unitPrices.id, change.id));
+    }
+
+    return diff;
+  });
+}
+
+// ==================== BIDDING QUERIES & CRUD ====================
+
+export type BiddingFilters = {
+  search?: string;
+  status?: string;
+  procurementMode?: string;
+  powId?: number;
+  sortBy?: 'title' | 'abc' | 'status' | 'date';
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+};
+
+export async function getBiddings(filters: BiddingFilters = {}) {
+  const db = await getDb();
+  if (!db) return { biddings: [], total: 0, page: 1, totalPages: 0 };
+
+  const {
+    search,
+    status,
+    procurementMode,
+    powId,
+    sortBy = 'date',
+    sortOrder = 'desc',
+    page = 1,
+    limit = 20,
+  } = filters;
+
+  const conditions = [];
+  
+  if (search) {
+    conditions.push(
+      or(
+        like(biddings.projectTitle, `%${search}%`),
+        like(biddings.biddingNumber, `%${search}%`),
+        like(biddings.winningBidder, `%${search}%`)
+      )
+    );
+  }
+  if (status) conditions.push(eq(biddings.status, status));
+  if (procurementMode) conditions.push(eq(biddings.procurementMode, procurementMode));
+  if (powId) conditions.push(eq(biddings.powId, powId));
+
+  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+  let orderByColumn;
+  switch (sortBy) {
+    case 'title':
+      orderByColumn = biddings.projectTitle;
+      break;
+    case 'abc':
+      orderByColumn = biddings.abc;
+      break;
+    case 'status':
+      orderByColumn = biddings.status;
+      break;
+    default:
+      orderByColumn = biddings.createdAt;
+  }
+
+  const orderFn = sortOrder === 'desc' ? desc : asc;
+
+  const countResult = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(biddings)
+    .where(whereClause);
+
+  const total = Number(countResult[0]?.count ?? 0);
+  const totalPages = Math.ceil(total / limit);
+  const offset = (page - 1) * limit;
+
+  const result = await db
+    .select()
+    .from(biddings)
+    .where(whereClause)
+    .orderBy(orderFn(orderByColumn))
+    .limit(limit)
+    .offset(offset);
+
+  return { biddings: result, total, page, totalPages };
+}
+
+export async function getBiddingById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(biddings).where(eq(biddings.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function createBidding(data: {
+  powId?: number;
+  projectTitle: string;
+  abc: string;
+  procurementMode?: string;
+  preProcurementDate?: Date | null;
+  advertisementDate?: Date | null;
+  preBidDate?: Date | null;
+  bidSubmissionDeadline?: Date | null;
+  bidOpeningDate?: Date | null;
+  remarks?: string;
+  createdById?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const pow = data.powId ? await getPOWById(data.powId) : undefined;
+  const fiscalYear = pow?.fiscalYear ?? new Date().getFullYear();
+
+  const { result, biddingNumber } = await db.transaction(async tx => {
+    const biddingNumber = await nextSequenceNumber(tx, "BID", { fiscalYear }, biddings.biddingNumber);
+
+    const result = await tx.insert(biddings).values({
+      biddingNumber,
+      powId: data.powId || null,
+      projectTitle: data.projectTitle,
+      abc: data.abc,
+      procurementMode: data.procurementMode || "Public Bidding",
+      status: "Pre-Procurement",
+      preProcurementDate: data.preProcurementDate || null,
+      advertisementDate: data.advertisementDate || null,
+      preBidDate: data.preBidDate || null,
+      bidSubmissionDeadline: data.bidSubmissionDeadline || null,
+      bidOpeningDate: data.bidOpeningDate || null,
+      remarks: data.remarks || null,
+      createdById: data.createdById || null,
+    });
+
+    return { result, biddingNumber };
+  });
+
+  // Update POW status and link bidding
   if (data.powId) {
     await updatePOW(data.powId, {
       status: "For Bidding",
@@ -1493,14 +2952,26 @@ export async function updateBidding(id: number, data: Partial<{
   if (!db) throw new Error("Database not available");
 
   await db.update(biddings).set(data).where(eq(biddings.id, id));
+  return { success: true };
+}
 
-  // If bidding is awarded, update POW status
-  if (data.status === "Awarded") {
-    const bidding = await getBiddingById(id);
-    if (bidding?.powId) {
-      await updatePOW(bidding.powId, { status: "Awarded" });
+// Apply a validated stage transition (see server/procurement.ts) and keep the POW in step
+export async function transitionBidding(id: number, updates: Partial<InsertBidding>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async tx => {
+    await tx.update(biddings).set(updates).where(eq(biddings.id, id));
+
+    const [bidding] = await tx.select().from(biddings).where(eq(biddings.id, id)).limit(1);
+    if (!bidding?.powId) return;
+
+    if (updates.status === "NOA") {
+      await tx.update(programOfWorks).set({ status: "Awarded" }).where(eq(programOfWorks.id, bidding.powId));
+    } else if (updates.status === "Advertisement" || updates.status === "Pre-Procurement") {
+      await tx.update(programOfWorks).set({ status: "For Bidding" }).where(eq(programOfWorks.id, bidding.powId));
     }
-  }
+  });
 
   return { success: true };
 }
@@ -1518,6 +2989,7 @@ export async function deleteBidding(id: number) {
     });
   }
 
+  await db.delete(bidSubmissions).where(eq(bidSubmissions.biddingId, id));
   await db.delete(biddings).where(eq(biddings.id, id));
   return { success: true };
 }
@@ -1534,7 +3006,7 @@ export async function getBiddingStats() {
     advertisement: sql<number>`SUM(CASE WHEN status = 'Advertisement' THEN 1 ELSE 0 END)`,
     bidEvaluation: sql<number>`SUM(CASE WHEN status = 'Bid Evaluation' THEN 1 ELSE 0 END)`,
     postQualification: sql<number>`SUM(CASE WHEN status = 'Post-Qualification' THEN 1 ELSE 0 END)`,
-    awarded: sql<number>`SUM(CASE WHEN status = 'Awarded' THEN 1 ELSE 0 END)`,
+    awarded: sql<number>`SUM(CASE WHEN status IN ('Awarded', 'NOA', 'Contract Signing', 'NTP') THEN 1 ELSE 0 END)`,
     failed: sql<number>`SUM(CASE WHEN status = 'Failed' THEN 1 ELSE 0 END)`,
   }).from(biddings);
 
@@ -1552,29 +3024,178 @@ export async function getBiddingStats() {
 }
 
 
-// ==================== CONTRACTOR QUERIES & CRUD ====================
+// ==================== BID SUBMISSIONS (ABSTRACT OF BIDS) ====================
 
-import { contractors, contractHistory, performanceRatings, Contractor, ContractHistory, PerformanceRating } from "../drizzle/schema";
+import { bidSubmissions, InsertBidSubmission } from "../drizzle/schema";
+import { lowestCalculatedBid, rankBids, screenBid } from "./bidEvaluation";
 
-export type ContractorFilters = {
-  search?: string;
-  status?: string;
-  pcabCategory?: string;
-  sortBy?: 'name' | 'rating' | 'contracts' | 'value';
-  sortOrder?: 'asc' | 'desc';
-  page?: number;
-  limit?: number;
+type BidResult = InsertBidSubmission["eligibilityResult"];
+
+type BidSubmissionFields = {
+  bidAmount: number;
+  calculatedBidAmount?: number | null;
+  eligibilityResult?: BidResult;
+  technicalResult?: BidResult;
+  financialResult?: BidResult;
+  disqualificationReason?: string | null;
+  submittedAt?: string;
+  remarks?: string;
 };
 
-export async function getContractors(filters: ContractorFilters = {}) {
+function bidSubmissionValues(data: Partial<BidSubmissionFields>): Partial<InsertBidSubmission> {
+  return {
+    bidAmount: data.bidAmount !== undefined ? data.bidAmount.toFixed(2) : undefined,
+    calculatedBidAmount:
+      data.calculatedBidAmount === undefined ? undefined : data.calculatedBidAmount === null ? null : data.calculatedBidAmount.toFixed(2),
+    eligibilityResult: data.eligibilityResult,
+    technicalResult: data.technicalResult,
+    financialResult: data.financialResult,
+    disqualificationReason: data.disqualificationReason,
+    submittedAt: data.submittedAt ? new Date(data.submittedAt) : undefined,
+    remarks: data.remarks,
+  };
+}
+
+/** Every bid of a bidding with its bidder's name, ranked */
+export async function getBidSubmissions(biddingId: number) {
   const db = await getDb();
-  if (!db) return { contractors: [], total: 0, page: 1, totalPages: 0 };
+  if (!db) return [];
 
-  const {
-    search,
-    status,
-    pcabCategory,
-    sortBy = 'name',
+  const bidding = await getBiddingById(biddingId);
+  if (!bidding) return [];
+
+  const rows = await db
+    .select({ ...getTableColumns(bidSubmissions), contractorName: contractors.name })
+    .from(bidSubmissions)
+    .innerJoin(contractors, eq(contractors.id, bidSubmissions.contractorId))
+    .where(eq(bidSubmissions.biddingId, biddingId));
+  return rankBids(Number(bidding.abc), rows);
+}
+
+export async function getBidSubmissionById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(bidSubmissions).where(eq(bidSubmissions.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getBidSubmissionByContractor(biddingId: number, contractorId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(bidSubmissions)
+    .where(and(eq(bidSubmissions.biddingId, biddingId), eq(bidSubmissions.contractorId, contractorId)))
+    .limit(1);
+  return result[0];
+}
+
+export async function createBidSubmission(data: BidSubmissionFields & {
+  biddingId: number;
+  contractorId: number;
+  abc: number;
+  createdById?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const values = bidSubmissionValues(data);
+  const result = await db.insert(bidSubmissions).values({
+    ...values,
+    biddingId: data.biddingId,
+    contractorId: data.contractorId,
+    bidAmount: values.bidAmount!,
+    ...screenBid(data.abc, {
+      bidAmount: values.bidAmount!,
+      calculatedBidAmount: values.calculatedBidAmount ?? null,
+      financialResult: values.financialResult ?? "Pending",
+      disqualificationReason: values.disqualificationReason ?? null,
+    }),
+    createdById: data.createdById || null,
+  });
+  await syncBidRanking(data.biddingId);
+
+  return { id: result[0].insertId };
+}
+
+export async function updateBidSubmission(id: number, abc: number, data: Partial<BidSubmissionFields>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getBidSubmissionById(id);
+  if (!existing) return { success: false };
+
+  const changes = bidSubmissionValues(data);
+  const screened = screenBid(abc, {
+    bidAmount: changes.bidAmount ?? existing.bidAmount,
+    calculatedBidAmount: changes.calculatedBidAmount !== undefined ? changes.calculatedBidAmount : existing.calculatedBidAmount,
+    financialResult: changes.financialResult ?? existing.financialResult,
+    disqualificationReason:
+      changes.disqualificationReason !== undefined ? changes.disqualificationReason : existing.disqualificationReason,
+  });
+
+  await db
+    .update(bidSubmissions)
+    .set({ ...changes, ...screened, updatedAt: new Date() })
+    .where(eq(bidSubmissions.id, id));
+  await syncBidRanking(existing.biddingId);
+
+  return { success: true };
+}
+
+export async function deleteBidSubmission(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getBidSubmissionById(id);
+  await db.delete(bidSubmissions).where(eq(bidSubmissions.id, id));
+  if (existing) await syncBidRanking(existing.biddingId);
+
+  return { success: true };
+}
+
+/** Lowest calculated responsive bid, if any; throws when bids are tied for it */
+export async function getLowestCalculatedBid(biddingId: number) {
+  return lowestCalculatedBid(await getBidSubmissions(biddingId));
+}
+
+/** Stored ranks follow the evaluation; the bidding's bidder count follows the submissions */
+async function syncBidRanking(biddingId: number) {
+  const db = await getDb();
+  if (!db) return;
+
+  const bids = await getBidSubmissions(biddingId);
+  for (const bid of bids) {
+    await db.update(bidSubmissions).set({ rank: bid.rank }).where(eq(bidSubmissions.id, bid.id));
+  }
+  await db.update(biddings).set({ numberOfBidders: bids.length }).where(eq(biddings.id, biddingId));
+}
+
+// ==================== CONTRACTOR QUERIES & CRUD ====================
+
+import { contractors, contractHistory, performanceRatings, Contractor, ContractHistory, PerformanceRating } from "../drizzle/schema";
+
+export type ContractorFilters = {
+  search?: string;
+  status?: string;
+  pcabCategory?: string;
+  sortBy?: 'name' | 'rating' | 'contracts' | 'value';
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+};
+
+export async function getContractors(filters: ContractorFilters = {}) {
+  const db = await getDb();
+  if (!db) return { contractors: [], total: 0, page: 1, totalPages: 0 };
+
+  const {
+    search,
+    status,
+    pcabCategory,
+    sortBy = 'name',
     sortOrder = 'desc',
     page = 1,
     limit = 20,
@@ -1652,7 +3273,20 @@ export async function getContractorByTin(tin: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function getContractorProjects(contractorName: string, page: number = 1, limit: number = 20) {
+// Case- and whitespace-insensitive lookup used to match a winning bidder to its contractor record
+export async function findContractorByName(name: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(contractors)
+    .where(sql`LOWER(TRIM(${contractors.name})) = ${name.trim().toLowerCase()}`)
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getContractorProjects(contractorId: number, page: number = 1, limit: number = 20) {
   const db = await getDb();
   if (!db) return { projects: [], total: 0, page: 1, totalPages: 0, totalCost: 0 };
 
@@ -1663,7 +3297,7 @@ export async function getContractorProjects(contractorName: string, page: number
       totalCost: sql<number>`COALESCE(SUM(CAST(REPLACE(REPLACE(projectCost, ',', ''), ' ', '') AS DECIMAL(20,2))), 0)`
     })
     .from(projects)
-    .where(eq(projects.contractor, contractorName));
+    .where(eq(projects.contractorId, contractorId));
 
   const total = Number(countResult?.count ?? 0);
   const totalCost = Number(countResult?.totalCost ?? 0);
@@ -1682,7 +3316,7 @@ export async function getContractorProjects(contractorName: string, page: number
       progressPercent: projects.progressPercent,
     })
     .from(projects)
-    .where(eq(projects.contractor, contractorName))
+    .where(eq(projects.contractorId, contractorId))
     .orderBy(desc(projects.fiscalYear), desc(projects.id))
     .limit(limit)
     .offset(offset);
@@ -1835,7 +3469,7 @@ export async function getContractHistories(filters: ContractHistoryFilters = {})
     .limit(limit)
     .offset(offset);
 
-  return { contracts: result, total, page, totalPages };
+  return { contracts: await withComputedDamages(result), total, page, totalPages };
 }
 
 export async function getContractHistoryById(id: number) {
@@ -1843,7 +3477,9 @@ export async function getContractHistoryById(id: number) {
   if (!db) return undefined;
 
   const result = await db.select().from(contractHistory).where(eq(contractHistory.id, id)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+  if (result.length === 0) return undefined;
+  const [contract] = await withComputedDamages(result);
+  return contract;
 }
 
 export async function createContractHistory(data: {
@@ -1940,7 +3576,6 @@ async function updateContractorStats(contractorId: number) {
     totalContractValue: sql<number>`COALESCE(SUM(contractAmount), 0)`,
     completedContracts: sql<number>`SUM(CASE WHEN status = 'Completed' THEN 1 ELSE 0 END)`,
     ongoingContracts: sql<number>`SUM(CASE WHEN status = 'Ongoing' THEN 1 ELSE 0 END)`,
-    avgRating: sql<number>`COALESCE(AVG(performanceRating), 0)`,
   }).from(contractHistory).where(eq(contractHistory.contractorId, contractorId));
 
   await db.update(contractors).set({
@@ -1948,12 +3583,22 @@ async function updateContractorStats(contractorId: number) {
     totalContractValue: String(stats.totalContractValue),
     completedContracts: Number(stats.completedContracts),
     ongoingContracts: Number(stats.ongoingContracts),
-    overallRating: String(stats.avgRating),
   }).where(eq(contractors.id, contractorId));
 }
 
 // ==================== PERFORMANCE RATINGS QUERIES & CRUD ====================
 
+import { ratingCriteria, type RatingWeights } from "../drizzle/schema";
+import {
+  buildScorecard,
+  contractorScore,
+  criterionRatings,
+  DEFAULT_RATING_WEIGHTS,
+  RATING_CRITERIA,
+  weightedRating,
+  type EvaluationType,
+} from "./performanceEvaluation";
+
 export type PerformanceRatingFilters = {
   contractorId?: number;
   contractHistoryId?: number;
@@ -2001,11 +3646,59 @@ export async function getPerformanceRatingById(id: number) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+/** Criterion weights in force, falling back to the defaults for criteria never configured */
+export async function getRatingWeights(): Promise<RatingWeights> {
+  const db = await getDb();
+  if (!db) return { ...DEFAULT_RATING_WEIGHTS };
+
+  const rows = await db.select().from(ratingCriteria);
+  return Object.fromEntries(
+    RATING_CRITERIA.map(criterion => {
+      const row = rows.find(entry => entry.criterion === criterion);
+      return [criterion, row ? Number(row.weight) : DEFAULT_RATING_WEIGHTS[criterion]];
+    })
+  ) as RatingWeights;
+}
+
+/**
+ * Replace the criterion weights. Existing evaluations keep the weights
+ * they were computed with; contractor scores are recomputed from those.
+ */
+export async function setRatingWeights(weights: RatingWeights, updatedById?: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  for (const criterion of RATING_CRITERIA) {
+    const weight = weights[criterion].toFixed(2);
+    await db
+      .insert(ratingCriteria)
+      .values({ criterion, weight, updatedById: updatedById || null })
+      .onDuplicateKeyUpdate({ set: { weight, updatedById: updatedById || null } });
+  }
+  return getRatingWeights();
+}
+
+/** Evaluations already made on a contract, found by contract history or project */
+export async function getContractEvaluations(opts: { contractHistoryId?: number; projectId?: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [
+    opts.contractHistoryId ? eq(performanceRatings.contractHistoryId, opts.contractHistoryId) : undefined,
+    opts.projectId ? eq(performanceRatings.projectId, opts.projectId) : undefined,
+  ].filter(Boolean);
+  if (conditions.length === 0) return [];
+
+  return db.select().from(performanceRatings).where(or(...conditions));
+}
+
 export async function createPerformanceRating(data: {
   contractorId: number;
   contractHistoryId?: number;
   projectId?: number;
   evaluationPeriod?: string;
+  evaluationType?: EvaluationType;
+  accomplishmentPercent?: number | null;
   qualityRating?: string;
   timelinessRating?: string;
   safetyRating?: string;
@@ -2022,26 +3715,26 @@ export async function createPerformanceRating(data: {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  // Calculate overall rating
-  const ratings = [
-    parseFloat(data.qualityRating || "0"),
-    parseFloat(data.timelinessRating || "0"),
-    parseFloat(data.safetyRating || "0"),
-    parseFloat(data.resourceRating || "0"),
-    parseFloat(data.communicationRating || "0"),
-  ].filter(r => r > 0);
-  
-  const overallRating = ratings.length > 0 
-    ? (ratings.reduce((a, b) => a + b, 0) / ratings.length).toFixed(2)
-    : "0";
+  // Without an evaluator's timeliness score, rate it from the project's liquidated damages
+  let timelinessRating = data.timelinessRating;
+  if (!timelinessRating && data.projectId) {
+    const damages = await getProjectLiquidatedDamages(data.projectId);
+    if (damages?.dueDate) timelinessRating = timelinessRatingFromDamages(damages).toFixed(2);
+  }
+
+  const weights = await getRatingWeights();
+  const overallRating = (weightedRating(criterionRatings({ ...data, timelinessRating }), weights) ?? 0).toFixed(2);
 
   const result = await db.insert(performanceRatings).values({
     contractorId: data.contractorId,
     contractHistoryId: data.contractHistoryId || null,
     projectId: data.projectId || null,
     evaluationPeriod: data.evaluationPeriod || null,
+    evaluationType: data.evaluationType ?? null,
+    accomplishmentPercent: data.accomplishmentPercent != null ? data.accomplishmentPercent.toFixed(2) : null,
+    weights,
     qualityRating: data.qualityRating || null,
-    timelinessRating: data.timelinessRating || null,
+    timelinessRating: timelinessRating || null,
     safetyRating: data.safetyRating || null,
     resourceRating: data.resourceRating || null,
     communicationRating: data.communicationRating || null,
@@ -2085,20 +3778,17 @@ export async function updatePerformanceRating(id: number, data: Partial<{
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  // Recalculate overall rating if any rating changed
+  // Recalculate overall rating with the weights the evaluation was made with
   const rating = await getPerformanceRatingById(id);
   if (rating) {
-    const ratings = [
-      parseFloat(data.qualityRating || String(rating.qualityRating) || "0"),
-      parseFloat(data.timelinessRating || String(rating.timelinessRating) || "0"),
-      parseFloat(data.safetyRating || String(rating.safetyRating) || "0"),
-      parseFloat(data.resourceRating || String(rating.resourceRating) || "0"),
-      parseFloat(data.communicationRating || String(rating.communicationRating) || "0"),
-    ].filter(r => r > 0);
-    
-    const overallRating = ratings.length > 0 
-      ? (ratings.reduce((a, b) => a + b, 0) / ratings.length).toFixed(2)
-      : "0";
+    const ratings = criterionRatings({
+      qualityRating: data.qualityRating || rating.qualityRating,
+      timelinessRating: data.timelinessRating || rating.timelinessRating,
+      safetyRating: data.safetyRating || rating.safetyRating,
+      resourceRating: data.resourceRating || rating.resourceRating,
+      communicationRating: data.communicationRating || rating.communicationRating,
+    });
+    const overallRating = (weightedRating(ratings, rating.weights ?? (await getRatingWeights())) ?? 0).toFixed(2);
 
     await db.update(performanceRatings).set({
       ...data,
@@ -2125,20 +3815,403 @@ export async function deletePerformanceRating(id: number) {
   return { success: true };
 }
 
-// Helper to update contractor overall rating from all performance ratings
+// Helper to update contractor overall rating: the recency-weighted score of its evaluations
 async function updateContractorOverallRating(contractorId: number) {
   const db = await getDb();
   if (!db) return;
 
-  const [stats] = await db.select({
-    avgRating: sql<number>`COALESCE(AVG(overallRating), 0)`,
-  }).from(performanceRatings).where(eq(performanceRatings.contractorId, contractorId));
+  const evaluations = await db.select().from(performanceRatings).where(eq(performanceRatings.contractorId, contractorId));
+  const { score } = contractorScore(evaluations, new Date());
 
   await db.update(contractors).set({
-    overallRating: String(stats.avgRating),
+    overallRating: (score ?? 0).toFixed(2),
   }).where(eq(contractors.id, contractorId));
 }
 
+/** Contractor score, rating band and per-criterion ratings and trends as of a date */
+export async function getContractorScorecard(contractorId: number, asOf: Date = new Date()) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const contractor = await getContractorById(contractorId);
+  if (!contractor) return undefined;
+
+  const evaluations = await db.select().from(performanceRatings).where(eq(performanceRatings.contractorId, contractorId));
+  return {
+    contractorId,
+    contractorName: contractor.name,
+    ...buildScorecard(evaluations, await getRatingWeights(), asOf),
+  };
+}
+
+
+// ==================== CONTRACTOR SANCTIONS ====================
+
+import { contractorSanctions, ContractorSanction } from "../drizzle/schema";
+import { activeSanction, assertInGoodStanding, standingFromSanctions } from "./contractorSanctions";
+
+/** Sanction history of a contractor, latest first */
+export async function getContractorSanctions(contractorId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(contractorSanctions)
+    .where(eq(contractorSanctions.contractorId, contractorId))
+    .orderBy(desc(contractorSanctions.startDate), desc(contractorSanctions.id));
+}
+
+export async function getContractorSanctionById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(contractorSanctions).where(eq(contractorSanctions.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/** The sanction barring the contractor from this office on `asOf`, if any */
+export async function getActiveSanction(contractorId: number, asOf: Date = new Date()) {
+  return activeSanction(await getContractorSanctions(contractorId), asOf);
+}
+
+/**
+ * Refuse to link the contractor to a bidding, contract or project while a
+ * sanction is in force, or while a contractor without sanction records is
+ * marked suspended or blacklisted. Contractors not on record pass, as
+ * there is nothing to check them against.
+ */
+export async function ensureContractorNotSanctioned(contractorId: number | null | undefined, asOf: Date = new Date()) {
+  if (!contractorId) return;
+  const contractor = await getContractorById(contractorId);
+  if (!contractor) return;
+  assertInGoodStanding(contractor, await getContractorSanctions(contractorId), asOf);
+}
+
+type ContractorSanctionFields = {
+  sanctionType: ContractorSanction["sanctionType"];
+  issuingAuthority: string;
+  resolutionNumber?: string | null;
+  reason: string;
+  startDate: Date;
+  endDate?: Date | null;
+  coveredAgencies?: string[] | null;
+};
+
+function contractorSanctionValues(data: Partial<ContractorSanctionFields>) {
+  return {
+    ...data,
+    ...(data.resolutionNumber !== undefined && { resolutionNumber: data.resolutionNumber || null }),
+    ...(data.coveredAgencies !== undefined && {
+      coveredAgencies: data.coveredAgencies?.map(agency => agency.trim()).filter(Boolean) ?? null,
+    }),
+  };
+}
+
+export async function createContractorSanction(data: ContractorSanctionFields & { contractorId: number; createdById?: number }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(contractorSanctions).values({
+    ...contractorSanctionValues(data),
+    sanctionType: data.sanctionType,
+    issuingAuthority: data.issuingAuthority,
+    reason: data.reason,
+    startDate: data.startDate,
+    contractorId: data.contractorId,
+    createdById: data.createdById || null,
+  });
+  await syncContractorStanding(data.contractorId);
+  return { id: result[0].insertId };
+}
+
+export async function updateContractorSanction(id: number, data: Partial<ContractorSanctionFields>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const sanction = await getContractorSanctionById(id);
+  if (!sanction) return { success: false };
+
+  await db.update(contractorSanctions).set(contractorSanctionValues(data)).where(eq(contractorSanctions.id, id));
+  await syncContractorStanding(sanction.contractorId);
+  return { success: true };
+}
+
+/** End a sanction early, e.g. on a reversed resolution; its record stays in the history */
+export async function liftContractorSanction(id: number, data: { liftedDate: Date; liftedReason: string }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const sanction = await getContractorSanctionById(id);
+  if (!sanction) return { success: false };
+
+  await db.update(contractorSanctions).set(data).where(eq(contractorSanctions.id, id));
+  await syncContractorStanding(sanction.contractorId);
+  return { success: true };
+}
+
+export async function deleteContractorSanction(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const sanction = await getContractorSanctionById(id);
+  if (!sanction) return { success: false };
+
+  await db.delete(contractorSanctions).where(eq(contractorSanctions.id, id));
+  await syncContractorStanding(sanction.contractorId);
+  return { success: true };
+}
+
+/**
+ * Bring the contractor's status in line with its sanctions as of today and
+ * report whether it changed. Contractors without sanction records keep
+ * whatever status was set by hand.
+ */
+async function syncContractorStanding(contractorId: number, today: Date = new Date()) {
+  const db = await getDb();
+  if (!db) return false;
+
+  const contractor = await getContractorById(contractorId);
+  if (!contractor) return false;
+  const sanctions = await getContractorSanctions(contractorId);
+  if (sanctions.length === 0) return false;
+
+  const standing = standingFromSanctions(contractor, activeSanction(sanctions, today));
+  if (
+    standing.status === contractor.status &&
+    standing.blacklistReason === contractor.blacklistReason &&
+    (standing.blacklistDate?.getTime() ?? null) === (contractor.blacklistDate ? new Date(contractor.blacklistDate).getTime() : null)
+  ) {
+    return false;
+  }
+  await db.update(contractors).set(standing).where(eq(contractors.id, contractorId));
+  return true;
+}
+
+/**
+ * Reinstate contractors whose sanctions have run out and bar those whose
+ * sanctions have started. Run at startup and periodically by the server.
+ */
+export async function refreshContractorStandings(today: Date = new Date()) {
+  const db = await getDb();
+  if (!db) return { updated: 0 };
+
+  const sanctioned = await db
+    .selectDistinct({ contractorId: contractorSanctions.contractorId })
+    .from(contractorSanctions);
+
+  let updated = 0;
+  for (const { contractorId } of sanctioned) {
+    if (await syncContractorStanding(contractorId, today)) updated++;
+  }
+  return { updated };
+}
+
+// ==================== CONTRACTOR ELIGIBILITY ====================
+
+import { checkContractorEligibility, type OngoingSlippage } from "./contractorEligibility";
+
+/**
+ * Latest slippage of the contractor's unfinished projects: those on an
+ * ongoing or suspended contract history, and those linked to or naming
+ * the contractor that have no completion date yet. Projects without progress reports are
+ * left out.
+ */
+async function getOngoingSlippage(contractor: Pick<Contractor, "id" | "name">, asOf: Date): Promise<OngoingSlippage[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const contracts = await db
+    .select({ projectId: contractHistory.projectId })
+    .from(contractHistory)
+    .where(and(
+      eq(contractHistory.contractorId, contractor.id),
+      isNotNull(contractHistory.projectId),
+      or(eq(contractHistory.status, "Ongoing"), eq(contractHistory.status, "Suspended"))
+    ));
+  const contractProjectIds = contracts.map(contract => contract.projectId!);
+
+  const ongoing = await db
+    .select({ id: projects.id, projectName: projects.projectName })
+    .from(projects)
+    .where(or(
+      contractProjectIds.length > 0 ? inArray(projects.id, contractProjectIds) : undefined,
+      and(
+        or(
+          eq(projects.contractorId, contractor.id),
+          sql`LOWER(TRIM(${projects.contractor})) = ${contractor.name.trim().toLowerCase()}`
+        ),
+        isNull(projects.dateCompleted)
+      )
+    ));
+  if (ongoing.length === 0) return [];
+
+  const projectIds = ongoing.map(project => project.id);
+  const [plans, actuals] = await Promise.all([
+    db.select().from(projectPlannedProgress).where(inArray(projectPlannedProgress.projectId, projectIds)),
+    db.select().from(projectActualProgress).where(inArray(projectActualProgress.projectId, projectIds)),
+  ]);
+
+  return ongoing.flatMap(project => {
+    const latest = latestSlippage(
+      plans.filter(point => point.projectId === project.id),
+      actuals.filter(report => report.projectId === project.id),
+      asOf
+    );
+    return latest
+      ? [{ projectId: project.id, projectName: project.projectName, slippage: latest.slippage, reportDate: latest.reportDate }]
+      : [];
+  });
+}
+
+/** Whether a contractor may be awarded a contract of `abc`, checked as of the bid opening date */
+export async function getContractorEligibility(contractorId: number, opts: { abc: number; asOf: Date }) {
+  const contractor = await getContractorById(contractorId);
+  if (!contractor) return undefined;
+
+  // Standing as of the bid opening date, not today, when sanctions are on record
+  const sanctions = await getContractorSanctions(contractorId);
+  const standing = sanctions.length > 0
+    ? standingFromSanctions(contractor, activeSanction(sanctions, opts.asOf))
+    : contractor;
+
+  return checkContractorEligibility({ ...contractor, ...standing }, {
+    ...opts,
+    ongoing: await getOngoingSlippage(contractor, opts.asOf),
+  });
+}
+
+// ==================== CONTRACTOR DEDUPLICATION ====================
+
+import { findDuplicateContractors, matchContractor, mergedContractorFields, mergedContractorStanding } from "./contractorMatching";
+
+/** Groups of contractor records that are likely the same firm */
+export async function getContractorDuplicates() {
+  const db = await getDb();
+  if (!db) return [];
+
+  const all = await db
+    .select({
+      id: contractors.id,
+      name: contractors.name,
+      tin: contractors.tin,
+      pcabLicense: contractors.pcabLicense,
+      status: contractors.status,
+      totalContracts: contractors.totalContracts,
+    })
+    .from(contractors);
+  return findDuplicateContractors(all);
+}
+
+/** The contractor record a free-text contractor name refers to, if one matches */
+export async function findContractorMatch(name: string, tin?: string | null) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const all = await db.select({ id: contractors.id, name: contractors.name, tin: contractors.tin }).from(contractors);
+  return matchContractor(name, tin, all);
+}
+
+/** Biddings in which more than one of the contractors submitted a bid; such records cannot be merged */
+export async function getSharedBiddings(contractorIds: number[]) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select({ biddingId: bidSubmissions.biddingId, biddingNumber: biddings.biddingNumber })
+    .from(bidSubmissions)
+    .innerJoin(biddings, eq(biddings.id, bidSubmissions.biddingId))
+    .where(inArray(bidSubmissions.contractorId, contractorIds))
+    .groupBy(bidSubmissions.biddingId, biddings.biddingNumber)
+    .having(sql`count(*) > 1`);
+}
+
+/**
+ * Fold duplicate contractor records into the surviving one: contracts,
+ * ratings, billings, bids, sanctions and projects move over, project and
+ * bidding names are rewritten to the survivor's, blank survivor fields are
+ * filled in from the duplicates, the strictest suspension or blacklisting
+ * among them is kept, and the duplicates are deleted.
+ */
+export async function mergeContractors(survivorId: number, duplicateIds: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const survivor = await getContractorById(survivorId);
+  if (!survivor) return undefined;
+  const duplicates = await db.select().from(contractors).where(inArray(contractors.id, duplicateIds));
+  if (duplicates.length === 0) return { id: survivorId, merged: 0 };
+
+  const ids = duplicates.map(duplicate => duplicate.id);
+  const names = duplicates.map(duplicate => duplicate.name.trim().toLowerCase());
+
+  await db.transaction(async tx => {
+    await tx.update(projects).set({ contractorId: survivorId, contractor: survivor.name }).where(inArray(projects.contractorId, ids));
+    await tx
+      .update(projects)
+      .set({ contractorId: survivorId, contractor: survivor.name })
+      .where(and(isNull(projects.contractorId), inArray(sql`LOWER(TRIM(${projects.contractor}))`, names)));
+    await tx
+      .update(biddings)
+      .set({ winningBidder: survivor.name })
+      .where(inArray(sql`LOWER(TRIM(${biddings.winningBidder}))`, names));
+    await tx.update(contractHistory).set({ contractorId: survivorId }).where(inArray(contractHistory.contractorId, ids));
+    await tx.update(performanceRatings).set({ contractorId: survivorId }).where(inArray(performanceRatings.contractorId, ids));
+    await tx.update(documents).set({ contractorId: survivorId }).where(inArray(documents.contractorId, ids));
+    await tx.update(bidSubmissions).set({ contractorId: survivorId }).where(inArray(bidSubmissions.contractorId, ids));
+    await tx.update(contractorSanctions).set({ contractorId: survivorId }).where(inArray(contractorSanctions.contractorId, ids));
+
+    const fields = { ...mergedContractorFields(survivor, duplicates), ...mergedContractorStanding(survivor, duplicates) };
+    if (Object.keys(fields).length > 0) {
+      await tx.update(contractors).set(fields).where(eq(contractors.id, survivorId));
+    }
+    await tx.delete(contractors).where(inArray(contractors.id, ids));
+  });
+
+  await updateContractorStats(survivorId);
+  await updateContractorOverallRating(survivorId);
+  await syncContractorStanding(survivorId);
+  return { id: survivorId, merged: ids.length };
+}
+
+/**
+ * Set the contractor record of projects that only have a contractor name,
+ * matching on name and TIN. Returns the names that matched nothing, with
+ * how many projects carry them, for registering or correcting.
+ */
+export async function linkProjectContractors() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [names, all] = await Promise.all([
+    db
+      .select({ contractor: projects.contractor, contractorTin: projects.contractorTin, count: sql<number>`count(*)` })
+      .from(projects)
+      .where(and(isNull(projects.contractorId), isNotNull(projects.contractor), sql`TRIM(${projects.contractor}) != ''`))
+      .groupBy(projects.contractor, projects.contractorTin),
+    db.select({ id: contractors.id, name: contractors.name, tin: contractors.tin }).from(contractors),
+  ]);
+
+  let linked = 0;
+  const unmatched: { contractor: string; projects: number }[] = [];
+  for (const entry of names) {
+    const match = matchContractor(entry.contractor!, entry.contractorTin, all);
+    if (!match) {
+      unmatched.push({ contractor: entry.contractor!, projects: Number(entry.count) });
+      continue;
+    }
+    await db
+      .update(projects)
+      .set({ contractorId: match.contractorId })
+      .where(and(
+        isNull(projects.contractorId),
+        eq(projects.contractor, entry.contractor!),
+        entry.contractorTin === null ? isNull(projects.contractorTin) : eq(projects.contractorTin, entry.contractorTin)
+      ));
+    linked += Number(entry.count);
+  }
+  return { linked, unmatched };
+}
 
 // ==================== USER MANAGEMENT ====================
 
@@ -2309,10 +4382,55 @@ export async function getUserStats() {
 // MAINTENANCE DIVISION - PROVINCIAL ROADS
 // ============================================
 
+import {
+  provincialRoads,
+  maintenanceEquipment,
+  maintenanceSchedules,
+  equipmentAssignments,
+  InsertMaintenanceEquipment,
+  InsertMaintenanceSchedule,
+  InsertEquipmentAssignment,
+  InsertProvincialRoad,
+  roadConditionSurveys,
+  InsertRoadConditionSurvey,
+} from "../drizzle/schema";
+import { getTableColumns } from "drizzle-orm";
+import { diffRoadInventory, type ParsedRoad } from "./roadInventory";
+import { currentRoadCondition } from "./roadSurveys";
+import { assertScheduleSegment, findScheduleConflicts, roadCoverage, scheduleClaimChanged } from "./chainage";
+import {
+  OPEN_ASSIGNMENT_STATUSES,
+  assertEquipmentAvailable,
+  buildUtilizationReport,
+  deriveEquipmentStatus,
+  findBookingConflicts,
+  isBookable,
+} from "./equipmentUsage";
+
+// Router inputs carry dates as YYYY-MM-DD strings and amounts as numbers;
+// undefined is passed through so partial updates leave the column alone
+function toDateValue(value: string | undefined) {
+  if (value === undefined) return undefined;
+  return value ? new Date(value) : null;
+}
+
+function toDecimalValue(value: number | undefined) {
+  return value === undefined ? undefined : String(value);
+}
+
+function paginate(total: number, page: number, limit: number) {
+  return {
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
 export async function getProvincialRoads(filters: {
   search?: string;
   municipality?: string;
-  roadCondition?: string;
+  roadCondition?: "Good" | "Fair" | "Poor" | "Bad";
   sortBy?: string;
   sortOrder?: string;
   page?: number;
@@ -2324,557 +4442,1729 @@ export async function getProvincialRoads(filters: {
   const { search, municipality, roadCondition, sortBy = "roadName", sortOrder = "asc", page = 1, limit = 50 } = filters;
   const offset = (page - 1) * limit;
 
-  let whereClause = "1=1";
+  const conditions = [];
   if (search) {
-    whereClause += ` AND (roadName LIKE '%${search}%' OR roadId LIKE '%${search}%')`;
+    conditions.push(or(like(provincialRoads.roadName, `%${search}%`), like(provincialRoads.roadId, `%${search}%`)));
   }
   if (municipality) {
-    whereClause += ` AND municipality = '${municipality}'`;
+    conditions.push(eq(provincialRoads.municipality, municipality));
   }
   if (roadCondition) {
-    whereClause += ` AND roadCondition = '${roadCondition}'`;
+    conditions.push(eq(provincialRoads.roadCondition, roadCondition));
   }
+  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
-  // Map sortBy to actual column names
-  let orderColumn = "roadName";
-  if (sortBy === "roadId") orderColumn = "roadId";
-  else if (sortBy === "municipality") orderColumn = "municipality";
-  else if (sortBy === "length") orderColumn = "lengthKm";
-  else if (sortBy === "condition") orderColumn = "roadCondition";
-  else if (sortBy === "roadName") orderColumn = "roadName";
-  
-  const orderDir = sortOrder === "desc" ? "DESC" : "ASC";
+  // Map sortBy to actual columns
+  let orderColumn;
+  switch (sortBy) {
+    case "roadId":
+      orderColumn = provincialRoads.roadId;
+      break;
+    case "municipality":
+      orderColumn = provincialRoads.municipality;
+      break;
+    case "length":
+      orderColumn = provincialRoads.lengthKm;
+      break;
+    case "condition":
+      orderColumn = provincialRoads.roadCondition;
+      break;
+    default:
+      orderColumn = provincialRoads.roadName;
+  }
+  const orderFn = sortOrder === "desc" ? desc : asc;
+
+  const [countResult] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(provincialRoads)
+    .where(whereClause);
+  const total = Number(countResult?.count ?? 0);
+
+  // Apply user-selected sorting
+  const roads = await db
+    .select()
+    .from(provincialRoads)
+    .where(whereClause)
+    .orderBy(orderFn(orderColumn))
+    .limit(limit)
+    .offset(offset);
+
+  return {
+    roads,
+    pagination: paginate(total, page, limit),
+  };
+}
+
+export async function getProvincialRoadById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(provincialRoads).where(eq(provincialRoads.id, id)).limit(1);
+  return result[0] || null;
+}
+
+export async function getRoadMunicipalities() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select({
+      municipality: provincialRoads.municipality,
+      count: sql<number>`count(*)`,
+      totalKm: sql<string>`SUM(${provincialRoads.lengthKm})`,
+    })
+    .from(provincialRoads)
+    .where(and(sql`${provincialRoads.municipality} IS NOT NULL`, sql`${provincialRoads.municipality} != ''`))
+    .groupBy(provincialRoads.municipality)
+    .orderBy(asc(provincialRoads.municipality));
+}
+
+export async function getRoadStats() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [stats] = await db.select({
+    totalRoads: sql<number>`count(*)`,
+    totalLengthKm: sql<string>`SUM(${provincialRoads.lengthKm})`,
+    concreteKm: sql<string>`SUM(${provincialRoads.concreteLengthKm})`,
+    asphaltKm: sql<string>`SUM(${provincialRoads.asphaltLengthKm})`,
+    earthKm: sql<string>`SUM(${provincialRoads.earthLengthKm})`,
+    gravelKm: sql<string>`SUM(${provincialRoads.gravelLengthKm})`,
+    goodCondition: sql<string>`SUM(CASE WHEN ${provincialRoads.roadCondition} = 'Good' THEN 1 ELSE 0 END)`,
+    fairCondition: sql<string>`SUM(CASE WHEN ${provincialRoads.roadCondition} = 'Fair' THEN 1 ELSE 0 END)`,
+    poorCondition: sql<string>`SUM(CASE WHEN ${provincialRoads.roadCondition} = 'Poor' THEN 1 ELSE 0 END)`,
+    badCondition: sql<string>`SUM(CASE WHEN ${provincialRoads.roadCondition} = 'Bad' THEN 1 ELSE 0 END)`,
+    municipalities: sql<number>`COUNT(DISTINCT ${provincialRoads.municipality})`,
+  }).from(provincialRoads);
+
+  return stats || {};
+}
+
+export async function getProvincialRoadByRoadId(roadId: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(provincialRoads).where(eq(provincialRoads.roadId, roadId)).limit(1);
+  return result[0];
+}
+
+export async function createProvincialRoad(data: InsertProvincialRoad) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(provincialRoads).values(data);
+  return { id: result[0].insertId };
+}
+
+export async function updateProvincialRoad(id: number, data: Partial<InsertProvincialRoad>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(provincialRoads).set(data).where(eq(provincialRoads.id, id));
+  return { success: true };
+}
+
+export async function deleteProvincialRoad(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(provincialRoads).where(eq(provincialRoads.id, id));
+  return { success: true };
+}
+
+/** Dry-run an inventory workbook against the current roads, keyed by roadId */
+export async function previewRoadImport(parsed: ParsedRoad[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await db.select().from(provincialRoads);
+  return diffRoadInventory(existing, parsed);
+}
+
+/**
+ * Apply an inventory workbook: insert new roads and update changed ones in
+ * one transaction. Roads missing from the workbook are left untouched.
+ */
+export async function applyRoadImport(parsed: ParsedRoad[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async tx => {
+    const existing = await tx.select().from(provincialRoads);
+    const diff = diffRoadInventory(existing, parsed);
+
+    if (diff.created.length > 0) {
+      await tx.insert(provincialRoads).values(diff.created);
+    }
+    for (const change of diff.changed) {
+      await tx.update(provincialRoads).set(change.road).where(eq(provincialRoads.id, change.id));
+    }
+
+    return diff;
+  });
+}
+
+// ============================================
+// ROAD CONDITION SURVEYS
+// ============================================
+
+export async function getRoadSurveys(roadId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(roadConditionSurveys)
+    .where(eq(roadConditionSurveys.roadId, roadId))
+    .orderBy(desc(roadConditionSurveys.surveyDate), asc(roadConditionSurveys.kmStart));
+}
+
+export async function getRoadSurveyById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(roadConditionSurveys).where(eq(roadConditionSurveys.id, id)).limit(1);
+  return result[0];
+}
+
+/** Survey segments joined with the road's municipality, for the dashboard trend */
+export async function getSurveysForTrend(filters: { municipality?: string } = {}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select({
+      roadId: roadConditionSurveys.roadId,
+      surveyDate: roadConditionSurveys.surveyDate,
+      kmStart: roadConditionSurveys.kmStart,
+      kmEnd: roadConditionSurveys.kmEnd,
+      condition: roadConditionSurveys.condition,
+      surfaceType: roadConditionSurveys.surfaceType,
+      municipality: provincialRoads.municipality,
+    })
+    .from(roadConditionSurveys)
+    .innerJoin(provincialRoads, eq(roadConditionSurveys.roadId, provincialRoads.id))
+    .where(filters.municipality ? eq(provincialRoads.municipality, filters.municipality) : undefined);
+}
+
+/** Keep provincial_roads.roadCondition in step with the latest surveys */
+async function syncRoadCondition(roadId: number) {
+  const db = await getDb();
+  if (!db) return;
+
+  const { condition } = currentRoadCondition(await getRoadSurveys(roadId));
+  if (condition) {
+    await db.update(provincialRoads).set({ roadCondition: condition }).where(eq(provincialRoads.id, roadId));
+  }
+}
+
+export async function createRoadSurvey(data: InsertRoadConditionSurvey) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(roadConditionSurveys).values(data);
+  await syncRoadCondition(data.roadId);
+
+  return { id: result[0].insertId };
+}
+
+export async function updateRoadSurvey(id: number, data: Partial<InsertRoadConditionSurvey>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getRoadSurveyById(id);
+  await db.update(roadConditionSurveys).set(data).where(eq(roadConditionSurveys.id, id));
+
+  if (existing) await syncRoadCondition(existing.roadId);
+  if (data.roadId && data.roadId !== existing?.roadId) await syncRoadCondition(data.roadId);
+
+  return { success: true };
+}
+
+export async function deleteRoadSurvey(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getRoadSurveyById(id);
+  await db.delete(roadConditionSurveys).where(eq(roadConditionSurveys.id, id));
+  if (existing) await syncRoadCondition(existing.roadId);
+
+  return { success: true };
+}
+
+// ============================================
+// MAINTENANCE EQUIPMENT
+// ============================================
+
+export async function getMaintenanceEquipment(filters: {
+  search?: string;
+  equipmentType?: NonNullable<InsertMaintenanceEquipment["equipmentType"]>;
+  status?: NonNullable<InsertMaintenanceEquipment["status"]>;
+  page?: number;
+  limit?: number;
+} = {}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { search, equipmentType, status, page = 1, limit = 50 } = filters;
+  const offset = (page - 1) * limit;
+
+  const conditions = [];
+  if (search) {
+    conditions.push(or(like(maintenanceEquipment.name, `%${search}%`), like(maintenanceEquipment.equipmentCode, `%${search}%`)));
+  }
+  if (equipmentType) {
+    conditions.push(eq(maintenanceEquipment.equipmentType, equipmentType));
+  }
+  if (status) {
+    conditions.push(eq(maintenanceEquipment.status, status));
+  }
+  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [countResult] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(maintenanceEquipment)
+    .where(whereClause);
+  const total = Number(countResult?.count ?? 0);
+
+  const equipment = await db
+    .select()
+    .from(maintenanceEquipment)
+    .where(whereClause)
+    .orderBy(asc(maintenanceEquipment.name))
+    .limit(limit)
+    .offset(offset);
+
+  return {
+    equipment,
+    pagination: paginate(total, page, limit),
+  };
+}
+
+export async function getEquipmentById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(maintenanceEquipment).where(eq(maintenanceEquipment.id, id)).limit(1);
+  return result[0] || null;
+}
+
+export async function createEquipment(data: {
+  name: string;
+  equipmentType?: InsertMaintenanceEquipment["equipmentType"];
+  equipmentCode?: string;
+  model?: string;
+  plateNumber?: string;
+  status?: InsertMaintenanceEquipment["status"];
+  currentLocation?: string;
+  operatorName?: string;
+  notes?: string;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(maintenanceEquipment).values({
+    name: data.name,
+    equipmentType: data.equipmentType || null,
+    equipmentCode: data.equipmentCode || null,
+    model: data.model || null,
+    plateNumber: data.plateNumber || null,
+    status: data.status || "Available",
+    currentLocation: data.currentLocation || null,
+    operatorName: data.operatorName || null,
+    notes: data.notes || null,
+  });
+
+  return { id: result[0].insertId };
+}
+
+export async function updateEquipment(id: number, data: Partial<{
+  name: string;
+  equipmentType: InsertMaintenanceEquipment["equipmentType"];
+  equipmentCode: string;
+  model: string;
+  plateNumber: string;
+  status: InsertMaintenanceEquipment["status"];
+  currentLocation: string;
+  operatorName: string;
+  notes: string;
+}>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(maintenanceEquipment)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(maintenanceEquipment.id, id));
+  return { success: true };
+}
+
+export async function deleteEquipment(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(maintenanceEquipment).where(eq(maintenanceEquipment.id, id));
+  return { success: true };
+}
+
+export async function getEquipmentStats() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [stats] = await db.select({
+    total: sql<number>`count(*)`,
+    available: sql<string>`SUM(CASE WHEN ${maintenanceEquipment.status} = 'Available' THEN 1 ELSE 0 END)`,
+    inUse: sql<string>`SUM(CASE WHEN ${maintenanceEquipment.status} = 'In Use' THEN 1 ELSE 0 END)`,
+    underMaintenance: sql<string>`SUM(CASE WHEN ${maintenanceEquipment.status} = 'Under Maintenance' THEN 1 ELSE 0 END)`,
+    outOfService: sql<string>`SUM(CASE WHEN ${maintenanceEquipment.status} = 'Out of Service' THEN 1 ELSE 0 END)`,
+  }).from(maintenanceEquipment);
+
+  return stats || {};
+}
+
+// ============================================
+// MAINTENANCE SCHEDULES
+// ============================================
+
+// Schedule rows joined with their road; scheduleStatus mirrors the column
+// name the raw-SQL rows used to expose
+const scheduleWithRoad = {
+  ...getTableColumns(maintenanceSchedules),
+  scheduleStatus: maintenanceSchedules.status,
+  roadName: provincialRoads.roadName,
+  municipality: provincialRoads.municipality,
+};
+
+export async function getMaintenanceSchedules(filters: {
+  search?: string;
+  roadId?: number;
+  maintenanceType?: NonNullable<InsertMaintenanceSchedule["maintenanceType"]>;
+  status?: NonNullable<InsertMaintenanceSchedule["status"]>;
+  priority?: NonNullable<InsertMaintenanceSchedule["priority"]>;
+  page?: number;
+  limit?: number;
+} = {}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { search, roadId, maintenanceType, status, priority, page = 1, limit = 50 } = filters;
+  const offset = (page - 1) * limit;
+
+  const conditions = [];
+  if (search) {
+    conditions.push(like(maintenanceSchedules.title, `%${search}%`));
+  }
+  if (roadId) {
+    conditions.push(eq(maintenanceSchedules.roadId, roadId));
+  }
+  if (maintenanceType) {
+    conditions.push(eq(maintenanceSchedules.maintenanceType, maintenanceType));
+  }
+  if (status) {
+    conditions.push(eq(maintenanceSchedules.status, status));
+  }
+  if (priority) {
+    conditions.push(eq(maintenanceSchedules.priority, priority));
+  }
+  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [countResult] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(maintenanceSchedules)
+    .where(whereClause);
+  const total = Number(countResult?.count ?? 0);
+
+  const schedules = await db
+    .select(scheduleWithRoad)
+    .from(maintenanceSchedules)
+    .leftJoin(provincialRoads, eq(maintenanceSchedules.roadId, provincialRoads.id))
+    .where(whereClause)
+    .orderBy(desc(maintenanceSchedules.scheduledStartDate))
+    .limit(limit)
+    .offset(offset);
+
+  return {
+    schedules,
+    pagination: paginate(total, page, limit),
+  };
+}
+
+export async function getScheduleById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .select(scheduleWithRoad)
+    .from(maintenanceSchedules)
+    .leftJoin(provincialRoads, eq(maintenanceSchedules.roadId, provincialRoads.id))
+    .where(eq(maintenanceSchedules.id, id))
+    .limit(1);
+  return result[0] || null;
+}
+
+export async function createSchedule(data: {
+  roadId?: number;
+  title: string;
+  maintenanceType?: InsertMaintenanceSchedule["maintenanceType"];
+  priority?: InsertMaintenanceSchedule["priority"];
+  scheduledStartDate?: string;
+  scheduledEndDate?: string;
+  estimatedCost?: number;
+  assignedTeam?: string;
+  kmStart?: number;
+  kmEnd?: number;
+  notes?: string;
+  createdById?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const values: InsertMaintenanceSchedule = {
+    roadId: data.roadId || null,
+    title: data.title,
+    maintenanceType: data.maintenanceType || null,
+    priority: data.priority || "Medium",
+    scheduledStartDate: toDateValue(data.scheduledStartDate) ?? null,
+    scheduledEndDate: toDateValue(data.scheduledEndDate) ?? null,
+    estimatedCost: toDecimalValue(data.estimatedCost) ?? null,
+    assignedTeam: data.assignedTeam || null,
+    kmStart: toDecimalValue(data.kmStart) ?? null,
+    kmEnd: toDecimalValue(data.kmEnd) ?? null,
+    notes: data.notes || null,
+    createdById: data.createdById || null,
+    status: "Scheduled",
+  };
+
+  await validateScheduleSegment({ id: 0, ...values });
+
+  const result = await db.insert(maintenanceSchedules).values(values);
+
+  return { id: result[0].insertId };
+}
+
+export async function updateSchedule(id: number, data: Partial<{
+  roadId: number;
+  title: string;
+  maintenanceType: InsertMaintenanceSchedule["maintenanceType"];
+  priority: InsertMaintenanceSchedule["priority"];
+  scheduledStartDate: string;
+  scheduledEndDate: string;
+  actualStartDate: string;
+  actualEndDate: string;
+  status: InsertMaintenanceSchedule["status"];
+  estimatedCost: number;
+  actualCost: number;
+  assignedTeam: string;
+  kmStart: number;
+  kmEnd: number;
+  notes: string;
+}>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const updates: Partial<InsertMaintenanceSchedule> = {
+    roadId: data.roadId,
+    title: data.title,
+    maintenanceType: data.maintenanceType,
+    priority: data.priority,
+    scheduledStartDate: toDateValue(data.scheduledStartDate),
+    scheduledEndDate: toDateValue(data.scheduledEndDate),
+    actualStartDate: toDateValue(data.actualStartDate),
+    actualEndDate: toDateValue(data.actualEndDate),
+    status: data.status,
+    estimatedCost: toDecimalValue(data.estimatedCost),
+    actualCost: toDecimalValue(data.actualCost),
+    assignedTeam: data.assignedTeam,
+    kmStart: toDecimalValue(data.kmStart),
+    kmEnd: toDecimalValue(data.kmEnd),
+    notes: data.notes,
+    updatedAt: new Date(),
+  };
+
+  const existing = await getScheduleById(id);
+  if (existing) {
+    const changed = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    const schedule = { ...existing, ...changed };
+    if (scheduleClaimChanged(existing, schedule)) await validateScheduleSegment(schedule);
+  }
+
+  await db.update(maintenanceSchedules).set(updates).where(eq(maintenanceSchedules.id, id));
+  return { success: true };
+}
+
+/** Validate a schedule's chainage against its road and the other schedules on it */
+async function validateScheduleSegment(schedule: Parameters<typeof assertScheduleSegment>[0]) {
+  const road = schedule.roadId ? await getProvincialRoadById(schedule.roadId) : null;
+  const others = schedule.roadId ? await getSchedulesForRoad(schedule.roadId) : [];
+  assertScheduleSegment(schedule, road, others);
+}
+
+export async function getSchedulesForRoad(roadId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(maintenanceSchedules).where(eq(maintenanceSchedules.roadId, roadId));
+}
+
+/**
+ * Covered/uncovered chainage per road for the schedules planned in a year
+ * (by scheduled start, falling back to end date). Cancelled work is left out.
+ */
+export async function getScheduleCoverage(filters: { year: number; roadId?: number; municipality?: string }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const roadConditions = [];
+  if (filters.roadId) roadConditions.push(eq(provincialRoads.id, filters.roadId));
+  if (filters.municipality) roadConditions.push(eq(provincialRoads.municipality, filters.municipality));
+
+  const roads = await db
+    .select()
+    .from(provincialRoads)
+    .where(roadConditions.length > 0 ? and(...roadConditions) : undefined)
+    .orderBy(asc(provincialRoads.municipality), asc(provincialRoads.roadId));
+
+  const yearStart = new Date(filters.year, 0, 1);
+  const yearEnd = new Date(filters.year, 11, 31);
+  const scheduleDate = sql`COALESCE(${maintenanceSchedules.scheduledStartDate}, ${maintenanceSchedules.scheduledEndDate})`;
+
+  const schedules = await db
+    .select()
+    .from(maintenanceSchedules)
+    .where(
+      and(
+        filters.roadId ? eq(maintenanceSchedules.roadId, filters.roadId) : sql`${maintenanceSchedules.roadId} IS NOT NULL`,
+        sql`${maintenanceSchedules.status} != 'Cancelled'`,
+        gte(scheduleDate, yearStart),
+        lte(scheduleDate, yearEnd)
+      )
+    );
+
+  return roads.map(road => roadCoverage(road, schedules.filter(schedule => schedule.roadId === road.id)));
+}
+
+/** Pairs of active schedules that already overlap on the same stretch and dates */
+export async function getScheduleConflicts(filters: { roadId?: number } = {}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const schedules = await db
+    .select(scheduleWithRoad)
+    .from(maintenanceSchedules)
+    .innerJoin(provincialRoads, eq(maintenanceSchedules.roadId, provincialRoads.id))
+    .where(filters.roadId ? eq(maintenanceSchedules.roadId, filters.roadId) : undefined);
+  const lengths = new Map(
+    (await db.select({ id: provincialRoads.id, lengthKm: provincialRoads.lengthKm }).from(provincialRoads))
+      .map(road => [road.id, road.lengthKm != null ? Number(road.lengthKm) : null])
+  );
+
+  const conflicts: { schedule: (typeof schedules)[number]; conflictsWith: (typeof schedules)[number] }[] = [];
+  schedules.forEach(schedule => {
+    findScheduleConflicts(schedule, schedules, lengths.get(schedule.roadId!))
+      .filter(other => other.id > schedule.id)
+      .forEach(other => conflicts.push({ schedule, conflictsWith: other }));
+  });
+  return conflicts;
+}
+
+export async function deleteSchedule(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(maintenanceSchedules).where(eq(maintenanceSchedules.id, id));
+  return { success: true };
+}
+
+export async function getScheduleStats() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [stats] = await db.select({
+    total: sql<number>`count(*)`,
+    scheduled: sql<string>`SUM(CASE WHEN ${maintenanceSchedules.status} = 'Scheduled' THEN 1 ELSE 0 END)`,
+    inProgress: sql<string>`SUM(CASE WHEN ${maintenanceSchedules.status} = 'In Progress' THEN 1 ELSE 0 END)`,
+    completed: sql<string>`SUM(CASE WHEN ${maintenanceSchedules.status} = 'Completed' THEN 1 ELSE 0 END)`,
+    cancelled: sql<string>`SUM(CASE WHEN ${maintenanceSchedules.status} = 'Cancelled' THEN 1 ELSE 0 END)`,
+    urgent: sql<string>`SUM(CASE WHEN ${maintenanceSchedules.priority} = 'Urgent' THEN 1 ELSE 0 END)`,
+    highPriority: sql<string>`SUM(CASE WHEN ${maintenanceSchedules.priority} = 'High' THEN 1 ELSE 0 END)`,
+  }).from(maintenanceSchedules);
+
+  return stats || {};
+}
+
+// ============================================
+// EQUIPMENT ASSIGNMENTS
+// ============================================
+
+export async function getEquipmentAssignments(filters: {
+  search?: string;
+  scheduleId?: number;
+  equipmentId?: number;
+  status?: NonNullable<InsertEquipmentAssignment["status"]>;
+  page?: number;
+  limit?: number;
+} = {}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { search, scheduleId, equipmentId, status, page = 1, limit = 50 } = filters;
+  const offset = (page - 1) * limit;
+
+  const conditions = [];
+  if (search) {
+    conditions.push(
+      or(
+        like(maintenanceEquipment.name, `%${search}%`),
+        like(maintenanceSchedules.title, `%${search}%`),
+        like(equipmentAssignments.operatorName, `%${search}%`)
+      )
+    );
+  }
+  if (scheduleId) {
+    conditions.push(eq(equipmentAssignments.scheduleId, scheduleId));
+  }
+  if (equipmentId) {
+    conditions.push(eq(equipmentAssignments.equipmentId, equipmentId));
+  }
+  if (status) {
+    conditions.push(eq(equipmentAssignments.status, status));
+  }
+  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+  // Search spans the joined equipment and schedule, so count over the same joins
+  const [countResult] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(equipmentAssignments)
+    .leftJoin(maintenanceEquipment, eq(equipmentAssignments.equipmentId, maintenanceEquipment.id))
+    .leftJoin(maintenanceSchedules, eq(equipmentAssignments.scheduleId, maintenanceSchedules.id))
+    .where(whereClause);
+  const total = Number(countResult?.count ?? 0);
+
+  const assignments = await db
+    .select({
+      ...getTableColumns(equipmentAssignments),
+      assignmentStatus: equipmentAssignments.status,
+      equipmentName: maintenanceEquipment.name,
+      equipmentType: maintenanceEquipment.equipmentType,
+      scheduleTitle: maintenanceSchedules.title,
+    })
+    .from(equipmentAssignments)
+    .leftJoin(maintenanceEquipment, eq(equipmentAssignments.equipmentId, maintenanceEquipment.id))
+    .leftJoin(maintenanceSchedules, eq(equipmentAssignments.scheduleId, maintenanceSchedules.id))
+    .where(whereClause)
+    .orderBy(desc(equipmentAssignments.startDate))
+    .limit(limit)
+    .offset(offset);
+
+  return {
+    assignments,
+    pagination: paginate(total, page, limit),
+  };
+}
+
+export async function getAssignmentsForEquipment(equipmentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(equipmentAssignments).where(eq(equipmentAssignments.equipmentId, equipmentId));
+}
+
+export async function getAssignmentById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(equipmentAssignments).where(eq(equipmentAssignments.id, id)).limit(1);
+  return result[0] || null;
+}
+
+/** Flip the unit between Available and In Use to match its open assignments */
+async function syncEquipmentStatus(equipmentId: number | null | undefined) {
+  const db = await getDb();
+  if (!db || !equipmentId) return;
+
+  const equipment = await getEquipmentById(equipmentId);
+  if (!equipment) return;
+
+  const status = deriveEquipmentStatus(equipment.status, await getAssignmentsForEquipment(equipmentId));
+  if (status !== equipment.status) {
+    await db.update(maintenanceEquipment).set({ status }).where(eq(maintenanceEquipment.id, equipmentId));
+  }
+}
+
+export async function createEquipmentAssignment(data: {
+  scheduleId: number;
+  equipmentId: number;
+  startDate?: string;
+  endDate?: string;
+  operatorName?: string;
+  notes?: string;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const values: InsertEquipmentAssignment = {
+    scheduleId: data.scheduleId,
+    equipmentId: data.equipmentId,
+    startDate: toDateValue(data.startDate) ?? null,
+    endDate: toDateValue(data.endDate) ?? null,
+    operatorName: data.operatorName || null,
+    notes: data.notes || null,
+    status: "Assigned",
+  };
+
+  // The unit's row stays locked until the booking is written so two requests cannot both take it
+  const insertId = await db.transaction(async tx => {
+    const [equipment] = await tx.select().from(maintenanceEquipment).where(eq(maintenanceEquipment.id, data.equipmentId)).for("update");
+    assertEquipmentAvailable(
+      equipment,
+      { equipmentId: data.equipmentId, startDate: values.startDate, endDate: values.endDate },
+      await tx.select().from(equipmentAssignments).where(eq(equipmentAssignments.equipmentId, data.equipmentId))
+    );
+
+    const result = await tx.insert(equipmentAssignments).values(values);
+    return result[0].insertId;
+  });
+  await syncEquipmentStatus(data.equipmentId);
+
+  return { id: insertId };
+}
+
+export async function updateEquipmentAssignment(id: number, data: Partial<{
+  startDate: string;
+  endDate: string;
+  operatorName: string;
+  hoursUsed: number;
+  fuelConsumed: number;
+  status: InsertEquipmentAssignment["status"];
+  notes: string;
+}>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const updates: Partial<InsertEquipmentAssignment> = {
+    startDate: toDateValue(data.startDate),
+    endDate: toDateValue(data.endDate),
+    operatorName: data.operatorName,
+    hoursUsed: toDecimalValue(data.hoursUsed),
+    fuelConsumed: toDecimalValue(data.fuelConsumed),
+    status: data.status,
+    notes: data.notes,
+    updatedAt: new Date(),
+  };
+
+  const existing = await db.transaction(async tx => {
+    const [existing] = await tx.select().from(equipmentAssignments).where(eq(equipmentAssignments.id, id)).limit(1);
+
+    // Re-check the booking when its dates move or a closed assignment is reopened, with the unit locked
+    const status = updates.status ?? existing?.status;
+    const reopened = !OPEN_ASSIGNMENT_STATUSES.includes(existing?.status ?? "Assigned");
+    const datesMoved = data.startDate !== undefined || data.endDate !== undefined;
+    if (existing?.equipmentId && OPEN_ASSIGNMENT_STATUSES.includes(status ?? "Assigned") && (reopened || datesMoved)) {
+      const [equipment] = await tx.select().from(maintenanceEquipment).where(eq(maintenanceEquipment.id, existing.equipmentId)).for("update");
+      assertEquipmentAvailable(
+        equipment,
+        {
+          id,
+          equipmentId: existing.equipmentId,
+          startDate: updates.startDate !== undefined ? updates.startDate : existing.startDate,
+          endDate: updates.endDate !== undefined ? updates.endDate : existing.endDate,
+        },
+        await tx.select().from(equipmentAssignments).where(eq(equipmentAssignments.equipmentId, existing.equipmentId))
+      );
+    }
+
+    await tx.update(equipmentAssignments).set(updates).where(eq(equipmentAssignments.id, id));
+    return existing;
+  });
+  await syncEquipmentStatus(existing?.equipmentId);
+
+  return { success: true };
+}
+
+export async function deleteEquipmentAssignment(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Get equipment ID before deleting
+  const [assignment] = await db
+    .select({ equipmentId: equipmentAssignments.equipmentId })
+    .from(equipmentAssignments)
+    .where(eq(equipmentAssignments.id, id))
+    .limit(1);
+
+  await db.delete(equipmentAssignments).where(eq(equipmentAssignments.id, id));
+  await syncEquipmentStatus(assignment?.equipmentId);
+
+  return { success: true };
+}
+
+/** Which units are free for every day of a date range, with the bookings that block the rest */
+export async function getEquipmentAvailability(filters: {
+  startDate: Date;
+  endDate: Date;
+  equipmentType?: NonNullable<InsertMaintenanceEquipment["equipmentType"]>;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const equipment = await db
+    .select()
+    .from(maintenanceEquipment)
+    .where(filters.equipmentType ? eq(maintenanceEquipment.equipmentType, filters.equipmentType) : undefined)
+    .orderBy(asc(maintenanceEquipment.name));
+  const assignments = await db
+    .select({
+      ...getTableColumns(equipmentAssignments),
+      scheduleTitle: maintenanceSchedules.title,
+    })
+    .from(equipmentAssignments)
+    .leftJoin(maintenanceSchedules, eq(equipmentAssignments.scheduleId, maintenanceSchedules.id));
+
+  return equipment.map(unit => {
+    const conflicts = findBookingConflicts(
+      { equipmentId: unit.id, startDate: filters.startDate, endDate: filters.endDate },
+      assignments
+    );
+    return {
+      ...unit,
+      available: isBookable(unit) && conflicts.length === 0,
+      conflicts,
+    };
+  });
+}
+
+/** Monthly hours, fuel and assigned/idle days per unit for a year */
+export async function getEquipmentUtilization(filters: { year: number; equipmentId?: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const equipment = await db
+    .select({ id: maintenanceEquipment.id, name: maintenanceEquipment.name })
+    .from(maintenanceEquipment)
+    .where(filters.equipmentId ? eq(maintenanceEquipment.id, filters.equipmentId) : undefined)
+    .orderBy(asc(maintenanceEquipment.name));
+  const assignments = await db
+    .select()
+    .from(equipmentAssignments)
+    .where(filters.equipmentId ? eq(equipmentAssignments.equipmentId, filters.equipmentId) : undefined);
+
+  return buildUtilizationReport(equipment, assignments, filters.year);
+}
+
+// ============================================
+// EQUIPMENT SERVICE PLANS & WORK ORDERS
+// ============================================
+
+import {
+  equipmentServicePlans,
+  equipmentWorkOrders,
+  InsertEquipmentServicePlan,
+  InsertEquipmentWorkOrder,
+} from "../drizzle/schema";
+import {
+  hourMeterReading,
+  initialServiceHours,
+  isOpenWorkOrder,
+  nextServiceDate,
+  overallServiceState,
+  servicePlanStatus,
+} from "./equipmentService";
+
+export async function getServicePlans(equipmentId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(equipmentServicePlans)
+    .where(eq(equipmentServicePlans.equipmentId, equipmentId))
+    .orderBy(asc(equipmentServicePlans.serviceType));
+}
+
+export async function getServicePlanById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(equipmentServicePlans).where(eq(equipmentServicePlans.id, id)).limit(1);
+  return result[0] || null;
+}
+
+type ServicePlanFields = {
+  serviceType: string;
+  intervalHours?: number | null;
+  intervalDays?: number | null;
+  lastServiceDate?: string;
+  lastServiceHours?: number;
+  isActive?: boolean;
+  notes?: string;
+};
+
+function servicePlanValues(data: Partial<ServicePlanFields>): Partial<InsertEquipmentServicePlan> {
+  return {
+    serviceType: data.serviceType,
+    intervalHours: data.intervalHours === null ? null : toDecimalValue(data.intervalHours),
+    intervalDays: data.intervalDays,
+    lastServiceDate: toDateValue(data.lastServiceDate),
+    lastServiceHours: toDecimalValue(data.lastServiceHours),
+    isActive: data.isActive,
+    notes: data.notes,
+  };
+}
+
+export async function createServicePlan(data: ServicePlanFields & { equipmentId: number }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const hourMeter = hourMeterReading(await getAssignmentsForEquipment(data.equipmentId));
+  const result = await db.insert(equipmentServicePlans).values({
+    ...servicePlanValues({ ...data, lastServiceHours: initialServiceHours(data.lastServiceHours, hourMeter) }),
+    equipmentId: data.equipmentId,
+    serviceType: data.serviceType,
+  });
+  await syncNextMaintenanceDate(data.equipmentId);
+
+  return { id: result[0].insertId };
+}
+
+export async function updateServicePlan(id: number, data: Partial<ServicePlanFields>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(equipmentServicePlans)
+    .set({ ...servicePlanValues(data), updatedAt: new Date() })
+    .where(eq(equipmentServicePlans.id, id));
+  const plan = await getServicePlanById(id);
+  await syncNextMaintenanceDate(plan?.equipmentId);
+
+  return { success: true };
+}
+
+export async function deleteServicePlan(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const plan = await getServicePlanById(id);
+  await db.delete(equipmentServicePlans).where(eq(equipmentServicePlans.id, id));
+  await syncNextMaintenanceDate(plan?.equipmentId);
+
+  return { success: true };
+}
+
+/** Hour meter and due state of every plan for one unit */
+export async function getEquipmentServiceStatus(equipmentId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const hourMeter = hourMeterReading(await getAssignmentsForEquipment(equipmentId));
+  const plans = (await getServicePlans(equipmentId)).map(plan => servicePlanStatus(plan, hourMeter));
+  const workOrders = await db
+    .select()
+    .from(equipmentWorkOrders)
+    .where(eq(equipmentWorkOrders.equipmentId, equipmentId));
+
+  return {
+    equipmentId,
+    hourMeter,
+    state: overallServiceState(plans),
+    nextServiceDate: nextServiceDate(plans),
+    plans,
+    openWorkOrders: workOrders.filter(isOpenWorkOrder),
+  };
+}
+
+/**
+ * Units with an active plan that is overdue (or due soon), with their hour
+ * meter and any work orders already open for them.
+ */
+export async function getEquipmentDueForService(filters: { includeDueSoon?: boolean } = {}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { includeDueSoon = true } = filters;
+
+  const [equipment, plans, meters, workOrders] = await Promise.all([
+    db.select().from(maintenanceEquipment).orderBy(asc(maintenanceEquipment.name)),
+    db.select().from(equipmentServicePlans).where(eq(equipmentServicePlans.isActive, true)),
+    db
+      .select({
+        equipmentId: equipmentAssignments.equipmentId,
+        hours: sql<string>`COALESCE(SUM(${equipmentAssignments.hoursUsed}), 0)`,
+      })
+      .from(equipmentAssignments)
+      .groupBy(equipmentAssignments.equipmentId),
+    db.select().from(equipmentWorkOrders),
+  ]);
+
+  const hoursByUnit = new Map(meters.map(meter => [meter.equipmentId, Number(meter.hours)]));
+
+  return equipment
+    .map(unit => {
+      const hourMeter = hoursByUnit.get(unit.id) ?? 0;
+      const statuses = plans
+        .filter(plan => plan.equipmentId === unit.id)
+        .map(plan => servicePlanStatus(plan, hourMeter))
+        .filter(status => status.state === "Overdue" || (includeDueSoon && status.state === "Due Soon"));
+      return {
+        equipmentId: unit.id,
+        equipmentName: unit.name,
+        equipmentCode: unit.equipmentCode,
+        status: unit.status,
+        hourMeter,
+        state: overallServiceState(statuses),
+        plans: statuses,
+        openWorkOrders: workOrders.filter(order => order.equipmentId === unit.id && isOpenWorkOrder(order)),
+      };
+    })
+    .filter(unit => unit.plans.length > 0);
+}
+
+/**
+ * Open a preventive work order for every overdue plan that does not have one
+ * yet, which takes the unit out of service until the work order is closed.
+ */
+export async function openDueWorkOrders(createdById?: number) {
+  const opened: number[] = [];
+  for (const unit of await getEquipmentDueForService({ includeDueSoon: false })) {
+    for (const plan of unit.plans) {
+      if (unit.openWorkOrders.some(order => order.servicePlanId === plan.planId)) continue;
+      const { id } = await createWorkOrder({
+        equipmentId: unit.equipmentId,
+        servicePlanId: plan.planId,
+        workOrderType: "Preventive",
+        description: `${plan.serviceType} due`,
+        openedDate: new Date().toISOString().slice(0, 10),
+        createdById,
+      });
+      opened.push(id);
+    }
+  }
+  return { opened };
+}
+
+export async function getWorkOrders(filters: {
+  equipmentId?: number;
+  status?: InsertEquipmentWorkOrder["status"];
+} = {}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const conditions = [];
+  if (filters.equipmentId) conditions.push(eq(equipmentWorkOrders.equipmentId, filters.equipmentId));
+  if (filters.status) conditions.push(eq(equipmentWorkOrders.status, filters.status));
+
+  return db
+    .select({
+      ...getTableColumns(equipmentWorkOrders),
+      equipmentName: maintenanceEquipment.name,
+      serviceType: equipmentServicePlans.serviceType,
+    })
+    .from(equipmentWorkOrders)
+    .leftJoin(maintenanceEquipment, eq(equipmentWorkOrders.equipmentId, maintenanceEquipment.id))
+    .leftJoin(equipmentServicePlans, eq(equipmentWorkOrders.servicePlanId, equipmentServicePlans.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(equipmentWorkOrders.openedDate), desc(equipmentWorkOrders.id));
+}
+
+export async function getWorkOrderById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(equipmentWorkOrders).where(eq(equipmentWorkOrders.id, id)).limit(1);
+  return result[0] || null;
+}
+
+type WorkOrderFields = {
+  workOrderType: InsertEquipmentWorkOrder["workOrderType"];
+  description: string;
+  status?: InsertEquipmentWorkOrder["status"];
+  openedDate: string;
+  completedDate?: string;
+  hourMeter?: number;
+  cost?: number;
+  performedBy?: string;
+  remarks?: string;
+};
+
+function workOrderValues(data: Partial<WorkOrderFields>): Partial<InsertEquipmentWorkOrder> {
+  return {
+    workOrderType: data.workOrderType,
+    description: data.description,
+    status: data.status,
+    openedDate: data.openedDate ? new Date(data.openedDate) : undefined,
+    completedDate: toDateValue(data.completedDate),
+    hourMeter: toDecimalValue(data.hourMeter),
+    cost: toDecimalValue(data.cost),
+    performedBy: data.performedBy,
+    remarks: data.remarks,
+  };
+}
+
+export async function createWorkOrder(data: WorkOrderFields & {
+  equipmentId: number;
+  servicePlanId?: number;
+  createdById?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const workOrder: InsertEquipmentWorkOrder = {
+    ...workOrderValues(data),
+    equipmentId: data.equipmentId,
+    servicePlanId: data.servicePlanId ?? null,
+    workOrderType: data.workOrderType,
+    description: data.description,
+    openedDate: new Date(data.openedDate),
+    createdById: data.createdById ?? null,
+  };
+  const values = workOrder.status === "Completed" ? await completionValues(workOrder) : workOrder;
+  const result = await db.insert(equipmentWorkOrders).values(values);
+
+  if (values.status === "Completed") await recordServiceDone(values);
+  await syncWorkshopStatus(data.equipmentId);
+
+  return { id: result[0].insertId };
+}
+
+export async function updateWorkOrder(id: number, data: Partial<WorkOrderFields>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getWorkOrderById(id);
+  if (!existing) return { success: false };
+
+  const changes = workOrderValues(data);
+  const completing = changes.status === "Completed" && existing.status !== "Completed";
+  const updates = completing
+    ? {
+        ...changes,
+        ...(await completionValues({
+          equipmentId: existing.equipmentId,
+          completedDate: changes.completedDate ?? existing.completedDate,
+          hourMeter: changes.hourMeter ?? existing.hourMeter,
+        })),
+      }
+    : changes;
+
+  await db.update(equipmentWorkOrders).set({ ...updates, updatedAt: new Date() }).where(eq(equipmentWorkOrders.id, id));
+  if (completing) await recordServiceDone({ ...existing, ...updates });
+  await syncWorkshopStatus(existing.equipmentId);
+
+  return { success: true };
+}
+
+export async function deleteWorkOrder(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
 
-  const [countResult] = await db.execute(sql.raw(`SELECT COUNT(*) as total FROM provincial_roads WHERE ${whereClause}`));
-  const total = (countResult as any)[0]?.total || 0;
+  const existing = await getWorkOrderById(id);
+  await db.delete(equipmentWorkOrders).where(eq(equipmentWorkOrders.id, id));
+  await syncWorkshopStatus(existing?.equipmentId);
 
-  // Apply user-selected sorting
-  const roads = await db.execute(sql.raw(`
-    SELECT * FROM provincial_roads 
-    WHERE ${whereClause}
-    ORDER BY ${orderColumn} ${orderDir}
-    LIMIT ${limit} OFFSET ${offset}
-  `));
+  return { success: true };
+}
 
+// Completion date defaults to today and the reading to the current hour meter
+async function completionValues<T extends Pick<InsertEquipmentWorkOrder, "equipmentId" | "completedDate" | "hourMeter">>(
+  workOrder: T
+): Promise<T> {
   return {
-    roads: (roads as any)[0] || [],
-    pagination: {
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    },
+    ...workOrder,
+    completedDate: workOrder.completedDate ?? new Date(),
+    hourMeter: workOrder.hourMeter ?? String(hourMeterReading(await getAssignmentsForEquipment(workOrder.equipmentId))),
   };
 }
 
-export async function getProvincialRoadById(id: number) {
+/** Reset the plan's interval and the unit's last service date after a completed work order */
+async function recordServiceDone(workOrder: Pick<
+  InsertEquipmentWorkOrder,
+  "equipmentId" | "servicePlanId" | "completedDate" | "hourMeter"
+>) {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db) return;
 
-  const [result] = await db.execute(sql.raw(`SELECT * FROM provincial_roads WHERE id = ${id}`));
-  return (result as any)[0] || null;
+  if (workOrder.servicePlanId) {
+    await db
+      .update(equipmentServicePlans)
+      .set({ lastServiceDate: workOrder.completedDate, lastServiceHours: workOrder.hourMeter })
+      .where(eq(equipmentServicePlans.id, workOrder.servicePlanId));
+  }
+  await db
+    .update(maintenanceEquipment)
+    .set({ lastMaintenanceDate: workOrder.completedDate })
+    .where(eq(maintenanceEquipment.id, workOrder.equipmentId));
+  await syncNextMaintenanceDate(workOrder.equipmentId);
 }
 
-export async function getRoadMunicipalities() {
+/** Keep maintenance_equipment.nextMaintenanceDate at the earliest calendar due date of its plans */
+async function syncNextMaintenanceDate(equipmentId: number | null | undefined) {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db || !equipmentId) return;
 
-  const result = await db.execute(sql.raw(`
-    SELECT DISTINCT municipality, COUNT(*) as count, SUM(lengthKm) as totalKm
-    FROM provincial_roads 
-    WHERE municipality IS NOT NULL AND municipality != ''
-    GROUP BY municipality
-    ORDER BY municipality
-  `));
-
-  return (result as any)[0] || [];
+  const { nextServiceDate: next } = await getEquipmentServiceStatus(equipmentId);
+  await db
+    .update(maintenanceEquipment)
+    .set({ nextMaintenanceDate: next })
+    .where(eq(maintenanceEquipment.id, equipmentId));
 }
 
-export async function getRoadStats() {
+/**
+ * A unit with an open work order is Under Maintenance; once its last work
+ * order is closed it goes back to Available or In Use per its assignments.
+ * Out of Service is left alone either way.
+ */
+async function syncWorkshopStatus(equipmentId: number | null | undefined) {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db || !equipmentId) return;
+
+  const equipment = await getEquipmentById(equipmentId);
+  if (!equipment || equipment.status === "Out of Service") return;
 
-  const [stats] = await db.execute(sql.raw(`
-    SELECT 
-      COUNT(*) as totalRoads,
-      SUM(lengthKm) as totalLengthKm,
-      SUM(concreteLengthKm) as concreteKm,
-      SUM(asphaltLengthKm) as asphaltKm,
-      SUM(earthLengthKm) as earthKm,
-      SUM(gravelLengthKm) as gravelKm,
-      SUM(CASE WHEN roadCondition = 'Good' THEN 1 ELSE 0 END) as goodCondition,
-      SUM(CASE WHEN roadCondition = 'Fair' THEN 1 ELSE 0 END) as fairCondition,
-      SUM(CASE WHEN roadCondition = 'Poor' THEN 1 ELSE 0 END) as poorCondition,
-      SUM(CASE WHEN roadCondition = 'Bad' THEN 1 ELSE 0 END) as badCondition,
-      COUNT(DISTINCT municipality) as municipalities
-    FROM provincial_roads
-  `));
+  const workOrders = await db.select().from(equipmentWorkOrders).where(eq(equipmentWorkOrders.equipmentId, equipmentId));
+  let status: InsertMaintenanceEquipment["status"] = equipment.status;
+  if (workOrders.some(isOpenWorkOrder)) {
+    status = "Under Maintenance";
+  } else if (equipment.status === "Under Maintenance") {
+    status = deriveEquipmentStatus("Available", await getAssignmentsForEquipment(equipmentId));
+  }
 
-  return (stats as any)[0] || {};
+  if (status !== equipment.status) {
+    await db.update(maintenanceEquipment).set({ status }).where(eq(maintenanceEquipment.id, equipmentId));
+  }
 }
 
 // ============================================
-// MAINTENANCE EQUIPMENT
+// FUEL LEDGER
 // ============================================
 
-export async function getMaintenanceEquipment(filters: {
-  search?: string;
-  equipmentType?: string;
-  status?: string;
-  page?: number;
-  limit?: number;
-} = {}) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-
-  const { search, equipmentType, status, page = 1, limit = 50 } = filters;
-  const offset = (page - 1) * limit;
-
-  let whereClause = "1=1";
-  if (search) {
-    whereClause += ` AND (name LIKE '%${search}%' OR equipmentCode LIKE '%${search}%')`;
-  }
-  if (equipmentType) {
-    whereClause += ` AND equipmentType = '${equipmentType}'`;
-  }
-  if (status) {
-    whereClause += ` AND status = '${status}'`;
-  }
-
-  const [countResult] = await db.execute(sql.raw(`SELECT COUNT(*) as total FROM maintenance_equipment WHERE ${whereClause}`));
-  const total = (countResult as any)[0]?.total || 0;
+import { fuelIssuances, InsertFuelIssuance } from "../drizzle/schema";
+import { DEFAULT_FUEL_THRESHOLD_PERCENT, fuelEfficiency, findFuelAnomalies } from "./fuelLedger";
 
-  const equipment = await db.execute(sql.raw(`
-    SELECT * FROM maintenance_equipment 
-    WHERE ${whereClause}
-    ORDER BY name ASC
-    LIMIT ${limit} OFFSET ${offset}
-  `));
+type FuelIssuanceFields = {
+  slipNumber: string;
+  equipmentId: number;
+  assignmentId?: number | null;
+  issueDate: string;
+  liters: number;
+  odometerKm?: number;
+  hourMeter?: number;
+  issuedBy: string;
+  receivedBy?: string;
+  remarks?: string;
+};
 
+function fuelIssuanceValues(data: Partial<FuelIssuanceFields>): Partial<InsertFuelIssuance> {
   return {
-    equipment: (equipment as any)[0] || [],
-    pagination: {
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    },
+    slipNumber: data.slipNumber,
+    equipmentId: data.equipmentId,
+    assignmentId: data.assignmentId,
+    issueDate: data.issueDate ? new Date(data.issueDate) : undefined,
+    liters: toDecimalValue(data.liters),
+    odometerKm: toDecimalValue(data.odometerKm),
+    hourMeter: toDecimalValue(data.hourMeter),
+    issuedBy: data.issuedBy,
+    receivedBy: data.receivedBy,
+    remarks: data.remarks,
   };
 }
 
-export async function getEquipmentById(id: number) {
+export async function getFuelIssuances(filters: {
+  equipmentId?: number;
+  assignmentId?: number;
+  startDate?: string;
+  endDate?: string;
+} = {}) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const [result] = await db.execute(sql.raw(`SELECT * FROM maintenance_equipment WHERE id = ${id}`));
-  return (result as any)[0] || null;
+  const conditions = [];
+  if (filters.equipmentId) conditions.push(eq(fuelIssuances.equipmentId, filters.equipmentId));
+  if (filters.assignmentId) conditions.push(eq(fuelIssuances.assignmentId, filters.assignmentId));
+  if (filters.startDate) conditions.push(gte(fuelIssuances.issueDate, new Date(filters.startDate)));
+  if (filters.endDate) conditions.push(lte(fuelIssuances.issueDate, new Date(filters.endDate)));
+
+  return db
+    .select({
+      ...getTableColumns(fuelIssuances),
+      equipmentName: maintenanceEquipment.name,
+    })
+    .from(fuelIssuances)
+    .leftJoin(maintenanceEquipment, eq(fuelIssuances.equipmentId, maintenanceEquipment.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(fuelIssuances.issueDate), desc(fuelIssuances.id));
 }
 
-export async function createEquipment(data: {
-  name: string;
-  equipmentType?: string;
-  equipmentCode?: string;
-  model?: string;
-  plateNumber?: string;
-  status?: string;
-  currentLocation?: string;
-  operatorName?: string;
-  notes?: string;
-}) {
+export async function getFuelIssuanceById(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const result = await db.execute(sql.raw(`
-    INSERT INTO maintenance_equipment (name, equipmentType, equipmentCode, model, plateNumber, status, currentLocation, operatorName, notes, createdAt, updatedAt)
-    VALUES (
-      '${data.name.replace(/'/g, "''")}',
-      ${data.equipmentType ? `'${data.equipmentType}'` : "NULL"},
-      ${data.equipmentCode ? `'${data.equipmentCode.replace(/'/g, "''")}'` : "NULL"},
-      ${data.model ? `'${data.model.replace(/'/g, "''")}'` : "NULL"},
-      ${data.plateNumber ? `'${data.plateNumber.replace(/'/g, "''")}'` : "NULL"},
-      ${data.status ? `'${data.status}'` : "'Available'"},
-      ${data.currentLocation ? `'${data.currentLocation.replace(/'/g, "''")}'` : "NULL"},
-      ${data.operatorName ? `'${data.operatorName.replace(/'/g, "''")}'` : "NULL"},
-      ${data.notes ? `'${data.notes.replace(/'/g, "''")}'` : "NULL"},
-      NOW(),
-      NOW()
-    )
-  `));
-
-  return { id: (result as any)[0]?.insertId };
+  const result = await db.select().from(fuelIssuances).where(eq(fuelIssuances.id, id)).limit(1);
+  return result[0] || null;
 }
 
-export async function updateEquipment(id: number, data: Partial<{
-  name: string;
-  equipmentType: string;
-  equipmentCode: string;
-  model: string;
-  plateNumber: string;
-  status: string;
-  currentLocation: string;
-  operatorName: string;
-  notes: string;
-}>) {
+export async function getFuelIssuanceBySlipNumber(slipNumber: string) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const updates: string[] = [];
-  if (data.name !== undefined) updates.push(`name = '${data.name.replace(/'/g, "''")}'`);
-  if (data.equipmentType !== undefined) updates.push(`equipmentType = '${data.equipmentType}'`);
-  if (data.equipmentCode !== undefined) updates.push(`equipmentCode = '${data.equipmentCode.replace(/'/g, "''")}'`);
-  if (data.model !== undefined) updates.push(`model = '${data.model.replace(/'/g, "''")}'`);
-  if (data.plateNumber !== undefined) updates.push(`plateNumber = '${data.plateNumber.replace(/'/g, "''")}'`);
-  if (data.status !== undefined) updates.push(`status = '${data.status}'`);
-  if (data.currentLocation !== undefined) updates.push(`currentLocation = '${data.currentLocation.replace(/'/g, "''")}'`);
-  if (data.operatorName !== undefined) updates.push(`operatorName = '${data.operatorName.replace(/'/g, "''")}'`);
-  if (data.notes !== undefined) updates.push(`notes = '${data.notes.replace(/'/g, "''")}'`);
-  updates.push("updatedAt = NOW()");
-
-  await db.execute(sql.raw(`UPDATE maintenance_equipment SET ${updates.join(", ")} WHERE id = ${id}`));
-  return { success: true };
+  const result = await db.select().from(fuelIssuances).where(eq(fuelIssuances.slipNumber, slipNumber)).limit(1);
+  return result[0] || null;
 }
 
-export async function deleteEquipment(id: number) {
+export async function createFuelIssuance(data: FuelIssuanceFields & { createdById?: number }) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  await db.execute(sql.raw(`DELETE FROM maintenance_equipment WHERE id = ${id}`));
-  return { success: true };
+  const result = await db.insert(fuelIssuances).values({
+    ...fuelIssuanceValues(data),
+    slipNumber: data.slipNumber,
+    equipmentId: data.equipmentId,
+    issueDate: new Date(data.issueDate),
+    liters: String(data.liters),
+    issuedBy: data.issuedBy,
+    createdById: data.createdById ?? null,
+  });
+  await syncAssignmentFuel(data.assignmentId);
+
+  return { id: result[0].insertId };
 }
 
-export async function getEquipmentStats() {
+export async function updateFuelIssuance(id: number, data: Partial<FuelIssuanceFields>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const [stats] = await db.execute(sql.raw(`
-    SELECT 
-      COUNT(*) as total,
-      SUM(CASE WHEN status = 'Available' THEN 1 ELSE 0 END) as available,
-      SUM(CASE WHEN status = 'In Use' THEN 1 ELSE 0 END) as inUse,
-      SUM(CASE WHEN status = 'Under Maintenance' THEN 1 ELSE 0 END) as underMaintenance,
-      SUM(CASE WHEN status = 'Out of Service' THEN 1 ELSE 0 END) as outOfService
-    FROM maintenance_equipment
-  `));
+  const existing = await getFuelIssuanceById(id);
+  await db.update(fuelIssuances).set({ ...fuelIssuanceValues(data), updatedAt: new Date() }).where(eq(fuelIssuances.id, id));
 
-  return (stats as any)[0] || {};
-}
+  // The slip may have moved between assignments; both totals change
+  await syncAssignmentFuel(existing?.assignmentId);
+  if (data.assignmentId !== undefined && data.assignmentId !== existing?.assignmentId) {
+    await syncAssignmentFuel(data.assignmentId);
+  }
 
-// ============================================
-// MAINTENANCE SCHEDULES
-// ============================================
+  return { success: true };
+}
 
-export async function getMaintenanceSchedules(filters: {
-  search?: string;
-  roadId?: number;
-  maintenanceType?: string;
-  status?: string;
-  priority?: string;
-  page?: number;
-  limit?: number;
-} = {}) {
+export async function deleteFuelIssuance(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const { search, roadId, maintenanceType, status, priority, page = 1, limit = 50 } = filters;
-  const offset = (page - 1) * limit;
+  const existing = await getFuelIssuanceById(id);
+  await db.delete(fuelIssuances).where(eq(fuelIssuances.id, id));
+  await syncAssignmentFuel(existing?.assignmentId);
 
-  let whereClause = "1=1";
-  if (search) {
-    whereClause += ` AND ms.title LIKE '%${search}%'`;
-  }
-  if (roadId) {
-    whereClause += ` AND ms.roadId = ${roadId}`;
-  }
-  if (maintenanceType) {
-    whereClause += ` AND ms.maintenanceType = '${maintenanceType}'`;
-  }
-  if (status) {
-    whereClause += ` AND ms.scheduleStatus = '${status}'`;
-  }
-  if (priority) {
-    whereClause += ` AND ms.priority = '${priority}'`;
-  }
+  return { success: true };
+}
 
-  const [countResult] = await db.execute(sql.raw(`SELECT COUNT(*) as total FROM maintenance_schedules ms WHERE ${whereClause}`));
-  const total = (countResult as any)[0]?.total || 0;
+/** equipment_assignments.fuelConsumed follows the slips drawn against the assignment */
+async function syncAssignmentFuel(assignmentId: number | null | undefined) {
+  const db = await getDb();
+  if (!db || !assignmentId) return;
 
-  const schedules = await db.execute(sql.raw(`
-    SELECT ms.*, pr.roadName, pr.municipality
-    FROM maintenance_schedules ms
-    LEFT JOIN provincial_roads pr ON ms.roadId = pr.id
-    WHERE ${whereClause}
-    ORDER BY ms.scheduledStartDate DESC
-    LIMIT ${limit} OFFSET ${offset}
-  `));
+  const [total] = await db
+    .select({ liters: sql<string | null>`SUM(${fuelIssuances.liters})` })
+    .from(fuelIssuances)
+    .where(eq(fuelIssuances.assignmentId, assignmentId));
 
-  return {
-    schedules: (schedules as any)[0] || [],
-    pagination: {
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    },
-  };
+  await db
+    .update(equipmentAssignments)
+    .set({ fuelConsumed: total?.liters ?? null })
+    .where(eq(equipmentAssignments.id, assignmentId));
 }
 
-export async function getScheduleById(id: number) {
+/** Liters issued and average L/hr and L/km per unit */
+export async function getFuelEfficiency(filters: { equipmentId?: number } = {}) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const [result] = await db.execute(sql.raw(`
-    SELECT ms.*, pr.roadName, pr.municipality
-    FROM maintenance_schedules ms
-    LEFT JOIN provincial_roads pr ON ms.roadId = pr.id
-    WHERE ms.id = ${id}
-  `));
-  return (result as any)[0] || null;
+  const [equipment, slips] = await Promise.all([
+    db
+      .select({ id: maintenanceEquipment.id, name: maintenanceEquipment.name })
+      .from(maintenanceEquipment)
+      .where(filters.equipmentId ? eq(maintenanceEquipment.id, filters.equipmentId) : undefined)
+      .orderBy(asc(maintenanceEquipment.name)),
+    db
+      .select()
+      .from(fuelIssuances)
+      .where(filters.equipmentId ? eq(fuelIssuances.equipmentId, filters.equipmentId) : undefined),
+  ]);
+
+  return equipment.map(unit => ({
+    equipmentId: unit.id,
+    equipmentName: unit.name,
+    ...fuelEfficiency(slips.filter(slip => slip.equipmentId === unit.id)),
+  }));
 }
 
-export async function createSchedule(data: {
-  roadId?: number;
-  title: string;
-  maintenanceType?: string;
-  priority?: string;
-  scheduledStartDate?: string;
-  scheduledEndDate?: string;
-  estimatedCost?: number;
-  assignedTeam?: string;
-  kmStart?: number;
-  kmEnd?: number;
-  notes?: string;
-  createdById?: number;
-}) {
+/**
+ * Slips deviating from their unit's consumption baseline. Baselines use the
+ * unit's whole history; the date range only limits which slips are reported.
+ */
+export async function getFuelAnomalies(filters: {
+  equipmentId?: number;
+  thresholdPercent?: number;
+  startDate?: string;
+  endDate?: string;
+} = {}) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const result = await db.execute(sql.raw(`
-    INSERT INTO maintenance_schedules (roadId, title, maintenanceType, priority, scheduledStartDate, scheduledEndDate, estimatedCost, assignedTeam, kmStart, kmEnd, notes, createdById, scheduleStatus, createdAt, updatedAt)
-    VALUES (
-      ${data.roadId || "NULL"},
-      '${data.title.replace(/'/g, "''")}',
-      ${data.maintenanceType ? `'${data.maintenanceType}'` : "NULL"},
-      ${data.priority ? `'${data.priority}'` : "'Medium'"},
-      ${data.scheduledStartDate ? `'${data.scheduledStartDate}'` : "NULL"},
-      ${data.scheduledEndDate ? `'${data.scheduledEndDate}'` : "NULL"},
-      ${data.estimatedCost || "NULL"},
-      ${data.assignedTeam ? `'${data.assignedTeam.replace(/'/g, "''")}'` : "NULL"},
-      ${data.kmStart || "NULL"},
-      ${data.kmEnd || "NULL"},
-      ${data.notes ? `'${data.notes.replace(/'/g, "''")}'` : "NULL"},
-      ${data.createdById || "NULL"},
-      'Scheduled',
-      NOW(),
-      NOW()
-    )
-  `));
+  const { thresholdPercent = DEFAULT_FUEL_THRESHOLD_PERCENT } = filters;
 
-  return { id: (result as any)[0]?.insertId };
+  const slips = await db
+    .select({
+      ...getTableColumns(fuelIssuances),
+      equipmentName: maintenanceEquipment.name,
+    })
+    .from(fuelIssuances)
+    .leftJoin(maintenanceEquipment, eq(fuelIssuances.equipmentId, maintenanceEquipment.id))
+    .where(filters.equipmentId ? eq(fuelIssuances.equipmentId, filters.equipmentId) : undefined);
+  const slipsById = new Map(slips.map(slip => [slip.id, slip]));
+
+  const from = filters.startDate ? new Date(filters.startDate).getTime() : -Infinity;
+  const to = filters.endDate ? new Date(filters.endDate).getTime() : Infinity;
+
+  return findFuelAnomalies(slips, thresholdPercent)
+    .filter(anomaly => {
+      const date = new Date(anomaly.issueDate).getTime();
+      return date >= from && date <= to;
+    })
+    .map(anomaly => {
+      const slip = slipsById.get(anomaly.issuanceId);
+      return {
+        ...anomaly,
+        equipmentName: slip?.equipmentName ?? null,
+        assignmentId: slip?.assignmentId ?? null,
+        issuedBy: slip?.issuedBy ?? null,
+      };
+    });
 }
 
-export async function updateSchedule(id: number, data: Partial<{
-  roadId: number;
-  title: string;
-  maintenanceType: string;
-  priority: string;
-  scheduledStartDate: string;
-  scheduledEndDate: string;
-  actualStartDate: string;
-  actualEndDate: string;
-  status: string;
-  estimatedCost: number;
-  actualCost: number;
-  assignedTeam: string;
-  kmStart: number;
-  kmEnd: number;
-  notes: string;
-}>) {
+// ============================================
+// AUDIT TRAIL
+// ============================================
+
+import { auditLogs, InsertAuditLog } from "../drizzle/schema";
+import { gte, lt, lte, type SQL } from "drizzle-orm";
+import type { AnyMySqlTable } from "drizzle-orm/mysql-core";
+
+export type AuditLogFilters = {
+  entityType?: string;
+  entityId?: number;
+  userId?: number;
+  action?: string;
+  dateFrom?: Date;
+  /** Exclusive: entries before this instant */
+  dateBefore?: Date;
+  page?: number;
+  limit?: number;
+};
+
+// Load a single row by primary key from any audited table, for before/after snapshots
+export async function getAuditSnapshot(table: AnyMySqlTable, id: number) {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db) return undefined;
 
-  const updates: string[] = [];
-  if (data.roadId !== undefined) updates.push(`roadId = ${data.roadId}`);
-  if (data.title !== undefined) updates.push(`title = '${data.title.replace(/'/g, "''")}'`);
-  if (data.maintenanceType !== undefined) updates.push(`maintenanceType = '${data.maintenanceType}'`);
-  if (data.priority !== undefined) updates.push(`priority = '${data.priority}'`);
-  if (data.scheduledStartDate !== undefined) updates.push(`scheduledStartDate = '${data.scheduledStartDate}'`);
-  if (data.scheduledEndDate !== undefined) updates.push(`scheduledEndDate = '${data.scheduledEndDate}'`);
-  if (data.actualStartDate !== undefined) updates.push(`actualStartDate = '${data.actualStartDate}'`);
-  if (data.actualEndDate !== undefined) updates.push(`actualEndDate = '${data.actualEndDate}'`);
-  if (data.status !== undefined) updates.push(`scheduleStatus = '${data.status}'`);
-  if (data.estimatedCost !== undefined) updates.push(`estimatedCost = ${data.estimatedCost}`);
-  if (data.actualCost !== undefined) updates.push(`actualCost = ${data.actualCost}`);
-  if (data.assignedTeam !== undefined) updates.push(`assignedTeam = '${data.assignedTeam.replace(/'/g, "''")}'`);
-  if (data.kmStart !== undefined) updates.push(`kmStart = ${data.kmStart}`);
-  if (data.kmEnd !== undefined) updates.push(`kmEnd = ${data.kmEnd}`);
-  if (data.notes !== undefined) updates.push(`notes = '${data.notes.replace(/'/g, "''")}'`);
-  updates.push("updatedAt = NOW()");
-
-  await db.execute(sql.raw(`UPDATE maintenance_schedules SET ${updates.join(", ")} WHERE id = ${id}`));
-  return { success: true };
+  const result = await db.select().from(table).where(eq(getTableColumns(table).id, id)).limit(1);
+  return result.length > 0 ? (result[0] as Record<string, unknown>) : undefined;
 }
 
-export async function deleteSchedule(id: number) {
+export async function createAuditLog(data: InsertAuditLog) {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db) {
+    console.warn("[Database] Cannot write audit log: database not available");
+    return;
+  }
 
-  await db.execute(sql.raw(`DELETE FROM maintenance_schedules WHERE id = ${id}`));
-  return { success: true };
+  await db.insert(auditLogs).values(data);
 }
 
-export async function getScheduleStats() {
+export async function getAuditLogs(filters: AuditLogFilters = {}) {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db) return { logs: [], total: 0, page: 1, totalPages: 0 };
 
-  const [stats] = await db.execute(sql.raw(`
-    SELECT 
-      COUNT(*) as total,
-      SUM(CASE WHEN scheduleStatus = 'Scheduled' THEN 1 ELSE 0 END) as scheduled,
-      SUM(CASE WHEN scheduleStatus = 'In Progress' THEN 1 ELSE 0 END) as inProgress,
-      SUM(CASE WHEN scheduleStatus = 'Completed' THEN 1 ELSE 0 END) as completed,
-      SUM(CASE WHEN scheduleStatus = 'Cancelled' THEN 1 ELSE 0 END) as cancelled,
-      SUM(CASE WHEN priority = 'Urgent' THEN 1 ELSE 0 END) as urgent,
-      SUM(CASE WHEN priority = 'High' THEN 1 ELSE 0 END) as highPriority
-    FROM maintenance_schedules
-  `));
+  const { entityType, entityId, userId, action, dateFrom, dateBefore, page = 1, limit = 50 } = filters;
 
-  return (stats as any)[0] || {};
-}
+  const conditions: SQL[] = [];
+  if (entityType) conditions.push(eq(auditLogs.entityType, entityType));
+  if (entityId) conditions.push(eq(auditLogs.entityId, entityId));
+  if (userId) conditions.push(eq(auditLogs.userId, userId));
+  if (action) conditions.push(eq(auditLogs.action, action));
+  if (dateFrom) conditions.push(gte(auditLogs.createdAt, dateFrom));
+  if (dateBefore) conditions.push(lt(auditLogs.createdAt, dateBefore));
 
-// ============================================
-// EQUIPMENT ASSIGNMENTS
-// ============================================
+  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
-export async function getEquipmentAssignments(filters: {
-  scheduleId?: number;
-  equipmentId?: number;
-  status?: string;
-  page?: number;
-  limit?: number;
-} = {}) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  const [countResult] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(auditLogs)
+    .where(whereClause);
 
-  const { scheduleId, equipmentId, status, page = 1, limit = 50 } = filters;
+  const total = Number(countResult?.count ?? 0);
+  const totalPages = Math.ceil(total / limit);
   const offset = (page - 1) * limit;
 
-  let whereClause = "1=1";
-  if (scheduleId) {
-    whereClause += ` AND ea.scheduleId = ${scheduleId}`;
-  }
-  if (equipmentId) {
-    whereClause += ` AND ea.equipmentId = ${equipmentId}`;
-  }
-  if (status) {
-    whereClause += ` AND ea.assignmentStatus = '${status}'`;
-  }
+  const result = await db
+    .select()
+    .from(auditLogs)
+    .where(whereClause)
+    .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+    .limit(limit)
+    .offset(offset);
 
-  const [countResult] = await db.execute(sql.raw(`SELECT COUNT(*) as total FROM equipment_assignments ea WHERE ${whereClause}`));
-  const total = (countResult as any)[0]?.total || 0;
+  return { logs: result, total, page, totalPages };
+}
 
-  const assignments = await db.execute(sql.raw(`
-    SELECT ea.*, me.name as equipmentName, me.equipmentType, ms.title as scheduleTitle
-    FROM equipment_assignments ea
-    LEFT JOIN maintenance_equipment me ON ea.equipmentId = me.id
-    LEFT JOIN maintenance_schedules ms ON ea.scheduleId = ms.id
-    WHERE ${whereClause}
-    ORDER BY ea.startDate DESC
-    LIMIT ${limit} OFFSET ${offset}
-  `));
+export async function getAuditLogsForEntity(entityType: string, entityId: number) {
+  const db = await getDb();
+  if (!db) return [];
 
-  return {
-    assignments: (assignments as any)[0] || [],
-    pagination: {
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    },
-  };
+  return await db
+    .select()
+    .from(auditLogs)
+    .where(and(eq(auditLogs.entityType, entityType), eq(auditLogs.entityId, entityId)))
+    .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id));
 }
 
-export async function createEquipmentAssignment(data: {
-  scheduleId: number;
-  equipmentId: number;
-  startDate?: string;
-  endDate?: string;
-  operatorName?: string;
-  notes?: string;
+// ============================================
+// NTP HANDOFF (BIDDING -> PROJECT -> CONTRACT HISTORY)
+// ============================================
+
+import { InsertProject, InsertContractHistory } from "../drizzle/schema";
+import { assertAwaitingNtp, NTP_PROJECT_FIELDS } from "./procurement";
+
+/**
+ * Issue the Notice to Proceed for a bidding in one transaction: move the
+ * bidding to NTP, create the project (or fill in the contract fields of the
+ * one already linked), record the contract history against the contractor,
+ * and back-link the POW. The bidding row stays locked throughout so the
+ * handoff happens only once.
+ */
+export async function issueBiddingNtp(data: {
+  biddingId: number;
+  powId?: number | null;
+  existingProjectId?: number | null;
+  biddingUpdates: Partial<InsertBidding>;
+  project: InsertProject;
+  contract: Omit<InsertContractHistory, "projectId">;
+  createdById?: number;
 }) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  // Update equipment status to "In Use"
-  await db.execute(sql.raw(`UPDATE maintenance_equipment SET status = 'In Use' WHERE id = ${data.equipmentId}`));
+  const ids = await db.transaction(async tx => {
+    const [bidding] = await tx.select().from(biddings).where(eq(biddings.id, data.biddingId)).for("update");
+    if (!bidding) throw new Error("Bidding not found");
+    assertAwaitingNtp(bidding);
+
+    let projectId = data.existingProjectId ?? null;
+    if (projectId) {
+      const handoff = Object.fromEntries(NTP_PROJECT_FIELDS.map(field => [field, data.project[field]])) as Partial<InsertProject>;
+      await tx.update(projects).set(handoff).where(eq(projects.id, projectId));
+    } else {
+      const result = await tx.insert(projects).values({ ...data.project, createdById: data.createdById || null });
+      projectId = result[0].insertId;
+    }
+
+    const [existingContract] = await tx
+      .select({ id: contractHistory.id })
+      .from(contractHistory)
+      .where(eq(contractHistory.biddingId, data.biddingId))
+      .limit(1);
+
+    let contractHistoryId = existingContract?.id;
+    if (contractHistoryId) {
+      await tx.update(contractHistory).set({ ...data.contract, projectId }).where(eq(contractHistory.id, contractHistoryId));
+    } else {
+      const result = await tx.insert(contractHistory).values({
+        ...data.contract,
+        projectId,
+        createdById: data.createdById || null,
+      });
+      contractHistoryId = result[0].insertId;
+    }
+
+    await tx.update(biddings).set({ ...data.biddingUpdates, projectId }).where(eq(biddings.id, data.biddingId));
 
-  const result = await db.execute(sql.raw(`
-    INSERT INTO equipment_assignments (scheduleId, equipmentId, startDate, endDate, operatorName, notes, assignmentStatus, createdAt, updatedAt)
-    VALUES (
-      ${data.scheduleId},
-      ${data.equipmentId},
-      ${data.startDate ? `'${data.startDate}'` : "NULL"},
-      ${data.endDate ? `'${data.endDate}'` : "NULL"},
-      ${data.operatorName ? `'${data.operatorName.replace(/'/g, "''")}'` : "NULL"},
-      ${data.notes ? `'${data.notes.replace(/'/g, "''")}'` : "NULL"},
-      'Assigned',
-      NOW(),
-      NOW()
-    )
-  `));
+    if (data.powId) {
+      await tx.update(programOfWorks).set({ projectId, biddingId: data.biddingId }).where(eq(programOfWorks.id, data.powId));
+    }
 
-  return { id: (result as any)[0]?.insertId };
-}
+    return { projectId, contractHistoryId };
+  });
 
-export async function updateEquipmentAssignment(id: number, data: Partial<{
-  startDate: string;
-  endDate: string;
-  operatorName: string;
-  hoursUsed: number;
-  fuelConsumed: number;
-  status: string;
-  notes: string;
-}>) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  await updateContractorStats(data.contract.contractorId);
 
-  const updates: string[] = [];
-  if (data.startDate !== undefined) updates.push(`startDate = '${data.startDate}'`);
-  if (data.endDate !== undefined) updates.push(`endDate = '${data.endDate}'`);
-  if (data.operatorName !== undefined) updates.push(`operatorName = '${data.operatorName.replace(/'/g, "''")}'`);
-  if (data.hoursUsed !== undefined) updates.push(`hoursUsed = ${data.hoursUsed}`);
-  if (data.fuelConsumed !== undefined) updates.push(`fuelConsumed = ${data.fuelConsumed}`);
-  if (data.status !== undefined) updates.push(`assignmentStatus = '${data.status}'`);
-  if (data.notes !== undefined) updates.push(`notes = '${data.notes.replace(/'/g, "''")}'`);
-  updates.push("updatedAt = NOW()");
+  return ids;
+}
 
-  await db.execute(sql.raw(`UPDATE equipment_assignments SET ${updates.join(", ")} WHERE id = ${id}`));
+// ============================================
+// REFERENCE NUMBER SEQUENCES
+// ============================================
 
-  // If status is "Returned" or "Completed", update equipment status back to "Available"
-  if (data.status === "Returned" || data.status === "Completed") {
-    const [assignment] = await db.execute(sql.raw(`SELECT equipmentId FROM equipment_assignments WHERE id = ${id}`));
-    const equipmentId = (assignment as any)[0]?.equipmentId;
-    if (equipmentId) {
-      await db.execute(sql.raw(`UPDATE maintenance_equipment SET status = 'Available' WHERE id = ${equipmentId}`));
-    }
+import { sequences } from "../drizzle/schema";
+import type { MySqlColumn } from "drizzle-orm/mysql-core";
+import { DEFAULT_SEQUENCE_FORMATS, formatSequenceNumber, type SequenceContext, type SequencePrefix } from "./sequences";
+
+type Transaction = Parameters<Parameters<ReturnType<typeof drizzle>["transaction"]>[0]>[0];
+
+/**
+ * Hand out the next reference number for a prefix and fiscal year.
+ * Must run inside the transaction that inserts the record: the counter row
+ * is locked until commit, so concurrent creates queue up instead of reading
+ * the same value, and a rolled-back insert does not burn a number.
+ * Numbers already present in `column` (e.g. legacy count(*)+1 numbers) are skipped.
+ */
+export async function nextSequenceNumber(
+  tx: Transaction,
+  prefix: SequencePrefix,
+  context: SequenceContext,
+  column: MySqlColumn
+) {
+  await tx
+    .insert(sequences)
+    .values({ prefix, fiscalYear: context.fiscalYear, format: DEFAULT_SEQUENCE_FORMATS[prefix] })
+    .onDuplicateKeyUpdate({ set: { prefix } });
+
+  const [counter] = await tx
+    .select()
+    .from(sequences)
+    .where(and(eq(sequences.prefix, prefix), eq(sequences.fiscalYear, context.fiscalYear)))
+    .limit(1)
+    .for("update");
+
+  let value = counter.lastValue;
+  let number: string;
+  for (;;) {
+    value += 1;
+    number = formatSequenceNumber(counter.format, value, context);
+    const [taken] = await tx.select({ value: column }).from(column.table).where(eq(column, number)).limit(1);
+    if (!taken) break;
   }
 
-  return { success: true };
+  await tx.update(sequences).set({ lastValue: value }).where(eq(sequences.id, counter.id));
+
+  return number;
 }
 
-export async function deleteEquipmentAssignment(id: number) {
+export async function getSequences() {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db) return [];
 
-  // Get equipment ID before deleting
-  const [assignment] = await db.execute(sql.raw(`SELECT equipmentId FROM equipment_assignments WHERE id = ${id}`));
-  const equipmentId = (assignment as any)[0]?.equipmentId;
+  return db.select().from(sequences).orderBy(desc(sequences.fiscalYear), asc(sequences.prefix));
+}
 
-  await db.execute(sql.raw(`DELETE FROM equipment_assignments WHERE id = ${id}`));
+/**
+ * Set the number format for a prefix and fiscal year. Creating the row ahead
+ * of time lets admins change the format before the first number of the year.
+ */
+export async function setSequenceFormat(prefix: SequencePrefix, fiscalYear: number, format: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
 
-  // Update equipment status back to "Available"
-  if (equipmentId) {
-    await db.execute(sql.raw(`UPDATE maintenance_equipment SET status = 'Available' WHERE id = ${equipmentId}`));
-  }
+  await db
+    .insert(sequences)
+    .values({ prefix, fiscalYear, format })
+    .onDuplicateKeyUpdate({ set: { format } });
 
   return { success: true };
 }
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertRoutingTemplate,
+  currentLocation,
+  daysWithoutMovement,
+  officeDwellTimes,
+  planReceive,
+  planRelease,
+} from "./documentRouting";
+
+const billingSlip = { offices: ["Construction", "PEO", "Admin", "Accounting"] };
+
+const document = { refNumber: "PEO-CON-202603-12", division: "Construction", createdAt: new Date("2026-03-02T08:00:00Z") };
+
+function hop(sequence: number, fromOffice: string, toOffice: string, releasedAt: string, receivedAt: string | null) {
+  return { id: sequence, sequence, fromOffice, toOffice, releasedAt: new Date(releasedAt), receivedAt: receivedAt ? new Date(receivedAt) : null };
+}
+
+const admin = { role: "admin" as const, division: null };
+
+const hops = [
+  hop(1, "Construction", "PEO", "2026-03-03T09:00:00Z", "2026-03-03T15:00:00Z"),
+  hop(2, "PEO", "Admin", "2026-03-06T15:00:00Z", "2026-03-07T15:00:00Z"),
+];
+
+describe("planRelease", () => {
+  it("sends the document to the next office on its template", () => {
+    expect(planRelease(document, [], { template: billingSlip, releasedAt: new Date("2026-03-03T09:00:00Z"), releaser: admin })).toEqual({
+      sequence: 1,
+      fromOffice: "Construction",
+      toOffice: "PEO",
+    });
+    expect(planRelease(document, hops, { template: billingSlip, releasedAt: new Date("2026-03-12T09:00:00Z"), releaser: admin })).toEqual({
+      sequence: 3,
+      fromOffice: "Admin",
+      toOffice: "Accounting",
+    });
+    expect(planRelease(document, hops, { template: billingSlip, toOffice: "PEO", releasedAt: new Date("2026-03-12T09:00:00Z"), releaser: admin })).toMatchObject({
+      toOffice: "PEO",
+    });
+  });
+
+  it("refuses to route a document still in transit or past the end of its template", () => {
+    const inTransit = [...hops, hop(3, "Admin", "Accounting", "2026-03-12T09:00:00Z", null)];
+    expect(() => planRelease(document, inTransit, { template: billingSlip, releasedAt: new Date("2026-03-13T09:00:00Z"), releaser: admin })).toThrow(
+      "PEO-CON-202603-12 is on its way to Accounting; it must be received before it is routed again"
+    );
+
+    const delivered = [...hops, hop(3, "Admin", "Accounting", "2026-03-12T09:00:00Z", "2026-03-12T13:00:00Z")];
+    expect(() => planRelease(document, delivered, { template: billingSlip, releasedAt: new Date("2026-03-13T09:00:00Z"), releaser: admin })).toThrow(
+      "PEO-CON-202603-12 is at Accounting, the end of its routing template; name the office to send it to"
+    );
+  });
+});
+
+describe("routing permissions and times", () => {
+  const construction = { role: "user" as const, division: "Construction" as const };
+
+  it("only lets the office holding the document release it", () => {
+    const releasedAt = new Date("2026-03-03T09:00:00Z");
+    expect(planRelease(document, [], { template: billingSlip, releasedAt, releaser: construction }).fromOffice).toBe("Construction");
+    expect(() => planRelease(document, hops, { template: billingSlip, releasedAt: new Date("2026-03-12T09:00:00Z"), releaser: construction })).toThrow(
+      "PEO-CON-202603-12 is held by Admin; only that office can release it"
+    );
+  });
+
+  it("rejects release and receipt times that are invalid or in the future", () => {
+    const now = new Date("2026-03-12T10:00:00Z");
+    expect(() => planRelease(document, hops, { template: billingSlip, releasedAt: new Date("2026-03-12T11:00:00Z"), releaser: admin, now })).toThrow(
+      "releasedAt cannot be in the future"
+    );
+    expect(() => planRelease(document, hops, { template: billingSlip, releasedAt: new Date("not a date"), releaser: admin, now })).toThrow(
+      "releasedAt is not a valid date"
+    );
+    const inTransit = [...hops, hop(3, "Admin", "Accounting", "2026-03-12T09:00:00Z", null)];
+    expect(() => planReceive(document, inTransit, new Date("2026-03-12T11:00:00Z"), admin, now)).toThrow("receivedAt cannot be in the future");
+  });
+});
+
+describe("planReceive", () => {
+  const adminStaff = { role: "user" as const, division: "Admin" as const };
+
+  it("logs the document in on the pending hop", () => {
+    const inTransit = [...hops, hop(3, "Admin", "Accounting", "2026-03-12T09:00:00Z", null)];
+    const toAdmin = [hops[0], hop(2, "PEO", "Admin", "2026-03-06T15:00:00Z", null)];
+    expect(planReceive(document, toAdmin, new Date("2026-03-07T15:00:00Z"), adminStaff).sequence).toBe(2);
+    expect(planReceive(document, inTransit, new Date("2026-03-12T13:00:00Z"), admin).sequence).toBe(3);
+    expect(() => planReceive(document, hops, new Date("2026-03-12T13:00:00Z"), adminStaff)).toThrow("PEO-CON-202603-12 has not been routed to any office");
+    expect(() => planReceive(document, toAdmin, new Date("2026-03-05T13:00:00Z"), adminStaff)).toThrow(
+      "A document cannot be received before it was released"
+    );
+  });
+
+  it("only lets the office the document was routed to receive it", () => {
+    const inTransit = [...hops, hop(3, "Admin", "Accounting", "2026-03-12T09:00:00Z", null)];
+    expect(() => planReceive(document, inTransit, new Date("2026-03-12T13:00:00Z"), adminStaff)).toThrow(
+      "PEO-CON-202603-12 was routed to Accounting; only that office can receive it"
+    );
+  });
+});
+
+describe("officeDwellTimes", () => {
+  it("averages how long each office held documents and how long they took to arrive", () => {
+    const other = [
+      hop(1, "Construction", "PEO", "2026-03-10T08:00:00Z", "2026-03-10T20:00:00Z"),
+      hop(2, "PEO", "Accounting", "2026-03-11T20:00:00Z", "2026-03-12T08:00:00Z"),
+    ];
+
+    expect(officeDwellTimes([{ createdAt: document.createdAt, hops }, { createdAt: new Date("2026-03-09T08:00:00Z"), hops: other }])).toEqual([
+      { office: "PEO", completedStays: 2, averageDwellDays: 2, maxDwellDays: 3, averageTransitDays: 0.4, holding: 0 },
+      { office: "Construction", completedStays: 2, averageDwellDays: 1, maxDwellDays: 1, averageTransitDays: null, holding: 0 },
+      { office: "Accounting", completedStays: 0, averageDwellDays: null, maxDwellDays: null, averageTransitDays: 0.5, holding: 1 },
+      { office: "Admin", completedStays: 0, averageDwellDays: null, maxDwellDays: null, averageTransitDays: 1, holding: 1 },
+    ]);
+  });
+});
+
+describe("daysWithoutMovement", () => {
+  it("counts idle days where the document sits, but not once it has finished its route", () => {
+    const now = new Date("2026-03-17T15:00:00Z");
+    expect(currentLocation(document, hops, billingSlip)).toEqual({ office: "Admin", inTransitTo: null, since: new Date("2026-03-07T15:00:00Z") });
+    expect(daysWithoutMovement(document, hops, billingSlip, now)).toBe(10);
+
+    const delivered = [...hops, hop(3, "Admin", "Accounting", "2026-03-12T09:00:00Z", "2026-03-12T13:00:00Z")];
+    expect(daysWithoutMovement(document, delivered, billingSlip, now)).toBeNull();
+  });
+
+  it("validates routing templates", () => {
+    expect(() => assertRoutingTemplate(["PEO"])).toThrow("A routing template needs at least two offices");
+    expect(() => assertRoutingTemplate(["PEO", "Admin", "admin"])).toThrow("admin cannot route a document to itself");
+  });
+});
@@ -0,0 +1,234 @@
+import { TRPCError } from "@trpc/server";
+import type { Document, DocumentRoute, RoutingTemplate, User } from "../drizzle/schema";
+import { DAY_MS, round } from "./util";
+
+/**
+ * Routing slips. A document moves between offices one hop at a time: the
+ * holding office releases it to the next office, which logs it in on
+ * receipt. The routing template of the document type gives the usual path
+ * and the default next office. Dwell time is how long an office holds a
+ * document, from receiving it to releasing it; transit time is how long a
+ * document takes between offices.
+ */
+
+/** Office a document starts at when it has neither hops nor a routing template */
+export const DEFAULT_ORIGIN_OFFICE = "PEO";
+
+type Hop = Pick<DocumentRoute, "sequence" | "fromOffice" | "toOffice" | "releasedAt" | "receivedAt">;
+
+export type DocumentLocation = {
+  office: string;
+  /** Set while the document is between offices */
+  inTransitTo: string | null;
+  since: Date | null;
+};
+
+export type OfficeDwell = {
+  office: string;
+  /** Stays that ended with the office releasing the document */
+  completedStays: number;
+  averageDwellDays: number | null;
+  maxDwellDays: number | null;
+  /** Average days documents took to reach the office */
+  averageTransitDays: number | null;
+  /** Documents the office holds now */
+  holding: number;
+};
+
+function sameOffice(a: string | null | undefined, b: string | null | undefined) {
+  return (a ?? "").trim().toLowerCase() === (b ?? "").trim().toLowerCase();
+}
+
+function days(from: Date, to: Date) {
+  return round((to.getTime() - from.getTime()) / DAY_MS, 1);
+}
+
+function average(values: number[]) {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length, 1) : null;
+}
+
+/** Only the office's own staff may release or receive for it; an admin may act for any office */
+function assertActsFor(user: Pick<User, "role" | "division">, office: string, message: string) {
+  if (user.role !== "admin" && !sameOffice(user.division, office)) {
+    throw new TRPCError({ code: "FORBIDDEN", message });
+  }
+}
+
+/** Release and receipt times must be real dates, no later than now */
+function assertHopTime(field: "releasedAt" | "receivedAt", value: Date, now: Date) {
+  if (Number.isNaN(value.getTime())) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${field} is not a valid date` });
+  }
+  if (value > now) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${field} cannot be in the future` });
+  }
+}
+
+export function assertRoutingTemplate(offices: string[]) {
+  const cleaned = offices.map(office => office.trim());
+  if (cleaned.length < 2 || cleaned.some(office => !office)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "A routing template needs at least two offices" });
+  }
+  const repeated = cleaned.find((office, index) => index > 0 && sameOffice(office, cleaned[index - 1]));
+  if (repeated) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${repeated} cannot route a document to itself` });
+  }
+}
+
+/** The routing template of a document type, matched without regard to case */
+export function templateFor<T extends Pick<RoutingTemplate, "documentType">>(templates: T[], documentType: string | null | undefined) {
+  return templates.find(template => sameOffice(template.documentType, documentType)) ?? null;
+}
+
+/** Where the document is: the office holding it, or the office it is on its way to */
+export function currentLocation(
+  document: Pick<Document, "division" | "createdAt">,
+  hops: Hop[],
+  template?: Pick<RoutingTemplate, "offices"> | null
+): DocumentLocation {
+  const ordered = [...hops].sort((a, b) => a.sequence - b.sequence);
+  const last = ordered[ordered.length - 1];
+  if (!last) {
+    return { office: template?.offices[0] ?? document.division ?? DEFAULT_ORIGIN_OFFICE, inTransitTo: null, since: new Date(document.createdAt) };
+  }
+  if (!last.receivedAt) {
+    return { office: last.fromOffice, inTransitTo: last.toOffice, since: new Date(last.releasedAt) };
+  }
+  return { office: last.toOffice, inTransitTo: null, since: new Date(last.receivedAt) };
+}
+
+/** Next office on the template after `office`, or null at the end of the path or off it */
+export function nextOffice(template: Pick<RoutingTemplate, "offices"> | null | undefined, office: string) {
+  if (!template) return null;
+  const index = template.offices.findIndex(entry => sameOffice(entry, office));
+  return index >= 0 ? template.offices[index + 1] ?? null : null;
+}
+
+/**
+ * The hop that releases the document from the office holding it. Only that
+ * office's staff may release it; an admin may release it for any office.
+ */
+export function planRelease(
+  document: Pick<Document, "refNumber" | "division" | "createdAt">,
+  hops: Hop[],
+  opts: {
+    template?: Pick<RoutingTemplate, "offices"> | null;
+    toOffice?: string;
+    releasedAt: Date;
+    releaser: Pick<User, "role" | "division">;
+    now?: Date;
+  }
+) {
+  assertHopTime("releasedAt", opts.releasedAt, opts.now ?? new Date());
+  const location = currentLocation(document, hops, opts.template);
+  if (location.inTransitTo) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${document.refNumber} is on its way to ${location.inTransitTo}; it must be received before it is routed again`,
+    });
+  }
+  assertActsFor(opts.releaser, location.office, `${document.refNumber} is held by ${location.office}; only that office can release it`);
+  const toOffice = opts.toOffice?.trim() || nextOffice(opts.template, location.office);
+  if (!toOffice) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${document.refNumber} is at ${location.office}, the end of its routing template; name the office to send it to`,
+    });
+  }
+  if (sameOffice(toOffice, location.office)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${document.refNumber} is already at ${location.office}` });
+  }
+  if (location.since && opts.releasedAt < location.since) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "A document cannot be released before it was received" });
+  }
+  return {
+    sequence: hops.reduce((max, hop) => Math.max(max, hop.sequence), 0) + 1,
+    fromOffice: location.office,
+    toOffice,
+  };
+}
+
+/**
+ * The hop the receiving office logs the document in on. Only that office's
+ * staff may log it in; an admin may log it in for any office.
+ */
+export function planReceive<T extends Hop>(
+  document: Pick<Document, "refNumber">,
+  hops: T[],
+  receivedAt: Date,
+  receiver: Pick<User, "role" | "division">,
+  now = new Date()
+) {
+  assertHopTime("receivedAt", receivedAt, now);
+  const ordered = [...hops].sort((a, b) => a.sequence - b.sequence);
+  const pending = ordered[ordered.length - 1];
+  if (!pending || pending.receivedAt) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${document.refNumber} has not been routed to any office` });
+  }
+  assertActsFor(receiver, pending.toOffice, `${document.refNumber} was routed to ${pending.toOffice}; only that office can receive it`);
+  if (receivedAt < new Date(pending.releasedAt)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "A document cannot be received before it was released" });
+  }
+  return pending;
+}
+
+/**
+ * Average dwell and transit time per office over the given documents'
+ * hops. A stay starts when an office receives a document, or for the
+ * origin office when the document was created, and ends when the office
+ * releases it; stays still open count towards `holding` only.
+ */
+export function officeDwellTimes(routed: { createdAt: Date; hops: Hop[] }[]): OfficeDwell[] {
+  const offices = new Map<string, { name: string; dwell: number[]; transit: number[]; holding: number }>();
+  const entry = (office: string) => {
+    const key = office.trim().toLowerCase();
+    if (!offices.has(key)) offices.set(key, { name: office.trim(), dwell: [], transit: [], holding: 0 });
+    return offices.get(key)!;
+  };
+
+  for (const { createdAt, hops } of routed) {
+    const ordered = [...hops].sort((a, b) => a.sequence - b.sequence);
+    const first = ordered[0];
+    if (first) {
+      entry(first.fromOffice).dwell.push(days(new Date(createdAt), new Date(first.releasedAt)));
+    }
+    ordered.forEach((hop, index) => {
+      if (!hop.receivedAt) return;
+      const office = entry(hop.toOffice);
+      office.transit.push(days(new Date(hop.releasedAt), new Date(hop.receivedAt)));
+      const next = ordered[index + 1];
+      if (next && sameOffice(next.fromOffice, hop.toOffice)) {
+        office.dwell.push(days(new Date(hop.receivedAt), new Date(next.releasedAt)));
+      } else if (!next) {
+        office.holding++;
+      }
+    });
+  }
+
+  return Array.from(offices.values())
+    .map(office => ({
+      office: office.name,
+      completedStays: office.dwell.length,
+      averageDwellDays: average(office.dwell),
+      maxDwellDays: office.dwell.length > 0 ? Math.max(...office.dwell) : null,
+      averageTransitDays: average(office.transit),
+      holding: office.holding,
+    }))
+    .sort((a, b) => (b.averageDwellDays ?? -1) - (a.averageDwellDays ?? -1) || a.office.localeCompare(b.office));
+}
+
+/**
+ * Days a document has sat where it is, or null when it has finished its
+ * route (reached the last office of its template) and is no longer moving.
+ */
+export function daysWithoutMovement(
+  document: Pick<Document, "division" | "createdAt">,
+  hops: Hop[],
+  template: Pick<RoutingTemplate, "offices"> | null,
+  now: Date
+) {
+  const location = currentLocation(document, hops, template);
+  const finished = !location.inTransitTo && hops.length > 0 && template && sameOffice(template.offices[template.offices.length - 1], location.office);
+  if (finished || !location.since) return null;
+  return days(location.since, now);
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import type { EquipmentServicePlan } from "../drizzle/schema";
+import { hourMeterReading, initialServiceHours, nextServiceDate, overallServiceState, servicePlanStatus } from "./equipmentService";
+
+function createPlan(overrides: Partial<EquipmentServicePlan> = {}) {
+  return {
+    id: 1,
+    serviceType: "Engine oil change",
+    intervalHours: "250.00",
+    intervalDays: null,
+    lastServiceDate: null,
+    lastServiceHours: "1000.00",
+    isActive: true,
+    createdAt: new Date("2026-01-05T08:00:00Z"),
+    ...overrides,
+  };
+}
+
+const today = new Date("2026-03-01");
+
+describe("hourMeterReading", () => {
+  it("sums the hours logged on assignments", () => {
+    expect(hourMeterReading([{ hoursUsed: "120.50" }, { hoursUsed: null }, { hoursUsed: "30.25" }])).toBe(150.75);
+  });
+});
+
+describe("servicePlanStatus", () => {
+  it("counts hours from the last service", () => {
+    expect(servicePlanStatus(createPlan(), 1100, today)).toMatchObject({
+      dueAtHours: 1250,
+      hoursRemaining: 150,
+      state: "OK",
+    });
+    expect(servicePlanStatus(createPlan(), 1230, today).state).toBe("Due Soon");
+    expect(servicePlanStatus(createPlan(), 1250, today).state).toBe("Overdue");
+  });
+
+  it("counts days from plan setup when the service was never done", () => {
+    const status = servicePlanStatus(createPlan({ intervalHours: null, intervalDays: 60 }), 0, today);
+
+    expect(status.dueDate).toEqual(new Date("2026-03-06"));
+    expect(status.daysRemaining).toBe(5);
+    expect(status.state).toBe("Due Soon");
+  });
+
+  it("takes the worse of the hour and calendar limits", () => {
+    const plan = createPlan({ intervalDays: 30, lastServiceDate: new Date("2026-01-15") });
+    expect(servicePlanStatus(plan, 1010, today).state).toBe("Overdue");
+  });
+
+  it("counts a never-done service from the hour meter at plan setup", () => {
+    const plan = createPlan({ lastServiceHours: String(initialServiceHours(undefined, 5000)) });
+
+    expect(servicePlanStatus(plan, 5000, today)).toMatchObject({ dueAtHours: 5250, hoursRemaining: 250, state: "OK" });
+    expect(initialServiceHours(4800, 5000)).toBe(4800);
+  });
+
+  it("never flags inactive plans", () => {
+    expect(servicePlanStatus(createPlan({ isActive: false }), 5000, today).state).toBe("OK");
+  });
+});
+
+describe("unit summary", () => {
+  it("reports the worst state and the earliest calendar due date", () => {
+    const statuses = [
+      servicePlanStatus(createPlan(), 1100, today),
+      servicePlanStatus(createPlan({ id: 2, intervalHours: null, intervalDays: 90, lastServiceDate: new Date("2026-01-01") }), 1100, today),
+      servicePlanStatus(createPlan({ id: 3, intervalHours: null, intervalDays: 30, lastServiceDate: new Date("2026-02-15") }), 1100, today),
+    ];
+
+    expect(overallServiceState(statuses)).toBe("OK");
+    expect(nextServiceDate(statuses)).toEqual(new Date("2026-03-17"));
+    expect(overallServiceState([...statuses, servicePlanStatus(createPlan(), 1300, today)])).toBe("Overdue");
+  });
+});
@@ -0,0 +1,105 @@
+import type { EquipmentAssignment, EquipmentServicePlan, EquipmentWorkOrder } from "../drizzle/schema";
+import { DAY_MS, daysBetween, round, toDay } from "./util";
+
+/**
+ * Preventive maintenance for equipment. A unit's hour meter is the sum of the
+ * hours logged on its assignments; each service plan comes due every
+ * `intervalHours` on that meter and/or every `intervalDays` on the calendar,
+ * counted from the last time the service was done (or from when the plan was
+ * set up, for a service never performed).
+ */
+
+export type ServiceState = "OK" | "Due Soon" | "Overdue";
+
+/** Work orders that keep the unit in the shop */
+export const OPEN_WORK_ORDER_STATUSES: EquipmentWorkOrder["status"][] = ["Open", "In Progress"];
+
+/** A plan is Due Soon within this fraction of its interval */
+export const DUE_SOON_FRACTION = 0.1;
+
+type PlanSchedule = Pick<
+  EquipmentServicePlan,
+  "id" | "serviceType" | "intervalHours" | "intervalDays" | "lastServiceDate" | "lastServiceHours" | "isActive" | "createdAt"
+>;
+
+export type PlanStatus = {
+  planId: number;
+  serviceType: string;
+  dueAtHours: number | null;
+  hoursRemaining: number | null;
+  dueDate: Date | null;
+  daysRemaining: number | null;
+  state: ServiceState;
+};
+
+/** Cumulative hour-meter reading from the hours logged on a unit's assignments */
+export function hourMeterReading(assignments: Pick<EquipmentAssignment, "hoursUsed">[]) {
+  return round(assignments.reduce((sum, assignment) => sum + Number(assignment.hoursUsed ?? 0), 0));
+}
+
+/**
+ * Hour meter a new plan counts from: the last service when it is known,
+ * otherwise the unit's reading when the plan is set up, so a plan added to
+ * a well-used unit is not overdue from day one.
+ */
+export function initialServiceHours(lastServiceHours: number | null | undefined, hourMeter: number) {
+  return lastServiceHours ?? hourMeter;
+}
+
+function stateFor(remaining: number | null, interval: number | null): ServiceState {
+  if (remaining === null || !interval) return "OK";
+  if (remaining <= 0) return "Overdue";
+  return remaining <= interval * DUE_SOON_FRACTION ? "Due Soon" : "OK";
+}
+
+const STATE_RANK: Record<ServiceState, number> = { OK: 0, "Due Soon": 1, Overdue: 2 };
+
+/**
+ * Next due point of a plan by hours and by date. Whichever limit is reached
+ * first decides the state; inactive plans are always OK.
+ */
+export function servicePlanStatus(plan: PlanSchedule, hourMeter: number, today = new Date()): PlanStatus {
+  const intervalHours = plan.intervalHours != null ? Number(plan.intervalHours) : null;
+  const intervalDays = plan.intervalDays ?? null;
+
+  const dueAtHours = intervalHours ? round(Number(plan.lastServiceHours ?? 0) + intervalHours) : null;
+  const hoursRemaining = dueAtHours !== null ? round(dueAtHours - hourMeter) : null;
+
+  let dueDate: Date | null = null;
+  let daysRemaining: number | null = null;
+  if (intervalDays) {
+    dueDate = new Date(toDay(plan.lastServiceDate ?? plan.createdAt) + intervalDays * DAY_MS);
+    daysRemaining = daysBetween(today, dueDate);
+  }
+
+  const byHours = stateFor(hoursRemaining, intervalHours);
+  const byDays = stateFor(daysRemaining, intervalDays);
+
+  return {
+    planId: plan.id,
+    serviceType: plan.serviceType,
+    dueAtHours,
+    hoursRemaining,
+    dueDate,
+    daysRemaining,
+    state: plan.isActive ? (STATE_RANK[byHours] >= STATE_RANK[byDays] ? byHours : byDays) : "OK",
+  };
+}
+
+/** Earliest calendar due date across a unit's active plans, for maintenance_equipment.nextMaintenanceDate */
+export function nextServiceDate(statuses: PlanStatus[]) {
+  const dates = statuses.map(status => status.dueDate).filter((date): date is Date => date !== null);
+  return dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : null;
+}
+
+/** Worst state across a unit's plans */
+export function overallServiceState(statuses: PlanStatus[]): ServiceState {
+  return statuses.reduce<ServiceState>(
+    (worst, status) => (STATE_RANK[status.state] > STATE_RANK[worst] ? status.state : worst),
+    "OK"
+  );
+}
+
+export function isOpenWorkOrder(workOrder: Pick<EquipmentWorkOrder, "status">) {
+  return OPEN_WORK_ORDER_STATUSES.includes(workOrder.status);
+}
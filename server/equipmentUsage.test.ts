@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import type { EquipmentAssignment } from "../drizzle/schema";
+import {
+  assertEquipmentAvailable,
+  buildUtilizationReport,
+  deriveEquipmentStatus,
+  findBookingConflicts,
+} from "./equipmentUsage";
+
+function createAssignment(overrides: Partial<EquipmentAssignment> = {}) {
+  return {
+    id: 1,
+    equipmentId: 3,
+    startDate: new Date("2026-03-02"),
+    endDate: new Date("2026-03-06"),
+    status: "Assigned" as const,
+    hoursUsed: null,
+    fuelConsumed: null,
+    ...overrides,
+  };
+}
+
+const grader = { id: 3, name: "Motor Grader MG-01", status: "Available" as const };
+
+describe("findBookingConflicts", () => {
+  it("flags overlapping bookings of the same unit, including shared end days", () => {
+    const conflicts = findBookingConflicts(
+      { equipmentId: 3, startDate: new Date("2026-03-06"), endDate: new Date("2026-03-10") },
+      [createAssignment(), createAssignment({ id: 2, equipmentId: 4 })]
+    );
+    expect(conflicts.map(c => c.id)).toEqual([1]);
+  });
+
+  it("ignores returned assignments and the assignment being edited", () => {
+    const request = { id: 1, equipmentId: 3, startDate: new Date("2026-03-03"), endDate: new Date("2026-03-04") };
+    expect(findBookingConflicts(request, [createAssignment(), createAssignment({ id: 2, status: "Returned" })])).toEqual([]);
+  });
+
+  it("treats an assignment without an end date as open-ended", () => {
+    const conflicts = findBookingConflicts(
+      { equipmentId: 3, startDate: new Date("2026-12-01"), endDate: new Date("2026-12-02") },
+      [createAssignment({ endDate: null })]
+    );
+    expect(conflicts).toHaveLength(1);
+  });
+});
+
+describe("assertEquipmentAvailable", () => {
+  it("rejects double bookings and units under maintenance or out of service", () => {
+    const request = { equipmentId: 3, startDate: new Date("2026-03-04"), endDate: new Date("2026-03-05") };
+
+    expect(() => assertEquipmentAvailable(grader, request, [createAssignment()])).toThrow(
+      "Motor Grader MG-01 is already assigned for these dates (assignment #1)"
+    );
+    expect(() => assertEquipmentAvailable({ ...grader, status: "Out of Service" }, request, [])).toThrow(
+      "is out of service"
+    );
+    expect(() => assertEquipmentAvailable({ ...grader, status: "Under Maintenance" }, request, [])).toThrow(
+      "Motor Grader MG-01 is under maintenance"
+    );
+    expect(() => assertEquipmentAvailable(grader, request, [])).not.toThrow();
+  });
+});
+
+describe("deriveEquipmentStatus", () => {
+  const today = new Date("2026-03-04");
+
+  it("is In Use while an open assignment covers today", () => {
+    expect(deriveEquipmentStatus("Available", [createAssignment()], today)).toBe("In Use");
+    expect(deriveEquipmentStatus("In Use", [createAssignment({ status: "Returned" })], today)).toBe("Available");
+    expect(deriveEquipmentStatus("Available", [createAssignment({ startDate: new Date("2026-04-01"), endDate: null })], today)).toBe(
+      "Available"
+    );
+  });
+
+  it("keeps manual maintenance flags", () => {
+    expect(deriveEquipmentStatus("Under Maintenance", [createAssignment()], today)).toBe("Under Maintenance");
+  });
+});
+
+describe("buildUtilizationReport", () => {
+  it("splits hours and fuel across months and counts idle days", () => {
+    const rows = buildUtilizationReport(
+      [grader],
+      [
+        createAssignment({
+          startDate: new Date("2026-01-30"),
+          endDate: new Date("2026-02-02"),
+          hoursUsed: "32.00",
+          fuelConsumed: "200.00",
+          status: "Returned",
+        }),
+      ],
+      2026,
+      new Date("2026-02-28")
+    );
+
+    expect(rows).toEqual([
+      { equipmentId: 3, equipmentName: "Motor Grader MG-01", month: "2026-01", assignedDays: 2, idleDays: 29, hoursUsed: 16, fuelConsumed: 100 },
+      { equipmentId: 3, equipmentName: "Motor Grader MG-01", month: "2026-02", assignedDays: 2, idleDays: 26, hoursUsed: 16, fuelConsumed: 100 },
+    ]);
+  });
+});
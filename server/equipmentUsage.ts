@@ -0,0 +1,184 @@
+import { TRPCError } from "@trpc/server";
+import type { EquipmentAssignment, MaintenanceEquipment } from "../drizzle/schema";
+import { DAY_MS, round, toDay } from "./util";
+
+/**
+ * Booking and utilization rules for maintenance equipment. Dates are handled
+ * as whole UTC days (the columns are DATE); an assignment without an end date
+ * is open-ended and one without a start date is treated as already running.
+ */
+
+/** Assignment statuses that still hold the unit */
+export const OPEN_ASSIGNMENT_STATUSES: NonNullable<EquipmentAssignment["status"]>[] = ["Assigned", "Active"];
+
+/**
+ * Statuses set by hand that assignment changes must not overwrite. A unit
+ * in one of them cannot be booked either.
+ */
+const MANUAL_EQUIPMENT_STATUSES: NonNullable<MaintenanceEquipment["status"]>[] = [
+  "Under Maintenance",
+  "Out of Service",
+];
+
+export function isBookable(equipment: Pick<MaintenanceEquipment, "status">) {
+  return !equipment.status || !MANUAL_EQUIPMENT_STATUSES.includes(equipment.status);
+}
+
+type AssignmentPeriod = Pick<EquipmentAssignment, "id" | "equipmentId" | "startDate" | "endDate" | "status">;
+
+function toDayNumber(date: Date | string) {
+  return toDay(date) / DAY_MS;
+}
+
+function period(assignment: { startDate?: Date | null; endDate?: Date | null }) {
+  return {
+    start: assignment.startDate ? toDayNumber(assignment.startDate) : -Infinity,
+    end: assignment.endDate ? toDayNumber(assignment.endDate) : Infinity,
+  };
+}
+
+function isOpen(assignment: Pick<AssignmentPeriod, "status">) {
+  return OPEN_ASSIGNMENT_STATUSES.includes(assignment.status ?? "Assigned");
+}
+
+/** Open assignments of the same unit whose dates overlap the requested range */
+export function findBookingConflicts<T extends AssignmentPeriod>(
+  request: { id?: number; equipmentId: number; startDate?: Date | null; endDate?: Date | null },
+  assignments: T[]
+): T[] {
+  const requested = period(request);
+  return assignments.filter(assignment => {
+    if (assignment.id === request.id || assignment.equipmentId !== request.equipmentId || !isOpen(assignment)) {
+      return false;
+    }
+    const booked = period(assignment);
+    return booked.start <= requested.end && requested.start <= booked.end;
+  });
+}
+
+/**
+ * Reject bookings for units that are under maintenance, out of service or
+ * already booked for any day in the requested range.
+ */
+export function assertEquipmentAvailable(
+  equipment: Pick<MaintenanceEquipment, "name" | "status"> | null | undefined,
+  request: Parameters<typeof findBookingConflicts>[0],
+  assignments: AssignmentPeriod[]
+) {
+  if (!equipment) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Equipment not found" });
+  }
+  if (!isBookable(equipment)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${equipment.name} is ${equipment.status!.toLowerCase()}` });
+  }
+  if (request.startDate && request.endDate && toDayNumber(request.endDate) < toDayNumber(request.startDate)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "endDate cannot be earlier than startDate" });
+  }
+
+  const conflicts = findBookingConflicts(request, assignments);
+  if (conflicts.length > 0) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `${equipment.name} is already assigned for these dates (assignment ${conflicts.map(c => `#${c.id}`).join(", ")})`,
+    });
+  }
+}
+
+/**
+ * Status the unit should have after its assignments change: In Use while an
+ * open assignment covers today, Available otherwise. Maintenance and
+ * out-of-service flags are left for staff to clear.
+ */
+export function deriveEquipmentStatus(
+  current: MaintenanceEquipment["status"],
+  assignments: AssignmentPeriod[],
+  today = new Date()
+): NonNullable<MaintenanceEquipment["status"]> {
+  if (current && MANUAL_EQUIPMENT_STATUSES.includes(current)) return current;
+
+  const day = toDayNumber(today);
+  const inUse = assignments.some(assignment => {
+    if (!isOpen(assignment)) return false;
+    const booked = period(assignment);
+    return booked.start <= day && day <= booked.end;
+  });
+  return inUse ? "In Use" : "Available";
+}
+
+export type UtilizationRow = {
+  equipmentId: number;
+  equipmentName: string;
+  month: string;
+  assignedDays: number;
+  idleDays: number;
+  hoursUsed: number;
+  fuelConsumed: number;
+};
+
+function monthKey(day: number) {
+  return new Date(day * DAY_MS).toISOString().slice(0, 7);
+}
+
+/**
+ * Hours, fuel and assigned/idle days per unit per month for a year.
+ * An assignment's logged hours and fuel are spread evenly over its days, so
+ * one spanning two months is split between them. Undated assignments are
+ * skipped; open-ended ones run until `today`.
+ */
+export function buildUtilizationReport(
+  equipment: Pick<MaintenanceEquipment, "id" | "name">[],
+  assignments: (AssignmentPeriod & Pick<EquipmentAssignment, "hoursUsed" | "fuelConsumed">)[],
+  year: number,
+  today = new Date()
+): UtilizationRow[] {
+  const yearStart = toDayNumber(new Date(Date.UTC(year, 0, 1)));
+  const yearEnd = toDayNumber(new Date(Date.UTC(year, 11, 31)));
+  const lastDay = Math.min(yearEnd, toDayNumber(today));
+
+  return equipment.flatMap(unit => {
+    const busyDays = new Set<number>();
+    const totals = new Map<string, { hoursUsed: number; fuelConsumed: number }>();
+
+    assignments
+      .filter(assignment => assignment.equipmentId === unit.id && assignment.startDate)
+      .forEach(assignment => {
+        const start = toDayNumber(assignment.startDate!);
+        const end = assignment.endDate ? toDayNumber(assignment.endDate) : Math.max(start, toDayNumber(today));
+        if (end < start) return;
+        const days = end - start + 1;
+        const hoursPerDay = Number(assignment.hoursUsed ?? 0) / days;
+        const fuelPerDay = Number(assignment.fuelConsumed ?? 0) / days;
+
+        for (let day = Math.max(start, yearStart); day <= Math.min(end, yearEnd); day++) {
+          busyDays.add(day);
+          const month = totals.get(monthKey(day)) ?? { hoursUsed: 0, fuelConsumed: 0 };
+          month.hoursUsed += hoursPerDay;
+          month.fuelConsumed += fuelPerDay;
+          totals.set(monthKey(day), month);
+        }
+      });
+
+    const rows: UtilizationRow[] = [];
+    for (let month = 0; month < 12; month++) {
+      const first = toDayNumber(new Date(Date.UTC(year, month, 1)));
+      if (first > lastDay) break;
+      const last = Math.min(toDayNumber(new Date(Date.UTC(year, month + 1, 0))), lastDay);
+
+      let assignedDays = 0;
+      for (let day = first; day <= last; day++) {
+        if (busyDays.has(day)) assignedDays++;
+      }
+      const key = monthKey(first);
+      rows.push({
+        equipmentId: unit.id,
+        equipmentName: unit.name,
+        month: key,
+        assignedDays,
+        idleDays: last - first + 1 - assignedDays,
+        hoursUsed: round(totals.get(key)?.hoursUsed ?? 0),
+        fuelConsumed: round(totals.get(key)?.fuelConsumed ?? 0),
+      });
+    }
+    return rows;
+  });
+}
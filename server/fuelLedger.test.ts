@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { TrpcContext } from "./_core/context";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getFuelIssuances: vi.fn(),
+  updateEquipmentAssignment: vi.fn(),
+}));
+
+import { getFuelIssuances, updateEquipmentAssignment } from "./db";
+import { findFuelAnomalies, fuelEfficiency } from "./fuelLedger";
+import { appRouter } from "./routers";
+
+let nextId = 1;
+
+function slip(issueDate: string, liters: number, readings: { hourMeter?: number; odometerKm?: number }, equipmentId = 1) {
+  const id = nextId++;
+  return {
+    id,
+    equipmentId,
+    slipNumber: `FIS-${String(id).padStart(4, "0")}`,
+    issueDate: new Date(issueDate),
+    liters: liters.toFixed(2),
+    hourMeter: readings.hourMeter != null ? readings.hourMeter.toFixed(2) : null,
+    odometerKm: readings.odometerKm != null ? readings.odometerKm.toFixed(1) : null,
+  };
+}
+
+// A grader burning about 10 L/hr, one fill every 20 hours
+function graderSlips(equipmentId = 1) {
+  return [
+    slip("2026-02-02", 200, { hourMeter: 1000 }, equipmentId),
+    slip("2026-02-05", 200, { hourMeter: 1020 }, equipmentId),
+    slip("2026-02-09", 210, { hourMeter: 1040 }, equipmentId),
+    slip("2026-02-12", 190, { hourMeter: 1060 }, equipmentId),
+    slip("2026-02-16", 200, { hourMeter: 1080 }, equipmentId),
+  ];
+}
+
+describe("fuelEfficiency", () => {
+  it("averages liters over the hours run between fills", () => {
+    expect(fuelEfficiency(graderSlips())).toEqual({
+      slips: 5,
+      litersIssued: 1000,
+      litersPerHour: 10,
+      litersPerKm: null,
+    });
+  });
+
+  it("rates vehicles per km from the odometer", () => {
+    const pickup = [
+      slip("2026-03-01", 40, { odometerKm: 52000 }),
+      slip("2026-03-08", 40, { odometerKm: 52400 }),
+      slip("2026-03-15", 50, { odometerKm: 52900 }),
+    ];
+    expect(fuelEfficiency(pickup).litersPerKm).toBe(0.1);
+  });
+});
+
+describe("findFuelAnomalies", () => {
+  it("flags a fill far above the unit's baseline", () => {
+    const slips = [...graderSlips(), slip("2026-02-19", 380, { hourMeter: 1100 })];
+
+    const anomalies = findFuelAnomalies(slips, 30);
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({
+      slipNumber: slips[5].slipNumber,
+      metric: "L/hr",
+      rate: 19,
+      baseline: 10,
+      deviationPercent: 90,
+    });
+  });
+
+  it("respects the threshold", () => {
+    const slips = [...graderSlips(), slip("2026-02-19", 250, { hourMeter: 1100 })];
+
+    expect(findFuelAnomalies(slips, 30)).toEqual([]);
+    expect(findFuelAnomalies(slips, 20).map(a => a.slipNumber)).toEqual([slips[5].slipNumber]);
+  });
+
+  it("needs enough history before rating a unit", () => {
+    const slips = [
+      slip("2026-02-02", 200, { hourMeter: 1000 }),
+      slip("2026-02-05", 200, { hourMeter: 1020 }),
+      slip("2026-02-09", 600, { hourMeter: 1040 }),
+    ];
+    expect(findFuelAnomalies(slips)).toEqual([]);
+  });
+
+  it("reports hour meters that go backwards and keeps units apart", () => {
+    const slips = [
+      ...graderSlips(1),
+      ...graderSlips(2).map(s => ({ ...s, liters: "400.00" })),
+      slip("2026-02-20", 100, { hourMeter: 990 }),
+    ];
+
+    const anomalies = findFuelAnomalies(slips);
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0].reason).toBe("hourMeter reading is not above the previous slip");
+  });
+});
+
+describe("assignments.update", () => {
+  const caller = appRouter.createCaller({
+    user: {
+      id: 5,
+      openId: "maintenance",
+      email: null,
+      name: "Equipment Clerk",
+      loginMethod: "manus",
+      role: "user",
+      division: "Maintenance",
+      position: null,
+      isDivisionHead: false,
+      approvalStatus: "approved",
+      approvedById: null,
+      approvalDate: null,
+      rejectionReason: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as TrpcContext["res"],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(updateEquipmentAssignment).mockResolvedValue({ success: true });
+  });
+
+  it("leaves fuel consumed to the slips once any are issued", async () => {
+    vi.mocked(getFuelIssuances).mockResolvedValue([slip("2026-03-02", 40, { hourMeter: 100 })] as never);
+
+    await expect(caller.assignments.update({ id: 3, fuelConsumed: 25 })).rejects.toThrow("correct the slips instead");
+    expect(updateEquipmentAssignment).not.toHaveBeenCalled();
+    await expect(caller.assignments.update({ id: 3, hoursUsed: 8 })).resolves.toEqual({ success: true });
+  });
+
+  it("accepts a manual figure when no slips were issued", async () => {
+    vi.mocked(getFuelIssuances).mockResolvedValue([]);
+
+    await expect(caller.assignments.update({ id: 3, fuelConsumed: 25 })).resolves.toEqual({ success: true });
+    expect(getFuelIssuances).toHaveBeenCalledWith({ assignmentId: 3 });
+  });
+});
@@ -0,0 +1,162 @@
+import type { FuelIssuance } from "../drizzle/schema";
+import { round } from "./util";
+
+/**
+ * Fuel consumption from issuance slips. Every fill is taken to top up the
+ * tank, so the liters issued at one reading cover the hours (or km) run since
+ * the unit's previous reading. Hour meters and odometers are tracked
+ * separately; a slip without a reading of a kind is skipped for that kind.
+ */
+
+export type FuelMetric = "L/hr" | "L/km";
+
+/** Default allowed deviation from a unit's baseline before a slip is flagged */
+export const DEFAULT_FUEL_THRESHOLD_PERCENT = 30;
+
+/** Other intervals a unit needs before its baseline is trusted */
+export const MIN_BASELINE_SAMPLES = 3;
+
+type Slip = Pick<FuelIssuance, "id" | "equipmentId" | "slipNumber" | "issueDate" | "liters" | "odometerKm" | "hourMeter">;
+
+export type FuelInterval = {
+  issuanceId: number;
+  metric: FuelMetric;
+  liters: number;
+  usage: number;
+  rate: number;
+};
+
+export type FuelAnomaly = {
+  issuanceId: number;
+  equipmentId: number;
+  slipNumber: string;
+  issueDate: Date;
+  liters: number;
+  metric: FuelMetric;
+  rate: number | null;
+  baseline: number | null;
+  deviationPercent: number | null;
+  reason: string;
+};
+
+const READING_FIELD: Record<FuelMetric, "hourMeter" | "odometerKm"> = {
+  "L/hr": "hourMeter",
+  "L/km": "odometerKm",
+};
+
+function bySlipOrder(a: Slip, b: Slip) {
+  return new Date(a.issueDate).getTime() - new Date(b.issueDate).getTime() || a.id - b.id;
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Consumption intervals of one unit for one metric, plus slips whose reading
+ * is not above the previous one (meter rollback or encoding error).
+ */
+function intervalsFor(slips: Slip[], metric: FuelMetric) {
+  const field = READING_FIELD[metric];
+  const intervals: FuelInterval[] = [];
+  const backwards: Slip[] = [];
+
+  let previous: number | null = null;
+  for (const slip of [...slips].sort(bySlipOrder)) {
+    if (slip[field] == null) continue;
+    const reading = Number(slip[field]);
+    if (previous !== null) {
+      const usage = reading - previous;
+      if (usage <= 0) {
+        backwards.push(slip);
+        continue;
+      }
+      const liters = Number(slip.liters);
+      intervals.push({ issuanceId: slip.id, metric, liters, usage: round(usage), rate: liters / usage });
+    }
+    previous = reading;
+  }
+  return { intervals, backwards };
+}
+
+/** Liters issued and average liters per hour and per km for one unit */
+export function fuelEfficiency(slips: Slip[]) {
+  const average = (metric: FuelMetric) => {
+    const { intervals } = intervalsFor(slips, metric);
+    const usage = intervals.reduce((sum, interval) => sum + interval.usage, 0);
+    const liters = intervals.reduce((sum, interval) => sum + interval.liters, 0);
+    return usage > 0 ? round(liters / usage) : null;
+  };
+
+  return {
+    slips: slips.length,
+    litersIssued: round(slips.reduce((sum, slip) => sum + Number(slip.liters), 0)),
+    litersPerHour: average("L/hr"),
+    litersPerKm: average("L/km"),
+  };
+}
+
+/**
+ * Slips whose consumption rate deviates from the unit's baseline by more than
+ * `thresholdPercent`. The baseline is the median rate of the unit's other
+ * intervals, so one bad slip does not skew its own comparison; units with
+ * fewer than MIN_BASELINE_SAMPLES other intervals are not rated. Readings that
+ * go backwards are always reported.
+ */
+export function findFuelAnomalies(slips: Slip[], thresholdPercent = DEFAULT_FUEL_THRESHOLD_PERCENT): FuelAnomaly[] {
+  const slipsById = new Map(slips.map(slip => [slip.id, slip]));
+  const anomalies: FuelAnomaly[] = [];
+
+  const units = new Map<number, Slip[]>();
+  for (const slip of slips) {
+    units.set(slip.equipmentId, [...(units.get(slip.equipmentId) ?? []), slip]);
+  }
+
+  for (const unitSlips of Array.from(units.values())) {
+    for (const metric of Object.keys(READING_FIELD) as FuelMetric[]) {
+      const { intervals, backwards } = intervalsFor(unitSlips, metric);
+
+      for (const slip of backwards) {
+        anomalies.push({
+          issuanceId: slip.id,
+          equipmentId: slip.equipmentId,
+          slipNumber: slip.slipNumber,
+          issueDate: slip.issueDate,
+          liters: Number(slip.liters),
+          metric,
+          rate: null,
+          baseline: null,
+          deviationPercent: null,
+          reason: `${READING_FIELD[metric]} reading is not above the previous slip`,
+        });
+      }
+
+      for (const interval of intervals) {
+        const others = intervals.filter(other => other !== interval).map(other => other.rate);
+        if (others.length < MIN_BASELINE_SAMPLES) continue;
+
+        const baseline = median(others);
+        const deviation = ((interval.rate - baseline) / baseline) * 100;
+        if (Math.abs(deviation) <= thresholdPercent) continue;
+
+        const slip = slipsById.get(interval.issuanceId)!;
+        anomalies.push({
+          issuanceId: slip.id,
+          equipmentId: slip.equipmentId,
+          slipNumber: slip.slipNumber,
+          issueDate: slip.issueDate,
+          liters: interval.liters,
+          metric,
+          rate: round(interval.rate),
+          baseline: round(baseline),
+          deviationPercent: round(deviation),
+          reason: `${round(interval.rate)} ${metric} is ${Math.abs(round(deviation))}% ${deviation > 0 ? "above" : "below"} the unit's ${round(baseline)} ${metric}`,
+        });
+      }
+    }
+  }
+
+  return anomalies.sort((a, b) => new Date(b.issueDate).getTime() - new Date(a.issueDate).getTime() || b.issuanceId - a.issuanceId);
+}
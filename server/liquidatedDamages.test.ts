@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeLiquidatedDamages,
+  liquidatedDamagesDeduction,
+  timelinessRatingFromDamages,
+} from "./liquidatedDamages";
+
+const project = {
+  contractCost: "5000000.00",
+  revisedContractAmount: null,
+  progressPercent: "0.80",
+  dateCompleted: null,
+};
+
+const time = {
+  originalCompletionDate: new Date("2026-05-05"),
+  revisedCompletionDate: new Date("2026-06-04"),
+  suspendedSince: null,
+};
+
+function report(reportDate: string, actualPercent: number) {
+  return { reportDate: new Date(reportDate), actualPercent: String(actualPercent) };
+}
+
+describe("computeLiquidatedDamages", () => {
+  it("charges 1/10 of 1% of the unperformed portion per day past the revised date", () => {
+    const ld = computeLiquidatedDamages(project, time, [report("2026-06-01", 80)], new Date("2026-06-14"));
+
+    expect(ld).toEqual({
+      dueDate: new Date("2026-06-04"),
+      delayEndDate: new Date("2026-06-14"),
+      delayDays: 10,
+      contractAmount: 5_000_000,
+      accomplishedPercent: 80,
+      unperformedAmount: 1_000_000,
+      dailyAmount: 1_000,
+      amount: 10_000,
+      percentOfContract: 0.2,
+      accruing: true,
+      rescissionThresholdReached: false,
+    });
+  });
+
+  it("charges each day on the progress reported before it and stops at completion", () => {
+    const ld = computeLiquidatedDamages(
+      { ...project, revisedContractAmount: "5200000.00", dateCompleted: new Date("2026-06-10") },
+      time,
+      [report("2026-06-01", 80), report("2026-06-07", 95), report("2026-06-10", 100)],
+      new Date("2026-07-01")
+    );
+
+    // Jun 5-7 at 20% unperformed, Jun 8-10 at 5%, on the VO-revised amount
+    expect(ld.delayDays).toBe(6);
+    expect(ld.amount).toBe(3 * 1040 + 3 * 260);
+    expect(ld.accruing).toBe(false);
+    expect(ld.dailyAmount).toBe(0);
+  });
+
+  it("uses the original date without orders and nothing accrues before it", () => {
+    const ld = computeLiquidatedDamages(project, { ...time, revisedCompletionDate: null }, [], new Date("2026-05-01"));
+    expect(ld.dueDate).toEqual(new Date("2026-05-05"));
+    expect(ld.delayDays).toBe(0);
+    expect(ld.amount).toBe(0);
+  });
+
+  it("stops accruing while the works are suspended and flags the rescission threshold", () => {
+    const ld = computeLiquidatedDamages(
+      { ...project, progressPercent: "0.00" },
+      { ...time, suspendedSince: new Date("2026-07-24") },
+      [],
+      new Date("2026-12-31")
+    );
+
+    expect(ld.delayDays).toBe(50);
+    expect(ld.percentOfContract).toBe(5);
+    expect(ld.accruing).toBe(false);
+
+    const long = computeLiquidatedDamages({ ...project, progressPercent: "0.00" }, time, [], new Date("2026-09-12"));
+    expect(long.delayDays).toBe(100);
+    expect(long.rescissionThresholdReached).toBe(true);
+  });
+});
+
+describe("liquidatedDamagesDeduction", () => {
+  it("withholds only what earlier billings have not deducted", () => {
+    expect(liquidatedDamagesDeduction(18_500, 10_000)).toBe(8_500);
+    expect(liquidatedDamagesDeduction(10_000, 12_000)).toBe(0);
+  });
+});
+
+describe("timelinessRatingFromDamages", () => {
+  it("lowers the rating as damages grow", () => {
+    expect(timelinessRatingFromDamages({ delayDays: 0, percentOfContract: 0 })).toBe(5);
+    expect(timelinessRatingFromDamages({ delayDays: 10, percentOfContract: 0.2 })).toBe(4);
+    expect(timelinessRatingFromDamages({ delayDays: 50, percentOfContract: 5 })).toBe(2);
+    expect(timelinessRatingFromDamages({ delayDays: 100, percentOfContract: 10 })).toBe(1);
+  });
+});
@@ -0,0 +1,120 @@
+import type { Project, ProjectActualProgress } from "../drizzle/schema";
+import type { ContractTime } from "./contractTime";
+import { DAY_MS, round, toDay } from "./util";
+
+/**
+ * Liquidated damages for delay (RA 9184 IRR Annex E): one-tenth of one
+ * percent of the cost of the unperformed portion of the works for every day
+ * of delay past the revised completion date. Each day is charged on the
+ * portion still unperformed at the start of that day, taken from the latest
+ * actual progress report before it, so damages ease off as the contractor
+ * catches up. Once they reach 10% of the contract amount the contract may be
+ * rescinded.
+ */
+
+/** Daily rate applied to the unperformed portion (1/10 of 1%) */
+export const LD_DAILY_RATE = 0.001;
+
+/** Accumulated damages, as a percentage of the contract amount, that allow rescission */
+export const LD_RESCISSION_PERCENT = 10;
+
+type ProgressReport = Pick<ProjectActualProgress, "reportDate" | "actualPercent">;
+
+export type LiquidatedDamages = {
+  dueDate: Date | null;
+  delayEndDate: Date | null;
+  delayDays: number;
+  contractAmount: number;
+  accomplishedPercent: number;
+  unperformedAmount: number;
+  dailyAmount: number;
+  amount: number;
+  percentOfContract: number;
+  accruing: boolean;
+  rescissionThresholdReached: boolean;
+};
+
+/** Revised contract amount when VOs were approved, else the original contract cost */
+export function contractAmountForDamages(project: Pick<Project, "contractCost" | "revisedContractAmount">) {
+  return Number(project.revisedContractAmount ?? project.contractCost ?? 0);
+}
+
+/**
+ * Accomplishment (0-100) at the start of `day`: the latest report dated
+ * before it. Without any reports the project's stored progress is used.
+ */
+function accomplishedBefore(
+  project: Pick<Project, "progressPercent">,
+  reports: ProgressReport[],
+  day: number
+) {
+  if (reports.length === 0) return Number(project.progressPercent ?? 0) * 100;
+
+  let percent = 0;
+  for (const report of reports) {
+    if (toDay(report.reportDate) >= day) break;
+    percent = Number(report.actualPercent);
+  }
+  return percent;
+}
+
+export function computeLiquidatedDamages(
+  project: Pick<Project, "contractCost" | "revisedContractAmount" | "progressPercent" | "dateCompleted">,
+  time: Pick<ContractTime, "originalCompletionDate" | "revisedCompletionDate" | "suspendedSince">,
+  reports: ProgressReport[],
+  today = new Date()
+): LiquidatedDamages {
+  const contractAmount = contractAmountForDamages(project);
+  const dueDate = time.revisedCompletionDate ?? time.originalCompletionDate;
+  const delayEndDate = project.dateCompleted ?? time.suspendedSince ?? today;
+  const sorted = [...reports].sort((a, b) => toDay(a.reportDate) - toDay(b.reportDate));
+
+  const endDay = toDay(delayEndDate);
+  const accomplishedPercent = Math.min(100, accomplishedBefore(project, sorted, endDay + DAY_MS));
+  const unperformedAmount = round(contractAmount * (1 - accomplishedPercent / 100));
+
+  let delayDays = 0;
+  let amount = 0;
+  if (dueDate && contractAmount > 0) {
+    // Walk the delay one day at a time; contracts run months, not decades
+    for (let day = toDay(dueDate) + DAY_MS; day <= endDay; day += DAY_MS) {
+      const unperformed = 1 - Math.min(100, accomplishedBefore(project, sorted, day)) / 100;
+      delayDays++;
+      amount += contractAmount * unperformed * LD_DAILY_RATE;
+    }
+  }
+
+  const accruing = delayDays > 0 && !project.dateCompleted && !time.suspendedSince;
+  const percentOfContract = contractAmount > 0 ? round((amount / contractAmount) * 100) : 0;
+
+  return {
+    dueDate,
+    delayEndDate: dueDate ? new Date(delayEndDate) : null,
+    delayDays,
+    contractAmount,
+    accomplishedPercent,
+    unperformedAmount,
+    dailyAmount: accruing ? round(unperformedAmount * LD_DAILY_RATE) : 0,
+    amount: round(amount),
+    percentOfContract,
+    accruing,
+    rescissionThresholdReached: percentOfContract >= LD_RESCISSION_PERCENT,
+  };
+}
+
+/** Damages still to be withheld: accrued to date less what earlier billings already deducted */
+export function liquidatedDamagesDeduction(accrued: number, alreadyDeducted: number) {
+  return Math.max(0, round(accrued - alreadyDeducted));
+}
+
+/**
+ * Timeliness rating (1-5) suggested for a contractor evaluation from the
+ * damages the project incurred, as a share of the contract amount.
+ */
+export function timelinessRatingFromDamages(damages: Pick<LiquidatedDamages, "delayDays" | "percentOfContract">) {
+  if (damages.delayDays === 0) return 5;
+  if (damages.percentOfContract < 1) return 4;
+  if (damages.percentOfContract < 5) return 3;
+  if (damages.percentOfContract < LD_RESCISSION_PERCENT) return 2;
+  return 1;
+}
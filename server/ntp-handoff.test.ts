@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Bidding, ProgramOfWork } from "../drizzle/schema";
+import type { TrpcContext } from "./_core/context";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getBiddingById: vi.fn(),
+  getPOWById: vi.fn(),
+  getContractorById: vi.fn(),
+  findContractorByName: vi.fn(),
+  issueBiddingNtp: vi.fn(),
+  transitionBidding: vi.fn(),
+  updateBidding: vi.fn(),
+  deleteBidding: vi.fn(),
+  getContractorEligibility: vi.fn(),
+}));
+
+import {
+  deleteBidding,
+  findContractorByName,
+  getBiddingById,
+  getContractorById,
+  getContractorEligibility,
+  getPOWById,
+  issueBiddingNtp,
+  transitionBidding,
+  updateBidding,
+} from "./db";
+import { appRouter } from "./routers";
+import { buildNtpHandoff } from "./procurement";
+
+const bidding = {
+  id: 4,
+  biddingNumber: "BID-2026-004",
+  powId: 11,
+  projectTitle: "Rehabilitation of Roxas-Taytay Road",
+  abc: "10000000.00",
+  procurementMode: "Public Bidding",
+  status: "Contract Signing",
+  contractSigningDate: new Date("2026-04-01"),
+  winningBidder: "ABC Construction",
+  winningBidAmount: "9500000.00",
+  contractCost: "9500000.00",
+  projectId: null,
+} as Bidding;
+
+const pow = {
+  id: 11,
+  category: "Roads",
+  municipality: "Roxas",
+  location: "Brgy. Tumarbong",
+  fiscalYear: 2026,
+  sourceOfFund: "20% Development Fund",
+  calendarDays: 120,
+  projectId: null,
+} as ProgramOfWork;
+
+const contractor = { id: 8, name: "ABC Construction", tin: "123-456-789" };
+
+function createContext(): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "bac",
+      email: null,
+      name: "BAC Secretariat",
+      loginMethod: "manus",
+      role: "user",
+      division: "Admin",
+      position: null,
+      isDivisionHead: false,
+      approvalStatus: "approved",
+      approvedById: null,
+      approvalDate: null,
+      rejectionReason: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as TrpcContext["res"],
+  };
+}
+
+describe("buildNtpHandoff", () => {
+  it("carries POW and bidding details into the project and contract", () => {
+    const ntpDate = new Date("2026-04-10T00:00:00Z");
+    const { project, contract } = buildNtpHandoff({ bidding, pow, contractor, ntpDate, calendarDays: 120 });
+
+    expect(project).toMatchObject({
+      projectName: "Rehabilitation of Roxas-Taytay Road",
+      municipality: "Roxas",
+      projectCost: "10000000.00",
+      contractCost: "9500000.00",
+      contractor: "ABC Construction",
+      contractorTin: "123-456-789",
+      calendarDays: 120,
+      ntpDate,
+      status: "On going",
+    });
+    expect(project.targetCompletionDate).toEqual(new Date("2026-08-08T00:00:00Z"));
+    expect(contract).toMatchObject({
+      contractorId: 8,
+      biddingId: 4,
+      contractNumber: "BID-2026-004",
+      contractAmount: "9500000.00",
+      startDate: ntpDate,
+      originalCompletionDate: project.targetCompletionDate,
+    });
+  });
+});
+
+describe("biddings.issueNtp", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBiddingById).mockResolvedValue(bidding);
+    vi.mocked(getPOWById).mockResolvedValue(pow);
+    vi.mocked(findContractorByName).mockResolvedValue(contractor as never);
+    vi.mocked(issueBiddingNtp).mockResolvedValue({ projectId: 30, contractHistoryId: 12 });
+  });
+
+  it("hands the bidding over in a single call", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.biddings.issueNtp({ id: 4, ntpDate: "2026-04-10" });
+
+    expect(result).toEqual({ projectId: 30, contractHistoryId: 12 });
+    expect(findContractorByName).toHaveBeenCalledWith("ABC Construction");
+    expect(issueBiddingNtp).toHaveBeenCalledWith(
+      expect.objectContaining({
+        biddingId: 4,
+        powId: 11,
+        biddingUpdates: expect.objectContaining({ status: "NTP" }),
+        project: expect.objectContaining({ calendarDays: 120 }),
+        contract: expect.objectContaining({ contractorId: 8 }),
+      })
+    );
+  });
+
+  it("requires the bidding to be at contract signing", async () => {
+    vi.mocked(getBiddingById).mockResolvedValue({ ...bidding, status: "NOA" });
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.biddings.issueNtp({ id: 4, ntpDate: "2026-04-10" })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    expect(issueBiddingNtp).not.toHaveBeenCalled();
+  });
+
+  it("rejects winning bidders without a contractor record", async () => {
+    vi.mocked(findContractorByName).mockResolvedValue(undefined);
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.biddings.issueNtp({ id: 4, ntpDate: "2026-04-10" })).rejects.toThrow(
+      'No contractor record matches "ABC Construction"'
+    );
+  });
+
+  it("only hands the contract to the winning bidder", async () => {
+    vi.mocked(getContractorById).mockResolvedValue({ id: 9, name: "XYZ Builders", tin: "987-654-321" } as never);
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.biddings.issueNtp({ id: 4, ntpDate: "2026-04-10", contractorId: 9 })).rejects.toThrow(
+      'Contractor #9 is XYZ Builders, not the winning bidder "ABC Construction"'
+    );
+    expect(issueBiddingNtp).not.toHaveBeenCalled();
+  });
+
+  it("requires calendar days when the POW has none", async () => {
+    vi.mocked(getPOWById).mockResolvedValue({ ...pow, calendarDays: null });
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.biddings.issueNtp({ id: 4, ntpDate: "2026-04-10" })).rejects.toThrow("calendarDays is required");
+    await expect(
+      caller.biddings.issueNtp({ id: 4, ntpDate: "2026-04-10", calendarDays: 90 })
+    ).resolves.toEqual({ projectId: 30, contractHistoryId: 12 });
+  });
+});
+
+describe("biddings.transition to NTP", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBiddingById).mockResolvedValue(bidding);
+  });
+
+  it("cannot skip the project and contract handoff", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.biddings.transition({ id: 4, to: "NTP", date: "2026-04-10" })).rejects.toThrow(
+      "Use biddings.issueNtp"
+    );
+    expect(transitionBidding).not.toHaveBeenCalled();
+    expect(issueBiddingNtp).not.toHaveBeenCalled();
+  });
+});
+
+describe("biddings.update", () => {
+  const awarded = { ...bidding, status: "NTP", noaDate: new Date("2026-03-20"), ntpDate: new Date("2026-04-10") } as Bidding;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBiddingById).mockResolvedValue(awarded);
+    vi.mocked(updateBidding).mockResolvedValue({ success: true } as never);
+  });
+
+  it("keeps the dates of stages already reached", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.biddings.update({ id: 4, ntpDate: null })).rejects.toThrow(
+      "ntpDate cannot be cleared once the bidding has reached NTP"
+    );
+    await expect(caller.biddings.update({ id: 4, noaDate: "2026-03-25" })).rejects.toThrow(
+      "noaDate is already recorded as 2026-03-20"
+    );
+    expect(updateBidding).not.toHaveBeenCalled();
+
+    await caller.biddings.update({ id: 4, noaDate: "2026-03-20", remarks: "Checked" });
+    expect(updateBidding).toHaveBeenCalledTimes(1);
+  });
+
+  it("clears dates of stages not yet reached", async () => {
+    vi.mocked(getBiddingById).mockResolvedValue({ ...bidding, status: "Bid Opening", contractSigningDate: new Date("2026-04-01") });
+    const caller = appRouter.createCaller(createContext());
+
+    await caller.biddings.update({ id: 4, contractSigningDate: null });
+    expect(updateBidding).toHaveBeenCalledWith(4, expect.objectContaining({ contractSigningDate: null }));
+  });
+
+  it("locks the ABC and contract cost once awarded", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.biddings.update({ id: 4, abc: "11000000.00" })).rejects.toThrow(
+      "abc can no longer change once the Notice of Award is issued"
+    );
+    await expect(caller.biddings.update({ id: 4, contractCost: "9000000.00" })).rejects.toThrow(
+      "contractCost can no longer change once the Notice of Award is issued"
+    );
+    expect(updateBidding).not.toHaveBeenCalled();
+  });
+});
+
+describe("biddings.transition to NOA", () => {
+  const resolution = { ...bidding, status: "BAC Resolution", bacResolutionDate: new Date("2026-03-15"), winningBidder: null, contractCost: null } as Bidding;
+  const eligible = { id: 9, name: "XYZ Builders", tin: "987-654-321" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBiddingById).mockResolvedValue(resolution);
+    vi.mocked(getContractorById).mockResolvedValue(eligible as never);
+    vi.mocked(getContractorEligibility).mockResolvedValue(undefined);
+  });
+
+  it("refuses a winner name that is not the contractor checked for eligibility", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(
+      caller.biddings.transition({ id: 4, to: "NOA", date: "2026-03-20", contractorId: 9, winningBidder: "ABC Construction" })
+    ).rejects.toThrow('Contractor #9 is XYZ Builders, not "ABC Construction"');
+    expect(transitionBidding).not.toHaveBeenCalled();
+  });
+
+  it("awards the contractor record that was checked", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await caller.biddings.transition({ id: 4, to: "NOA", date: "2026-03-20", contractorId: 9, winningBidder: "xyz builders", winningBidAmount: "9500000.00" });
+    expect(getContractorEligibility).toHaveBeenCalledWith(9, expect.anything());
+    expect(transitionBidding).toHaveBeenCalledWith(4, expect.objectContaining({ status: "NOA", winningBidder: "XYZ Builders" }));
+  });
+});
+
+describe("biddings.delete", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(deleteBidding).mockResolvedValue({ success: true });
+  });
+
+  it("keeps biddings that have been awarded", async () => {
+    vi.mocked(getBiddingById).mockResolvedValue({ ...bidding, status: "NTP" });
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.biddings.delete({ id: 4 })).rejects.toThrow("BID-2026-004 is at NTP and can no longer be deleted");
+    expect(deleteBidding).not.toHaveBeenCalled();
+
+    vi.mocked(getBiddingById).mockResolvedValue({ ...bidding, status: "Failed" });
+    await expect(caller.biddings.delete({ id: 4 })).resolves.toEqual({ success: true });
+  });
+});
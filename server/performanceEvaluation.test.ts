@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Project } from "../drizzle/schema";
+import type { TrpcContext } from "./_core/context";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getProjectById: vi.fn(),
+  getContractEvaluations: vi.fn(),
+  createPerformanceRating: vi.fn(),
+  updatePerformanceRating: vi.fn(),
+}));
+
+import { createPerformanceRating, getContractEvaluations, getProjectById, updatePerformanceRating } from "./db";
+import { appRouter } from "./routers";
+import {
+  assertEvaluationAllowed,
+  assertRatingWeights,
+  buildScorecard,
+  contractorScore,
+  criterionRatings,
+  DEFAULT_RATING_WEIGHTS,
+  ratingBand,
+  weightedRating,
+} from "./performanceEvaluation";
+
+function evaluation(
+  id: number,
+  evaluationDate: string,
+  evaluationType: "Interim" | "Final" | "Post-Construction" | null,
+  ratings: [number, number, number, number, number]
+) {
+  const [qualityRating, timelinessRating, safetyRating, resourceRating, communicationRating] = ratings.map(rating =>
+    rating ? rating.toFixed(2) : null
+  );
+  const criteria = { qualityRating, timelinessRating, safetyRating, resourceRating, communicationRating };
+  return {
+    id,
+    projectId: 40 + id,
+    evaluationType,
+    evaluationDate: new Date(evaluationDate),
+    createdAt: new Date(evaluationDate),
+    overallRating: weightedRating(criterionRatings(criteria), DEFAULT_RATING_WEIGHTS)!.toFixed(2),
+    ...criteria,
+  };
+}
+
+describe("weightedRating", () => {
+  it("weighs each criterion and spreads the weight of unrated ones over the rest", () => {
+    const full = criterionRatings({ qualityRating: "5.00", timelinessRating: "3.00", safetyRating: "4.00", resourceRating: "4.00", communicationRating: "2.00" });
+    expect(weightedRating(full, DEFAULT_RATING_WEIGHTS)).toBe(3.9);
+
+    const partial = criterionRatings({ qualityRating: "5.00", timelinessRating: "3.00", safetyRating: null, resourceRating: "0", communicationRating: null });
+    expect(weightedRating(partial, DEFAULT_RATING_WEIGHTS)).toBe(4.17);
+    expect(weightedRating(criterionRatings({}), DEFAULT_RATING_WEIGHTS)).toBeNull();
+  });
+
+  it("requires weights that add up to 100", () => {
+    expect(() => assertRatingWeights(DEFAULT_RATING_WEIGHTS)).not.toThrow();
+    expect(() => assertRatingWeights({ ...DEFAULT_RATING_WEIGHTS, quality: 40 })).toThrow(
+      "Criterion weights must add up to 100; they add up to 105"
+    );
+  });
+});
+
+describe("ratingBand", () => {
+  it("classifies scores into bands", () => {
+    expect([4.6, 4.5, 3.9, 2.5, 1.6, 0.8, null].map(ratingBand)).toEqual([
+      "Outstanding",
+      "Outstanding",
+      "Very Satisfactory",
+      "Satisfactory",
+      "Fair",
+      "Poor",
+      null,
+    ]);
+  });
+});
+
+describe("assertEvaluationAllowed", () => {
+  it("enforces the interim threshold and the order of final and post-construction evaluations", () => {
+    expect(() => assertEvaluationAllowed("Interim", { accomplishmentPercent: 42.5, existing: [] })).toThrow(
+      "Interim evaluations are made from 50% accomplishment; the project is at 42.5%"
+    );
+    expect(() => assertEvaluationAllowed("Interim", { accomplishmentPercent: 55, existing: [] })).not.toThrow();
+    expect(() => assertEvaluationAllowed("Final", { accomplishmentPercent: 100, existing: [{ evaluationType: "Final" }] })).toThrow(
+      "This contract already has a final evaluation"
+    );
+    expect(() => assertEvaluationAllowed("Post-Construction", { accomplishmentPercent: 100, existing: [{ evaluationType: "Interim" }] })).toThrow(
+      "A post-construction evaluation follows the final evaluation"
+    );
+  });
+});
+
+describe("contractorScore", () => {
+  it("counts recent final evaluations more than old or interim ones", () => {
+    const asOf = new Date("2026-10-01");
+    const evaluations = [
+      evaluation(1, "2022-10-01", "Final", [2, 2, 2, 2, 2]),
+      evaluation(2, "2026-04-01", "Interim", [3, 3, 3, 3, 3]),
+      evaluation(3, "2026-09-01", "Final", [5, 5, 5, 5, 5]),
+    ];
+
+    // Weights: 0.25 (four years old), about 0.42 (interim, half a year), about 0.97
+    expect(contractorScore(evaluations, asOf)).toEqual({ score: 4.03, band: "Very Satisfactory" });
+    expect(contractorScore([], asOf)).toEqual({ score: null, band: null });
+  });
+});
+
+describe("buildScorecard", () => {
+  it("traces each criterion over time and flags its direction", () => {
+    const scorecard = buildScorecard(
+      [
+        evaluation(2, "2026-06-15", "Final", [4, 2, 4, 4, 4]),
+        evaluation(1, "2025-11-20", "Interim", [4, 4, 4, 3, 0]),
+        evaluation(3, "2026-12-01", "Post-Construction", [5, 5, 5, 5, 5]),
+      ],
+      DEFAULT_RATING_WEIGHTS,
+      new Date("2026-10-01")
+    );
+
+    expect(scorecard.evaluationCount).toBe(2);
+    expect(scorecard.evaluationsByType).toEqual({ Interim: 1, Final: 1, "Post-Construction": 0 });
+
+    const timeliness = scorecard.criteria.find(entry => entry.criterion === "timeliness")!;
+    expect(timeliness.trend.map(point => [point.evaluationDate, point.rating])).toEqual([
+      ["2025-11-20", 4],
+      ["2026-06-15", 2],
+    ]);
+    expect(timeliness).toMatchObject({ weight: 25, direction: "Declining" });
+
+    const communication = scorecard.criteria.find(entry => entry.criterion === "communication")!;
+    expect(communication).toMatchObject({ score: 4, direction: "Steady" });
+    expect(communication.trend).toHaveLength(1);
+  });
+});
+
+describe("performanceRatings.create", () => {
+  const caller = appRouter.createCaller({
+    user: {
+      id: 9,
+      openId: "qa",
+      email: null,
+      name: "Quality Engineer",
+      loginMethod: "manus",
+      role: "user",
+      division: "Quality",
+      position: null,
+      isDivisionHead: false,
+      approvalStatus: "approved",
+      approvedById: null,
+      approvalDate: null,
+      rejectionReason: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as TrpcContext["res"],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getProjectById).mockResolvedValue({ id: 41, progressPercent: "0.35" } as Project);
+    vi.mocked(getContractEvaluations).mockResolvedValue([]);
+    vi.mocked(createPerformanceRating).mockResolvedValue({ id: 1 } as never);
+  });
+
+  it("takes the accomplishment from the project, not the request", async () => {
+    await expect(
+      caller.performanceRatings.create({ contractorId: 8, projectId: 41, evaluationType: "Interim", accomplishmentPercent: 80 })
+    ).rejects.toThrow("the project is at 35%");
+    expect(createPerformanceRating).not.toHaveBeenCalled();
+  });
+
+  it("rates each criterion from 0 to 5", async () => {
+    await expect(
+      caller.performanceRatings.create({ contractorId: 8, projectId: 41, evaluationType: "Interim", qualityRating: "50" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    await expect(caller.performanceRatings.update({ id: 5, safetyRating: "five" })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(createPerformanceRating).not.toHaveBeenCalled();
+    expect(updatePerformanceRating).not.toHaveBeenCalled();
+  });
+
+  it("keeps the evaluation date when an update leaves it out", async () => {
+    vi.mocked(updatePerformanceRating).mockResolvedValue({ success: true });
+    await caller.performanceRatings.update({ id: 5, qualityRating: "4.5" });
+    expect(updatePerformanceRating).toHaveBeenCalledWith(5, { qualityRating: "4.5", evaluationDate: undefined });
+  });
+
+  it("requires an evaluation type", async () => {
+    await expect(
+      caller.performanceRatings.create({ contractorId: 8, projectId: 41 } as never)
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(createPerformanceRating).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,196 @@
+import { TRPCError } from "@trpc/server";
+import type { PerformanceRating, RatingWeights } from "../drizzle/schema";
+import { DAY_MS, dayKey, round } from "./util";
+
+/**
+ * CPES-style contractor performance evaluation. Each evaluation rates up to
+ * five criteria from 0 to 5, and its overall rating is their weighted
+ * average, with the weights of unrated criteria spread over the rest.
+ * Interim evaluations are made once the project is at least half done, a
+ * contract gets one final evaluation, and a post-construction evaluation
+ * follows the final one. A contractor's score averages its evaluations,
+ * counting interim ones at half weight and halving the weight of an
+ * evaluation every two years.
+ */
+
+export const RATING_CRITERIA = ["quality", "timeliness", "safety", "resource", "communication"] as const;
+
+export type Criterion = (typeof RATING_CRITERIA)[number];
+
+/** Weights (percent) used until the Quality division sets its own */
+export const DEFAULT_RATING_WEIGHTS: RatingWeights = {
+  quality: 35,
+  timeliness: 25,
+  safety: 15,
+  resource: 15,
+  communication: 10,
+};
+
+export const EVALUATION_TYPES = ["Interim", "Final", "Post-Construction"] as const;
+
+export type EvaluationType = (typeof EVALUATION_TYPES)[number];
+
+/** Project accomplishment (%) from which an interim evaluation may be made */
+export const INTERIM_MIN_ACCOMPLISHMENT = 50;
+
+/** Weight of each type of evaluation in the contractor's score; untyped (older) ratings count as final */
+export const EVALUATION_TYPE_WEIGHTS: Record<EvaluationType, number> = {
+  Interim: 0.5,
+  Final: 1,
+  "Post-Construction": 1,
+};
+
+/** Age, in days, at which an evaluation counts half as much as a new one */
+export const RECENCY_HALF_LIFE_DAYS = 730;
+
+/** Lowest score of each rating band, best first */
+export const RATING_BANDS = [
+  { band: "Outstanding", min: 4.5 },
+  { band: "Very Satisfactory", min: 3.5 },
+  { band: "Satisfactory", min: 2.5 },
+  { band: "Fair", min: 1.5 },
+  { band: "Poor", min: 0 },
+] as const;
+
+export type RatingBand = (typeof RATING_BANDS)[number]["band"];
+
+type RatedEvaluation = Pick<
+  PerformanceRating,
+  | "id"
+  | "projectId"
+  | "evaluationType"
+  | "evaluationDate"
+  | "createdAt"
+  | "overallRating"
+  | "qualityRating"
+  | "timelinessRating"
+  | "safetyRating"
+  | "resourceRating"
+  | "communicationRating"
+>;
+
+type TrendPoint = {
+  evaluationId: number;
+  projectId: number | null;
+  evaluationType: EvaluationType | null;
+  evaluationDate: string;
+  rating: number;
+};
+
+export function assertRatingWeights(weights: RatingWeights) {
+  const total = RATING_CRITERIA.reduce((sum, criterion) => sum + weights[criterion], 0);
+  if (RATING_CRITERIA.some(criterion => weights[criterion] < 0) || Math.abs(total - 100) > 0.01) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Criterion weights must add up to 100; they add up to ${round(total)}` });
+  }
+}
+
+/** Ratings given, by criterion; criteria left blank or at 0 are unrated */
+export function criterionRatings(rating: Partial<Record<`${Criterion}Rating`, string | number | null>>) {
+  return Object.fromEntries(
+    RATING_CRITERIA.map(criterion => {
+      const value = Number(rating[`${criterion}Rating`] ?? 0);
+      return [criterion, value > 0 ? value : null];
+    })
+  ) as Record<Criterion, number | null>;
+}
+
+/** Overall rating of one evaluation, or null when no criterion was rated */
+export function weightedRating(ratings: Record<Criterion, number | null>, weights: RatingWeights) {
+  const rated = RATING_CRITERIA.filter(criterion => ratings[criterion] !== null && weights[criterion] > 0);
+  const totalWeight = rated.reduce((sum, criterion) => sum + weights[criterion], 0);
+  if (totalWeight === 0) return null;
+  return round(rated.reduce((sum, criterion) => sum + ratings[criterion]! * weights[criterion], 0) / totalWeight);
+}
+
+export function ratingBand(score: number | null): RatingBand | null {
+  if (score === null) return null;
+  return RATING_BANDS.find(entry => score >= entry.min)!.band;
+}
+
+/**
+ * Check that an evaluation of this type may be added to the contract given
+ * its accomplishment and the evaluations it already has.
+ */
+export function assertEvaluationAllowed(
+  evaluationType: EvaluationType,
+  opts: { accomplishmentPercent: number | null; existing: Pick<PerformanceRating, "evaluationType">[] }
+) {
+  if (evaluationType === "Interim" && (opts.accomplishmentPercent ?? 0) < INTERIM_MIN_ACCOMPLISHMENT) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Interim evaluations are made from ${INTERIM_MIN_ACCOMPLISHMENT}% accomplishment; the project is at ${opts.accomplishmentPercent ?? 0}%`,
+    });
+  }
+  if (evaluationType === "Final" && opts.existing.some(evaluation => evaluation.evaluationType === "Final")) {
+    throw new TRPCError({ code: "CONFLICT", message: "This contract already has a final evaluation" });
+  }
+  if (evaluationType === "Post-Construction" && !opts.existing.some(evaluation => evaluation.evaluationType === "Final")) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "A post-construction evaluation follows the final evaluation" });
+  }
+}
+
+function evaluationDate(evaluation: Pick<RatedEvaluation, "evaluationDate" | "createdAt">) {
+  return new Date(evaluation.evaluationDate ?? evaluation.createdAt);
+}
+
+/** Weight of an evaluation in the contractor's score as of `asOf` */
+export function evaluationWeight(evaluation: Pick<RatedEvaluation, "evaluationType" | "evaluationDate" | "createdAt">, asOf: Date) {
+  const ageDays = Math.max(0, (asOf.getTime() - evaluationDate(evaluation).getTime()) / DAY_MS);
+  return EVALUATION_TYPE_WEIGHTS[evaluation.evaluationType ?? "Final"] * 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+function recencyWeightedAverage(points: { rating: number; weight: number }[]) {
+  const totalWeight = points.reduce((sum, point) => sum + point.weight, 0);
+  if (totalWeight === 0) return null;
+  return round(points.reduce((sum, point) => sum + point.rating * point.weight, 0) / totalWeight);
+}
+
+/** Recency-weighted score of a contractor from its evaluations up to `asOf` */
+export function contractorScore(evaluations: Pick<RatedEvaluation, "overallRating" | "evaluationType" | "evaluationDate" | "createdAt">[], asOf: Date) {
+  const score = recencyWeightedAverage(
+    evaluations
+      .filter(evaluation => Number(evaluation.overallRating ?? 0) > 0 && evaluationDate(evaluation) <= asOf)
+      .map(evaluation => ({ rating: Number(evaluation.overallRating), weight: evaluationWeight(evaluation, asOf) }))
+  );
+  return { score, band: ratingBand(score) };
+}
+
+function direction(trend: TrendPoint[]) {
+  if (trend.length < 2) return "Steady" as const;
+  const change = trend[trend.length - 1].rating - trend[trend.length - 2].rating;
+  if (change >= 0.25) return "Improving" as const;
+  if (change <= -0.25) return "Declining" as const;
+  return "Steady" as const;
+}
+
+/** Contractor score with each criterion's recency-weighted rating and its trend over time */
+export function buildScorecard(evaluations: RatedEvaluation[], weights: RatingWeights, asOf: Date) {
+  const considered = evaluations
+    .filter(evaluation => evaluationDate(evaluation) <= asOf)
+    .sort((a, b) => evaluationDate(a).getTime() - evaluationDate(b).getTime() || a.id - b.id);
+
+  const criteria = RATING_CRITERIA.map(criterion => {
+    const rated = considered.filter(evaluation => criterionRatings(evaluation)[criterion] !== null);
+    const trend: TrendPoint[] = rated.map(evaluation => ({
+      evaluationId: evaluation.id,
+      projectId: evaluation.projectId,
+      evaluationType: evaluation.evaluationType,
+      evaluationDate: dayKey(evaluationDate(evaluation)),
+      rating: criterionRatings(evaluation)[criterion]!,
+    }));
+    const score = recencyWeightedAverage(
+      rated.map((evaluation, index) => ({ rating: trend[index].rating, weight: evaluationWeight(evaluation, asOf) }))
+    );
+    return { criterion, weight: weights[criterion], score, band: ratingBand(score), direction: direction(trend), trend };
+  });
+
+  return {
+    asOf: dayKey(asOf),
+    ...contractorScore(considered, asOf),
+    evaluationCount: considered.length,
+    evaluationsByType: Object.fromEntries(
+      EVALUATION_TYPES.map(type => [type, considered.filter(evaluation => (evaluation.evaluationType ?? "Final") === type).length])
+    ) as Record<EvaluationType, number>,
+    criteria,
+  };
+}
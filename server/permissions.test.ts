@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { canMutate, checkPermission, PERMISSION_MATRIX, type Division } from "./permissions";
+import { NOT_APPROVED_ERR_MSG, NOT_DIVISION_ERR_MSG } from "../shared/const";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createUser(overrides: Partial<AuthenticatedUser> = {}): AuthenticatedUser {
+  return {
+    id: 1,
+    openId: "test-user",
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    division: null,
+    position: null,
+    isDivisionHead: false,
+    approvalStatus: "approved",
+    approvedById: null,
+    approvalDate: null,
+    rejectionReason: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+    ...overrides,
+  };
+}
+
+function createContext(user: AuthenticatedUser | null): TrpcContext {
+  return {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: () => {},
+    } as TrpcContext["res"],
+  };
+}
+
+function callerFor(user: AuthenticatedUser | null) {
+  return appRouter.createCaller(createContext(user));
+}
+
+const member = (division: Division, isDivisionHead = false) =>
+  createUser({ division, isDivisionHead });
+
+// Allowed callers get past the middleware and fail later on the missing
+// database; anything other than FORBIDDEN/UNAUTHORIZED means they were let in.
+async function expectAllowed(promise: Promise<unknown>) {
+  const error = await promise.then(() => null, (e: { code?: string }) => e);
+  expect(error?.code).not.toBe("FORBIDDEN");
+  expect(error?.code).not.toBe("UNAUTHORIZED");
+}
+
+describe("checkPermission", () => {
+  it("lets admin-role users through every resource", () => {
+    const admin = createUser({ role: "admin", approvalStatus: "pending" });
+    for (const resource of Object.keys(PERMISSION_MATRIX)) {
+      expect(canMutate(admin, resource as keyof typeof PERMISSION_MATRIX)).toBe(true);
+    }
+  });
+
+  it("rejects pending and rejected users regardless of division", () => {
+    const pending = createUser({ division: "Planning", approvalStatus: "pending" });
+    const rejected = createUser({ division: "Planning", approvalStatus: "rejected" });
+
+    expect(checkPermission(pending, "pow")).toEqual({ allowed: false, message: NOT_APPROVED_ERR_MSG });
+    expect(checkPermission(rejected, "pow")).toEqual({ allowed: false, message: NOT_APPROVED_ERR_MSG });
+  });
+
+  it("rejects users without a division", () => {
+    expect(checkPermission(createUser(), "documents")).toEqual({
+      allowed: false,
+      message: NOT_DIVISION_ERR_MSG,
+    });
+  });
+
+  it("requires division heads where the rule says so", () => {
+    expect(canMutate(member("Maintenance"), "schedules")).toBe(false);
+    expect(canMutate(member("Maintenance", true), "schedules")).toBe(true);
+    expect(canMutate(member("Quality"), "personnel")).toBe(false);
+    expect(canMutate(member("Quality", true), "personnel")).toBe(true);
+  });
+});
+
+describe("router permissions", () => {
+  it("rejects anonymous mutations with UNAUTHORIZED", async () => {
+    await expect(callerFor(null).pow.delete({ id: 1 })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("rejects pending users with FORBIDDEN", async () => {
+    const pending = createUser({ division: "Admin", approvalStatus: "pending" });
+    await expect(callerFor(pending).biddings.delete({ id: 1 })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: NOT_APPROVED_ERR_MSG,
+    });
+  });
+
+  it("projects: Planning and Construction only", async () => {
+    await expect(callerFor(member("Maintenance")).projects.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Construction")).projects.delete({ id: 1 }));
+    await expectAllowed(callerFor(member("Planning")).projects.delete({ id: 1 }));
+  });
+
+  it("documents and tasks: any division", async () => {
+    await expect(callerFor(createUser()).documents.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Quality")).documents.delete({ id: 1 }));
+    await expectAllowed(callerFor(member("Maintenance")).tasks.delete({ id: 1 }));
+  });
+
+  it("budgets: Admin and Planning heads only", async () => {
+    await expect(callerFor(member("Planning")).budgets.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(callerFor(member("Construction", true)).budgets.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Planning", true)).budgets.delete({ id: 1 }));
+  });
+
+  it("pow: Planning only", async () => {
+    await expect(callerFor(member("Construction")).pow.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Planning")).pow.delete({ id: 1 }));
+  });
+
+  it("biddings: BAC (Admin division) or admin role only", async () => {
+    await expect(callerFor(member("Planning")).biddings.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Admin")).biddings.delete({ id: 1 }));
+    await expectAllowed(callerFor(createUser({ role: "admin" })).biddings.delete({ id: 1 }));
+  });
+
+  it("personnel: division heads only", async () => {
+    await expect(callerFor(member("Construction")).personnel.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Construction", true)).personnel.delete({ id: 1 }));
+  });
+
+  it("contractors, contract history and ratings", async () => {
+    await expect(callerFor(member("Construction")).contractors.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Admin")).contractors.delete({ id: 1 }));
+    await expect(callerFor(member("Planning")).contractHistory.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Construction")).contractHistory.delete({ id: 1 }));
+    await expect(callerFor(member("Admin")).performanceRatings.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Quality")).performanceRatings.delete({ id: 1 }));
+  });
+
+  it("rating weights: Construction and Quality heads only", async () => {
+    const weights = { quality: 40, timeliness: 20, safety: 15, resource: 15, communication: 10 };
+    await expect(callerFor(member("Quality")).performanceRatings.weights.set(weights)).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Quality", true)).performanceRatings.weights.set(weights));
+  });
+
+  it("users: admin role only, including reads", async () => {
+    await expect(callerFor(member("Admin", true)).users.list()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(callerFor(member("Admin", true)).users.delete({ id: 2 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(createUser({ role: "admin" })).users.list());
+  });
+
+  it("users.delete refuses to delete the caller's own account", async () => {
+    const admin = createUser({ id: 7, role: "admin" });
+    await expect(callerFor(admin).users.delete({ id: 7 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("maintenance routers: Maintenance only, schedules need a head", async () => {
+    await expect(callerFor(member("Planning")).equipment.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Maintenance")).equipment.delete({ id: 1 }));
+    await expect(callerFor(member("Maintenance")).schedules.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Maintenance", true)).schedules.delete({ id: 1 }));
+    await expect(callerFor(member("Quality")).assignments.delete({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expectAllowed(callerFor(member("Maintenance")).assignments.delete({ id: 1 }));
+  });
+
+  it("audit log: approved users only", async () => {
+    const pending = createUser({ division: "Admin", approvalStatus: "pending" });
+    await expect(callerFor(pending).audit.list()).rejects.toMatchObject({ code: "FORBIDDEN", message: NOT_APPROVED_ERR_MSG });
+    await expect(callerFor(pending).audit.forEntity({ entityType: "users", entityId: 1 })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expectAllowed(callerFor(member("Planning")).audit.list());
+  });
+
+  it("keeps reads public", async () => {
+    const result = await callerFor(null).biddings.list();
+    expect(result).toHaveProperty("biddings");
+  });
+});
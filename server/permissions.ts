@@ -0,0 +1,144 @@
+import { NOT_APPROVED_ERR_MSG, NOT_DIVISION_ERR_MSG } from "@shared/const";
+import { TRPCError } from "@trpc/server";
+import type { User } from "../drizzle/schema";
+import { protectedProcedure } from "./_core/trpc";
+import { withAuditTrail } from "./audit";
+
+export type Division = NonNullable<User["division"]>;
+
+/**
+ * Router-level resources guarded by the permission matrix.
+ * Keys match the sub-router names in `appRouter`, except `ratingWeights`
+ * for `performanceRatings.weights`.
+ */
+export type Resource =
+  | "projects"
+  | "documents"
+  | "tasks"
+  | "budgets"
+  | "pow"
+  | "unitCosts"
+  | "biddings"
+  | "personnel"
+  | "contractors"
+  | "contractHistory"
+  | "performanceRatings"
+  | "ratingWeights"
+  | "users"
+  | "roads"
+  | "equipment"
+  | "schedules"
+  | "assignments"
+  | "sequences";
+
+export type PermissionRule = {
+  /** Divisions allowed to mutate the resource ("any" = every division) */
+  divisions: Division[] | "any";
+  /** Only division heads of the allowed divisions may mutate */
+  headsOnly?: boolean;
+};
+
+/**
+ * Who may mutate what. Admin-role users bypass the matrix entirely;
+ * everyone else must be approved and belong to an allowed division.
+ * An empty division list means the resource is admin-role only.
+ */
+export const PERMISSION_MATRIX: Record<Resource, PermissionRule> = {
+  projects: { divisions: ["Planning", "Construction"] },
+  documents: { divisions: "any" },
+  tasks: { divisions: "any" },
+  budgets: { divisions: ["Admin", "Planning"], headsOnly: true },
+  pow: { divisions: ["Planning"] },
+  unitCosts: { divisions: ["Planning"] },
+  // Bids and Awards Committee secretariat sits under the Admin division
+  biddings: { divisions: ["Admin"] },
+  personnel: { divisions: "any", headsOnly: true },
+  contractors: { divisions: ["Admin"] },
+  contractHistory: { divisions: ["Admin", "Construction"] },
+  performanceRatings: { divisions: ["Construction", "Quality"] },
+  // The weights change every contractor's score, so only the division heads set them
+  ratingWeights: { divisions: ["Construction", "Quality"], headsOnly: true },
+  users: { divisions: [] },
+  roads: { divisions: ["Maintenance"] },
+  equipment: { divisions: ["Maintenance"] },
+  schedules: { divisions: ["Maintenance"], headsOnly: true },
+  assignments: { divisions: ["Maintenance"] },
+  sequences: { divisions: [] },
+};
+
+export type PermissionCheck =
+  | { allowed: true }
+  | { allowed: false; message: string };
+
+/**
+ * Evaluate the permission matrix for a user and resource.
+ * Kept separate from the middleware so the UI and tests can reuse it.
+ */
+export function checkPermission(
+  user: Pick<User, "role" | "division" | "isDivisionHead" | "approvalStatus">,
+  resource: Resource
+): PermissionCheck {
+  if (user.role === "admin") {
+    return { allowed: true };
+  }
+
+  if (user.approvalStatus !== "approved") {
+    return { allowed: false, message: NOT_APPROVED_ERR_MSG };
+  }
+
+  const rule = PERMISSION_MATRIX[resource];
+  const inDivision =
+    user.division != null &&
+    (rule.divisions === "any" || rule.divisions.includes(user.division));
+
+  if (!inDivision || (rule.headsOnly && !user.isDivisionHead)) {
+    return { allowed: false, message: NOT_DIVISION_ERR_MSG };
+  }
+
+  return { allowed: true };
+}
+
+export function canMutate(
+  user: Pick<User, "role" | "division" | "isDivisionHead" | "approvalStatus">,
+  resource: Resource
+) {
+  return checkPermission(user, resource).allowed;
+}
+
+/**
+ * Procedure that requires a logged-in, approved user whose division
+ * is allowed to mutate the given resource. Mutations are written to the audit log.
+ */
+export function divisionProcedure(resource: Resource) {
+  return protectedProcedure
+    .use(async opts => {
+      const { ctx, next } = opts;
+      const result = checkPermission(ctx.user, resource);
+
+      if (!result.allowed) {
+        throw new TRPCError({ code: "FORBIDDEN", message: result.message });
+      }
+
+      return next({ ctx });
+    })
+    .use(async opts => {
+      const { ctx, type, path, getRawInput, next } = opts;
+      if (type !== "mutation") return next();
+
+      return withAuditTrail({ user: ctx.user, path, getRawInput, next: () => next() });
+    });
+}
+
+/**
+ * Procedure for reads that only approved users (and admins) may see.
+ * Pending or rejected accounts stay logged in but get nothing back.
+ */
+export const approvedProcedure = protectedProcedure.use(async opts => {
+  const { ctx, next } = opts;
+
+  if (ctx.user.role !== "admin" && ctx.user.approvalStatus !== "approved") {
+    throw new TRPCError({ code: "FORBIDDEN", message: NOT_APPROVED_ERR_MSG });
+  }
+
+  return next({ ctx });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { assertAbcEditable, assertAbcMatchesEstimate, computeEstimate, defaultMarkups, itemCosts } from "./powEstimate";
+
+const items = [
+  { quantity: 1, materialUnitCost: 0, laborUnitCost: 45000, equipmentUnitCost: 30000 },
+  { quantity: 850.5, materialUnitCost: 1200, laborUnitCost: 150.25, equipmentUnitCost: 320 },
+  { quantity: 120, materialUnitCost: 6500, laborUnitCost: 1800 },
+];
+
+describe("itemCosts", () => {
+  it("adds the unit cost components before multiplying by quantity", () => {
+    expect(itemCosts(items[1])).toEqual({ unitCost: 1670.25, directCost: 1420547.63 });
+  });
+});
+
+describe("computeEstimate", () => {
+  it("builds the ABC from direct cost, OCM, profit and VAT", () => {
+    expect(computeEstimate(items)).toEqual({
+      directCost: 2491547.63,
+      ocmPercent: 15,
+      ocmAmount: 373732.14,
+      profitPercent: 10,
+      profitAmount: 249154.76,
+      vatPercent: 12,
+      vatAmount: 373732.14,
+      totalCost: 3488166.67,
+    });
+  });
+
+  it("uses the rates given instead of the bracket defaults", () => {
+    const estimate = computeEstimate([{ quantity: 100, materialUnitCost: 1000 }], { ocmPercent: 10, vatPercent: 5 });
+    expect(estimate).toMatchObject({ ocmAmount: 10000, profitPercent: 10, profitAmount: 10000, vatAmount: 6000, totalCost: 126000 });
+  });
+});
+
+describe("defaultMarkups", () => {
+  it("lowers OCM and profit for larger contracts", () => {
+    expect(defaultMarkups(5_000_000)).toEqual({ ocmPercent: 15, profitPercent: 10 });
+    expect(defaultMarkups(5_000_000.01)).toEqual({ ocmPercent: 12, profitPercent: 8 });
+    expect(defaultMarkups(200_000_000)).toEqual({ ocmPercent: 8, profitPercent: 8 });
+  });
+});
+
+describe("assertAbcEditable", () => {
+  it("locks the ABC once a linked bidding is advertised", () => {
+    expect(() =>
+      assertAbcEditable([
+        { biddingNumber: "BID-2026-0001", status: "Failed" },
+        { biddingNumber: "BID-2026-0002", status: "Pre-Procurement" },
+      ])
+    ).not.toThrow();
+    expect(() => assertAbcEditable([{ biddingNumber: "BID-2026-0003", status: "Advertisement" }])).toThrow(
+      "The ABC is already published in BID-2026-0003 (Advertisement); the estimate can no longer change it"
+    );
+  });
+});
+
+describe("assertAbcMatchesEstimate", () => {
+  it("keeps a bidding's ABC on the latest estimate", () => {
+    const estimate = { version: 3, totalCost: "4850000.00" };
+    expect(() => assertAbcMatchesEstimate("4850000", estimate)).not.toThrow();
+    expect(() => assertAbcMatchesEstimate("5000000.00", undefined)).not.toThrow();
+    expect(() => assertAbcMatchesEstimate("5000000.00", estimate)).toThrow(
+      "The ABC must match version 3 of the POW estimate (4850000.00); save a new estimate to change it"
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { TRPCError } from "@trpc/server";
+import type { Bidding, PowEstimate } from "../drizzle/schema";
+import { normalizeBiddingStatus } from "./procurement";
+import { round } from "./util";
+
+/**
+ * Detailed estimate of a Program of Works. Each item of work costs
+ * quantity x (material + labor + equipment unit cost); their sum is the
+ * estimated direct cost (EDC). OCM and contractor's profit are percentages of
+ * the EDC, VAT is levied on EDC + OCM + profit, and the total is the ABC.
+ */
+
+/** Default OCM and profit by EDC bracket; an estimate may override either */
+export const MARKUP_BRACKETS = [
+  { upTo: 5_000_000, ocmPercent: 15, profitPercent: 10 },
+  { upTo: 50_000_000, ocmPercent: 12, profitPercent: 8 },
+  { upTo: 150_000_000, ocmPercent: 10, profitPercent: 8 },
+  { upTo: Infinity, ocmPercent: 8, profitPercent: 8 },
+] as const;
+
+export const DEFAULT_VAT_PERCENT = 12;
+
+/** A bidding's ABC follows the estimate only until the bidding is advertised */
+const ABC_EDITABLE_STATUSES = ["Pre-Procurement", "Failed"];
+
+export type EstimateItemInput = {
+  quantity: number;
+  materialUnitCost?: number;
+  laborUnitCost?: number;
+  equipmentUnitCost?: number;
+};
+
+export type EstimateRates = { ocmPercent: number; profitPercent: number; vatPercent: number };
+
+export type EstimateTotals = EstimateRates & {
+  directCost: number;
+  ocmAmount: number;
+  profitAmount: number;
+  vatAmount: number;
+  totalCost: number;
+};
+
+export function itemCosts(item: EstimateItemInput) {
+  const unitCost = round((item.materialUnitCost ?? 0) + (item.laborUnitCost ?? 0) + (item.equipmentUnitCost ?? 0));
+  return { unitCost, directCost: round(item.quantity * unitCost) };
+}
+
+export function defaultMarkups(directCost: number) {
+  const bracket = MARKUP_BRACKETS.find(entry => directCost <= entry.upTo) ?? MARKUP_BRACKETS[MARKUP_BRACKETS.length - 1];
+  return { ocmPercent: bracket.ocmPercent, profitPercent: bracket.profitPercent };
+}
+
+/** EDC, markups and ABC of a set of items; rates not given fall back to the defaults */
+export function computeEstimate(items: EstimateItemInput[], rates: Partial<EstimateRates> = {}): EstimateTotals {
+  const directCost = round(items.reduce((sum, item) => sum + itemCosts(item).directCost, 0));
+  const defaults = defaultMarkups(directCost);
+  const ocmPercent = rates.ocmPercent ?? defaults.ocmPercent;
+  const profitPercent = rates.profitPercent ?? defaults.profitPercent;
+  const vatPercent = rates.vatPercent ?? DEFAULT_VAT_PERCENT;
+
+  const ocmAmount = round((directCost * ocmPercent) / 100);
+  const profitAmount = round((directCost * profitPercent) / 100);
+  const vatAmount = round(((directCost + ocmAmount + profitAmount) * vatPercent) / 100);
+
+  return {
+    directCost,
+    ocmPercent,
+    ocmAmount,
+    profitPercent,
+    profitAmount,
+    vatPercent,
+    vatAmount,
+    totalCost: round(directCost + ocmAmount + profitAmount + vatAmount),
+  };
+}
+
+/** Refuse a new estimate once a linked bidding has published its ABC */
+export function assertAbcEditable(biddings: Pick<Bidding, "biddingNumber" | "status">[]) {
+  const locked = biddings.filter(bidding => !ABC_EDITABLE_STATUSES.includes(normalizeBiddingStatus(bidding.status)));
+  if (locked.length > 0) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `The ABC is already published in ${locked
+        .map(bidding => `${bidding.biddingNumber} (${normalizeBiddingStatus(bidding.status)})`)
+        .join(", ")}; the estimate can no longer change it`,
+    });
+  }
+}
+
+/** A bidding on a POW with an estimate must carry the latest estimate's total as its ABC */
+export function assertAbcMatchesEstimate(abc: string | number, estimate: Pick<PowEstimate, "version" | "totalCost"> | undefined) {
+  if (!estimate || Number(abc).toFixed(2) === Number(estimate.totalCost).toFixed(2)) return;
+  throw new TRPCError({
+    code: "BAD_REQUEST",
+    message: `The ABC must match version ${estimate.version} of the POW estimate (${Number(estimate.totalCost).toFixed(2)}); save a new estimate to change it`,
+  });
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import type { Bidding } from "../drizzle/schema";
+import { assertAwaitingNtp, assertWinnerEditable, getAllowedTransitions, normalizeBiddingStatus, planTransition } from "./procurement";
+
+function createBidding(overrides: Partial<Bidding> = {}): Bidding {
+  return {
+    id: 1,
+    biddingNumber: "BID-2026-001",
+    powId: null,
+    projectTitle: "Concreting of Brgy. Road",
+    abc: "5000000.00",
+    procurementMode: "Public Bidding",
+    status: "Pre-Procurement",
+    preProcurementDate: new Date("2026-01-05"),
+    advertisementDate: null,
+    preBidDate: null,
+    bidSubmissionDeadline: null,
+    bidOpeningDate: null,
+    bidEvaluationDate: null,
+    postQualificationDate: null,
+    bacResolutionDate: null,
+    noaDate: null,
+    contractSigningDate: null,
+    ntpDate: null,
+    winningBidder: null,
+    winningBidAmount: null,
+    contractCost: null,
+    numberOfBidders: null,
+    failedBiddingCount: 0,
+    failedReason: null,
+    projectId: null,
+    remarks: null,
+    createdById: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("getAllowedTransitions", () => {
+  it("only allows the next stage from Pre-Procurement", () => {
+    expect(getAllowedTransitions(createBidding())).toEqual(["Advertisement"]);
+  });
+
+  it("allows failure during the bidding stages", () => {
+    expect(getAllowedTransitions(createBidding({ status: "Bid Evaluation" }))).toEqual([
+      "Post-Qualification",
+      "Failed",
+    ]);
+  });
+
+  it("lets small contracts skip the pre-bid conference", () => {
+    expect(getAllowedTransitions(createBidding({ status: "Advertisement", abc: "900000.00" }))).toContain("Bid Opening");
+    expect(getAllowedTransitions(createBidding({ status: "Advertisement" }))).not.toContain("Bid Opening");
+  });
+
+  it("loops a failed bidding back to re-advertisement", () => {
+    expect(getAllowedTransitions(createBidding({ status: "Failed" }))).toEqual(["Pre-Procurement", "Advertisement"]);
+  });
+
+  it("ends at NTP", () => {
+    expect(getAllowedTransitions(createBidding({ status: "NTP" }))).toEqual([]);
+  });
+
+  it("maps the legacy Awarded status to NOA", () => {
+    expect(normalizeBiddingStatus("Awarded")).toBe("NOA");
+    expect(getAllowedTransitions(createBidding({ status: "Awarded" }))).toEqual(["Contract Signing"]);
+  });
+});
+
+describe("planTransition", () => {
+  it("rejects skipping stages", () => {
+    expect(() => planTransition(createBidding(), { to: "Bid Opening", date: new Date() })).toThrow(
+      "Cannot move bidding from Pre-Procurement to Bid Opening"
+    );
+  });
+
+  it("requires the matching stage date", () => {
+    expect(() => planTransition(createBidding(), { to: "Advertisement" })).toThrow(
+      "advertisementDate is required"
+    );
+  });
+
+  it("uses a stage date already on record", () => {
+    const updates = planTransition(createBidding({ advertisementDate: new Date("2026-01-10") }), {
+      to: "Advertisement",
+    });
+    expect(updates.status).toBe("Advertisement");
+    expect(updates.advertisementDate).toEqual(new Date("2026-01-10"));
+  });
+
+  it("rejects stage dates earlier than the previous stage", () => {
+    expect(() =>
+      planTransition(createBidding(), { to: "Advertisement", date: new Date("2026-01-01") })
+    ).toThrow("advertisementDate cannot be earlier than preProcurementDate");
+  });
+
+  it("increments the failed bidding count and requires a reason", () => {
+    const bidding = createBidding({ status: "Bid Opening", failedBiddingCount: 1 });
+
+    expect(() => planTransition(bidding, { to: "Failed" })).toThrow("A reason is required");
+
+    const updates = planTransition(bidding, { to: "Failed", failedReason: "No bids received" });
+    expect(updates.failedBiddingCount).toBe(2);
+    expect(updates.failedReason).toBe("No bids received");
+  });
+
+  it("clears later stage dates on re-bid", () => {
+    const bidding = createBidding({
+      status: "Failed",
+      advertisementDate: new Date("2026-01-10"),
+      preBidDate: new Date("2026-01-20"),
+      bidOpeningDate: new Date("2026-02-01"),
+    });
+
+    expect(() => planTransition(bidding, { to: "Advertisement" })).toThrow("advertisementDate is required");
+
+    const updates = planTransition(bidding, { to: "Advertisement", date: new Date("2026-02-15") });
+    expect(updates.advertisementDate).toEqual(new Date("2026-02-15"));
+    expect(updates.preBidDate).toBeNull();
+    expect(updates.bidOpeningDate).toBeNull();
+  });
+
+  it("requires a winning bidder within the ABC for NOA", () => {
+    const bidding = createBidding({ status: "BAC Resolution", bacResolutionDate: new Date("2026-03-01") });
+
+    expect(() => planTransition(bidding, { to: "NOA", date: new Date("2026-03-05") })).toThrow(
+      "winningBidder is required"
+    );
+    expect(() =>
+      planTransition(bidding, {
+        to: "NOA",
+        date: new Date("2026-03-05"),
+        winningBidder: "ABC Construction",
+        winningBidAmount: "6000000.00",
+      })
+    ).toThrow("winningBidAmount cannot exceed the ABC");
+
+    const updates = planTransition(bidding, {
+      to: "NOA",
+      date: new Date("2026-03-05"),
+      winningBidder: "ABC Construction",
+      winningBidAmount: "4800000.00",
+    });
+    expect(updates.winningBidder).toBe("ABC Construction");
+    expect(updates.noaDate).toEqual(new Date("2026-03-05"));
+  });
+
+  it("defaults the contract cost to the winning bid at contract signing", () => {
+    const bidding = createBidding({
+      status: "NOA",
+      noaDate: new Date("2026-03-05"),
+      winningBidder: "ABC Construction",
+      winningBidAmount: "4800000.00",
+    });
+    const updates = planTransition(bidding, { to: "Contract Signing", date: new Date("2026-03-10") });
+    expect(updates.contractCost).toBe("4800000.00");
+  });
+});
+
+describe("assertWinnerEditable", () => {
+  const awarded = { biddingNumber: "BID-2026-0007", status: "NOA", winningBidder: "ABC Construction", winningBidAmount: "950000.00" };
+
+  it("locks the winner once the Notice of Award is issued", () => {
+    expect(() => assertWinnerEditable(awarded, { winningBidder: "XYZ Builders" })).toThrow(
+      "BID-2026-0007 is already awarded; the winning bidder and bid amount can no longer change"
+    );
+    expect(() => assertWinnerEditable({ ...awarded, status: "Contract Signing" }, { winningBidAmount: "900000" })).toThrow();
+    expect(() => assertWinnerEditable(awarded, { winningBidder: "ABC Construction", winningBidAmount: "950000" })).not.toThrow();
+    expect(() => assertWinnerEditable({ ...awarded, status: "BAC Resolution" }, { winningBidder: "XYZ Builders" })).not.toThrow();
+  });
+});
+
+describe("assertAwaitingNtp", () => {
+  it("hands a bidding over only once, from contract signing", () => {
+    expect(() => assertAwaitingNtp({ biddingNumber: "BID-2026-0007", status: "Contract Signing" })).not.toThrow();
+    expect(() => assertAwaitingNtp({ biddingNumber: "BID-2026-0007", status: "NTP" })).toThrow(
+      "BID-2026-0007 is at NTP; the Notice to Proceed is issued from Contract Signing"
+    );
+    expect(() => assertAwaitingNtp({ biddingNumber: "BID-2026-0007", status: "Awarded" })).toThrow("is at NOA");
+  });
+});
@@ -0,0 +1,354 @@
+import { TRPCError } from "@trpc/server";
+import type { Bidding, Contractor, InsertContractHistory, InsertProject, ProgramOfWork } from "../drizzle/schema";
+import { DAY_MS, dayKey, toDay } from "./util";
+
+/**
+ * Bidding stages under RA 9184 (competitive bidding), in the order the
+ * BAC must go through them, plus the Failed state for failure of bidding.
+ */
+export const BIDDING_STAGES = [
+  "Pre-Procurement",
+  "Advertisement",
+  "Pre-Bid",
+  "Bid Opening",
+  "Bid Evaluation",
+  "Post-Qualification",
+  "BAC Resolution",
+  "NOA",
+  "Contract Signing",
+  "NTP",
+] as const;
+
+export const BIDDING_STATUSES = [...BIDDING_STAGES, "Failed"] as const;
+
+export type BiddingStage = (typeof BIDDING_STAGES)[number];
+export type BiddingStatus = (typeof BIDDING_STATUSES)[number];
+
+type StageDateField =
+  | "preProcurementDate"
+  | "advertisementDate"
+  | "preBidDate"
+  | "bidOpeningDate"
+  | "bidEvaluationDate"
+  | "postQualificationDate"
+  | "bacResolutionDate"
+  | "noaDate"
+  | "contractSigningDate"
+  | "ntpDate";
+
+/** Date column that must be filled in when a bidding enters each stage */
+export const STAGE_DATE_FIELDS: Record<BiddingStage, StageDateField> = {
+  "Pre-Procurement": "preProcurementDate",
+  Advertisement: "advertisementDate",
+  "Pre-Bid": "preBidDate",
+  "Bid Opening": "bidOpeningDate",
+  "Bid Evaluation": "bidEvaluationDate",
+  "Post-Qualification": "postQualificationDate",
+  "BAC Resolution": "bacResolutionDate",
+  NOA: "noaDate",
+  "Contract Signing": "contractSigningDate",
+  NTP: "ntpDate",
+};
+
+/** Pre-bid conference is only mandatory for contracts with an ABC of PHP 1M or more */
+export const PRE_BID_THRESHOLD = 1_000_000;
+
+/** Stages during which the BAC may declare a failure of bidding */
+const FAILABLE_STAGES: BiddingStage[] = [
+  "Advertisement",
+  "Pre-Bid",
+  "Bid Opening",
+  "Bid Evaluation",
+  "Post-Qualification",
+  "BAC Resolution",
+];
+
+/** Statuses written before the state machine existed */
+const LEGACY_STATUSES: Record<string, BiddingStatus> = {
+  Awarded: "NOA",
+};
+
+export function normalizeBiddingStatus(status: string | null | undefined): BiddingStatus {
+  if (!status) return "Pre-Procurement";
+  if (status in LEGACY_STATUSES) return LEGACY_STATUSES[status];
+  return (BIDDING_STATUSES as readonly string[]).includes(status)
+    ? (status as BiddingStatus)
+    : "Pre-Procurement";
+}
+
+/** Statuses that count as awarded for POW and stats purposes */
+export const AWARDED_STATUSES: BiddingStatus[] = ["NOA", "Contract Signing", "NTP"];
+
+/**
+ * Statuses a bidding may move to next. A failed bidding loops back to
+ * re-advertisement (or a fresh pre-procurement conference if the scope changed).
+ */
+export function getAllowedTransitions(bidding: Pick<Bidding, "status" | "abc">): BiddingStatus[] {
+  const current = normalizeBiddingStatus(bidding.status);
+
+  if (current === "Failed") {
+    return ["Pre-Procurement", "Advertisement"];
+  }
+
+  const index = BIDDING_STAGES.indexOf(current);
+  const allowed: BiddingStatus[] = [];
+  const next = BIDDING_STAGES[index + 1];
+  if (next) allowed.push(next);
+
+  if (current === "Advertisement" && Number(bidding.abc) < PRE_BID_THRESHOLD) {
+    allowed.push("Bid Opening");
+  }
+
+  if (FAILABLE_STAGES.includes(current)) {
+    allowed.push("Failed");
+  }
+
+  return allowed;
+}
+
+/**
+ * The winner is checked for eligibility when the Notice of Award is issued,
+ * so from then on it can no longer be changed outside a transition.
+ */
+export function assertWinnerEditable(
+  bidding: Pick<Bidding, "biddingNumber" | "status" | "winningBidder" | "winningBidAmount">,
+  input: { winningBidder?: string; winningBidAmount?: string }
+) {
+  if (!AWARDED_STATUSES.includes(normalizeBiddingStatus(bidding.status))) return;
+  const bidderChanged =
+    input.winningBidder !== undefined && input.winningBidder.trim().toLowerCase() !== (bidding.winningBidder ?? "").trim().toLowerCase();
+  const amountChanged =
+    input.winningBidAmount !== undefined && Number(input.winningBidAmount) !== Number(bidding.winningBidAmount);
+  if (bidderChanged || amountChanged) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${bidding.biddingNumber} is already awarded; the winning bidder and bid amount can no longer change`,
+    });
+  }
+}
+
+/**
+ * Dates of the stages a bidding has reached (and, from NOA, its ABC and
+ * contract cost) are part of its record: they can be entered if missing
+ * but not cleared or changed by a plain edit. A failed bidding keeps the
+ * dates on record from the failed round.
+ */
+export function assertStageRecordKept(
+  bidding: Bidding,
+  input: Partial<Record<StageDateField, string | null>> & { abc?: string; contractCost?: string }
+) {
+  const current = normalizeBiddingStatus(bidding.status);
+  const reached = current === "Failed" ? -1 : BIDDING_STAGES.indexOf(current);
+  const errors: string[] = [];
+
+  BIDDING_STAGES.forEach((stage, index) => {
+    const field = STAGE_DATE_FIELDS[stage];
+    const value = input[field];
+    const onRecord = bidding[field];
+    const locked = current === "Failed" ? onRecord != null : index <= reached;
+    if (value === undefined || !locked) return;
+    if (!value) {
+      errors.push(`${field} cannot be cleared once the bidding has reached ${stage}`);
+    } else if (onRecord && dayKey(value) !== dayKey(onRecord)) {
+      errors.push(`${field} is already recorded as ${dayKey(onRecord)}`);
+    }
+  });
+
+  if (AWARDED_STATUSES.includes(current)) {
+    if (input.abc !== undefined && Number(input.abc) !== Number(bidding.abc)) {
+      errors.push("abc can no longer change once the Notice of Award is issued");
+    }
+    if (input.contractCost !== undefined && bidding.contractCost != null && Number(input.contractCost) !== Number(bidding.contractCost)) {
+      errors.push("contractCost can no longer change once the Notice of Award is issued");
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: errors.join("; ") });
+  }
+}
+
+/**
+ * An awarded bidding backs the POW's award and, from NTP, a project and
+ * contract history, so it can no longer be deleted.
+ */
+export function assertBiddingDeletable(bidding: Pick<Bidding, "biddingNumber" | "status">) {
+  const current = normalizeBiddingStatus(bidding.status);
+  if (AWARDED_STATUSES.includes(current)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${bidding.biddingNumber} is at ${current} and can no longer be deleted`,
+    });
+  }
+}
+
+/**
+ * A bidding is handed over at NTP only once, from Contract Signing. The
+ * handoff re-checks this on the locked row so two concurrent calls cannot
+ * both create a project and contract.
+ */
+export function assertAwaitingNtp(bidding: Pick<Bidding, "biddingNumber" | "status">) {
+  const current = normalizeBiddingStatus(bidding.status);
+  if (current !== "Contract Signing") {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `${bidding.biddingNumber} is at ${current}; the Notice to Proceed is issued from Contract Signing`,
+    });
+  }
+}
+
+export type TransitionInput = {
+  to: BiddingStatus;
+  /** Date for the stage being entered (required unless already on record) */
+  date?: Date | null;
+  failedReason?: string;
+  winningBidder?: string;
+  winningBidAmount?: string;
+  contractCost?: string;
+};
+
+/**
+ * Validate a transition and return the column updates to apply.
+ * Throws BAD_REQUEST with every problem found so the BAC can fix them at once.
+ */
+export function planTransition(bidding: Bidding, input: TransitionInput) {
+  const current = normalizeBiddingStatus(bidding.status);
+  const errors: string[] = [];
+
+  if (!getAllowedTransitions(bidding).includes(input.to)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Cannot move bidding from ${current} to ${input.to}`,
+    });
+  }
+
+  const updates: Partial<Bidding> = { status: input.to };
+
+  if (input.to === "Failed") {
+    if (!input.failedReason?.trim()) {
+      errors.push("A reason is required to declare a failure of bidding");
+    }
+    updates.failedReason = input.failedReason ?? null;
+    updates.failedBiddingCount = (bidding.failedBiddingCount ?? 0) + 1;
+  } else {
+    const field = STAGE_DATE_FIELDS[input.to];
+    // A re-bid starts a new round, so the stage date on record belongs to the failed one
+    const onRecord = current === "Failed" ? null : bidding[field];
+    const date = input.date ?? onRecord;
+
+    if (!date) {
+      errors.push(`${field} is required to move to ${input.to}`);
+    } else {
+      updates[field] = new Date(date);
+
+      const previousIndex = BIDDING_STAGES.indexOf(input.to) - 1;
+      const previous = previousIndex >= 0 ? bidding[STAGE_DATE_FIELDS[BIDDING_STAGES[previousIndex]]] : null;
+      if (previous && current !== "Failed" && toDay(date) < toDay(previous)) {
+        errors.push(`${field} cannot be earlier than ${STAGE_DATE_FIELDS[BIDDING_STAGES[previousIndex]]}`);
+      }
+    }
+
+    if (current === "Failed") {
+      // Clear every later stage date from the failed round
+      const from = BIDDING_STAGES.indexOf(input.to) + 1;
+      BIDDING_STAGES.slice(from).forEach(stage => {
+        updates[STAGE_DATE_FIELDS[stage]] = null;
+      });
+      updates.failedReason = null;
+    }
+  }
+
+  if (input.to === "NOA") {
+    const winningBidder = input.winningBidder ?? bidding.winningBidder;
+    const winningBidAmount = input.winningBidAmount ?? bidding.winningBidAmount;
+    if (!winningBidder) errors.push("winningBidder is required to issue a Notice of Award");
+    if (!winningBidAmount) errors.push("winningBidAmount is required to issue a Notice of Award");
+    if (winningBidAmount && Number(winningBidAmount) > Number(bidding.abc)) {
+      errors.push("winningBidAmount cannot exceed the ABC");
+    }
+    updates.winningBidder = winningBidder;
+    updates.winningBidAmount = winningBidAmount;
+  }
+
+  if (input.to === "Contract Signing") {
+    updates.contractCost = input.contractCost ?? bidding.contractCost ?? bidding.winningBidAmount;
+  }
+
+  if (errors.length > 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: errors.join("; ") });
+  }
+
+  return updates;
+}
+
+export function addCalendarDays(date: Date, days: number) {
+  return new Date(new Date(date).getTime() + days * DAY_MS);
+}
+
+/**
+ * Project columns the handoff fills in when the bidding is linked to a
+ * project that already exists. Its progress, status and POW details are
+ * left as they are.
+ */
+export const NTP_PROJECT_FIELDS = [
+  "contractCost",
+  "calendarDays",
+  "ntpDate",
+  "targetCompletionDate",
+  "procurementMode",
+  "contractor",
+  "contractorTin",
+  "contractorId",
+] as const satisfies readonly (keyof InsertProject)[];
+
+/**
+ * Build the project and contract history rows created when a bidding
+ * receives its Notice to Proceed, carrying over the POW details so staff
+ * do not have to retype them.
+ */
+export function buildNtpHandoff(opts: {
+  bidding: Bidding;
+  pow?: ProgramOfWork;
+  contractor: Pick<Contractor, "id" | "name" | "tin">;
+  ntpDate: Date;
+  calendarDays: number;
+  contractNumber?: string;
+}) {
+  const { bidding, pow, contractor, ntpDate, calendarDays } = opts;
+  const contractCost = bidding.contractCost ?? bidding.winningBidAmount;
+  const targetCompletionDate = addCalendarDays(ntpDate, calendarDays);
+
+  const project: InsertProject = {
+    projectName: bidding.projectTitle,
+    category: pow?.category ?? null,
+    description: pow?.description ?? null,
+    location: pow?.location ?? null,
+    municipality: pow?.municipality ?? null,
+    fiscalYear: pow?.fiscalYear ?? ntpDate.getFullYear(),
+    sourceOfFund: pow?.sourceOfFund ?? null,
+    projectCost: bidding.abc,
+    contractCost,
+    calendarDays,
+    ntpDate,
+    targetCompletionDate,
+    procurementMode: bidding.procurementMode,
+    contractor: contractor.name,
+    contractorTin: contractor.tin,
+    contractorId: contractor.id,
+    status: "On going",
+    progressPercent: "0",
+  };
+
+  const contract: Omit<InsertContractHistory, "projectId"> = {
+    contractorId: contractor.id,
+    biddingId: bidding.id,
+    contractNumber: opts.contractNumber ?? bidding.biddingNumber,
+    projectTitle: bidding.projectTitle,
+    contractAmount: contractCost,
+    startDate: ntpDate,
+    originalCompletionDate: targetCompletionDate,
+    status: "Ongoing",
+  };
+
+  return { project, contract };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { DEFAULT_ROAD_SHEET, diffRoadInventory, parseRoadWorkbook } from "./roadInventory";
+
+function createWorkbook(rows: unknown[][], sheetName = DEFAULT_ROAD_SHEET) {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["Summary"]]), "Summary");
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+const inventory = createWorkbook([
+  ["No.", "Road ID", "Road Name", "Length", "", "Concrete", "Asphalt", "Earth", "Gravel", "Condition"],
+  [null, "MUNICIPALITY OF ROXAS"],
+  [1, "R-001", "Roxas-Taytay Road", 12.5, null, 10, 2.5, null, null, "Good"],
+  [2, "R-002", "Tumarbong Road ", "3.2", null, null, null, 3.2, null, "Impassable"],
+  [null, null, "SUB-TOTAL", 15.7],
+  [null, "MUNICIPALITY OF TAYTAY"],
+  [1, "T-001", "Poblacion Road", 4, null, 4, null, null, null, "Fair"],
+]);
+
+describe("parseRoadWorkbook", () => {
+  it("reads roads under their municipality headers", () => {
+    const roads = parseRoadWorkbook(inventory);
+
+    expect(roads.map(road => [road.roadId, road.municipality])).toEqual([
+      ["R-001", "ROXAS"],
+      ["R-002", "ROXAS"],
+      ["T-001", "TAYTAY"],
+    ]);
+    expect(roads[0]).toMatchObject({ lengthKm: "12.5", concreteLengthKm: "10", roadCondition: "Good" });
+    expect(roads[1]).toMatchObject({ roadName: "Tumarbong Road", earthLengthKm: "3.2", roadCondition: null });
+  });
+
+  it("finds the inventory sheet by name and rejects unknown sheets", () => {
+    const renamed = createWorkbook([[null, "MUNICIPALITY OF ROXAS"], [1, "R-001", "Road", 1]], "Road Inventory 2025");
+
+    expect(parseRoadWorkbook(renamed)).toHaveLength(1);
+    expect(() => parseRoadWorkbook(renamed, "2023")).toThrow('Sheet "2023" not found');
+  });
+});
+
+describe("diffRoadInventory", () => {
+  const existing = [
+    {
+      id: 1,
+      roadId: "R-001",
+      roadName: "Roxas-Taytay Road",
+      municipality: "ROXAS",
+      lengthKm: "12.500",
+      concreteLengthKm: "10.000",
+      asphaltLengthKm: "2.500",
+      earthLengthKm: null,
+      gravelLengthKm: null,
+      roadCondition: "Good" as const,
+    },
+    {
+      id: 2,
+      roadId: "R-002",
+      roadName: "Tumarbong Road",
+      municipality: "ROXAS",
+      lengthKm: "3.000",
+      concreteLengthKm: null,
+      asphaltLengthKm: null,
+      earthLengthKm: "3.000",
+      gravelLengthKm: null,
+      roadCondition: "Poor" as const,
+    },
+  ];
+
+  it("splits roads into new, changed and unchanged by roadId", () => {
+    const diff = diffRoadInventory(existing, parseRoadWorkbook(inventory));
+
+    expect(diff.unchanged).toEqual(["R-001"]);
+    expect(diff.created.map(road => road.roadId)).toEqual(["T-001"]);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0]).toMatchObject({
+      id: 2,
+      roadId: "R-002",
+      changes: {
+        lengthKm: { before: "3.000", after: "3.2" },
+        earthLengthKm: { before: "3.000", after: "3.2" },
+        roadCondition: { before: "Poor", after: null },
+      },
+    });
+  });
+
+  it("uses the first row for road IDs listed twice", () => {
+    const parsed = parseRoadWorkbook(inventory);
+    const diff = diffRoadInventory([], [...parsed, { ...parsed[0], roadName: "Copy" }]);
+
+    expect(diff.created).toHaveLength(3);
+    expect(diff.duplicates).toEqual(["R-001"]);
+  });
+});
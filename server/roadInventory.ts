@@ -0,0 +1,171 @@
+import * as XLSX from "xlsx";
+import type { InsertProvincialRoad, ProvincialRoad } from "../drizzle/schema";
+import { ROAD_CONDITIONS, type RoadCondition } from "./roadSurveys";
+
+/**
+ * Parsing and diffing for the provincial road inventory workbook
+ * (LISTOFPROVINCIALROAD.xlsx). Shared by roads.importWorkbook and
+ * scripts/import-roads.mjs so both read the sheet the same way.
+ */
+
+/** Sheet with the cleanest data in the 2024 inventory workbook */
+export const DEFAULT_ROAD_SHEET = " road inventory 2024";
+
+export type ParsedRoad = {
+  roadId: string;
+  roadName: string;
+  municipality: string;
+  lengthKm: string | null;
+  concreteLengthKm: string | null;
+  asphaltLengthKm: string | null;
+  earthLengthKm: string | null;
+  gravelLengthKm: string | null;
+  roadCondition: RoadCondition | null;
+};
+
+/** Fields compared when deciding whether an existing road changed */
+export const ROAD_IMPORT_FIELDS = [
+  "roadName",
+  "municipality",
+  "lengthKm",
+  "concreteLengthKm",
+  "asphaltLengthKm",
+  "earthLengthKm",
+  "gravelLengthKm",
+  "roadCondition",
+] as const satisfies readonly (keyof ParsedRoad & keyof InsertProvincialRoad)[];
+
+function parseNum(value: unknown) {
+  if (value === undefined || value === null || value === "") return null;
+  const num = parseFloat(String(value));
+  return isNaN(num) ? null : String(num);
+}
+
+/** Pick the requested sheet, else the road inventory sheet, else the first one */
+function findSheet(workbook: XLSX.WorkBook, sheetName?: string) {
+  if (sheetName) {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) throw new Error(`Sheet "${sheetName}" not found in workbook`);
+    return sheet;
+  }
+
+  const name =
+    workbook.SheetNames.find(candidate => candidate === DEFAULT_ROAD_SHEET) ??
+    workbook.SheetNames.find(candidate => /road inventory/i.test(candidate)) ??
+    workbook.SheetNames[0];
+  return workbook.Sheets[name];
+}
+
+/**
+ * Read road rows from the inventory sheet. Roads are listed under
+ * "MUNICIPALITY OF ..." header rows; headings, sub-total and length rows are skipped.
+ * Columns: B road ID, C name, D length, F concrete, G asphalt, H earth, I gravel, J condition.
+ */
+export function parseRoadWorkbook(data: Buffer | ArrayBuffer, sheetName?: string) {
+  const workbook = XLSX.read(data, { type: "buffer" });
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(findSheet(workbook, sheetName), { header: 1 });
+
+  const roads: ParsedRoad[] = [];
+  let currentMunicipality = "";
+
+  for (const row of rows) {
+    if (!row || row.length === 0) continue;
+
+    const firstCell = String(row[1] ?? "").trim();
+    if (firstCell.startsWith("MUNICIPALITY OF")) {
+      currentMunicipality = firstCell.replace("MUNICIPALITY OF ", "").trim();
+      continue;
+    }
+
+    // Anything above the first municipality header is title/column headings
+    if (!currentMunicipality) continue;
+
+    const roadId = row[1];
+    const roadName = row[2];
+    if (!roadId || !roadName || typeof roadName !== "string") continue;
+    if (roadName.includes("SUB-TOTAL") || roadName.includes("LENGTH")) continue;
+
+    const condition = row[9] ? String(row[9]).trim() : null;
+
+    roads.push({
+      roadId: String(roadId).trim(),
+      roadName: roadName.trim(),
+      municipality: currentMunicipality,
+      lengthKm: parseNum(row[3]),
+      concreteLengthKm: parseNum(row[5]),
+      asphaltLengthKm: parseNum(row[6]),
+      earthLengthKm: parseNum(row[7]),
+      gravelLengthKm: parseNum(row[8]),
+      roadCondition: ROAD_CONDITIONS.includes(condition as RoadCondition) ? (condition as RoadCondition) : null,
+    });
+  }
+
+  return roads;
+}
+
+const NUMERIC_FIELDS = new Set<string>([
+  "lengthKm",
+  "concreteLengthKm",
+  "asphaltLengthKm",
+  "earthLengthKm",
+  "gravelLengthKm",
+]);
+
+// Decimal columns come back as "12.500" while the workbook gives 12.5
+function sameValue(field: string, before: unknown, after: unknown) {
+  if (before == null || after == null) return before == null && after == null;
+  if (NUMERIC_FIELDS.has(field)) return Number(before) === Number(after);
+  return String(before).trim() === String(after).trim();
+}
+
+export type RoadImportDiff = {
+  created: ParsedRoad[];
+  changed: {
+    id: number;
+    roadId: string;
+    road: ParsedRoad;
+    changes: Record<string, { before: unknown; after: unknown }>;
+  }[];
+  unchanged: string[];
+  /** Road IDs listed more than once in the workbook; only the first row is used */
+  duplicates: string[];
+};
+
+/** Compare parsed workbook rows against the inventory by roadId */
+export function diffRoadInventory(
+  existing: Pick<ProvincialRoad, "id" | "roadId" | (typeof ROAD_IMPORT_FIELDS)[number]>[],
+  parsed: ParsedRoad[]
+): RoadImportDiff {
+  const byRoadId = new Map(existing.filter(road => road.roadId).map(road => [road.roadId!, road]));
+  const seen = new Set<string>();
+  const diff: RoadImportDiff = { created: [], changed: [], unchanged: [], duplicates: [] };
+
+  for (const road of parsed) {
+    if (seen.has(road.roadId)) {
+      diff.duplicates.push(road.roadId);
+      continue;
+    }
+    seen.add(road.roadId);
+
+    const current = byRoadId.get(road.roadId);
+    if (!current) {
+      diff.created.push(road);
+      continue;
+    }
+
+    const changes: Record<string, { before: unknown; after: unknown }> = {};
+    for (const field of ROAD_IMPORT_FIELDS) {
+      if (!sameValue(field, current[field], road[field])) {
+        changes[field] = { before: current[field] ?? null, after: road[field] };
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      diff.changed.push({ id: current.id, roadId: road.roadId, road, changes });
+    } else {
+      diff.unchanged.push(road.roadId);
+    }
+  }
+
+  return diff;
+}
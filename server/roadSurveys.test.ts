@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { assertSurveySegment, conditionTrend, currentRoadCondition, overlaySurveys, type SurveySegment } from "./roadSurveys";
+
+function segment(
+  surveyDate: string,
+  kmStart: number,
+  kmEnd: number,
+  condition: SurveySegment["condition"],
+  roadId = 1
+): SurveySegment {
+  return {
+    roadId,
+    surveyDate: new Date(surveyDate),
+    kmStart: kmStart.toFixed(3),
+    kmEnd: kmEnd.toFixed(3),
+    condition,
+    surfaceType: "Concrete",
+  };
+}
+
+describe("overlaySurveys", () => {
+  it("lets a newer survey supersede the stretch it covers", () => {
+    const intervals = overlaySurveys([
+      segment("2026-02-01", 2, 4, "Poor"),
+      segment("2025-03-01", 0, 10, "Good"),
+    ]);
+
+    expect(intervals.map(i => [i.kmStart, i.kmEnd, i.condition])).toEqual([
+      [0, 2, "Good"],
+      [2, 4, "Poor"],
+      [4, 10, "Good"],
+    ]);
+  });
+
+  it("ignores segments that end before they start", () => {
+    expect(overlaySurveys([segment("2026-01-01", 5, 5, "Bad")])).toEqual([]);
+  });
+});
+
+describe("currentRoadCondition", () => {
+  it("rates the road by the condition covering the most kilometers", () => {
+    const current = currentRoadCondition([
+      segment("2025-03-01", 0, 10, "Good"),
+      segment("2026-02-01", 0, 6, "Fair"),
+    ]);
+
+    expect(current.km).toEqual({ good: 4, fair: 6, poor: 0, bad: 0, total: 10 });
+    expect(current.condition).toBe("Fair");
+    expect(current.lastSurveyDate).toEqual(new Date("2026-02-01"));
+  });
+
+  it("breaks ties toward the worse condition", () => {
+    const current = currentRoadCondition([
+      segment("2026-01-01", 0, 3, "Good"),
+      segment("2026-01-01", 3, 6, "Poor"),
+    ]);
+    expect(current.condition).toBe("Poor");
+  });
+
+  it("has no condition without surveys", () => {
+    expect(currentRoadCondition([]).condition).toBeNull();
+  });
+});
+
+describe("conditionTrend", () => {
+  it("reports kilometers per municipality as of each year", () => {
+    const rows = conditionTrend([
+      { ...segment("2024-05-01", 0, 8, "Good", 1), municipality: "Roxas" },
+      { ...segment("2026-05-01", 0, 3, "Bad", 1), municipality: "Roxas" },
+      { ...segment("2025-05-01", 0, 2, "Fair", 2), municipality: "Taytay" },
+    ]);
+
+    expect(rows).toEqual([
+      { municipality: "Roxas", year: 2024, good: 8, fair: 0, poor: 0, bad: 0, total: 8 },
+      { municipality: "Roxas", year: 2025, good: 8, fair: 0, poor: 0, bad: 0, total: 8 },
+      { municipality: "Roxas", year: 2026, good: 5, fair: 0, poor: 0, bad: 3, total: 8 },
+      { municipality: "Taytay", year: 2024, good: 0, fair: 0, poor: 0, bad: 0, total: 0 },
+      { municipality: "Taytay", year: 2025, good: 0, fair: 2, poor: 0, bad: 0, total: 2 },
+      { municipality: "Taytay", year: 2026, good: 0, fair: 2, poor: 0, bad: 0, total: 2 },
+    ]);
+  });
+
+  it("limits the trend to the requested years", () => {
+    const rows = conditionTrend([{ ...segment("2024-05-01", 0, 1, "Good"), municipality: "Roxas" }], {
+      fromYear: 2025,
+      toYear: 2025,
+    });
+    expect(rows).toEqual([{ municipality: "Roxas", year: 2025, good: 1, fair: 0, poor: 0, bad: 0, total: 1 }]);
+  });
+});
+
+describe("assertSurveySegment", () => {
+  it("keeps surveyed segments within the road", () => {
+    const road = { lengthKm: "12.500" };
+    expect(() => assertSurveySegment({ kmStart: 10, kmEnd: 12.5 }, road)).not.toThrow();
+    expect(() => assertSurveySegment({ kmStart: 10, kmEnd: 13 }, road)).toThrow("Segment ends at km 13 but the road is only 12.5 km long");
+    expect(() => assertSurveySegment({ kmStart: 4, kmEnd: 4 }, road)).toThrow("kmEnd must be greater than kmStart");
+    expect(() => assertSurveySegment({ kmStart: 10, kmEnd: 40 }, { lengthKm: null })).not.toThrow();
+  });
+});
@@ -0,0 +1,169 @@
+import { TRPCError } from "@trpc/server";
+import type { ProvincialRoad, RoadConditionSurvey } from "../drizzle/schema";
+import { round } from "./util";
+
+/**
+ * Road condition survey math. Surveys are recorded per kilometer segment;
+ * a later survey of the same stretch supersedes the earlier reading, so the
+ * condition of a road at any point in time is the overlay of every segment
+ * surveyed up to then, newest on top.
+ */
+
+export const ROAD_CONDITIONS = ["Good", "Fair", "Poor", "Bad"] as const;
+export type RoadCondition = (typeof ROAD_CONDITIONS)[number];
+
+export type SurveySegment = Pick<
+  RoadConditionSurvey,
+  "roadId" | "surveyDate" | "kmStart" | "kmEnd" | "condition" | "surfaceType"
+>;
+
+export type ConditionInterval = {
+  kmStart: number;
+  kmEnd: number;
+  condition: RoadCondition;
+  surfaceType: SurveySegment["surfaceType"];
+  surveyDate: Date;
+};
+
+export type ConditionKm = { good: number; fair: number; poor: number; bad: number; total: number };
+
+const CONDITION_KEYS: Record<RoadCondition, keyof Omit<ConditionKm, "total">> = {
+  Good: "good",
+  Fair: "fair",
+  Poor: "poor",
+  Bad: "bad",
+};
+
+/** A surveyed segment must run forward and stay within the road's length */
+export function assertSurveySegment(segment: { kmStart: number; kmEnd: number }, road: Pick<ProvincialRoad, "lengthKm">) {
+  const errors: string[] = [];
+  if (segment.kmEnd <= segment.kmStart) errors.push("kmEnd must be greater than kmStart");
+  if (road.lengthKm != null && segment.kmEnd > Number(road.lengthKm)) {
+    errors.push(`Segment ends at km ${segment.kmEnd} but the road is only ${Number(road.lengthKm)} km long`);
+  }
+  if (errors.length > 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: errors.join("; ") });
+  }
+}
+
+/**
+ * Lay the segments of one road over each other in survey order and return
+ * the resulting non-overlapping intervals, sorted by chainage.
+ */
+export function overlaySurveys(segments: SurveySegment[]): ConditionInterval[] {
+  const ordered = [...segments].sort(
+    (a, b) => new Date(a.surveyDate).getTime() - new Date(b.surveyDate).getTime()
+  );
+
+  let intervals: ConditionInterval[] = [];
+  for (const segment of ordered) {
+    const kmStart = Number(segment.kmStart);
+    const kmEnd = Number(segment.kmEnd);
+    if (!(kmEnd > kmStart)) continue;
+
+    // Keep the parts of older intervals that fall outside the new segment
+    intervals = intervals.flatMap(interval => {
+      if (interval.kmEnd <= kmStart || interval.kmStart >= kmEnd) return [interval];
+      const pieces: ConditionInterval[] = [];
+      if (interval.kmStart < kmStart) pieces.push({ ...interval, kmEnd: kmStart });
+      if (interval.kmEnd > kmEnd) pieces.push({ ...interval, kmStart: kmEnd });
+      return pieces;
+    });
+
+    intervals.push({
+      kmStart,
+      kmEnd,
+      condition: segment.condition,
+      surfaceType: segment.surfaceType,
+      surveyDate: new Date(segment.surveyDate),
+    });
+  }
+
+  return intervals.sort((a, b) => a.kmStart - b.kmStart);
+}
+
+export function sumConditionKm(intervals: ConditionInterval[]): ConditionKm {
+  const km: ConditionKm = { good: 0, fair: 0, poor: 0, bad: 0, total: 0 };
+  intervals.forEach(interval => {
+    const length = interval.kmEnd - interval.kmStart;
+    km[CONDITION_KEYS[interval.condition]] += length;
+    km.total += length;
+  });
+
+  return {
+    good: round(km.good, 3),
+    fair: round(km.fair, 3),
+    poor: round(km.poor, 3),
+    bad: round(km.bad, 3),
+    total: round(km.total, 3),
+  };
+}
+
+/**
+ * Overall rating for a road: the condition covering the most kilometers.
+ * Ties go to the worse condition so a road is never rated better than it is.
+ */
+export function overallCondition(km: ConditionKm): RoadCondition | null {
+  if (km.total === 0) return null;
+
+  return [...ROAD_CONDITIONS]
+    .reverse()
+    .reduce((best, condition) => (km[CONDITION_KEYS[condition]] > km[CONDITION_KEYS[best]] ? condition : best), "Bad");
+}
+
+/** Current condition of one road from all of its surveys */
+export function currentRoadCondition(segments: SurveySegment[]) {
+  const intervals = overlaySurveys(segments);
+  const km = sumConditionKm(intervals);
+  const lastSurveyDate = intervals.reduce<Date | null>(
+    (latest, interval) => (!latest || interval.surveyDate > latest ? interval.surveyDate : latest),
+    null
+  );
+
+  return {
+    condition: overallCondition(km),
+    km,
+    lastSurveyDate,
+    segments: intervals,
+  };
+}
+
+export type ConditionTrendRow = { municipality: string; year: number } & ConditionKm;
+
+/**
+ * Good/fair/poor/bad kilometers per municipality as of the end of each year,
+ * counting every survey made up to that year (unsurveyed stretches are left out).
+ */
+export function conditionTrend(
+  segments: (SurveySegment & { municipality: string | null })[],
+  range: { fromYear?: number; toYear?: number } = {}
+): ConditionTrendRow[] {
+  if (segments.length === 0) return [];
+
+  const years = segments.map(segment => new Date(segment.surveyDate).getFullYear());
+  const fromYear = range.fromYear ?? Math.min(...years);
+  const toYear = range.toYear ?? Math.max(...years);
+
+  const byMunicipality = new Map<string, Map<number, SurveySegment[]>>();
+  segments.forEach(segment => {
+    const municipality = segment.municipality || "Unassigned";
+    const roads = byMunicipality.get(municipality) ?? new Map<number, SurveySegment[]>();
+    roads.set(segment.roadId, [...(roads.get(segment.roadId) ?? []), segment]);
+    byMunicipality.set(municipality, roads);
+  });
+
+  const rows: ConditionTrendRow[] = [];
+  Array.from(byMunicipality.keys())
+    .sort()
+    .forEach(municipality => {
+      const roads = byMunicipality.get(municipality)!;
+      for (let year = fromYear; year <= toYear; year++) {
+        const intervals = Array.from(roads.values()).flatMap(roadSegments =>
+          overlaySurveys(roadSegments.filter(segment => new Date(segment.surveyDate).getFullYear() <= year))
+        );
+        rows.push({ municipality, year, ...sumConditionKm(intervals) });
+      }
+    });
+
+  return rows;
+}
@@ -2,6 +2,25 @@ import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { approvedProcedure, divisionProcedure } from "./permissions";
+import { BIDDING_STATUSES, STAGE_DATE_FIELDS, assertBiddingDeletable, assertStageRecordKept, assertWinnerEditable, buildNtpHandoff, getAllowedTransitions, planTransition } from "./procurement";
+import { abstractOfBidsWorkbook, assertBidsOpen } from "./bidEvaluation";
+import { assertEligible } from "./contractorEligibility";
+import { assertSameTin, normalizeContractorName } from "./contractorMatching";
+import { assertSanctionPeriod, SANCTION_TYPES } from "./contractorSanctions";
+import { assertCanActOnStep } from "./variationOrders";
+import { auditRangeEnd } from "./audit";
+import { assertRoutingTemplate } from "./documentRouting";
+import { canDownloadAttachment, DOWNLOAD_LINK_TTL_MS, signDownloadToken } from "./attachments";
+import { ENV } from "./_core/env";
+import { assertEvaluationAllowed, assertRatingWeights, EVALUATION_TYPES } from "./performanceEvaluation";
+import { assertAbcMatchesEstimate } from "./powEstimate";
+import { validateSequenceFormat } from "./sequences";
+import { parseRoadWorkbook } from "./roadInventory";
+import { parseUnitCostWorkbook, UNIT_COST_CATEGORIES } from "./unitCosts";
+import { assertSurveySegment, conditionTrend, currentRoadCondition } from "./roadSurveys";
+import { assertProgressPlan } from "./slippage";
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import {
   getProjects,
@@ -14,11 +33,50 @@ import {
   createProject,
   updateProject,
   deleteProject,
+  getProjectPlannedProgress,
+  setProjectPlannedProgress,
+  getProjectActualProgress,
+  getProjectActualProgressById,
+  recordProjectProgress,
+  updateProjectProgress,
+  deleteProjectProgress,
+  getProjectSCurve,
+  getSlippageReport,
+  getTimeAdjustments,
+  getTimeAdjustmentById,
+  createTimeAdjustment,
+  updateTimeAdjustment,
+  deleteTimeAdjustment,
+  getProjectContractTime,
+  getVariationOrders,
+  getVariationOrderById,
+  createVariationOrder,
+  updateVariationOrder,
+  deleteVariationOrder,
+  getVariationCap,
+  submitVariationOrder,
+  actOnVariationOrder,
+  getProjectLiquidatedDamages,
+  getLateProjects,
   getDocuments,
   getDocumentById,
+  getDocumentByRefNumber,
   createDocument,
   updateDocument,
   deleteDocument,
+  getDocumentRoutes,
+  routeDocument,
+  receiveDocument,
+  getOfficeDwellTimes,
+  getStuckDocuments,
+  getRoutingTemplates,
+  getRoutingTemplateById,
+  saveRoutingTemplate,
+  deleteRoutingTemplate,
+  getDocumentAttachments,
+  getAttachmentById,
+  getAttachmentVersionById,
+  deleteAttachment,
   getDocumentStats,
   getTasks,
   getTaskById,
@@ -46,15 +104,53 @@ import {
   updatePOW,
   deletePOW,
   getPOWStats,
+  getPOWEstimates,
+  getPOWEstimate,
+  savePOWEstimate,
+  searchUnitCostItems,
+  getUnitCostItemById,
+  getUnitCostItemByCode,
+  createUnitCostItem,
+  updateUnitCostItem,
+  deleteUnitCostItem,
+  getUnitPriceHistory,
+  getUnitPriceById,
+  createUnitPrice,
+  deleteUnitPrice,
+  previewUnitCostImport,
+  applyUnitCostImport,
   getBiddings,
   getBiddingById,
   createBidding,
   updateBidding,
+  transitionBidding,
+  issueBiddingNtp,
   deleteBidding,
   getBiddingStats,
+  getBidSubmissions,
+  getBidSubmissionById,
+  getBidSubmissionByContractor,
+  createBidSubmission,
+  updateBidSubmission,
+  deleteBidSubmission,
+  getLowestCalculatedBid,
+  getContractorEligibility,
+  getContractorSanctions,
+  getContractorSanctionById,
+  ensureContractorNotSanctioned,
+  createContractorSanction,
+  updateContractorSanction,
+  liftContractorSanction,
+  deleteContractorSanction,
   getContractors,
   getContractorById,
   getContractorProjects,
+  findContractorByName,
+  findContractorMatch,
+  getContractorDuplicates,
+  getSharedBiddings,
+  mergeContractors,
+  linkProjectContractors,
   createContractor,
   updateContractor,
   deleteContractor,
@@ -69,6 +165,10 @@ import {
   createPerformanceRating,
   updatePerformanceRating,
   deletePerformanceRating,
+  getRatingWeights,
+  setRatingWeights,
+  getContractEvaluations,
+  getContractorScorecard,
   getUsers,
   getUserById,
   approveUser,
@@ -83,24 +183,210 @@ import {
   getProvincialRoadById,
   getRoadMunicipalities,
   getRoadStats,
+  getProvincialRoadByRoadId,
+  createProvincialRoad,
+  updateProvincialRoad,
+  deleteProvincialRoad,
+  previewRoadImport,
+  applyRoadImport,
+  getRoadSurveys,
+  getRoadSurveyById,
+  getSurveysForTrend,
+  createRoadSurvey,
+  updateRoadSurvey,
+  deleteRoadSurvey,
   getMaintenanceEquipment,
   getEquipmentById,
   createEquipment,
   updateEquipment,
   deleteEquipment,
   getEquipmentStats,
+  getEquipmentAvailability,
+  getEquipmentUtilization,
   getMaintenanceSchedules,
   getScheduleById,
   createSchedule,
   updateSchedule,
   deleteSchedule,
+  getScheduleCoverage,
+  getScheduleConflicts,
   getScheduleStats,
   getEquipmentAssignments,
   createEquipmentAssignment,
   updateEquipmentAssignment,
   deleteEquipmentAssignment,
+  getServicePlans,
+  getServicePlanById,
+  createServicePlan,
+  updateServicePlan,
+  deleteServicePlan,
+  getEquipmentServiceStatus,
+  getEquipmentDueForService,
+  openDueWorkOrders,
+  getWorkOrders,
+  getWorkOrderById,
+  createWorkOrder,
+  updateWorkOrder,
+  deleteWorkOrder,
+  getAssignmentById,
+  getFuelIssuances,
+  getFuelIssuanceById,
+  getFuelIssuanceBySlipNumber,
+  createFuelIssuance,
+  updateFuelIssuance,
+  deleteFuelIssuance,
+  getFuelEfficiency,
+  getFuelAnomalies,
+  // Audit trail
+  getAuditLogs,
+  getAuditLogsForEntity,
+  getSequences,
+  setSequenceFormat,
 } from "./db";
 
+/** Date input left unchanged when omitted and cleared when null or empty */
+function optionalDate(value: string | null | undefined) {
+  if (value === undefined) return undefined;
+  return value ? new Date(value) : null;
+}
+
+const roadInput = z.object({
+  roadId: z.string().min(1),
+  roadName: z.string().min(1),
+  municipality: z.string().optional(),
+  lengthKm: z.string().optional(),
+  concreteLengthKm: z.string().optional(),
+  asphaltLengthKm: z.string().optional(),
+  earthLengthKm: z.string().optional(),
+  gravelLengthKm: z.string().optional(),
+  roadCondition: z.enum(['Good', 'Fair', 'Poor', 'Bad']).optional(),
+  kilometerPost: z.string().optional(),
+  vegetationControlKm: z.string().optional(),
+  rehabNeededKm: z.string().optional(),
+  remarks: z.string().optional(),
+  region: z.string().optional(),
+});
+
+const surveyInput = z.object({
+  roadId: z.number(),
+  surveyDate: z.string(),
+  kmStart: z.number().min(0),
+  kmEnd: z.number().min(0),
+  surfaceType: z.enum(['Concrete', 'Asphalt', 'Gravel', 'Earth']).optional(),
+  condition: z.enum(['Good', 'Fair', 'Poor', 'Bad']),
+  remarks: z.string().optional(),
+});
+
+const servicePlanInput = z.object({
+  equipmentId: z.number(),
+  serviceType: z.string().min(1),
+  intervalHours: z.number().positive().optional(),
+  intervalDays: z.number().int().positive().optional(),
+  lastServiceDate: z.string().optional(),
+  lastServiceHours: z.number().min(0).optional(),
+  isActive: z.boolean().optional(),
+  notes: z.string().optional(),
+});
+
+const workOrderInput = z.object({
+  equipmentId: z.number(),
+  servicePlanId: z.number().optional(),
+  workOrderType: z.enum(['Preventive', 'Repair', 'Inspection']),
+  description: z.string().min(1),
+  status: z.enum(['Open', 'In Progress', 'Completed', 'Cancelled']).optional(),
+  openedDate: z.string(),
+  completedDate: z.string().optional(),
+  hourMeter: z.number().min(0).optional(),
+  cost: z.number().min(0).optional(),
+  performedBy: z.string().optional(),
+  remarks: z.string().optional(),
+});
+
+const fuelIssuanceInput = z.object({
+  slipNumber: z.string().min(1),
+  equipmentId: z.number(),
+  assignmentId: z.number().optional(),
+  issueDate: z.string(),
+  liters: z.number().positive(),
+  odometerKm: z.number().min(0).optional(),
+  hourMeter: z.number().min(0).optional(),
+  issuedBy: z.string().min(1),
+  receivedBy: z.string().optional(),
+  remarks: z.string().optional(),
+});
+
+const timeAdjustmentInput = z.object({
+  projectId: z.number(),
+  adjustmentType: z.enum(['Extension', 'Suspension', 'Resumption']),
+  orderNumber: z.string().optional(),
+  effectiveDate: z.string(),
+  approvedDays: z.number().int().positive().optional(),
+  reasonCategory: z.enum(['Rain/Unworkable Weather', 'Right-of-Way', 'Peace and Order', 'Design Changes', 'Delayed Payment', 'Force Majeure', 'Other']).optional(),
+  reason: z.string().optional(),
+  approvalDate: z.string().optional(),
+  approvedBy: z.string().optional(),
+});
+
+const variationItemInput = z.object({
+  itemNumber: z.string().optional(),
+  description: z.string().min(1),
+  unit: z.string().optional(),
+  changeType: z.enum(['Addition', 'Deduction']),
+  quantity: z.number().positive(),
+  unitPrice: z.number().min(0),
+});
+
+const variationOrderInput = z.object({
+  projectId: z.number(),
+  orderType: z.enum(['Change Order', 'Extra Work Order']),
+  title: z.string().min(1),
+  justification: z.string().min(1),
+  items: z.array(variationItemInput),
+});
+
+/** A performance criterion rated on the 0-5 scale, kept as a decimal string */
+const criterionRating = z.string().refine(value => value.trim() !== "" && Number(value) >= 0 && Number(value) <= 5, {
+  message: "Ratings must be numbers from 0 to 5",
+});
+
+/** A date or date-time string that parses to a real date, for filters built into SQL */
+const dateString = z.string().refine(value => !Number.isNaN(new Date(value).getTime()), {
+  message: "Must be a valid date",
+});
+
+const bidResult = z.enum(['Pending', 'Passed', 'Failed']);
+
+const bidSubmissionInput = z.object({
+  bidAmount: z.number().positive(),
+  calculatedBidAmount: z.number().positive().nullable().optional(),
+  eligibilityResult: bidResult.optional(),
+  technicalResult: bidResult.optional(),
+  financialResult: bidResult.optional(),
+  disqualificationReason: z.string().nullable().optional(),
+  submittedAt: z.string().optional(),
+  remarks: z.string().optional(),
+});
+
+const estimateItemInput = z.object({
+  itemNumber: z.string().optional(),
+  description: z.string().min(1),
+  unit: z.string().min(1),
+  quantity: z.number().positive(),
+  materialUnitCost: z.number().min(0).optional(),
+  laborUnitCost: z.number().min(0).optional(),
+  equipmentUnitCost: z.number().min(0).optional(),
+});
+
+const sanctionInput = z.object({
+  sanctionType: z.enum(SANCTION_TYPES),
+  issuingAuthority: z.string().min(1),
+  resolutionNumber: z.string().nullable().optional(),
+  reason: z.string().min(1),
+  startDate: z.string(),
+  endDate: z.string().nullable().optional(),
+  coveredAgencies: z.array(z.string()).nullable().optional(),
+});
+
 export const appRouter = router({
   // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
   system: systemRouter,
@@ -166,7 +452,7 @@ export const appRouter = router({
     }),
 
     // Create a new project
-    create: protectedProcedure
+    create: divisionProcedure("projects")
       .input(
         z.object({
           projectName: z.string().min(1),
@@ -182,6 +468,10 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
+        if (input.contractor) {
+          const match = await findContractorMatch(input.contractor);
+          await ensureContractorNotSanctioned(match?.contractorId);
+        }
         return createProject({
           ...input,
           createdById: ctx.user.id,
@@ -189,7 +479,7 @@ export const appRouter = router({
       }),
 
     // Update a project
-    update: protectedProcedure
+    update: divisionProcedure("projects")
       .input(
         z.object({
           id: z.number(),
@@ -208,15 +498,276 @@ export const appRouter = router({
       )
       .mutation(async ({ input }) => {
         const { id, ...data } = input;
+        // Progress follows the latest actual-progress report once any are logged
+        if (data.progressPercent !== undefined && (await getProjectActualProgress(id)).length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Progress is taken from the project's actual-progress reports; record a new report instead",
+          });
+        }
+        if (data.contractor) {
+          const match = await findContractorMatch(data.contractor);
+          await ensureContractorNotSanctioned(match?.contractorId);
+        }
         return updateProject(id, data);
       }),
 
     // Delete a project
-    delete: protectedProcedure
+    delete: divisionProcedure("projects")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deleteProject(input.id);
       }),
+
+    // Planned vs actual progress series for the S-curve chart
+    sCurve: publicProcedure
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ input }) => {
+        return getProjectSCurve(input.projectId);
+      }),
+
+    // Latest slippage per project, worst first, with 10%/15% negative slippage flags
+    slippageReport: publicProcedure
+      .input(
+        z.object({
+          asOf: z.string().optional(),
+          fiscalYear: z.number().optional(),
+          municipality: z.string().optional(),
+          status: z.enum(['Ahead', 'On Time', 'Behind']).optional(),
+          flag: z.enum(['Warning', 'Critical']).optional(),
+        }).optional()
+      )
+      .query(async ({ input }) => {
+        return getSlippageReport(input ?? {});
+      }),
+
+    // Time-phased planned progress (cumulative %), replaced as a whole
+    plannedProgress: router({
+      list: publicProcedure
+        .input(z.object({ projectId: z.number() }))
+        .query(async ({ input }) => {
+          return getProjectPlannedProgress(input.projectId);
+        }),
+
+      set: divisionProcedure("projects")
+        .input(
+          z.object({
+            projectId: z.number(),
+            points: z.array(
+              z.object({
+                periodDate: z.string(),
+                plannedPercent: z.number(),
+              })
+            ),
+          })
+        )
+        .mutation(async ({ input }) => {
+          if (!(await getProjectById(input.projectId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+          }
+          assertProgressPlan(input.points.map(point => ({ ...point, periodDate: new Date(point.periodDate) })));
+          return setProjectPlannedProgress(input.projectId, input.points);
+        }),
+    }),
+
+    // Dated actual accomplishment log (cumulative %)
+    progressReports: router({
+      list: publicProcedure
+        .input(z.object({ projectId: z.number() }))
+        .query(async ({ input }) => {
+          return getProjectActualProgress(input.projectId);
+        }),
+
+      create: divisionProcedure("projects")
+        .input(
+          z.object({
+            projectId: z.number(),
+            reportDate: z.string(),
+            actualPercent: z.number().min(0).max(100),
+            remarks: z.string().optional(),
+          })
+        )
+        .mutation(async ({ ctx, input }) => {
+          if (!(await getProjectById(input.projectId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+          }
+          return recordProjectProgress({ ...input, reportedById: ctx.user.id });
+        }),
+
+      update: divisionProcedure("projects")
+        .input(
+          z.object({
+            id: z.number(),
+            actualPercent: z.number().min(0).max(100).optional(),
+            remarks: z.string().optional(),
+          })
+        )
+        .mutation(async ({ input }) => {
+          const { id, ...data } = input;
+          if (!(await getProjectActualProgressById(id))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Progress report not found" });
+          }
+          return updateProjectProgress(id, data);
+        }),
+
+      delete: divisionProcedure("projects")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          return deleteProjectProgress(input.id);
+        }),
+    }),
+
+    // Original/revised completion dates and remaining contract days
+    contractTime: publicProcedure
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ input }) => {
+        return getProjectContractTime(input.projectId);
+      }),
+
+    // Time extension, suspension and resumption orders
+    timeAdjustments: router({
+      list: publicProcedure
+        .input(z.object({ projectId: z.number() }))
+        .query(async ({ input }) => {
+          return getTimeAdjustments(input.projectId);
+        }),
+
+      create: divisionProcedure("projects")
+        .input(timeAdjustmentInput)
+        .mutation(async ({ ctx, input }) => {
+          if (!(await getProjectById(input.projectId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+          }
+          return createTimeAdjustment({ ...input, createdById: ctx.user.id });
+        }),
+
+      update: divisionProcedure("projects")
+        .input(timeAdjustmentInput.omit({ projectId: true }).partial().extend({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          const { id, ...data } = input;
+          if (!(await getTimeAdjustmentById(id))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Time adjustment not found" });
+          }
+          return updateTimeAdjustment(id, data);
+        }),
+
+      delete: divisionProcedure("projects")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          return deleteTimeAdjustment(input.id);
+        }),
+    }),
+
+    // Liquidated damages accrued past the completion date and pending billing deduction
+    liquidatedDamages: publicProcedure
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ input }) => {
+        return getProjectLiquidatedDamages(input.projectId);
+      }),
+
+    // Unfinished projects past their completion date, with accrued damages
+    lateProjects: publicProcedure
+      .input(
+        z.object({
+          fiscalYear: z.number().optional(),
+          municipality: z.string().optional(),
+        }).optional()
+      )
+      .query(async ({ input }) => {
+        return getLateProjects(input ?? {});
+      }),
+
+    // Change orders / extra work orders with line items and an approval chain
+    variationOrders: router({
+      list: publicProcedure
+        .input(z.object({ projectId: z.number() }))
+        .query(async ({ input }) => {
+          return getVariationOrders(input.projectId);
+        }),
+
+      byId: publicProcedure
+        .input(z.object({ id: z.number() }))
+        .query(async ({ input }) => {
+          return getVariationOrderById(input.id);
+        }),
+
+      // Cumulative additive VOs against the allowable percentage of the original contract cost
+      cap: publicProcedure
+        .input(z.object({ projectId: z.number() }))
+        .query(async ({ input }) => {
+          return getVariationCap(input.projectId);
+        }),
+
+      create: divisionProcedure("projects")
+        .input(variationOrderInput)
+        .mutation(async ({ ctx, input }) => {
+          if (!(await getProjectById(input.projectId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+          }
+          return createVariationOrder({ ...input, createdById: ctx.user.id });
+        }),
+
+      update: divisionProcedure("projects")
+        .input(variationOrderInput.omit({ projectId: true }).partial().extend({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          const { id, ...data } = input;
+          if (!(await getVariationOrderById(id))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Variation order not found" });
+          }
+          return updateVariationOrder(id, data);
+        }),
+
+      delete: divisionProcedure("projects")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          return deleteVariationOrder(input.id);
+        }),
+
+      submit: divisionProcedure("projects")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          const order = await getVariationOrderById(input.id);
+          if (!order) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Variation order not found" });
+          }
+          if (order.items.length === 0) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Add at least one line item before submitting" });
+          }
+          return submitVariationOrder(input.id);
+        }),
+
+      approve: divisionProcedure("projects")
+        .input(z.object({ id: z.number(), remarks: z.string().optional() }))
+        .mutation(async ({ ctx, input }) => {
+          const order = await getVariationOrderById(input.id);
+          if (!order) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Variation order not found" });
+          }
+          return actOnVariationOrder(input.id, {
+            action: "Approved",
+            assertCanAct: locked => assertCanActOnStep(locked, ctx.user),
+            remarks: input.remarks,
+            approverId: ctx.user.id,
+            approverName: ctx.user.name ?? undefined,
+          });
+        }),
+
+      reject: divisionProcedure("projects")
+        .input(z.object({ id: z.number(), remarks: z.string().min(1) }))
+        .mutation(async ({ ctx, input }) => {
+          const order = await getVariationOrderById(input.id);
+          if (!order) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Variation order not found" });
+          }
+          return actOnVariationOrder(input.id, {
+            action: "Rejected",
+            assertCanAct: locked => assertCanActOnStep(locked, ctx.user),
+            remarks: input.remarks,
+            approverId: ctx.user.id,
+            approverName: ctx.user.name ?? undefined,
+          });
+        }),
+    }),
   }),
 
   // Document routes
@@ -250,7 +801,7 @@ export const appRouter = router({
     }),
 
     // Create a new document
-    create: protectedProcedure
+    create: divisionProcedure("documents")
       .input(
         z.object({
           name: z.string().min(1),
@@ -272,12 +823,16 @@ export const appRouter = router({
           contractorId: z.number().optional(),
           contractAmount: z.string().optional(),
           revisedContractAmount: z.string().optional(),
+          liquidatedDamages: z.string().optional(),
           periodCovered: z.string().optional(),
           dateStarted: z.date().optional(),
           completionDate: z.date().optional(),
         })
       )
       .mutation(async ({ input, ctx }) => {
+        if (input.refNumber && (await getDocumentByRefNumber(input.refNumber))) {
+          throw new TRPCError({ code: "CONFLICT", message: `Reference number ${input.refNumber} is already in use` });
+        }
         return createDocument({
           ...input,
           dueDate: input.dueDate ? new Date(input.dueDate) : null,
@@ -286,7 +841,7 @@ export const appRouter = router({
       }),
 
     // Update a document
-    update: protectedProcedure
+    update: divisionProcedure("documents")
       .input(
         z.object({
           id: z.number(),
@@ -307,6 +862,7 @@ export const appRouter = router({
           contractorId: z.number().optional(),
           contractAmount: z.string().optional(),
           revisedContractAmount: z.string().optional(),
+          liquidatedDamages: z.string().optional(),
           periodCovered: z.string().optional(),
           dateStarted: z.date().optional(),
           completionDate: z.date().optional(),
@@ -321,11 +877,188 @@ export const appRouter = router({
       }),
 
     // Delete a document
-    delete: protectedProcedure
+    delete: divisionProcedure("documents")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deleteDocument(input.id);
       }),
+
+    // Routing slip: every hop, where the document is now and its template
+    routes: publicProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        const slip = await getDocumentRoutes(input.id);
+        if (!slip) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+        }
+        return slip;
+      }),
+
+    // Release the document to the next office (by default, the next on its routing template)
+    route: divisionProcedure("documents")
+      .input(
+        z.object({
+          id: z.number(),
+          toOffice: z.string().optional(),
+          releasedAt: z.string().optional(),
+          handlerName: z.string().optional(),
+          action: z.string().optional(),
+          remarks: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const { id, releasedAt, ...rest } = input;
+        const routed = await routeDocument(id, {
+          ...rest,
+          releasedAt: releasedAt ? new Date(releasedAt) : new Date(),
+          releaser: ctx.user,
+          releasedById: ctx.user.id,
+        });
+        if (!routed) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+        }
+        return routed;
+      }),
+
+    // Log the document in at the office it was routed to
+    receive: divisionProcedure("documents")
+      .input(
+        z.object({
+          id: z.number(),
+          receivedAt: z.string().optional(),
+          handlerName: z.string().optional(),
+          action: z.string().optional(),
+          remarks: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const { id, receivedAt, ...rest } = input;
+        const received = await receiveDocument(id, {
+          ...rest,
+          receivedAt: receivedAt ? new Date(receivedAt) : new Date(),
+          receiver: ctx.user,
+          receivedById: ctx.user.id,
+        });
+        if (!received) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+        }
+        return received;
+      }),
+
+    // Average dwell and transit time per office
+    dwellTimes: publicProcedure
+      .input(
+        z.object({
+          documentType: z.string().optional(),
+          division: z.string().optional(),
+          from: z.string().optional(),
+          to: z.string().optional(),
+        }).optional()
+      )
+      .query(async ({ input }) => {
+        return getOfficeDwellTimes({
+          documentType: input?.documentType,
+          division: input?.division,
+          from: input?.from ? new Date(input.from) : undefined,
+          to: input?.to ? new Date(input.to) : undefined,
+        });
+      }),
+
+    // Documents that have not moved for more than `days` days
+    stuck: publicProcedure
+      .input(
+        z.object({
+          days: z.number().min(0),
+          documentType: z.string().optional(),
+          division: z.string().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        const { days, ...filters } = input;
+        return getStuckDocuments(days, filters);
+      }),
+
+    // Files attached to a document; uploads go through POST /api/documents/:documentId/attachments
+    attachments: router({
+      list: approvedProcedure
+        .input(z.object({ documentId: z.number() }))
+        .query(async ({ input, ctx }) => {
+          const attachments = await getDocumentAttachments(input.documentId);
+          return attachments.map(attachment => ({
+            ...attachment,
+            versions: attachment.versions.map(({ storageKey, ...version }) => ({
+              ...version,
+              canDownload: canDownloadAttachment(ctx.user, version),
+            })),
+          }));
+        }),
+
+      // Short-lived link to one version, for the uploader's division and admins only
+      downloadLink: approvedProcedure
+        .input(z.object({ versionId: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+          const version = await getAttachmentVersionById(input.versionId);
+          if (!version) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Attachment not found" });
+          }
+          if (!canDownloadAttachment(ctx.user, version)) {
+            throw new TRPCError({
+              code: "FORBIDDEN",
+              message: version.division
+                ? `Only the ${version.division} division can download this file`
+                : "Only administrators can download this file",
+            });
+          }
+          const expiresAt = new Date(Date.now() + DOWNLOAD_LINK_TTL_MS);
+          const token = signDownloadToken(version.id, expiresAt, ENV.cookieSecret);
+          return { url: `/api/attachments/versions/${version.id}/download?token=${encodeURIComponent(token)}`, expiresAt };
+        }),
+
+      // Remove the attachment with every version and its stored files
+      delete: divisionProcedure("documents")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+          const attachment = await getAttachmentById(input.id);
+          if (!attachment) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Attachment not found" });
+          }
+          const attachments = await getDocumentAttachments(attachment.documentId);
+          const versions = attachments.find(entry => entry.id === input.id)?.versions ?? [];
+          if (!versions.every(version => canDownloadAttachment(ctx.user, version))) {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Only the uploader's division can delete this attachment" });
+          }
+          return deleteAttachment(input.id);
+        }),
+    }),
+
+    // Usual path of each document type through the offices
+    routingTemplates: router({
+      list: publicProcedure.query(async () => {
+        return getRoutingTemplates();
+      }),
+
+      save: divisionProcedure("documents")
+        .input(
+          z.object({
+            documentType: z.string().min(1),
+            offices: z.array(z.string()),
+            remarks: z.string().optional(),
+          })
+        )
+        .mutation(async ({ input, ctx }) => {
+          assertRoutingTemplate(input.offices);
+          return saveRoutingTemplate({ ...input, updatedById: ctx.user.id });
+        }),
+
+      delete: divisionProcedure("documents")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          if (!(await getRoutingTemplateById(input.id))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Routing template not found" });
+          }
+          return deleteRoutingTemplate(input.id);
+        }),
+    }),
   }),
 
   // Task routes
@@ -361,7 +1094,7 @@ export const appRouter = router({
     }),
 
     // Create a new task
-    create: protectedProcedure
+    create: divisionProcedure("tasks")
       .input(
         z.object({
           title: z.string().min(1),
@@ -387,7 +1120,7 @@ export const appRouter = router({
       }),
 
     // Update a task
-    update: protectedProcedure
+    update: divisionProcedure("tasks")
       .input(
         z.object({
           id: z.number(),
@@ -409,7 +1142,7 @@ export const appRouter = router({
       }),
 
     // Delete a task
-    delete: protectedProcedure
+    delete: divisionProcedure("tasks")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deleteTask(input.id);
@@ -452,7 +1185,7 @@ export const appRouter = router({
     }),
 
     // Create a new budget
-    create: protectedProcedure
+    create: divisionProcedure("budgets")
       .input(
         z.object({
           fiscalYear: z.number(),
@@ -469,7 +1202,7 @@ export const appRouter = router({
       }),
 
     // Update a budget
-    update: protectedProcedure
+    update: divisionProcedure("budgets")
       .input(
         z.object({
           id: z.number(),
@@ -490,7 +1223,7 @@ export const appRouter = router({
       }),
 
     // Delete a budget
-    delete: protectedProcedure
+    delete: divisionProcedure("budgets")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deleteAnnualBudget(input.id);
@@ -533,7 +1266,7 @@ export const appRouter = router({
       }),
 
     // Create a new POW
-    create: protectedProcedure
+    create: divisionProcedure("pow")
       .input(
         z.object({
           projectTitle: z.string().min(1),
@@ -563,7 +1296,7 @@ export const appRouter = router({
       }),
 
     // Update a POW
-    update: protectedProcedure
+    update: divisionProcedure("pow")
       .input(
         z.object({
           id: z.number(),
@@ -586,6 +1319,12 @@ export const appRouter = router({
       )
       .mutation(async ({ input }) => {
         const { id, dedCompletedDate, targetBiddingDate, targetStartDate, targetCompletionDate, ...rest } = input;
+        if (rest.estimatedCost !== undefined && (await getPOWEstimates(id)).length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "This POW has a detailed estimate; save a new estimate version to change its cost",
+          });
+        }
         return updatePOW(id, {
           ...rest,
           dedCompletedDate: dedCompletedDate ? new Date(dedCompletedDate) : null,
@@ -596,11 +1335,184 @@ export const appRouter = router({
       }),
 
     // Delete a POW
-    delete: protectedProcedure
+    delete: divisionProcedure("pow")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deletePOW(input.id);
       }),
+
+    // Versioned detailed estimate (bill of quantities) that sets the ABC
+    estimate: router({
+      versions: publicProcedure
+        .input(z.object({ powId: z.number() }))
+        .query(async ({ input }) => {
+          return getPOWEstimates(input.powId);
+        }),
+
+      // Latest version unless one is asked for
+      get: publicProcedure
+        .input(z.object({ powId: z.number(), version: z.number().int().positive().optional() }))
+        .query(async ({ input }) => {
+          return getPOWEstimate(input.powId, input.version);
+        }),
+
+      save: divisionProcedure("pow")
+        .input(
+          z.object({
+            powId: z.number(),
+            items: z.array(estimateItemInput).min(1),
+            ocmPercent: z.number().min(0).max(100).optional(),
+            profitPercent: z.number().min(0).max(100).optional(),
+            vatPercent: z.number().min(0).max(100).optional(),
+            remarks: z.string().optional(),
+          })
+        )
+        .mutation(async ({ input, ctx }) => {
+          const { powId, ...estimate } = input;
+          if (!(await getPOWById(powId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Program of works not found" });
+          }
+          return savePOWEstimate(powId, { ...estimate, createdById: ctx.user.id });
+        }),
+    }),
+  }),
+
+  // Unit cost library for estimates (materials, labor and equipment rates)
+  unitCosts: router({
+    // Items with the price in force for a municipality, for the estimate editor
+    search: publicProcedure
+      .input(
+        z.object({
+          search: z.string().optional(),
+          category: z.enum(UNIT_COST_CATEGORIES).optional(),
+          municipality: z.string().optional(),
+          asOf: z.string().optional(),
+          includeInactive: z.boolean().optional(),
+          page: z.number().min(1).optional(),
+          limit: z.number().min(1).max(200).optional(),
+        }).optional()
+      )
+      .query(async ({ input }) => {
+        return searchUnitCostItems(input ?? {});
+      }),
+
+    byId: publicProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return getUnitCostItemById(input.id);
+      }),
+
+    // Dated prices of an item, newest first
+    history: publicProcedure
+      .input(z.object({ itemId: z.number(), municipality: z.string().optional() }))
+      .query(async ({ input }) => {
+        return getUnitPriceHistory(input.itemId, input.municipality);
+      }),
+
+    create: divisionProcedure("unitCosts")
+      .input(
+        z.object({
+          code: z.string().min(1),
+          category: z.enum(UNIT_COST_CATEGORIES),
+          description: z.string().min(1),
+          unit: z.string().min(1),
+          remarks: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input }) => {
+        if (await getUnitCostItemByCode(input.code)) {
+          throw new TRPCError({ code: "CONFLICT", message: `Item code ${input.code} is already in the library` });
+        }
+        return createUnitCostItem(input);
+      }),
+
+    update: divisionProcedure("unitCosts")
+      .input(
+        z.object({
+          id: z.number(),
+          code: z.string().min(1).optional(),
+          category: z.enum(UNIT_COST_CATEGORIES).optional(),
+          description: z.string().min(1).optional(),
+          unit: z.string().min(1).optional(),
+          isActive: z.boolean().optional(),
+          remarks: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input }) => {
+        const { id, ...data } = input;
+        if (data.code) {
+          const existing = await getUnitCostItemByCode(data.code);
+          if (existing && existing.id !== id) {
+            throw new TRPCError({ code: "CONFLICT", message: `Item code ${data.code} is already in the library` });
+          }
+        }
+        return updateUnitCostItem(id, data);
+      }),
+
+    delete: divisionProcedure("unitCosts")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        return deleteUnitCostItem(input.id);
+      }),
+
+    // Province-wide or per-municipality prices with effectivity dates
+    prices: router({
+      create: divisionProcedure("unitCosts")
+        .input(
+          z.object({
+            itemId: z.number(),
+            municipality: z.string().optional(),
+            price: z.number().min(0),
+            effectiveDate: z.string(),
+            source: z.string().optional(),
+          })
+        )
+        .mutation(async ({ input, ctx }) => {
+          if (!(await getUnitCostItemById(input.itemId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Unit cost item not found" });
+          }
+          return createUnitPrice({ ...input, createdById: ctx.user.id });
+        }),
+
+      delete: divisionProcedure("unitCosts")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          if (!(await getUnitPriceById(input.id))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Unit price not found" });
+          }
+          return deleteUnitPrice(input.id);
+        }),
+    }),
+
+    // Bulk import of a price workbook. Without confirm this is a dry run
+    // that returns new / changed items and prices and the rows skipped.
+    importWorkbook: divisionProcedure("unitCosts")
+      .input(
+        z.object({
+          fileBase64: z.string().min(1),
+          sheetName: z.string().optional(),
+          confirm: z.boolean().default(false),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        let parsed;
+        try {
+          parsed = parseUnitCostWorkbook(Buffer.from(input.fileBase64, "base64"), input.sheetName);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Could not read workbook",
+          });
+        }
+        if (parsed.prices.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "No prices found in workbook" });
+        }
+
+        const diff = input.confirm
+          ? await applyUnitCostImport(parsed.prices, ctx.user.id)
+          : await previewUnitCostImport(parsed.prices);
+        return { applied: input.confirm, skipped: parsed.skipped, ...diff };
+      }),
   }),
 
   // Bidding routes
@@ -636,7 +1548,7 @@ export const appRouter = router({
     }),
 
     // Create a new bidding
-    create: protectedProcedure
+    create: divisionProcedure("biddings")
       .input(
         z.object({
           powId: z.number().optional(),
@@ -652,6 +1564,10 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
+        if (input.powId) {
+          const [latest] = await getPOWEstimates(input.powId);
+          assertAbcMatchesEstimate(input.abc, latest);
+        }
         return createBidding({
           ...input,
           preProcurementDate: input.preProcurementDate ? new Date(input.preProcurementDate) : null,
@@ -663,59 +1579,301 @@ export const appRouter = router({
         });
       }),
 
-    // Update a bidding
-    update: protectedProcedure
+    // Update a bidding (status changes go through biddings.transition)
+    update: divisionProcedure("biddings")
       .input(
         z.object({
           id: z.number(),
           projectTitle: z.string().optional(),
           abc: z.string().optional(),
           procurementMode: z.string().optional(),
-          status: z.string().optional(),
-          preProcurementDate: z.string().optional(),
-          advertisementDate: z.string().optional(),
-          preBidDate: z.string().optional(),
-          bidSubmissionDeadline: z.string().optional(),
-          bidOpeningDate: z.string().optional(),
-          bidEvaluationDate: z.string().optional(),
-          postQualificationDate: z.string().optional(),
-          bacResolutionDate: z.string().optional(),
-          noaDate: z.string().optional(),
-          contractSigningDate: z.string().optional(),
-          ntpDate: z.string().optional(),
+          preProcurementDate: z.string().nullable().optional(),
+          advertisementDate: z.string().nullable().optional(),
+          preBidDate: z.string().nullable().optional(),
+          bidSubmissionDeadline: z.string().nullable().optional(),
+          bidOpeningDate: z.string().nullable().optional(),
+          bidEvaluationDate: z.string().nullable().optional(),
+          postQualificationDate: z.string().nullable().optional(),
+          bacResolutionDate: z.string().nullable().optional(),
+          noaDate: z.string().nullable().optional(),
+          contractSigningDate: z.string().nullable().optional(),
+          ntpDate: z.string().nullable().optional(),
           winningBidder: z.string().optional(),
           winningBidAmount: z.string().optional(),
           contractCost: z.string().optional(),
           numberOfBidders: z.number().optional(),
-          failedBiddingCount: z.number().optional(),
           failedReason: z.string().optional(),
           remarks: z.string().optional(),
         })
       )
       .mutation(async ({ input }) => {
+        const bidding = await getBiddingById(input.id);
+        if (!bidding) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Bidding not found" });
+        }
+        assertWinnerEditable(bidding, input);
+        assertStageRecordKept(bidding, input);
+        if (input.abc !== undefined && bidding.powId) {
+          const [latest] = await getPOWEstimates(bidding.powId);
+          assertAbcMatchesEstimate(input.abc, latest);
+        }
+        if (input.winningBidder || input.contractCost) {
+          const winningBidder = input.winningBidder || bidding.winningBidder;
+          const contractor = winningBidder ? await findContractorByName(winningBidder) : undefined;
+          await ensureContractorNotSanctioned(contractor?.id);
+        }
         const { id, preProcurementDate, advertisementDate, preBidDate, bidSubmissionDeadline, bidOpeningDate, bidEvaluationDate, postQualificationDate, bacResolutionDate, noaDate, contractSigningDate, ntpDate, ...rest } = input;
         return updateBidding(id, {
           ...rest,
-          preProcurementDate: preProcurementDate ? new Date(preProcurementDate) : null,
-          advertisementDate: advertisementDate ? new Date(advertisementDate) : null,
-          preBidDate: preBidDate ? new Date(preBidDate) : null,
-          bidSubmissionDeadline: bidSubmissionDeadline ? new Date(bidSubmissionDeadline) : null,
-          bidOpeningDate: bidOpeningDate ? new Date(bidOpeningDate) : null,
-          bidEvaluationDate: bidEvaluationDate ? new Date(bidEvaluationDate) : null,
-          postQualificationDate: postQualificationDate ? new Date(postQualificationDate) : null,
-          bacResolutionDate: bacResolutionDate ? new Date(bacResolutionDate) : null,
-          noaDate: noaDate ? new Date(noaDate) : null,
-          contractSigningDate: contractSigningDate ? new Date(contractSigningDate) : null,
-          ntpDate: ntpDate ? new Date(ntpDate) : null,
+          preProcurementDate: optionalDate(preProcurementDate),
+          advertisementDate: optionalDate(advertisementDate),
+          preBidDate: optionalDate(preBidDate),
+          bidSubmissionDeadline: optionalDate(bidSubmissionDeadline),
+          bidOpeningDate: optionalDate(bidOpeningDate),
+          bidEvaluationDate: optionalDate(bidEvaluationDate),
+          postQualificationDate: optionalDate(postQualificationDate),
+          bacResolutionDate: optionalDate(bacResolutionDate),
+          noaDate: optionalDate(noaDate),
+          contractSigningDate: optionalDate(contractSigningDate),
+          ntpDate: optionalDate(ntpDate),
+        });
+      }),
+
+    // Statuses the bidding can move to next
+    allowedTransitions: publicProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        const bidding = await getBiddingById(input.id);
+        if (!bidding) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Bidding not found" });
+        }
+        return getAllowedTransitions(bidding).map(status => ({
+          status,
+          requiredDateField: status === "Failed" ? null : STAGE_DATE_FIELDS[status],
+        }));
+      }),
+
+    // Move a bidding to its next procurement stage
+    transition: divisionProcedure("biddings")
+      .input(
+        z.object({
+          id: z.number(),
+          to: z.enum(BIDDING_STATUSES),
+          date: z.string().optional(),
+          failedReason: z.string().optional(),
+          winningBidder: z.string().optional(),
+          winningBidAmount: z.string().optional(),
+          contractCost: z.string().optional(),
+          // Winning contractor's record, when its name alone is ambiguous
+          contractorId: z.number().optional(),
+        })
+      )
+      .mutation(async ({ input }) => {
+        const { id, date, contractorId, ...rest } = input;
+        const bidding = await getBiddingById(id);
+        if (!bidding) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Bidding not found" });
+        }
+        // The NTP creates the project and contract record, so it only goes through issueNtp
+        if (rest.to === "NTP") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Use biddings.issueNtp to issue the Notice to Proceed",
+          });
+        }
+        if (rest.to === "NOA") {
+          let winnerId = contractorId;
+          // The Notice of Award goes to the lowest calculated bid unless the BAC names another bidder
+          if (!rest.winningBidder && !bidding.winningBidder && !winnerId) {
+            const lowest = await getLowestCalculatedBid(id);
+            if (lowest) {
+              winnerId = lowest.contractorId;
+              rest.winningBidAmount ??= lowest.evaluatedAmount.toFixed(2);
+            }
+          }
+
+          const winningBidder = rest.winningBidder ?? bidding.winningBidder;
+          const contractor = winnerId
+            ? await getContractorById(winnerId)
+            : winningBidder
+              ? await findContractorByName(winningBidder)
+              : undefined;
+          if ((winnerId || winningBidder) && !contractor) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `No contractor record matches "${winningBidder ?? winnerId}"; register the contractor or pass contractorId`,
+            });
+          }
+          if (contractor && winnerId && winningBidder && normalizeContractorName(winningBidder) !== normalizeContractorName(contractor.name)) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `Contractor #${contractor.id} is ${contractor.name}, not "${winningBidder}"`,
+            });
+          }
+          if (contractor) {
+            // The award names the contractor whose eligibility was checked
+            rest.winningBidder = contractor.name;
+            const report = await getContractorEligibility(contractor.id, {
+              abc: Number(bidding.abc),
+              asOf: bidding.bidOpeningDate ? new Date(bidding.bidOpeningDate) : new Date(),
+            });
+            if (report) assertEligible(report);
+            // A sanction imposed after bid opening still bars the award
+            await ensureContractorNotSanctioned(contractor.id);
+          }
+        }
+        const updates = planTransition(bidding, { ...rest, date: date ? new Date(date) : null });
+        await transitionBidding(id, updates);
+        return { success: true, status: input.to };
+      }),
+
+    // Issue the Notice to Proceed and hand the bidding over to construction
+    issueNtp: divisionProcedure("biddings")
+      .input(
+        z.object({
+          id: z.number(),
+          ntpDate: z.string(),
+          calendarDays: z.number().min(1).optional(),
+          contractorId: z.number().optional(),
+          contractNumber: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const bidding = await getBiddingById(input.id);
+        if (!bidding) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Bidding not found" });
+        }
+        if (!bidding.winningBidder) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Bidding has no winning bidder" });
+        }
+
+        const pow = bidding.powId ? await getPOWById(bidding.powId) : undefined;
+        const contractor = input.contractorId
+          ? await getContractorById(input.contractorId)
+          : await findContractorByName(bidding.winningBidder);
+        if (!contractor) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `No contractor record matches "${bidding.winningBidder}"; register the contractor or pass contractorId`,
+          });
+        }
+        // The contract goes to the bidder awarded at NOA, whose eligibility was checked then
+        if (normalizeContractorName(contractor.name) !== normalizeContractorName(bidding.winningBidder)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Contractor #${contractor.id} is ${contractor.name}, not the winning bidder "${bidding.winningBidder}"`,
+          });
+        }
+        await ensureContractorNotSanctioned(contractor.id);
+
+        const calendarDays = input.calendarDays ?? pow?.calendarDays;
+        if (!calendarDays) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "calendarDays is required when the POW does not specify it" });
+        }
+
+        const ntpDate = new Date(input.ntpDate);
+        const biddingUpdates = planTransition(bidding, { to: "NTP", date: ntpDate });
+        const { project, contract } = buildNtpHandoff({
+          bidding,
+          pow,
+          contractor,
+          ntpDate,
+          calendarDays,
+          contractNumber: input.contractNumber,
+        });
+
+        return issueBiddingNtp({
+          biddingId: bidding.id,
+          powId: bidding.powId,
+          existingProjectId: bidding.projectId ?? pow?.projectId,
+          biddingUpdates,
+          project,
+          contract,
+          createdById: ctx.user.id,
         });
       }),
 
     // Delete a bidding
-    delete: protectedProcedure
+    delete: divisionProcedure("biddings")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
+        const bidding = await getBiddingById(input.id);
+        if (!bidding) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Bidding not found" });
+        }
+        assertBiddingDeletable(bidding);
         return deleteBidding(input.id);
       }),
+
+    // Every bidder's submission, envelope results and ranking
+    submissions: router({
+      list: publicProcedure
+        .input(z.object({ biddingId: z.number() }))
+        .query(async ({ input }) => {
+          return getBidSubmissions(input.biddingId);
+        }),
+
+      create: divisionProcedure("biddings")
+        .input(bidSubmissionInput.extend({ biddingId: z.number(), contractorId: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+          const bidding = await getBiddingById(input.biddingId);
+          if (!bidding) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Bidding not found" });
+          }
+          assertBidsOpen(bidding);
+          if (!(await getContractorById(input.contractorId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Contractor not found" });
+          }
+          await ensureContractorNotSanctioned(input.contractorId);
+          if (await getBidSubmissionByContractor(input.biddingId, input.contractorId)) {
+            throw new TRPCError({ code: "CONFLICT", message: "This contractor already has a bid in this bidding" });
+          }
+          return createBidSubmission({ ...input, abc: Number(bidding.abc), createdById: ctx.user.id });
+        }),
+
+      update: divisionProcedure("biddings")
+        .input(bidSubmissionInput.partial().extend({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          const { id, ...data } = input;
+          const submission = await getBidSubmissionById(id);
+          if (!submission) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Bid submission not found" });
+          }
+          const bidding = await getBiddingById(submission.biddingId);
+          if (!bidding) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Bidding not found" });
+          }
+          assertBidsOpen(bidding);
+          return updateBidSubmission(id, Number(bidding.abc), data);
+        }),
+
+      delete: divisionProcedure("biddings")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          const submission = await getBidSubmissionById(input.id);
+          if (!submission) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Bid submission not found" });
+          }
+          const bidding = await getBiddingById(submission.biddingId);
+          if (bidding) assertBidsOpen(bidding);
+          return deleteBidSubmission(input.id);
+        }),
+
+      // Abstract of bids workbook for the BAC to print and sign
+      exportAbstract: publicProcedure
+        .input(z.object({ biddingId: z.number() }))
+        .query(async ({ input }) => {
+          const bidding = await getBiddingById(input.biddingId);
+          if (!bidding) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Bidding not found" });
+          }
+          const workbook = abstractOfBidsWorkbook(bidding, await getBidSubmissions(input.biddingId));
+          return {
+            fileName: `Abstract of Bids ${bidding.biddingNumber}.xlsx`,
+            fileBase64: workbook.toString("base64"),
+          };
+        }),
+    }),
   }),
 
   // Personnel routes
@@ -756,7 +1914,7 @@ export const appRouter = router({
     }),
 
     // Create a new personnel
-    create: protectedProcedure
+    create: divisionProcedure("personnel")
       .input(
         z.object({
           name: z.string().min(1),
@@ -774,7 +1932,7 @@ export const appRouter = router({
       }),
 
     // Update a personnel
-    update: protectedProcedure
+    update: divisionProcedure("personnel")
       .input(
         z.object({
           id: z.number(),
@@ -794,7 +1952,7 @@ export const appRouter = router({
       }),
 
     // Delete a personnel
-    delete: protectedProcedure
+    delete: divisionProcedure("personnel")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deletePersonnel(input.id);
@@ -832,21 +1990,164 @@ export const appRouter = router({
       return getContractorStats();
     }),
 
+    // Award eligibility report (license, PCAB category, standing, slippage)
+    // for a bidding, or for an ABC as of a date
+    eligibility: publicProcedure
+      .input(
+        z.object({
+          contractorId: z.number(),
+          biddingId: z.number().optional(),
+          abc: z.number().positive().optional(),
+          asOf: z.string().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        const bidding = input.biddingId ? await getBiddingById(input.biddingId) : undefined;
+        if (input.biddingId && !bidding) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Bidding not found" });
+        }
+        const abc = input.abc ?? (bidding ? Number(bidding.abc) : undefined);
+        if (abc === undefined) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Pass a biddingId or an ABC to check against" });
+        }
+        const asOf = input.asOf ?? bidding?.bidOpeningDate;
+
+        const report = await getContractorEligibility(input.contractorId, { abc, asOf: asOf ? new Date(asOf) : new Date() });
+        if (!report) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Contractor not found" });
+        }
+        return report;
+      }),
+
+    // Suspensions and blacklistings; the contractor's status follows them
+    sanctions: router({
+      list: publicProcedure
+        .input(z.object({ contractorId: z.number() }))
+        .query(async ({ input }) => {
+          return getContractorSanctions(input.contractorId);
+        }),
+
+      create: divisionProcedure("contractors")
+        .input(sanctionInput.extend({ contractorId: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+          if (!(await getContractorById(input.contractorId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Contractor not found" });
+          }
+          const startDate = new Date(input.startDate);
+          const endDate = input.endDate ? new Date(input.endDate) : null;
+          assertSanctionPeriod(startDate, endDate);
+          return createContractorSanction({ ...input, startDate, endDate, createdById: ctx.user.id });
+        }),
+
+      update: divisionProcedure("contractors")
+        .input(sanctionInput.partial().extend({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          const { id, startDate, endDate, ...data } = input;
+          const sanction = await getContractorSanctionById(id);
+          if (!sanction) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Sanction not found" });
+          }
+          const start = startDate ? new Date(startDate) : new Date(sanction.startDate);
+          const end = endDate === undefined
+            ? sanction.endDate && new Date(sanction.endDate)
+            : endDate ? new Date(endDate) : null;
+          assertSanctionPeriod(start, end);
+          return updateContractorSanction(id, {
+            ...data,
+            ...(startDate && { startDate: start }),
+            ...(endDate !== undefined && { endDate: end }),
+          });
+        }),
+
+      // End a sanction early; it stays in the contractor's history
+      lift: divisionProcedure("contractors")
+        .input(z.object({ id: z.number(), liftedDate: z.string(), liftedReason: z.string().min(1) }))
+        .mutation(async ({ input }) => {
+          const sanction = await getContractorSanctionById(input.id);
+          if (!sanction) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Sanction not found" });
+          }
+          const liftedDate = new Date(input.liftedDate);
+          assertSanctionPeriod(new Date(sanction.startDate), liftedDate);
+          return liftContractorSanction(input.id, { liftedDate, liftedReason: input.liftedReason });
+        }),
+
+      delete: divisionProcedure("contractors")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          if (!(await getContractorSanctionById(input.id))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Sanction not found" });
+          }
+          return deleteContractorSanction(input.id);
+        }),
+    }),
+
     // Get contractor's projects/contracts
     projects: publicProcedure
       .input(
         z.object({
-          contractorName: z.string(),
+          contractorId: z.number(),
           page: z.number().min(1).optional(),
           limit: z.number().min(1).max(100).optional(),
         })
       )
       .query(async ({ input }) => {
-        return getContractorProjects(input.contractorName, input.page, input.limit);
+        return getContractorProjects(input.contractorId, input.page, input.limit);
+      }),
+
+    // Recency-weighted score, rating band and per-criterion trends
+    scorecard: publicProcedure
+      .input(z.object({ contractorId: z.number(), asOf: z.string().optional() }))
+      .query(async ({ input }) => {
+        const scorecard = await getContractorScorecard(input.contractorId, input.asOf ? new Date(input.asOf) : new Date());
+        if (!scorecard) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Contractor not found" });
+        }
+        return scorecard;
+      }),
+
+    // Records that are likely the same firm (same TIN, or same or similar normalized name)
+    duplicates: publicProcedure.query(async () => {
+      return getContractorDuplicates();
+    }),
+
+    // Fold duplicate records into the surviving one
+    merge: divisionProcedure("contractors")
+      .input(
+        z.object({
+          survivorId: z.number(),
+          duplicateIds: z.array(z.number()).min(1),
+          // Merge even though the TINs differ, e.g. when one was typed in wrong
+          allowDifferentTins: z.boolean().optional(),
+        })
+      )
+      .mutation(async ({ input }) => {
+        const duplicateIds = input.duplicateIds.filter(id => id !== input.survivorId);
+        if (duplicateIds.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A contractor cannot be merged into itself" });
+        }
+        const records = await Promise.all([input.survivorId, ...duplicateIds].map(id => getContractorById(id)));
+        if (records.some(record => !record)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Contractor not found" });
+        }
+        assertSameTin(records.map(record => record!), input.allowDifferentTins);
+        const shared = await getSharedBiddings([input.survivorId, ...duplicateIds]);
+        if (shared.length > 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `These contractors bid against each other in ${shared.map(bidding => bidding.biddingNumber).join(", ")}; they are separate firms`,
+          });
+        }
+        return mergeContractors(input.survivorId, duplicateIds);
       }),
 
+    // Link projects that only carry a contractor name to the matching record
+    linkProjects: divisionProcedure("contractors").mutation(async () => {
+      return linkProjectContractors();
+    }),
+
     // Create a new contractor
-    create: protectedProcedure
+    create: divisionProcedure("contractors")
       .input(
         z.object({
           name: z.string().min(1),
@@ -876,7 +2177,7 @@ export const appRouter = router({
       }),
 
     // Update a contractor
-    update: protectedProcedure
+    update: divisionProcedure("contractors")
       .input(
         z.object({
           id: z.number(),
@@ -911,7 +2212,7 @@ export const appRouter = router({
       }),
 
     // Delete a contractor
-    delete: protectedProcedure
+    delete: divisionProcedure("contractors")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deleteContractor(input.id);
@@ -942,7 +2243,7 @@ export const appRouter = router({
       }),
 
     // Create a new contract history
-    create: protectedProcedure
+    create: divisionProcedure("contractHistory")
       .input(
         z.object({
           contractorId: z.number(),
@@ -959,6 +2260,10 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
+        if (!(await getContractorById(input.contractorId))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Contractor not found" });
+        }
+        await ensureContractorNotSanctioned(input.contractorId);
         return createContractHistory({
           ...input,
           startDate: input.startDate ? new Date(input.startDate) : null,
@@ -968,7 +2273,7 @@ export const appRouter = router({
       }),
 
     // Update a contract history
-    update: protectedProcedure
+    update: divisionProcedure("contractHistory")
       .input(
         z.object({
           id: z.number(),
@@ -1001,7 +2306,7 @@ export const appRouter = router({
       }),
 
     // Delete a contract history
-    delete: protectedProcedure
+    delete: divisionProcedure("contractHistory")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deleteContractHistory(input.id);
@@ -1032,18 +2337,21 @@ export const appRouter = router({
       }),
 
     // Create a new performance rating
-    create: protectedProcedure
+    create: divisionProcedure("performanceRatings")
       .input(
         z.object({
           contractorId: z.number(),
           contractHistoryId: z.number().optional(),
           projectId: z.number().optional(),
           evaluationPeriod: z.string().optional(),
-          qualityRating: z.string().optional(),
-          timelinessRating: z.string().optional(),
-          safetyRating: z.string().optional(),
-          resourceRating: z.string().optional(),
-          communicationRating: z.string().optional(),
+          evaluationType: z.enum(EVALUATION_TYPES),
+          // Only used for contracts without a project; a project's own progress is used otherwise
+          accomplishmentPercent: z.number().min(0).max(100).optional(),
+          qualityRating: criterionRating.optional(),
+          timelinessRating: criterionRating.optional(),
+          safetyRating: criterionRating.optional(),
+          resourceRating: criterionRating.optional(),
+          communicationRating: criterionRating.optional(),
           evaluatorName: z.string().optional(),
           evaluatorPosition: z.string().optional(),
           evaluationDate: z.string().optional(),
@@ -1053,24 +2361,37 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
+        let accomplishmentPercent = input.accomplishmentPercent ?? null;
+        if (input.projectId) {
+          const project = await getProjectById(input.projectId);
+          if (!project) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+          }
+          accomplishmentPercent = project.progressPercent !== null ? Number(project.progressPercent) * 100 : null;
+        }
+        assertEvaluationAllowed(input.evaluationType, {
+          accomplishmentPercent,
+          existing: await getContractEvaluations({ contractHistoryId: input.contractHistoryId, projectId: input.projectId }),
+        });
         return createPerformanceRating({
           ...input,
+          accomplishmentPercent,
           evaluationDate: input.evaluationDate ? new Date(input.evaluationDate) : null,
           createdById: ctx.user.id,
         });
       }),
 
     // Update a performance rating
-    update: protectedProcedure
+    update: divisionProcedure("performanceRatings")
       .input(
         z.object({
           id: z.number(),
           evaluationPeriod: z.string().optional(),
-          qualityRating: z.string().optional(),
-          timelinessRating: z.string().optional(),
-          safetyRating: z.string().optional(),
-          resourceRating: z.string().optional(),
-          communicationRating: z.string().optional(),
+          qualityRating: criterionRating.optional(),
+          timelinessRating: criterionRating.optional(),
+          safetyRating: criterionRating.optional(),
+          resourceRating: criterionRating.optional(),
+          communicationRating: criterionRating.optional(),
           evaluatorName: z.string().optional(),
           evaluatorPosition: z.string().optional(),
           evaluationDate: z.string().optional(),
@@ -1083,22 +2404,44 @@ export const appRouter = router({
         const { id, evaluationDate, ...rest } = input;
         return updatePerformanceRating(id, {
           ...rest,
-          evaluationDate: evaluationDate ? new Date(evaluationDate) : null,
+          evaluationDate: evaluationDate ? new Date(evaluationDate) : undefined,
         });
       }),
 
     // Delete a performance rating
-    delete: protectedProcedure
+    delete: divisionProcedure("performanceRatings")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deletePerformanceRating(input.id);
       }),
+
+    // Weight (percent) of each criterion in the overall rating
+    weights: router({
+      get: publicProcedure.query(async () => {
+        return getRatingWeights();
+      }),
+
+      set: divisionProcedure("ratingWeights")
+        .input(
+          z.object({
+            quality: z.number().min(0).max(100),
+            timeliness: z.number().min(0).max(100),
+            safety: z.number().min(0).max(100),
+            resource: z.number().min(0).max(100),
+            communication: z.number().min(0).max(100),
+          })
+        )
+        .mutation(async ({ input, ctx }) => {
+          assertRatingWeights(input);
+          return setRatingWeights(input, ctx.user.id);
+        }),
+    }),
   }),
 
   // User management routes (admin only)
   users: router({
     // List users with filters (admin only)
-    list: protectedProcedure
+    list: divisionProcedure("users")
       .input(
         z.object({
           search: z.string().optional(),
@@ -1109,64 +2452,45 @@ export const appRouter = router({
           limit: z.number().min(1).max(100).optional(),
         }).optional()
       )
-      .query(async ({ ctx, input }) => {
-        // Only admins can list users
-        if (ctx.user?.role !== 'admin') {
-          throw new Error('Only admins can access user management');
-        }
+      .query(async ({ input }) => {
         return getUsers(input ?? {});
       }),
 
     // Get single user by ID (admin only)
-    byId: protectedProcedure
+    byId: divisionProcedure("users")
       .input(z.object({ id: z.number() }))
-      .query(async ({ ctx, input }) => {
-        if (ctx.user?.role !== 'admin') {
-          throw new Error('Only admins can access user management');
-        }
+      .query(async ({ input }) => {
         return getUserById(input.id);
       }),
 
     // Get user statistics (admin only)
-    stats: protectedProcedure.query(async ({ ctx }) => {
-      if (ctx.user?.role !== 'admin') {
-        throw new Error('Only admins can access user management');
-      }
+    stats: divisionProcedure("users").query(async () => {
       return getUserStats();
     }),
 
     // Approve a user (admin only)
-    approve: protectedProcedure
+    approve: divisionProcedure("users")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        if (ctx.user?.role !== 'admin') {
-          throw new Error('Only admins can approve users');
-        }
         return approveUser(input.id, ctx.user.id);
       }),
 
     // Reject a user (admin only)
-    reject: protectedProcedure
+    reject: divisionProcedure("users")
       .input(z.object({ id: z.number(), reason: z.string().optional() }))
       .mutation(async ({ ctx, input }) => {
-        if (ctx.user?.role !== 'admin') {
-          throw new Error('Only admins can reject users');
-        }
         return rejectUser(input.id, ctx.user.id, input.reason);
       }),
 
     // Update user role (admin only)
-    updateRole: protectedProcedure
+    updateRole: divisionProcedure("users")
       .input(z.object({ id: z.number(), role: z.enum(['user', 'admin']) }))
-      .mutation(async ({ ctx, input }) => {
-        if (ctx.user?.role !== 'admin') {
-          throw new Error('Only admins can update user roles');
-        }
+      .mutation(async ({ input }) => {
         return updateUserRole(input.id, input.role);
       }),
 
     // Update user details (admin only)
-    update: protectedProcedure
+    update: divisionProcedure("users")
       .input(
         z.object({
           id: z.number(),
@@ -1176,24 +2500,18 @@ export const appRouter = router({
           role: z.enum(['user', 'admin']).optional(),
         })
       )
-      .mutation(async ({ ctx, input }) => {
-        if (ctx.user?.role !== 'admin') {
-          throw new Error('Only admins can update user details');
-        }
+      .mutation(async ({ input }) => {
         const { id, ...data } = input;
         return updateUserDetails(id, data);
       }),
 
     // Delete a user (admin only)
-    delete: protectedProcedure
+    delete: divisionProcedure("users")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        if (ctx.user?.role !== 'admin') {
-          throw new Error('Only admins can delete users');
-        }
         // Prevent self-deletion
         if (ctx.user.id === input.id) {
-          throw new Error('Cannot delete your own account');
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Cannot delete your own account" });
         }
         return deleteUser(input.id);
       }),
@@ -1230,6 +2548,136 @@ export const appRouter = router({
     stats: publicProcedure.query(async () => {
       return getRoadStats();
     }),
+
+    create: divisionProcedure("roads")
+      .input(roadInput)
+      .mutation(async ({ input }) => {
+        if (input.roadId && (await getProvincialRoadByRoadId(input.roadId))) {
+          throw new TRPCError({ code: "CONFLICT", message: `Road ID ${input.roadId} already exists` });
+        }
+        return createProvincialRoad(input);
+      }),
+
+    update: divisionProcedure("roads")
+      .input(roadInput.partial().extend({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        const { id, ...data } = input;
+        if (data.roadId) {
+          const existing = await getProvincialRoadByRoadId(data.roadId);
+          if (existing && existing.id !== id) {
+            throw new TRPCError({ code: "CONFLICT", message: `Road ID ${data.roadId} already exists` });
+          }
+        }
+        return updateProvincialRoad(id, data);
+      }),
+
+    delete: divisionProcedure("roads")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        return deleteProvincialRoad(input.id);
+      }),
+
+    // Re-import the road inventory workbook. Without confirm this is a dry run
+    // that returns the new / changed / unchanged roads by roadId.
+    importWorkbook: divisionProcedure("roads")
+      .input(
+        z.object({
+          fileBase64: z.string().min(1),
+          sheetName: z.string().optional(),
+          confirm: z.boolean().default(false),
+        })
+      )
+      .mutation(async ({ input }) => {
+        let parsed;
+        try {
+          parsed = parseRoadWorkbook(Buffer.from(input.fileBase64, "base64"), input.sheetName);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Could not read workbook",
+          });
+        }
+        if (parsed.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "No roads found in workbook" });
+        }
+
+        const diff = input.confirm ? await applyRoadImport(parsed) : await previewRoadImport(parsed);
+        return { applied: input.confirm, ...diff };
+      }),
+
+    // Condition surveys per kilometer segment
+    surveys: router({
+      list: publicProcedure
+        .input(z.object({ roadId: z.number() }))
+        .query(async ({ input }) => {
+          return getRoadSurveys(input.roadId);
+        }),
+
+      // Current condition of a road, overlaying the newest survey of each stretch
+      current: publicProcedure
+        .input(z.object({ roadId: z.number() }))
+        .query(async ({ input }) => {
+          return currentRoadCondition(await getRoadSurveys(input.roadId));
+        }),
+
+      // Good/fair/poor/bad km per municipality per year for the Maintenance dashboard
+      trend: publicProcedure
+        .input(
+          z.object({
+            municipality: z.string().optional(),
+            fromYear: z.number().int().optional(),
+            toYear: z.number().int().optional(),
+          }).optional()
+        )
+        .query(async ({ input }) => {
+          const { municipality, ...range } = input ?? {};
+          return conditionTrend(await getSurveysForTrend({ municipality }), range);
+        }),
+
+      create: divisionProcedure("roads")
+        .input(surveyInput)
+        .mutation(async ({ ctx, input }) => {
+          const road = await getProvincialRoadById(input.roadId);
+          if (!road) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Road not found" });
+          }
+          assertSurveySegment(input, road);
+          return createRoadSurvey({
+            ...input,
+            surveyDate: new Date(input.surveyDate),
+            kmStart: String(input.kmStart),
+            kmEnd: String(input.kmEnd),
+            surveyedById: ctx.user.id,
+          });
+        }),
+
+      update: divisionProcedure("roads")
+        .input(surveyInput.partial().extend({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          const { id, surveyDate, kmStart, kmEnd, ...data } = input;
+          const existing = await getRoadSurveyById(id);
+          if (!existing) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Survey not found" });
+          }
+          const road = await getProvincialRoadById(data.roadId ?? existing.roadId);
+          if (!road) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Road not found" });
+          }
+          assertSurveySegment({ kmStart: kmStart ?? Number(existing.kmStart), kmEnd: kmEnd ?? Number(existing.kmEnd) }, road);
+          return updateRoadSurvey(id, {
+            ...data,
+            surveyDate: surveyDate ? new Date(surveyDate) : undefined,
+            kmStart: kmStart !== undefined ? String(kmStart) : undefined,
+            kmEnd: kmEnd !== undefined ? String(kmEnd) : undefined,
+          });
+        }),
+
+      delete: divisionProcedure("roads")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          return deleteRoadSurvey(input.id);
+        }),
+    }),
   }),
 
   // Maintenance Equipment routes
@@ -1258,7 +2706,36 @@ export const appRouter = router({
       return getEquipmentStats();
     }),
 
-    create: protectedProcedure
+    // Units free for every day of a date range, with the bookings blocking the rest
+    availability: publicProcedure
+      .input(
+        z.object({
+          startDate: z.string(),
+          endDate: z.string(),
+          equipmentType: z.enum(['Heavy Equipment', 'Vehicle', 'Tool', 'Other']).optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        return getEquipmentAvailability({
+          ...input,
+          startDate: new Date(input.startDate),
+          endDate: new Date(input.endDate),
+        });
+      }),
+
+    // Hours used, fuel consumed and idle days per unit per month
+    utilization: publicProcedure
+      .input(
+        z.object({
+          year: z.number().int(),
+          equipmentId: z.number().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        return getEquipmentUtilization(input);
+      }),
+
+    create: divisionProcedure("equipment")
       .input(
         z.object({
           name: z.string().min(1),
@@ -1276,7 +2753,7 @@ export const appRouter = router({
         return createEquipment(input);
       }),
 
-    update: protectedProcedure
+    update: divisionProcedure("equipment")
       .input(
         z.object({
           id: z.number(),
@@ -1296,11 +2773,213 @@ export const appRouter = router({
         return updateEquipment(id, data);
       }),
 
-    delete: protectedProcedure
+    delete: divisionProcedure("equipment")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deleteEquipment(input.id);
       }),
+
+    // Hour meter and next due service of each plan for one unit
+    serviceStatus: publicProcedure
+      .input(z.object({ equipmentId: z.number() }))
+      .query(async ({ input }) => {
+        return getEquipmentServiceStatus(input.equipmentId);
+      }),
+
+    // Units with overdue (and optionally due-soon) preventive maintenance
+    dueForService: publicProcedure
+      .input(z.object({ includeDueSoon: z.boolean().optional() }).optional())
+      .query(async ({ input }) => {
+        return getEquipmentDueForService(input ?? {});
+      }),
+
+    // Open preventive work orders for overdue plans, moving those units to Under Maintenance
+    openDueWorkOrders: divisionProcedure("equipment")
+      .mutation(async ({ ctx }) => {
+        return openDueWorkOrders(ctx.user.id);
+      }),
+
+    servicePlans: router({
+      list: publicProcedure
+        .input(z.object({ equipmentId: z.number() }))
+        .query(async ({ input }) => {
+          return getServicePlans(input.equipmentId);
+        }),
+
+      create: divisionProcedure("equipment")
+        .input(servicePlanInput.refine(plan => plan.intervalHours || plan.intervalDays, {
+          message: "Give intervalHours, intervalDays or both",
+        }))
+        .mutation(async ({ input }) => {
+          if (!(await getEquipmentById(input.equipmentId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Equipment not found" });
+          }
+          return createServicePlan(input);
+        }),
+
+      update: divisionProcedure("equipment")
+        .input(servicePlanInput.omit({ equipmentId: true }).partial().extend({
+          id: z.number(),
+          intervalHours: z.number().positive().nullable().optional(),
+          intervalDays: z.number().int().positive().nullable().optional(),
+        }))
+        .mutation(async ({ input }) => {
+          const { id, ...data } = input;
+          const existing = await getServicePlanById(id);
+          if (!existing) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Service plan not found" });
+          }
+          const hours = data.intervalHours !== undefined ? data.intervalHours : existing.intervalHours;
+          const days = data.intervalDays !== undefined ? data.intervalDays : existing.intervalDays;
+          if (!hours && !days) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Give intervalHours, intervalDays or both" });
+          }
+          return updateServicePlan(id, data);
+        }),
+
+      delete: divisionProcedure("equipment")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          return deleteServicePlan(input.id);
+        }),
+    }),
+
+    // Service and repair log; open work orders keep the unit Under Maintenance
+    workOrders: router({
+      list: publicProcedure
+        .input(
+          z.object({
+            equipmentId: z.number().optional(),
+            status: z.enum(['Open', 'In Progress', 'Completed', 'Cancelled']).optional(),
+          }).optional()
+        )
+        .query(async ({ input }) => {
+          return getWorkOrders(input ?? {});
+        }),
+
+      byId: publicProcedure
+        .input(z.object({ id: z.number() }))
+        .query(async ({ input }) => {
+          return getWorkOrderById(input.id);
+        }),
+
+      create: divisionProcedure("equipment")
+        .input(workOrderInput)
+        .mutation(async ({ ctx, input }) => {
+          if (!(await getEquipmentById(input.equipmentId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Equipment not found" });
+          }
+          if (input.servicePlanId) {
+            const plan = await getServicePlanById(input.servicePlanId);
+            if (!plan || plan.equipmentId !== input.equipmentId) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: "Service plan does not belong to this equipment" });
+            }
+          }
+          return createWorkOrder({ ...input, createdById: ctx.user.id });
+        }),
+
+      update: divisionProcedure("equipment")
+        .input(workOrderInput.omit({ equipmentId: true, servicePlanId: true }).partial().extend({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          const { id, ...data } = input;
+          if (!(await getWorkOrderById(id))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Work order not found" });
+          }
+          return updateWorkOrder(id, data);
+        }),
+
+      delete: divisionProcedure("equipment")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          return deleteWorkOrder(input.id);
+        }),
+    }),
+
+    // Average liters per hour and per km per unit from the fuel ledger
+    fuelEfficiency: publicProcedure
+      .input(z.object({ equipmentId: z.number().optional() }).optional())
+      .query(async ({ input }) => {
+        return getFuelEfficiency(input ?? {});
+      }),
+
+    // Fuel slips deviating from the unit's baseline consumption by more than thresholdPercent
+    fuelAnomalies: publicProcedure
+      .input(
+        z.object({
+          equipmentId: z.number().optional(),
+          thresholdPercent: z.number().positive().optional(),
+          startDate: z.string().optional(),
+          endDate: z.string().optional(),
+        }).optional()
+      )
+      .query(async ({ input }) => {
+        return getFuelAnomalies(input ?? {});
+      }),
+
+    fuelIssuances: router({
+      list: publicProcedure
+        .input(
+          z.object({
+            equipmentId: z.number().optional(),
+            assignmentId: z.number().optional(),
+            startDate: z.string().optional(),
+            endDate: z.string().optional(),
+          }).optional()
+        )
+        .query(async ({ input }) => {
+          return getFuelIssuances(input ?? {});
+        }),
+
+      create: divisionProcedure("equipment")
+        .input(fuelIssuanceInput)
+        .mutation(async ({ ctx, input }) => {
+          if (await getFuelIssuanceBySlipNumber(input.slipNumber)) {
+            throw new TRPCError({ code: "CONFLICT", message: `Slip ${input.slipNumber} is already recorded` });
+          }
+          if (!(await getEquipmentById(input.equipmentId))) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Equipment not found" });
+          }
+          if (input.assignmentId) {
+            const assignment = await getAssignmentById(input.assignmentId);
+            if (!assignment || assignment.equipmentId !== input.equipmentId) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: "Assignment does not belong to this equipment" });
+            }
+          }
+          return createFuelIssuance({ ...input, createdById: ctx.user.id });
+        }),
+
+      update: divisionProcedure("equipment")
+        .input(fuelIssuanceInput.omit({ equipmentId: true }).partial().extend({
+          id: z.number(),
+          assignmentId: z.number().nullable().optional(),
+        }))
+        .mutation(async ({ input }) => {
+          const { id, ...data } = input;
+          const existing = await getFuelIssuanceById(id);
+          if (!existing) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Fuel issuance not found" });
+          }
+          if (data.slipNumber) {
+            const duplicate = await getFuelIssuanceBySlipNumber(data.slipNumber);
+            if (duplicate && duplicate.id !== id) {
+              throw new TRPCError({ code: "CONFLICT", message: `Slip ${data.slipNumber} is already recorded` });
+            }
+          }
+          if (data.assignmentId) {
+            const assignment = await getAssignmentById(data.assignmentId);
+            if (!assignment || assignment.equipmentId !== existing.equipmentId) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: "Assignment does not belong to this equipment" });
+            }
+          }
+          return updateFuelIssuance(id, data);
+        }),
+
+      delete: divisionProcedure("equipment")
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          return deleteFuelIssuance(input.id);
+        }),
+    }),
   }),
 
   // Maintenance Schedules routes
@@ -1331,7 +3010,27 @@ export const appRouter = router({
       return getScheduleStats();
     }),
 
-    create: protectedProcedure
+    // Covered and uncovered chainage per road for a year's schedules
+    coverage: publicProcedure
+      .input(
+        z.object({
+          year: z.number().int(),
+          roadId: z.number().optional(),
+          municipality: z.string().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        return getScheduleCoverage(input);
+      }),
+
+    // Active schedules that overlap on the same road segment and dates
+    conflicts: publicProcedure
+      .input(z.object({ roadId: z.number().optional() }).optional())
+      .query(async ({ input }) => {
+        return getScheduleConflicts(input ?? {});
+      }),
+
+    create: divisionProcedure("schedules")
       .input(
         z.object({
           roadId: z.number().optional(),
@@ -1351,7 +3050,7 @@ export const appRouter = router({
         return createSchedule({ ...input, createdById: ctx.user?.id });
       }),
 
-    update: protectedProcedure
+    update: divisionProcedure("schedules")
       .input(
         z.object({
           id: z.number(),
@@ -1377,7 +3076,7 @@ export const appRouter = router({
         return updateSchedule(id, data);
       }),
 
-    delete: protectedProcedure
+    delete: divisionProcedure("schedules")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deleteSchedule(input.id);
@@ -1389,6 +3088,7 @@ export const appRouter = router({
     list: publicProcedure
       .input(
         z.object({
+          search: z.string().optional(),
           scheduleId: z.number().optional(),
           equipmentId: z.number().optional(),
           status: z.enum(['Assigned', 'Active', 'Completed', 'Returned']).optional(),
@@ -1400,7 +3100,7 @@ export const appRouter = router({
         return getEquipmentAssignments(input ?? {});
       }),
 
-    create: protectedProcedure
+    create: divisionProcedure("assignments")
       .input(
         z.object({
           scheduleId: z.number(),
@@ -1415,7 +3115,7 @@ export const appRouter = router({
         return createEquipmentAssignment(input);
       }),
 
-    update: protectedProcedure
+    update: divisionProcedure("assignments")
       .input(
         z.object({
           id: z.number(),
@@ -1430,15 +3130,78 @@ export const appRouter = router({
       )
       .mutation(async ({ input }) => {
         const { id, ...data } = input;
+        // Fuel drawn on slips is totalled onto the assignment; a typed-in figure would be overwritten
+        if (data.fuelConsumed !== undefined && (await getFuelIssuances({ assignmentId: id })).length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Fuel consumed is totalled from the fuel slips issued against this assignment; correct the slips instead",
+          });
+        }
         return updateEquipmentAssignment(id, data);
       }),
 
-    delete: protectedProcedure
+    delete: divisionProcedure("assignments")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         return deleteEquipmentAssignment(input.id);
       }),
   }),
+
+  // Audit trail routes
+  audit: router({
+    // List audit entries filtered by entity, user and date range
+    list: approvedProcedure
+      .input(
+        z.object({
+          entityType: z.string().optional(),
+          entityId: z.number().optional(),
+          userId: z.number().optional(),
+          action: z.string().optional(),
+          dateFrom: dateString.optional(),
+          dateTo: dateString.optional(),
+          page: z.number().min(1).optional(),
+          limit: z.number().min(1).max(100).optional(),
+        }).optional()
+      )
+      .query(async ({ input }) => {
+        const { dateFrom, dateTo, ...rest } = input ?? {};
+        return getAuditLogs({
+          ...rest,
+          dateFrom: dateFrom ? new Date(dateFrom) : undefined,
+          dateBefore: dateTo ? auditRangeEnd(dateTo) : undefined,
+        });
+      }),
+
+    // History timeline for a single record (e.g. a project or bidding detail view)
+    forEntity: approvedProcedure
+      .input(z.object({ entityType: z.string(), entityId: z.number() }))
+      .query(async ({ input }) => {
+        return getAuditLogsForEntity(input.entityType, input.entityId);
+      }),
+  }),
+
+  // Reference number sequence routes (admin only)
+  sequences: router({
+    // List counters and their formats per fiscal year
+    list: divisionProcedure("sequences").query(async () => {
+      return getSequences();
+    }),
+
+    // Change the number format for a prefix and fiscal year
+    setFormat: divisionProcedure("sequences")
+      .input(
+        z.object({
+          prefix: z.enum(["POW", "BID", "DOC"]),
+          fiscalYear: z.number().int(),
+          format: z.string().min(1).max(100).refine(validateSequenceFormat, {
+            message: "Format must contain a {seq} token",
+          }),
+        })
+      )
+      .mutation(async ({ input }) => {
+        return setSequenceFormat(input.prefix, input.fiscalYear, input.format);
+      }),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Document } from "../drizzle/schema";
+import type { TrpcContext } from "./_core/context";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getDocumentByRefNumber: vi.fn(),
+  createDocument: vi.fn(),
+}));
+
+import { createDocument, getDocumentByRefNumber } from "./db";
+import { appRouter } from "./routers";
+import { DEFAULT_SEQUENCE_FORMATS, formatSequenceNumber, validateSequenceFormat } from "./sequences";
+
+describe("formatSequenceNumber", () => {
+  it("pads the counter to the requested width", () => {
+    expect(formatSequenceNumber(DEFAULT_SEQUENCE_FORMATS.BID, 7, { fiscalYear: 2026 })).toBe("BID-2026-0007");
+    expect(formatSequenceNumber(DEFAULT_SEQUENCE_FORMATS.POW, 12, { fiscalYear: 2027 })).toBe("POW-2027-012");
+  });
+
+  it("does not truncate counters wider than the padding", () => {
+    expect(formatSequenceNumber("BID-{FY}-{seq:2}", 123, { fiscalYear: 2026 })).toBe("BID-2026-123");
+  });
+
+  it("fills in division code and month of issue for documents", () => {
+    const number = formatSequenceNumber(DEFAULT_SEQUENCE_FORMATS.DOC, 81, {
+      fiscalYear: 2026,
+      division: "Planning",
+      date: new Date(2026, 2, 15),
+    });
+    expect(number).toBe("PEO-PLN-202603-81");
+  });
+
+  it("falls back to a general code for documents without a division", () => {
+    expect(
+      formatSequenceNumber(DEFAULT_SEQUENCE_FORMATS.DOC, 1, { fiscalYear: 2026, date: new Date(2026, 10, 1) })
+    ).toBe("PEO-GEN-202611-1");
+  });
+});
+
+describe("validateSequenceFormat", () => {
+  it("requires a seq token", () => {
+    expect(validateSequenceFormat("BID-{FY}-{seq:4}")).toBe(true);
+    expect(validateSequenceFormat("PEO-{DIV}-{seq}")).toBe(true);
+    expect(validateSequenceFormat("BID-{FY}")).toBe(false);
+  });
+});
+
+describe("documents.create", () => {
+  const caller = appRouter.createCaller({
+    user: {
+      id: 1,
+      openId: "admin",
+      email: null,
+      name: "Admin",
+      loginMethod: "manus",
+      role: "admin",
+      division: "Admin",
+      position: null,
+      isDivisionHead: false,
+      approvalStatus: "approved",
+      approvedById: null,
+      approvalDate: null,
+      rejectionReason: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as TrpcContext["res"],
+  });
+
+  it("refuses a manual reference number that is already in use", async () => {
+    vi.mocked(getDocumentByRefNumber).mockResolvedValue({ id: 3, refNumber: "PEO-PLN-202603-81" } as Document);
+
+    await expect(caller.documents.create({ name: "Letter", refNumber: "PEO-PLN-202603-81" })).rejects.toMatchObject({
+      code: "CONFLICT",
+      message: "Reference number PEO-PLN-202603-81 is already in use",
+    });
+    expect(createDocument).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Reference number sequences. Counters live in the `sequences` table
+ * (one row per prefix and fiscal year); this module only knows how to
+ * turn a counter value into a reference number.
+ *
+ * Format tokens:
+ *   {FY}       fiscal year, e.g. 2026
+ *   {YYYYMM}   year and month of issue, e.g. 202603
+ *   {DIV}      division code (ADM, PLN, CON, QA, MNT, GEN)
+ *   {seq}      counter value
+ *   {seq:N}    counter value zero-padded to N digits
+ */
+
+export type SequencePrefix = "POW" | "BID" | "DOC";
+
+/** Formats used when a counter is first created; admins may change them per year */
+export const DEFAULT_SEQUENCE_FORMATS: Record<SequencePrefix, string> = {
+  POW: "POW-{FY}-{seq:3}",
+  BID: "BID-{FY}-{seq:4}",
+  DOC: "PEO-{DIV}-{YYYYMM}-{seq}",
+};
+
+const DIVISION_CODES: Record<string, string> = {
+  Admin: "ADM",
+  Planning: "PLN",
+  Construction: "CON",
+  Quality: "QA",
+  Maintenance: "MNT",
+};
+
+export type SequenceContext = {
+  fiscalYear: number;
+  division?: string | null;
+  /** Date of issue, defaults to now */
+  date?: Date;
+};
+
+const TOKEN_PATTERN = /\{(FY|YYYYMM|DIV|seq)(?::(\d+))?\}/g;
+
+export function formatSequenceNumber(format: string, value: number, context: SequenceContext) {
+  const date = context.date ?? new Date();
+
+  return format.replace(TOKEN_PATTERN, (_match, token: string, width?: string) => {
+    switch (token) {
+      case "FY":
+        return String(context.fiscalYear);
+      case "YYYYMM":
+        return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, "0")}`;
+      case "DIV":
+        return (context.division && DIVISION_CODES[context.division]) || "GEN";
+      default:
+        return width ? String(value).padStart(Number(width), "0") : String(value);
+    }
+  });
+}
+
+/** A format must contain {seq}, otherwise every number in the year would be identical */
+export function validateSequenceFormat(format: string) {
+  const tokens = Array.from(format.matchAll(TOKEN_PATTERN)).map(match => match[1]);
+  return tokens.includes("seq");
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { TrpcContext } from "./_core/context";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getProjectActualProgress: vi.fn(),
+  updateProject: vi.fn(),
+}));
+
+import { getProjectActualProgress, updateProject } from "./db";
+import { appRouter } from "./routers";
+import { assertProgressPlan, buildSCurve, classifySlippage, latestSlippage, plannedPercentAt } from "./slippage";
+
+const plan = [
+  { periodDate: new Date("2026-01-01"), plannedPercent: "0.00" },
+  { periodDate: new Date("2026-01-31"), plannedPercent: "20.00" },
+  { periodDate: new Date("2026-03-02"), plannedPercent: "60.00" },
+  { periodDate: new Date("2026-04-01"), plannedPercent: "100.00" },
+];
+
+describe("plannedPercentAt", () => {
+  it("interpolates between schedule points", () => {
+    expect(plannedPercentAt(plan, new Date("2026-01-31"))).toBe(20);
+    expect(plannedPercentAt(plan, new Date("2026-02-15"))).toBe(40);
+  });
+
+  it("is 0 before the schedule and holds the last value after it", () => {
+    expect(plannedPercentAt(plan, new Date("2025-12-15"))).toBe(0);
+    expect(plannedPercentAt(plan, new Date("2026-06-30"))).toBe(100);
+  });
+});
+
+describe("classifySlippage", () => {
+  it("flags negative slippage beyond 10 and 15 points", () => {
+    expect(classifySlippage(2.5)).toEqual({ status: "Ahead", flag: null });
+    expect(classifySlippage(0)).toEqual({ status: "On Time", flag: null });
+    expect(classifySlippage(-10)).toEqual({ status: "Behind", flag: null });
+    expect(classifySlippage(-12)).toEqual({ status: "Behind", flag: "Warning" });
+    expect(classifySlippage(-15.5)).toEqual({ status: "Behind", flag: "Critical" });
+  });
+});
+
+describe("latestSlippage", () => {
+  const actuals = [
+    { reportDate: new Date("2026-01-31"), actualPercent: "18.00" },
+    { reportDate: new Date("2026-02-15"), actualPercent: "27.50" },
+    { reportDate: new Date("2026-03-02"), actualPercent: "60.00" },
+  ];
+
+  it("compares the latest report with the plan on that date", () => {
+    expect(latestSlippage(plan, actuals, new Date("2026-02-20"))).toEqual({
+      reportDate: "2026-02-15",
+      planned: 40,
+      actual: 27.5,
+      slippage: -12.5,
+      status: "Behind",
+      flag: "Warning",
+    });
+  });
+
+  it("is null before the first report", () => {
+    expect(latestSlippage(plan, actuals, new Date("2026-01-15"))).toBeNull();
+  });
+});
+
+describe("buildSCurve", () => {
+  it("merges plan and report dates into one series", () => {
+    const points = buildSCurve(plan.slice(0, 3), [{ reportDate: new Date("2026-02-15"), actualPercent: "35.00" }]);
+
+    expect(points).toEqual([
+      { date: "2026-01-01", planned: 0, actual: null, slippage: null },
+      { date: "2026-01-31", planned: 20, actual: null, slippage: null },
+      { date: "2026-02-15", planned: 40, actual: 35, slippage: -5 },
+      { date: "2026-03-02", planned: 60, actual: null, slippage: null },
+    ]);
+  });
+});
+
+describe("assertProgressPlan", () => {
+  it("rejects a schedule that goes backwards or repeats a date", () => {
+    expect(() => assertProgressPlan(plan)).not.toThrow();
+    expect(() =>
+      assertProgressPlan([
+        { periodDate: new Date("2026-01-31"), plannedPercent: 30 },
+        { periodDate: new Date("2026-03-02"), plannedPercent: 25 },
+        { periodDate: new Date("2026-03-02"), plannedPercent: 40 },
+      ])
+    ).toThrow("2026-03-02: planned progress cannot drop below 30; 2026-03-02 is listed more than once");
+  });
+});
+
+describe("projects.update", () => {
+  const caller = appRouter.createCaller({
+    user: {
+      id: 3,
+      openId: "construction",
+      email: null,
+      name: "Project Engineer",
+      loginMethod: "manus",
+      role: "user",
+      division: "Construction",
+      position: null,
+      isDivisionHead: false,
+      approvalStatus: "approved",
+      approvedById: null,
+      approvalDate: null,
+      rejectionReason: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as TrpcContext["res"],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(updateProject).mockResolvedValue({ success: true } as never);
+  });
+
+  it("leaves progress to the actual-progress reports once any are logged", async () => {
+    vi.mocked(getProjectActualProgress).mockResolvedValue([{ reportDate: new Date("2026-03-31"), actualPercent: "42.00" }] as never);
+
+    await expect(caller.projects.update({ id: 41, progressPercent: "0.90" })).rejects.toThrow("record a new report instead");
+    expect(updateProject).not.toHaveBeenCalled();
+    await expect(caller.projects.update({ id: 41, location: "Brgy. Tumarbong" })).resolves.toEqual({ success: true });
+  });
+
+  it("accepts a manual figure for projects without reports", async () => {
+    vi.mocked(getProjectActualProgress).mockResolvedValue([]);
+
+    await expect(caller.projects.update({ id: 41, progressPercent: "0.90" })).resolves.toEqual({ success: true });
+  });
+});
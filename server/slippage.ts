@@ -0,0 +1,137 @@
+import { TRPCError } from "@trpc/server";
+import { dayKey, round } from "./util";
+
+/**
+ * Planned-vs-actual progress for construction projects. Both series are
+ * cumulative percentages (100 = 100%). Slippage is actual minus planned in
+ * percentage points, so a negative value means the project is behind.
+ */
+
+export type ProgressStatus = "Ahead" | "On Time" | "Behind";
+export type SlippageFlag = "Warning" | "Critical";
+
+/** Negative slippage beyond these many points is flagged */
+export const SLIPPAGE_WARNING_THRESHOLD = 10;
+export const SLIPPAGE_CRITICAL_THRESHOLD = 15;
+
+export type PlannedPoint = { periodDate: Date; plannedPercent: string | number };
+export type ActualPoint = { reportDate: Date; actualPercent: string | number };
+
+export type SCurvePoint = {
+  date: string;
+  planned: number;
+  actual: number | null;
+  slippage: number | null;
+};
+
+export type SlippageSummary = {
+  reportDate: string;
+  planned: number;
+  actual: number;
+  slippage: number;
+  status: ProgressStatus;
+  flag: SlippageFlag | null;
+};
+
+function byPeriod(a: PlannedPoint, b: PlannedPoint) {
+  return new Date(a.periodDate).getTime() - new Date(b.periodDate).getTime();
+}
+
+/**
+ * Reject planned schedules that are not a proper S-curve: one point per date,
+ * each between 0 and 100 and never lower than the one before it.
+ */
+export function assertProgressPlan(points: PlannedPoint[]) {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  let previous = 0;
+
+  for (const point of [...points].sort(byPeriod)) {
+    const key = dayKey(point.periodDate);
+    const percent = Number(point.plannedPercent);
+    if (seen.has(key)) errors.push(`${key} is listed more than once`);
+    if (percent < 0 || percent > 100) errors.push(`${key}: planned progress must be between 0 and 100`);
+    if (percent < previous) errors.push(`${key}: planned progress cannot drop below ${previous}`);
+    seen.add(key);
+    previous = Math.max(previous, percent);
+  }
+
+  if (errors.length > 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: errors.join("; ") });
+  }
+}
+
+/**
+ * Planned progress on a given date, interpolating linearly between schedule
+ * points. Nothing is planned before the first point, and after the last
+ * point the plan stays at its final value.
+ */
+export function plannedPercentAt(plan: PlannedPoint[], date: Date) {
+  const sorted = [...plan].sort(byPeriod);
+  if (sorted.length === 0) return 0;
+
+  const time = new Date(date).getTime();
+  let previous = { time: -Infinity, percent: 0 };
+  for (const point of sorted) {
+    const pointTime = new Date(point.periodDate).getTime();
+    const percent = Number(point.plannedPercent);
+    if (time <= pointTime) {
+      if (previous.time === -Infinity) return time === pointTime ? percent : 0;
+      const fraction = (time - previous.time) / (pointTime - previous.time);
+      return round(previous.percent + (percent - previous.percent) * fraction);
+    }
+    previous = { time: pointTime, percent };
+  }
+  return previous.percent;
+}
+
+export function classifySlippage(slippage: number): { status: ProgressStatus; flag: SlippageFlag | null } {
+  const status: ProgressStatus = slippage > 0 ? "Ahead" : slippage < 0 ? "Behind" : "On Time";
+  let flag: SlippageFlag | null = null;
+  if (slippage < -SLIPPAGE_CRITICAL_THRESHOLD) flag = "Critical";
+  else if (slippage < -SLIPPAGE_WARNING_THRESHOLD) flag = "Warning";
+  return { status, flag };
+}
+
+/** Slippage at each actual report, oldest first */
+export function slippageHistory(plan: PlannedPoint[], actuals: ActualPoint[]): SlippageSummary[] {
+  return [...actuals]
+    .sort((a, b) => new Date(a.reportDate).getTime() - new Date(b.reportDate).getTime())
+    .map(report => {
+      const planned = plannedPercentAt(plan, report.reportDate);
+      const actual = Number(report.actualPercent);
+      const slippage = round(actual - planned);
+      return { reportDate: dayKey(report.reportDate), planned, actual, slippage, ...classifySlippage(slippage) };
+    });
+}
+
+/** Latest report on or before `asOf`, or null when there is none */
+export function latestSlippage(plan: PlannedPoint[], actuals: ActualPoint[], asOf = new Date()) {
+  const history = slippageHistory(
+    plan,
+    actuals.filter(report => new Date(report.reportDate).getTime() <= asOf.getTime())
+  );
+  return history[history.length - 1] ?? null;
+}
+
+/**
+ * Chart series for the S-curve: one point per plan or report date, with the
+ * planned value interpolated on report dates and actual/slippage only where
+ * progress was reported.
+ */
+export function buildSCurve(plan: PlannedPoint[], actuals: ActualPoint[]): SCurvePoint[] {
+  const reported = new Map(slippageHistory(plan, actuals).map(entry => [entry.reportDate, entry]));
+  const dates = new Set([...plan.map(point => dayKey(point.periodDate)), ...Array.from(reported.keys())]);
+
+  return Array.from(dates)
+    .sort()
+    .map(date => {
+      const report = reported.get(date);
+      return {
+        date,
+        planned: report?.planned ?? plannedPercentAt(plan, new Date(date)),
+        actual: report?.actual ?? null,
+        slippage: report?.slippage ?? null,
+      };
+    });
+}
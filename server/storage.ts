@@ -100,3 +100,122 @@ export async function storageGet(relKey: string): Promise<{ key: string; url: st
     url: await buildDownloadUrl(baseUrl, key, apiKey),
   };
 }
+
+// Pluggable storage backends for document attachments. STORAGE_DRIVER picks
+// one of local (files under STORAGE_DIR), proxy (the storage proxy above)
+// or s3 (S3_BUCKET, with credentials from the usual AWS environment); when
+// unset, the proxy is used if its credentials are configured and the local
+// filesystem otherwise.
+
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+
+export type StorageDriver = "local" | "proxy" | "s3";
+
+export interface StorageBackend {
+  driver: StorageDriver;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+function createLocalStorage(root: string): StorageBackend {
+  const base = path.resolve(root);
+  const resolve = (key: string) => {
+    const file = path.resolve(base, normalizeKey(key));
+    if (!file.startsWith(base + path.sep)) {
+      throw new Error(`Storage key escapes the storage directory: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    driver: "local",
+    async put(key, data) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+    async get(key) {
+      return readFile(resolve(key));
+    },
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
+
+function createProxyStorage(): StorageBackend {
+  return {
+    driver: "proxy",
+    async put(key, data, contentType) {
+      await storagePut(key, data, contentType);
+    },
+    async get(key) {
+      const { url } = await storageGet(key);
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Storage download failed (${response.status} ${response.statusText})`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async delete() {
+      // The proxy has no delete endpoint; the object stays until the proxy expires it
+    },
+  };
+}
+
+function createS3Storage(): StorageBackend {
+  if (!ENV.s3Bucket) {
+    throw new Error("S3 storage needs S3_BUCKET");
+  }
+  const client = new S3Client({
+    region: ENV.s3Region || undefined,
+    endpoint: ENV.s3Endpoint || undefined,
+    forcePathStyle: Boolean(ENV.s3Endpoint),
+  });
+  const Bucket = ENV.s3Bucket;
+
+  return {
+    driver: "s3",
+    async put(key, data, contentType) {
+      await client.send(new PutObjectCommand({ Bucket, Key: normalizeKey(key), Body: data, ContentType: contentType }));
+    },
+    async get(key) {
+      const response = await client.send(new GetObjectCommand({ Bucket, Key: normalizeKey(key) }));
+      if (!response.Body) throw new Error(`Storage object not found: ${key}`);
+      return Buffer.from(await response.Body.transformToByteArray());
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket, Key: normalizeKey(key) }));
+    },
+  };
+}
+
+const backends = new Map<StorageDriver, StorageBackend>();
+
+/**
+ * The storage backend for `driver`, or the configured one. Files are read
+ * back through the driver they were written with, so switching
+ * STORAGE_DRIVER does not orphan earlier uploads.
+ */
+export function getStorage(driver?: string): StorageBackend {
+  const selected = (driver || ENV.storageDriver || (ENV.forgeApiUrl && ENV.forgeApiKey ? "proxy" : "local")) as StorageDriver;
+  if (!backends.has(selected)) {
+    switch (selected) {
+      case "local":
+        backends.set(selected, createLocalStorage(ENV.storageDir));
+        break;
+      case "proxy":
+        backends.set(selected, createProxyStorage());
+        break;
+      case "s3":
+        backends.set(selected, createS3Storage());
+        break;
+      default:
+        throw new Error(`Unknown storage driver "${selected}"; use local, proxy or s3`);
+    }
+  }
+  return backends.get(selected)!;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { diffUnitCostImport, parseUnitCostWorkbook, resolveUnitPrice } from "./unitCosts";
+
+function price(municipality: string | null, effectiveDate: string, amount: string) {
+  return { municipality, effectiveDate: new Date(effectiveDate), price: amount };
+}
+
+describe("resolveUnitPrice", () => {
+  const prices = [
+    price(null, "2026-01-01", "285.00"),
+    price(null, "2026-07-01", "298.00"),
+    price("Cuyo", "2026-01-01", "410.00"),
+    price("Cuyo", "2026-09-01", "435.00"),
+  ];
+
+  it("prefers the municipality's own price in force on the date", () => {
+    expect(resolveUnitPrice(prices, "CUYO", new Date("2026-08-15"))).toEqual({
+      price: 410,
+      effectiveDate: new Date("2026-01-01"),
+      municipality: "Cuyo",
+      isOverride: true,
+    });
+  });
+
+  it("falls back to the latest province-wide price", () => {
+    expect(resolveUnitPrice(prices, "Roxas", new Date("2026-08-15"))).toMatchObject({ price: 298, isOverride: false });
+    expect(resolveUnitPrice(prices, undefined, new Date("2026-03-01"))).toMatchObject({ price: 285 });
+    expect(resolveUnitPrice(prices, "Roxas", new Date("2025-12-31"))).toBeNull();
+  });
+});
+
+function createWorkbook(rows: unknown[][]) {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Prices");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+const workbook = createWorkbook([
+  ["PEO Unit Price Canvass, 1st Semester 2026"],
+  ["Code", "Category", "Description", "Unit", "Unit Price", "Municipality", "Effectivity Date", "Source"],
+  ["MAT-CEM-40", "Materials", "Portland cement, 40kg", "bag", 298, null, 46204, "Canvass"],
+  ["MAT-CEM-40", "Materials", "Portland cement, 40kg", "bag", "435.50", "Cuyo", "2026-07-01", "Canvass"],
+  ["LAB-SKL", "Labour", "Skilled laborer", "day", "1,050", "", "2026-07-01"],
+  ["EQP-DT-10", "Equipment", "Dump truck, 10 cu.m.", "hour", "n/a", null, "2026-07-01"],
+  ["LAB-UNS", "Labor", "Unskilled laborer", "day", 650, null, "2026-07-01"],
+]);
+
+describe("parseUnitCostWorkbook", () => {
+  it("reads prices under the header row and reports unusable rows", () => {
+    const { prices, skipped } = parseUnitCostWorkbook(workbook);
+
+    expect(prices.map(entry => [entry.code, entry.category, entry.price, entry.municipality, entry.effectiveDate])).toEqual([
+      ["MAT-CEM-40", "Material", "298.00", null, "2026-07-01"],
+      ["MAT-CEM-40", "Material", "435.50", "Cuyo", "2026-07-01"],
+      ["LAB-SKL", "Labor", "1050.00", null, "2026-07-01"],
+      ["LAB-UNS", "Labor", "650.00", null, "2026-07-01"],
+    ]);
+    expect(skipped).toEqual([{ row: 6, reason: "EQP-DT-10: invalid price" }]);
+  });
+
+  it("rejects sheets without the required columns", () => {
+    expect(() => parseUnitCostWorkbook(createWorkbook([["Code", "Description", "Price"]]))).toThrow(
+      "Missing column(s): unit, effectiveDate"
+    );
+  });
+});
+
+describe("diffUnitCostImport", () => {
+  it("matches items by code and prices by code, municipality and date", () => {
+    const { prices } = parseUnitCostWorkbook(workbook);
+    const diff = diffUnitCostImport(
+      [
+        { id: 1, code: "MAT-CEM-40", category: "Material", description: "Portland cement, 40kg", unit: "bag" },
+        { id: 2, code: "LAB-SKL", category: "Labor", description: "Skilled worker", unit: "day" },
+      ],
+      [
+        { id: 10, itemId: 1, municipality: null, effectiveDate: new Date("2026-07-01"), price: "298.00" },
+        { id: 11, itemId: 1, municipality: "CUYO", effectiveDate: new Date("2026-07-01"), price: "430.00" },
+      ],
+      [...prices, { ...prices[2], row: 9 }]
+    );
+
+    expect(diff.newItems.map(entry => entry.code)).toEqual(["LAB-UNS"]);
+    expect(diff.changedItems).toEqual([
+      { id: 2, code: "LAB-SKL", changes: { description: { before: "Skilled worker", after: "Skilled laborer" } } },
+    ]);
+    expect(diff.newPrices.map(entry => entry.code)).toEqual(["LAB-SKL", "LAB-UNS"]);
+    expect(diff.changedPrices).toEqual([{ id: 11, entry: prices[1], before: "430.00" }]);
+    expect(diff.unchangedPrices).toBe(1);
+    expect(diff.duplicates).toEqual([9]);
+  });
+});
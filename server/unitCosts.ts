@@ -0,0 +1,263 @@
+import * as XLSX from "xlsx";
+import type { UnitCostItem, UnitPrice } from "../drizzle/schema";
+import { dayKey, toDay } from "./util";
+
+/**
+ * Unit cost library: dated prices of materials, labor and equipment rental.
+ * A price without a municipality is the province-wide base; a municipality
+ * price overrides it there (island municipalities carry much higher haul
+ * costs). The price in force on a date is the latest one effective on or
+ * before it.
+ */
+
+export const UNIT_COST_CATEGORIES = ["Material", "Labor", "Equipment"] as const;
+
+export type UnitCostCategory = (typeof UNIT_COST_CATEGORIES)[number];
+
+type DatedPrice = Pick<UnitPrice, "municipality" | "price" | "effectiveDate">;
+
+export type ResolvedPrice = {
+  price: number;
+  effectiveDate: Date;
+  municipality: string | null;
+  isOverride: boolean;
+};
+
+function sameMunicipality(a: string | null | undefined, b: string | null | undefined) {
+  return (a ?? "").trim().toLowerCase() === (b ?? "").trim().toLowerCase();
+}
+
+function latestEffective<T extends DatedPrice>(prices: T[], asOf: Date) {
+  let latest: T | undefined;
+  for (const price of prices) {
+    if (toDay(price.effectiveDate) > toDay(asOf)) continue;
+    if (!latest || toDay(price.effectiveDate) >= toDay(latest.effectiveDate)) latest = price;
+  }
+  return latest;
+}
+
+/** Price of an item in force on `asOf`: the municipality's own price, else the base price */
+export function resolveUnitPrice(
+  prices: DatedPrice[],
+  municipality?: string | null,
+  asOf = new Date()
+): ResolvedPrice | null {
+  const override = municipality
+    ? latestEffective(prices.filter(price => price.municipality && sameMunicipality(price.municipality, municipality)), asOf)
+    : undefined;
+  const chosen = override ?? latestEffective(prices.filter(price => !price.municipality), asOf);
+  if (!chosen) return null;
+
+  return {
+    price: Number(chosen.price),
+    effectiveDate: new Date(chosen.effectiveDate),
+    municipality: chosen.municipality ?? null,
+    isOverride: Boolean(override),
+  };
+}
+
+export type ParsedUnitPrice = {
+  /** Worksheet row number, for error messages */
+  row: number;
+  code: string;
+  category: UnitCostCategory;
+  description: string;
+  unit: string;
+  price: string;
+  municipality: string | null;
+  /** YYYY-MM-DD */
+  effectiveDate: string;
+  source: string | null;
+};
+
+export type SkippedRow = { row: number; reason: string };
+
+const HEADER_ALIASES: Record<string, keyof Omit<ParsedUnitPrice, "row">> = {
+  code: "code",
+  "item code": "code",
+  category: "category",
+  type: "category",
+  description: "description",
+  item: "description",
+  unit: "unit",
+  price: "price",
+  "unit price": "price",
+  rate: "price",
+  municipality: "municipality",
+  "effective date": "effectiveDate",
+  "effectivity date": "effectiveDate",
+  effectivity: "effectiveDate",
+  source: "source",
+};
+
+function cellText(value: unknown) {
+  return value === undefined || value === null ? "" : String(value).trim();
+}
+
+function parseCategory(value: string): UnitCostCategory | null {
+  const text = value.toLowerCase();
+  if (text.startsWith("material")) return "Material";
+  if (text.startsWith("labor") || text.startsWith("labour")) return "Labor";
+  if (text.startsWith("equipment")) return "Equipment";
+  return null;
+}
+
+/** Excel serial dates, Date cells and date strings, as YYYY-MM-DD */
+function parseDate(value: unknown) {
+  if (typeof value === "number") {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (!parsed) return null;
+    return `${parsed.y}-${String(parsed.m).padStart(2, "0")}-${String(parsed.d).padStart(2, "0")}`;
+  }
+  const text = cellText(value);
+  if (!text) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const date = new Date(text);
+  if (isNaN(date.getTime())) return null;
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Read prices from a workbook laid out one price per row under a header row
+ * naming the columns (Code, Category, Description, Unit, Price, Municipality,
+ * Effective Date, Source). Municipality may be blank for the base price.
+ * Rows that cannot be used are returned with the reason instead of failing
+ * the whole file.
+ */
+export function parseUnitCostWorkbook(data: Buffer | ArrayBuffer, sheetName?: string) {
+  const workbook = XLSX.read(data, { type: "buffer" });
+  const name = sheetName ?? workbook.SheetNames[0];
+  const sheet = workbook.Sheets[name];
+  if (!sheet) throw new Error(`Sheet "${name}" not found in workbook`);
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 });
+  const headerIndex = rows.findIndex(row => Array.isArray(row) && row.some(cell => cellText(cell).toLowerCase() === "code"));
+  if (headerIndex < 0) throw new Error("No header row with a Code column found");
+
+  const columns = new Map<keyof Omit<ParsedUnitPrice, "row">, number>();
+  rows[headerIndex].forEach((cell, index) => {
+    const field = HEADER_ALIASES[cellText(cell).toLowerCase()];
+    if (field && !columns.has(field)) columns.set(field, index);
+  });
+  const missing = (["code", "description", "unit", "price", "effectiveDate"] as const).filter(field => !columns.has(field));
+  if (missing.length > 0) throw new Error(`Missing column(s): ${missing.join(", ")}`);
+
+  const prices: ParsedUnitPrice[] = [];
+  const skipped: SkippedRow[] = [];
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const rowNumber = headerIndex + offset + 2;
+    const get = (field: keyof Omit<ParsedUnitPrice, "row">) => {
+      const index = columns.get(field);
+      return index === undefined ? undefined : row?.[index];
+    };
+
+    const code = cellText(get("code"));
+    if (!code) return;
+
+    const category = parseCategory(cellText(get("category")));
+    const price = Number(cellText(get("price")).replace(/,/g, ""));
+    const effectiveDate = parseDate(get("effectiveDate"));
+    const reasons = [
+      !category && "unknown category",
+      !cellText(get("description")) && "no description",
+      !cellText(get("unit")) && "no unit",
+      !(cellText(get("price")) && isFinite(price) && price >= 0) && "invalid price",
+      !effectiveDate && "invalid effective date",
+    ].filter(Boolean);
+    if (reasons.length > 0) {
+      skipped.push({ row: rowNumber, reason: `${code}: ${reasons.join(", ")}` });
+      return;
+    }
+
+    prices.push({
+      row: rowNumber,
+      code,
+      category: category!,
+      description: cellText(get("description")),
+      unit: cellText(get("unit")),
+      price: price.toFixed(2),
+      municipality: cellText(get("municipality")) || null,
+      effectiveDate: effectiveDate!,
+      source: cellText(get("source")) || null,
+    });
+  });
+
+  return { prices, skipped };
+}
+
+export type UnitCostImportDiff = {
+  /** Codes not yet in the library, with the first row describing each */
+  newItems: ParsedUnitPrice[];
+  changedItems: { id: number; code: string; changes: Record<string, { before: unknown; after: unknown }> }[];
+  newPrices: ParsedUnitPrice[];
+  changedPrices: { id: number; entry: ParsedUnitPrice; before: string }[];
+  unchangedPrices: number;
+  /** Rows repeating a code, municipality and date already seen; only the first is used */
+  duplicates: number[];
+};
+
+const ITEM_FIELDS = ["category", "description", "unit"] as const;
+
+function priceKey(code: string, municipality: string | null, effectiveDate: string | Date) {
+  return `${code}|${(municipality ?? "").trim().toLowerCase()}|${dayKey(effectiveDate)}`;
+}
+
+/**
+ * Compare parsed rows against the library by item code, and prices by code,
+ * municipality and effective date. Existing prices are never deleted.
+ */
+export function diffUnitCostImport(
+  items: Pick<UnitCostItem, "id" | "code" | (typeof ITEM_FIELDS)[number]>[],
+  prices: Pick<UnitPrice, "id" | "itemId" | "municipality" | "effectiveDate" | "price">[],
+  parsed: ParsedUnitPrice[]
+): UnitCostImportDiff {
+  const itemsByCode = new Map(items.map(item => [item.code, item]));
+  const codesById = new Map(items.map(item => [item.id, item.code]));
+  const pricesByKey = new Map(
+    prices
+      .filter(price => codesById.has(price.itemId))
+      .map(price => [priceKey(codesById.get(price.itemId)!, price.municipality, price.effectiveDate), price])
+  );
+
+  const diff: UnitCostImportDiff = {
+    newItems: [],
+    changedItems: [],
+    newPrices: [],
+    changedPrices: [],
+    unchangedPrices: 0,
+    duplicates: [],
+  };
+  const seenCodes = new Set<string>();
+  const seenKeys = new Set<string>();
+
+  for (const entry of parsed) {
+    const key = priceKey(entry.code, entry.municipality, entry.effectiveDate);
+    if (seenKeys.has(key)) {
+      diff.duplicates.push(entry.row);
+      continue;
+    }
+    seenKeys.add(key);
+
+    const item = itemsByCode.get(entry.code);
+    if (!seenCodes.has(entry.code)) {
+      seenCodes.add(entry.code);
+      if (!item) {
+        diff.newItems.push(entry);
+      } else {
+        const changes: Record<string, { before: unknown; after: unknown }> = {};
+        for (const field of ITEM_FIELDS) {
+          if (String(item[field]).trim() !== entry[field]) changes[field] = { before: item[field], after: entry[field] };
+        }
+        if (Object.keys(changes).length > 0) diff.changedItems.push({ id: item.id, code: entry.code, changes });
+      }
+    }
+
+    const existing = pricesByKey.get(key);
+    if (!existing) diff.newPrices.push(entry);
+    else if (Number(existing.price) !== Number(entry.price)) diff.changedPrices.push({ id: existing.id, entry, before: existing.price });
+    else diff.unchangedPrices++;
+  }
+
+  return diff;
+}
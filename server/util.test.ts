@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { dayKey, daysBetween, round, toDay } from "./util";
+
+describe("round", () => {
+  it("rounds to two decimals unless told otherwise", () => {
+    expect(round(1234.5678)).toBe(1234.57);
+    expect(round(12.34567, 3)).toBe(12.346);
+  });
+});
+
+describe("calendar days", () => {
+  it("drops the time of day", () => {
+    expect(toDay("2026-03-01T17:45:00Z")).toBe(Date.UTC(2026, 2, 1));
+    expect(dayKey(new Date("2026-03-01T17:45:00Z"))).toBe("2026-03-01");
+  });
+
+  it("counts whole days between dates", () => {
+    expect(daysBetween("2026-02-27T23:00:00Z", "2026-03-02T01:00:00Z")).toBe(3);
+    expect(daysBetween("2026-03-02", "2026-02-27")).toBe(-3);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Date and number helpers shared by the server modules. Calendar days are
+ * counted in UTC since dates are stored as UTC midnight.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Round to `places` decimals: 2 for amounts and percentages, 3 for kilometres, 1 for elapsed days */
+export function round(value: number, places = 2) {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/** UTC midnight of the date's calendar day, in milliseconds */
+export function toDay(date: Date | string) {
+  const value = new Date(date);
+  return Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate());
+}
+
+/** Calendar day as YYYY-MM-DD, for messages and comparing days as keys */
+export function dayKey(date: Date | string) {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/** Whole calendar days from `from` to `to`, negative when `to` is earlier */
+export function daysBetween(from: Date | string, to: Date | string) {
+  return Math.round((toDay(to) - toDay(from)) / DAY_MS);
+}
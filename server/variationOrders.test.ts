@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  VO_APPROVAL_CHAIN,
+  assertCanActOnStep,
+  assertDraft,
+  assertWithinCap,
+  checkVariationCap,
+  planApprovalAction,
+  summarizeLineItems,
+} from "./variationOrders";
+
+describe("summarizeLineItems", () => {
+  it("totals additions and deductions separately", () => {
+    expect(
+      summarizeLineItems([
+        { changeType: "Addition", quantity: 120.5, unitPrice: 1850 },
+        { changeType: "Addition", quantity: 3, unitPrice: 12500.75 },
+        { changeType: "Deduction", quantity: 40, unitPrice: 950 },
+      ])
+    ).toEqual({ additiveAmount: 260427.25, deductiveAmount: 38000, netAmount: 222427.25 });
+  });
+});
+
+describe("checkVariationCap", () => {
+  it("counts approved additive VOs plus the pending one against 10% of the contract", () => {
+    const cap = checkVariationCap(5_000_000, [{ additiveAmount: "200000.00" }, { additiveAmount: "150000.00" }], 100_000);
+
+    expect(cap).toEqual({
+      originalAmount: 5_000_000,
+      cumulativeAdditive: 450_000,
+      cumulativePercent: 9,
+      capPercent: 10,
+      remaining: 50_000,
+      exceeded: false,
+    });
+  });
+
+  it("refuses to go over the cap", () => {
+    const cap = checkVariationCap(5_000_000, [{ additiveAmount: "450000.00" }], 80_000);
+
+    expect(cap.exceeded).toBe(true);
+    expect(() => assertWithinCap(cap)).toThrow(
+      "Cumulative additive variation orders would reach 10.6% of the original contract price, above the 10% cap"
+    );
+  });
+});
+
+describe("planApprovalAction", () => {
+  const submitted = { voNumber: 2, status: "Submitted" as const, currentStep: 0 };
+
+  it("walks the approval chain and approves at the last step", () => {
+    expect(planApprovalAction(submitted, "Approved")).toEqual({
+      step: 0,
+      stepTitle: VO_APPROVAL_CHAIN[0],
+      finalApproval: false,
+      status: "Submitted",
+      currentStep: 1,
+    });
+
+    const last = planApprovalAction({ ...submitted, currentStep: VO_APPROVAL_CHAIN.length - 1 }, "Approved");
+    expect(last.finalApproval).toBe(true);
+    expect(last.status).toBe("Approved");
+  });
+
+  it("ends the chain on rejection and only acts on submitted VOs", () => {
+    expect(planApprovalAction({ ...submitted, currentStep: 1 }, "Rejected")).toMatchObject({
+      stepTitle: VO_APPROVAL_CHAIN[1],
+      status: "Rejected",
+      currentStep: 1,
+    });
+    expect(() => planApprovalAction({ ...submitted, status: "Draft" }, "Approved")).toThrow(
+      "VO No. 2 is Draft, not awaiting approval"
+    );
+  });
+});
+
+describe("assertCanActOnStep", () => {
+  const engineer = { id: 3, role: "user" as const, division: "Construction" as const, isDivisionHead: false };
+  const chief = { id: 4, role: "user" as const, division: "Construction" as const, isDivisionHead: true };
+  const planningHead = { id: 5, role: "user" as const, division: "Planning" as const, isDivisionHead: true };
+  const admin = { id: 1, role: "admin" as const, division: null, isDivisionHead: false };
+  const order = (currentStep: number, approverIds: number[] = []) => ({
+    voNumber: 2,
+    currentStep,
+    approvals: approverIds.map(approverId => ({ approverId, action: "Approved" as const })),
+  });
+
+  it("limits each step to the position that holds it", () => {
+    expect(() => assertCanActOnStep(order(0), engineer)).not.toThrow();
+    expect(() => assertCanActOnStep(order(1, [3]), engineer)).toThrow("VO No. 2 is awaiting the Chief, Construction Division");
+    expect(() => assertCanActOnStep(order(1, [3]), planningHead)).toThrow("awaiting the Chief, Construction Division");
+    expect(() => assertCanActOnStep(order(1, [3]), chief)).not.toThrow();
+    expect(() => assertCanActOnStep(order(2, [3, 4]), chief)).toThrow("VO No. 2 is awaiting the Provincial Engineer");
+    expect(() => assertCanActOnStep(order(2, [3, 4]), admin)).not.toThrow();
+  });
+
+  it("refuses the same person approving twice", () => {
+    expect(() => assertCanActOnStep(order(1, [4]), chief)).toThrow("You already approved VO No. 2");
+    expect(() => assertCanActOnStep(order(2, [1, 4]), admin)).toThrow("You already approved VO No. 2");
+  });
+});
+
+describe("assertDraft", () => {
+  it("locks VOs once submitted", () => {
+    expect(() => assertDraft({ voNumber: 1, status: "Draft" })).not.toThrow();
+    expect(() => assertDraft({ voNumber: 1, status: "Approved" })).toThrow("VO No. 1 is Approved and can no longer be changed");
+  });
+});
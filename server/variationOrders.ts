@@ -0,0 +1,160 @@
+import { TRPCError } from "@trpc/server";
+import type { Project, User, VariationOrder, VariationOrderApproval, VariationOrderItem } from "../drizzle/schema";
+import { round } from "./util";
+
+/**
+ * Variation order rules. Under RA 9184 (IRR Annex E) the cumulative amount of
+ * additive variation orders may not exceed 10% of the original contract price;
+ * deductive items do not offset that cap.
+ */
+
+/** Approvers a VO passes through, in order */
+export const VO_APPROVAL_CHAIN = ["Project Engineer", "Chief, Construction Division", "Provincial Engineer"] as const;
+
+type Approver = Pick<User, "id" | "role" | "division" | "isDivisionHead">;
+
+/**
+ * Who may act at each step of the chain. Project staff act as the project
+ * engineer, the Construction division head as its chief, and an admin as
+ * the Provincial Engineer.
+ */
+const VO_STEP_APPROVERS: Record<(typeof VO_APPROVAL_CHAIN)[number], (user: Approver) => boolean> = {
+  "Project Engineer": () => true,
+  "Chief, Construction Division": user => user.role === "admin" || (user.division === "Construction" && !!user.isDivisionHead),
+  "Provincial Engineer": user => user.role === "admin",
+};
+
+/** Allowable cumulative additive VOs as a percentage of the original contract price */
+export const VO_CAP_PERCENT = 10;
+
+export type LineItemInput = Pick<VariationOrderItem, "changeType"> & { quantity: number; unitPrice: number };
+
+export type VariationCap = {
+  originalAmount: number;
+  cumulativeAdditive: number;
+  cumulativePercent: number;
+  capPercent: number;
+  remaining: number;
+  exceeded: boolean;
+};
+
+export function lineItemAmount(item: Pick<LineItemInput, "quantity" | "unitPrice">) {
+  return round(item.quantity * item.unitPrice);
+}
+
+/** Additive, deductive and net totals of a VO's line items */
+export function summarizeLineItems(items: LineItemInput[]) {
+  let additiveAmount = 0;
+  let deductiveAmount = 0;
+  for (const item of items) {
+    if (item.changeType === "Addition") additiveAmount += lineItemAmount(item);
+    else deductiveAmount += lineItemAmount(item);
+  }
+  return {
+    additiveAmount: round(additiveAmount),
+    deductiveAmount: round(deductiveAmount),
+    netAmount: round(additiveAmount - deductiveAmount),
+  };
+}
+
+/** The cap is measured against the contract cost awarded at NTP */
+export function originalContractAmount(project: Pick<Project, "contractCost"> | null | undefined) {
+  const amount = Number(project?.contractCost ?? 0);
+  if (!amount) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Project has no contract cost to check variation orders against" });
+  }
+  return amount;
+}
+
+/**
+ * Cumulative additive VOs against the cap: the approved ones plus
+ * `pendingAdditive` for a VO still on its way through approval.
+ */
+export function checkVariationCap(
+  originalAmount: number,
+  approved: Pick<VariationOrder, "additiveAmount">[],
+  pendingAdditive = 0
+): VariationCap {
+  const cumulativeAdditive = round(
+    approved.reduce((sum, order) => sum + Number(order.additiveAmount), 0) + pendingAdditive
+  );
+  const limit = (originalAmount * VO_CAP_PERCENT) / 100;
+  return {
+    originalAmount,
+    cumulativeAdditive,
+    cumulativePercent: originalAmount > 0 ? round((cumulativeAdditive / originalAmount) * 100) : 0,
+    capPercent: VO_CAP_PERCENT,
+    remaining: round(limit - cumulativeAdditive),
+    exceeded: cumulativeAdditive > limit,
+  };
+}
+
+export function assertWithinCap(cap: VariationCap) {
+  if (cap.exceeded) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `Cumulative additive variation orders would reach ${cap.cumulativePercent}% of the original contract price, above the ${cap.capPercent}% cap`,
+    });
+  }
+}
+
+/** Line items can only change while the VO is still a draft */
+export function assertDraft(order: Pick<VariationOrder, "voNumber" | "status">) {
+  if (order.status !== "Draft") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `VO No. ${order.voNumber} is ${order.status} and can no longer be changed`,
+    });
+  }
+}
+
+/**
+ * Next state of a submitted VO after the current approver acts. Approval at
+ * the last step of the chain approves the VO; a rejection at any step ends it.
+ */
+export function planApprovalAction(
+  order: Pick<VariationOrder, "voNumber" | "status" | "currentStep">,
+  action: "Approved" | "Rejected"
+) {
+  if (order.status !== "Submitted") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `VO No. ${order.voNumber} is ${order.status}, not awaiting approval`,
+    });
+  }
+
+  const step = order.currentStep;
+  const stepTitle = VO_APPROVAL_CHAIN[step];
+  const finalApproval = action === "Approved" && step === VO_APPROVAL_CHAIN.length - 1;
+
+  return {
+    step,
+    stepTitle,
+    finalApproval,
+    status: action === "Rejected" ? ("Rejected" as const) : finalApproval ? ("Approved" as const) : ("Submitted" as const),
+    currentStep: action === "Approved" && !finalApproval ? step + 1 : step,
+  };
+}
+
+/**
+ * Refuse an approver who does not hold the current step's position, or who
+ * already approved an earlier step of the same VO.
+ */
+export function assertCanActOnStep(
+  order: Pick<VariationOrder, "voNumber" | "currentStep"> & { approvals: Pick<VariationOrderApproval, "approverId" | "action">[] },
+  user: Approver
+) {
+  const stepTitle = VO_APPROVAL_CHAIN[order.currentStep];
+  if (stepTitle && !VO_STEP_APPROVERS[stepTitle](user)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `VO No. ${order.voNumber} is awaiting the ${stepTitle}`,
+    });
+  }
+  if (order.approvals.some(approval => approval.action === "Approved" && approval.approverId === user.id)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `You already approved VO No. ${order.voNumber}; the next step needs a different approver`,
+    });
+  }
+}